@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Fake Network Printer
+ * Listens on a raw TCP port like an ESC/POS printer (JetDirect, port 9100) and prints
+ * each received job as text so kitchen chits and receipts can be checked without hardware.
+ *
+ * Usage: node scripts/fake-printer.js [port] [--hex] [--out <dir>]
+ * Then add a printer in the admin with host 127.0.0.1 and the same port.
+ */
+
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+const colors = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+};
+
+function log(message, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => /^\d+$/.test(arg))) || 9100;
+const showHex = args.includes('--hex');
+const outIndex = args.indexOf('--out');
+const outDir = outIndex >= 0 ? args[outIndex + 1] : null;
+
+/**
+ * Render ESC/POS bytes as readable text, showing commands as tags
+ */
+function describeJob(buffer) {
+  let text = '';
+  let i = 0;
+
+  while (i < buffer.length) {
+    const byte = buffer[i];
+
+    if (byte === 0x1b) { // ESC
+      const command = buffer[i + 1];
+      if (command === 0x40) { text += '[INIT]'; i += 2; continue; }
+      if (command === 0x61) { text += ['[LEFT]', '[CENTER]', '[RIGHT]'][buffer[i + 2]] || '[ALIGN]'; i += 3; continue; }
+      if (command === 0x45) { text += buffer[i + 2] ? '[B]' : '[/B]'; i += 3; continue; }
+      text += `[ESC ${command}]`;
+      i += 2;
+      continue;
+    }
+
+    if (byte === 0x1d) { // GS
+      const command = buffer[i + 1];
+      if (command === 0x21) { text += buffer[i + 2] ? '[BIG]' : '[/BIG]'; i += 3; continue; }
+      if (command === 0x56) { text += '\n[CUT]'; i += buffer[i + 2] >= 65 ? 4 : 3; continue; }
+      text += `[GS ${command}]`;
+      i += 2;
+      continue;
+    }
+
+    text += byte === 0x0a || (byte >= 0x20 && byte < 0x7f) ? String.fromCharCode(byte) : `[${byte}]`;
+    i++;
+  }
+
+  return text;
+}
+
+let jobCount = 0;
+
+const server = net.createServer(socket => {
+  const chunks = [];
+  const client = `${socket.remoteAddress}:${socket.remotePort}`;
+
+  socket.on('data', chunk => chunks.push(chunk));
+  socket.on('error', err => log(`❌ ${client}: ${err.message}`, colors.red));
+  socket.on('end', () => {
+    const job = Buffer.concat(chunks);
+    jobCount++;
+
+    log(`\n🖨️  Job ${jobCount} from ${client} (${job.length} bytes)`, colors.bold);
+    log(describeJob(job), colors.green);
+
+    if (showHex) {
+      log(job.toString('hex').replace(/(.{2})/g, '$1 '), colors.blue);
+    }
+
+    if (outDir) {
+      fs.mkdirSync(outDir, { recursive: true });
+      const file = path.join(outDir, `job-${Date.now()}-${jobCount}.bin`);
+      fs.writeFileSync(file, job);
+      log(`💾 Saved ${file}`, colors.blue);
+    }
+  });
+});
+
+server.on('error', err => {
+  log(`❌ Fake printer failed: ${err.message}`, colors.red);
+  process.exit(1);
+});
+
+server.listen(port, () => {
+  log(`ℹ️  Fake printer listening on port ${port} (Ctrl+C to stop)`, colors.blue);
+});
+
+process.on('SIGINT', () => {
+  log(`\nℹ️  Received ${jobCount} job(s), shutting down`, colors.blue);
+  server.close(() => process.exit(0));
+});
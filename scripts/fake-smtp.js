@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Fake SMTP Server
+ * Accepts mail like an SMTP relay and prints each message (headers plus decoded text part) so
+ * receipt emails can be checked without a mail server. Can simulate failures to exercise retries.
+ *
+ * Usage: node scripts/fake-smtp.js [port] [--out <dir>] [--fail <n>] [--reject]
+ *   --fail <n>  answer the first n messages with 451 (transient) before accepting
+ *   --reject    answer every RCPT TO with 550 (permanent)
+ * Then run the app with SMTP_HOST=127.0.0.1 SMTP_PORT=<port>.
+ */
+
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+const colors = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+};
+
+function log(message, color = colors.reset) {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => /^\d+$/.test(arg))) || 2525;
+const outIndex = args.indexOf('--out');
+const outDir = outIndex >= 0 ? args[outIndex + 1] : null;
+const failIndex = args.indexOf('--fail');
+let failuresLeft = failIndex >= 0 ? Number(args[failIndex + 1]) || 0 : 0;
+const rejectAll = args.includes('--reject');
+
+/**
+ * Headers plus the decoded text/plain part of a MIME message
+ */
+function describeMessage(raw) {
+  const [head] = raw.split('\r\n\r\n');
+  const headers = head.split('\r\n').filter(line => /^(From|To|Subject|Date|Message-ID|Content-Type):/i.test(line));
+
+  const textPart = raw.match(/Content-Type: text\/plain[^\r]*\r\nContent-Transfer-Encoding: base64\r\n\r\n([A-Za-z0-9+/=\r\n]+?)(?:\r\n--|$)/);
+  const text = textPart ? Buffer.from(textPart[1].replace(/\r\n/g, ''), 'base64').toString('utf8') : '(no base64 text/plain part)';
+  const hasHtml = /Content-Type: text\/html/.test(raw);
+
+  return `${headers.join('\n')}\n${hasHtml ? '[text/html part present]\n' : ''}\n${text}`;
+}
+
+let messageCount = 0;
+
+const server = net.createServer(socket => {
+  const client = `${socket.remoteAddress}:${socket.remotePort}`;
+  let buffer = '';
+  let inData = false;
+  let data = [];
+  let envelope = { from: null, to: [] };
+
+  const reply = line => socket.write(`${line}\r\n`);
+
+  reply('220 fake-smtp ESMTP ready');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          const raw = data.join('\r\n');
+          data = [];
+
+          if (failuresLeft > 0) {
+            failuresLeft--;
+            log(`⚠️  ${client}: answering 451 (${failuresLeft} simulated failure(s) left)`, colors.yellow);
+            reply('451 4.3.0 Simulated temporary failure');
+            continue;
+          }
+
+          messageCount++;
+          log(`\n📧 Message ${messageCount} from ${client}: ${envelope.from} -> ${envelope.to.join(', ')}`, colors.bold);
+          log(describeMessage(raw), colors.green);
+
+          if (outDir) {
+            fs.mkdirSync(outDir, { recursive: true });
+            const file = path.join(outDir, `message-${Date.now()}-${messageCount}.eml`);
+            fs.writeFileSync(file, raw);
+            log(`💾 Saved ${file}`, colors.blue);
+          }
+
+          reply(`250 2.0.0 Ok: queued as ${messageCount}`);
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO') {
+        socket.write('250-fake-smtp\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+      } else if (command === 'HELO') {
+        reply('250 fake-smtp');
+      } else if (command === 'AUTH') {
+        reply('235 2.7.0 Authentication successful');
+      } else if (command === 'MAIL') {
+        envelope = { from: line.slice(10).trim(), to: [] };
+        reply('250 2.1.0 Ok');
+      } else if (command === 'RCPT') {
+        if (rejectAll) {
+          reply('550 5.1.1 Simulated unknown recipient');
+        } else {
+          envelope.to.push(line.slice(8).trim());
+          reply('250 2.1.5 Ok');
+        }
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET' || command === 'NOOP') {
+        reply('250 2.0.0 Ok');
+      } else if (command === 'QUIT') {
+        reply('221 2.0.0 Bye');
+        socket.end();
+      } else {
+        reply('502 5.5.2 Command not recognised');
+      }
+    }
+  });
+
+  socket.on('error', err => log(`❌ ${client}: ${err.message}`, colors.red));
+});
+
+server.on('error', err => {
+  log(`❌ Fake SMTP server failed: ${err.message}`, colors.red);
+  process.exit(1);
+});
+
+server.listen(port, () => {
+  log(`ℹ️  Fake SMTP server listening on port ${port} (Ctrl+C to stop)`, colors.blue);
+});
+
+process.on('SIGINT', () => {
+  log(`\nℹ️  Received ${messageCount} message(s), shutting down`, colors.blue);
+  server.close(() => process.exit(0));
+});
@@ -12,7 +12,8 @@ import {
   BarChart3, 
   Clock,
   Bell,
-  QrCode
+  QrCode,
+  MessageSquare
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { handleError } from '@/lib/error-handling';
@@ -165,6 +166,7 @@ export default function DynamicAdminLayout({ children }: DynamicAdminLayoutProps
     { name: 'Staff Management', href: '/admin/staff', icon: Users, current: pathname === '/admin/staff' },
     { name: 'QR Codes', href: '/admin/qr-codes', icon: QrCode, current: pathname === '/admin/qr-codes' },
     { name: 'Analytics', href: '/admin/analytics', icon: BarChart3, current: pathname === '/admin/analytics' },
+    { name: 'Feedback', href: '/admin/feedback', icon: MessageSquare, current: pathname === '/admin/feedback' },
     { name: 'Settings', href: '/admin/settings', icon: Settings, current: pathname === '/admin/settings' },
   ];
 
@@ -14,7 +14,8 @@ import {
   Bell,
   QrCode,
   Shield,
-  CreditCard
+  CreditCard,
+  MessageSquare
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { handleError } from '@/lib/error-handling';
@@ -171,6 +172,7 @@ export default function DynamicAdminLayout({ children }: DynamicAdminLayoutProps
     { name: 'Menu Management', href: '/admin/menu', icon: Menu, current: pathname === '/admin/menu' },
     { name: 'Staff Management', href: '/admin/staff', icon: Users, current: pathname === '/admin/staff' },
     { name: 'Payments', href: '/admin/payments', icon: CreditCard, current: pathname === '/admin/payments' },
+    { name: 'Feedback', href: '/admin/feedback', icon: MessageSquare, current: pathname === '/admin/feedback' },
     { name: 'QR Codes', href: '/admin/qr-codes', icon: QrCode, current: pathname === '/admin/qr-codes' },
     { name: 'Audit Logs', href: '/admin/audit', icon: Shield, current: pathname === '/admin/audit' },
     { name: 'Settings', href: '/admin/settings', icon: Settings, current: pathname === '/admin/settings' },
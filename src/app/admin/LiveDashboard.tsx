@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
 import { 
   DollarSign, 
   Users, 
@@ -61,14 +62,17 @@ export default function LiveDashboard() {
 
   useEffect(() => {
     fetchLiveData();
-    // Refresh every 30 seconds for real-time updates
-    const interval = setInterval(fetchLiveData, 30000);
-    return () => clearInterval(interval);
   }, []);
 
-  const fetchLiveData = async () => {
+  // Kitchen, table and payment changes are pushed; refresh quietly when they arrive
+  useRealtimeEvents({
+    types: ['notification', 'order_status', 'payment'],
+    refresh: () => fetchLiveData(true)
+  });
+
+  const fetchLiveData = async (silent = false) => {
     try {
-      setIsLoading(true);
+      if (!silent) setIsLoading(true);
       
       // Fetch tables status
       const { data: tablesData, error: tablesError } = await supabase
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { SOLD_ORDER_STATUSES } from '@/lib/order-statuses';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -110,6 +111,7 @@ export default function AnalyticsPage() {
           quantity,
           menu_items (name, price)
         `)
+        .in('status', SOLD_ORDER_STATUSES)
         .gte('created_at', startDate.toISOString())
         .lte('created_at', endDate.toISOString());
 
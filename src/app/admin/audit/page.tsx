@@ -37,6 +37,9 @@ const actionIcons: Record<string, any> = {
   'pin_generation': Shield,
   'order_status_change': Info,
   'payment_processing': CheckCircle,
+  'payment_refund': AlertTriangle,
+  'cash_paid_out': Info,
+  'cash_drawer_close': CheckCircle,
   'session_creation': Clock,
   'session_completion': CheckCircle,
   'system_configuration_change': Settings
@@ -50,6 +53,9 @@ const actionColors: Record<string, string> = {
   'pin_generation': 'text-purple-600',
   'order_status_change': 'text-yellow-600',
   'payment_processing': 'text-green-600',
+  'payment_refund': 'text-red-600',
+  'cash_paid_out': 'text-orange-600',
+  'cash_drawer_close': 'text-blue-600',
   'session_creation': 'text-blue-600',
   'session_completion': 'text-green-600',
   'system_configuration_change': 'text-gray-600'
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
 import { 
   DollarSign, 
   Users, 
@@ -57,14 +58,17 @@ export default function AdminDashboard() {
 
   useEffect(() => {
     fetchDashboardData();
-    // Refresh every 30 seconds for real-time updates
-    const interval = setInterval(fetchDashboardData, 30000);
-    return () => clearInterval(interval);
   }, []);
 
-  const fetchDashboardData = async () => {
+  // Table, order and payment changes are pushed; refresh quietly when they arrive
+  useRealtimeEvents({
+    types: ['order_status', 'payment'],
+    refresh: () => fetchDashboardData(true)
+  });
+
+  const fetchDashboardData = async (silent = false) => {
     try {
-      setIsLoading(true);
+      if (!silent) setIsLoading(true);
       
       // Fetch tables
       const { data: tablesData, error: tablesError } = await supabase
@@ -202,6 +206,7 @@ export default function AdminDashboard() {
     const confirmed = window.confirm(
       '⚠️ DAILY RESET CONFIRMATION ⚠️\n\n' +
       'This will:\n' +
+      '• Issue the end-of-day Z-report\n' +
       '• End all active sessions\n' +
       '• Mark all tables as available\n' +
       '• Clear old cart items\n' +
@@ -230,7 +235,8 @@ export default function AdminDashboard() {
       const data = await response.json();
 
       if (response.ok) {
-        setResetMessage(`✅ Daily reset completed successfully! Reset ${data.data.sessions_reset} sessions.`);
+        const zNumbers = (data.data.z_reports || []).map((report: { z_number: string }) => report.z_number).join(', ');
+        setResetMessage(`✅ Daily reset completed successfully! Reset ${data.data.sessions_reset} sessions.${zNumbers ? ` Issued ${zNumbers}.` : ''}`);
         
         // Refresh the dashboard data
         await fetchDashboardData();
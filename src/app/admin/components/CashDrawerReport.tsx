@@ -0,0 +1,436 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+// Icon imports
+import { Banknote, Plus, MinusCircle, Calculator } from 'lucide-react';
+
+// Component imports
+import CashUpModal, { CashDrawerReportRow } from './CashUpModal';
+
+interface CashDrawerReportProps {
+  refreshKey?: number; // bump to reload, e.g. after a cash refund
+}
+
+interface StaffOption {
+  id: string;
+  staff_id: string;
+  name: string;
+}
+
+// Drawers are per restaurant; the logged-in manager's restaurant is used when known
+const getRestaurantId = (): string | null => {
+  const savedManager = localStorage.getItem('manager');
+  return savedManager ? JSON.parse(savedManager).restaurantId || null : null;
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const formatCurrency = (amount: number) => `${amount < 0 ? '-' : ''}P${Math.abs(amount).toFixed(2)}`;
+
+const varianceClass = (variance: number) =>
+  variance < 0 ? 'text-red-600' : variance > 0 ? 'text-orange-600' : 'text-green-600';
+
+export default function CashDrawerReport({ refreshKey }: CashDrawerReportProps) {
+  const [drawers, setDrawers] = useState<CashDrawerReportRow[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [denominations, setDenominations] = useState<number[]>([]);
+  const [days, setDays] = useState(7);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Open drawer form
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [terminal, setTerminal] = useState('');
+  const [staffId, setStaffId] = useState('');
+  const [staffName, setStaffName] = useState('');
+  const [openingFloat, setOpeningFloat] = useState('');
+
+  // Paid-out form, for one drawer at a time
+  const [paidOutDrawerId, setPaidOutDrawerId] = useState<string | null>(null);
+  const [paidOutAmount, setPaidOutAmount] = useState('');
+  const [paidOutReason, setPaidOutReason] = useState('');
+
+  const [cashUpDrawer, setCashUpDrawer] = useState<CashDrawerReportRow | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchDrawers = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const restaurantId = getRestaurantId();
+      const params = new URLSearchParams({ days: String(days) });
+      if (restaurantId) params.set('restaurantId', restaurantId);
+
+      const response = await fetch(`/api/admin/cash-drawers?${params.toString()}`, {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load cash drawers');
+      }
+
+      setDrawers(data.data.drawers);
+      setStaff(data.data.staff);
+      setDenominations(data.data.denominations);
+    } catch (error) {
+      console.error('Error fetching cash drawers:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load cash drawers');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDrawers();
+  }, [days, refreshKey]);
+
+  const openDrawer = async () => {
+    const name = staffId ? staff.find(member => member.id === staffId)?.name || '' : staffName.trim();
+    if (!terminal.trim() || !name) {
+      setError('Terminal and staff member are required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/cash-drawers', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          restaurantId: getRestaurantId() || undefined,
+          terminal: terminal.trim(),
+          staffId: staffId || null,
+          staffName: name,
+          openingFloat: parseFloat(openingFloat) || 0
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to open cash drawer');
+      }
+
+      setShowOpenForm(false);
+      setTerminal('');
+      setStaffId('');
+      setStaffName('');
+      setOpeningFloat('');
+      await fetchDrawers();
+    } catch (error) {
+      console.error('Error opening cash drawer:', error);
+      setError(error instanceof Error ? error.message : 'Failed to open cash drawer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const recordPaidOut = async () => {
+    if (!paidOutDrawerId) return;
+    if (!(parseFloat(paidOutAmount) > 0) || !paidOutReason.trim()) {
+      setError('A paid-out needs an amount and a reason');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/cash-drawers/paid-outs', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          drawerId: paidOutDrawerId,
+          amount: parseFloat(paidOutAmount),
+          reason: paidOutReason.trim()
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to record paid-out');
+      }
+
+      setPaidOutDrawerId(null);
+      setPaidOutAmount('');
+      setPaidOutReason('');
+      await fetchDrawers();
+    } catch (error) {
+      console.error('Error recording paid-out:', error);
+      setError(error instanceof Error ? error.message : 'Failed to record paid-out');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openDrawers = drawers.filter(drawer => drawer.status === 'open');
+  const closedDrawers = drawers.filter(drawer => drawer.status === 'closed');
+  const totalVariance = closedDrawers.reduce((sum, drawer) => sum + (drawer.variance || 0), 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Banknote className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Cash Drawers</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff]"
+          >
+            <option value={1}>Last 24 Hours</option>
+            <option value={7}>Last 7 Days</option>
+            <option value={30}>Last 30 Days</option>
+          </select>
+          <button
+            onClick={() => setShowOpenForm(!showOpenForm)}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-[#00d9ff] rounded-lg hover:bg-[#00c4e6] transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Open Drawer
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {showOpenForm && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Terminal *</label>
+            <input
+              type="text"
+              value={terminal}
+              onChange={(e) => setTerminal(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g., Bar till"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Staff member *</label>
+            <select
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Other (type name)</option>
+              {staff.map(member => (
+                <option key={member.id} value={member.id}>{member.name} ({member.staff_id})</option>
+              ))}
+            </select>
+          </div>
+          {!staffId ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Name *</label>
+              <input
+                type="text"
+                value={staffName}
+                onChange={(e) => setStaffName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ) : <div />}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-1">Opening float</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="0.00"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={openDrawer}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isSaving ? 'Opening...' : 'Open'}
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-gray-600">Loading cash drawers...</div>
+      ) : (
+        <div className="space-y-6">
+          {/* Open drawers */}
+          {openDrawers.length > 0 ? (
+            <div className="space-y-3">
+              {openDrawers.map(drawer => (
+                <div key={drawer.id} className="p-4 border border-green-200 bg-green-50 rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{drawer.terminal} · {drawer.staff_name}</p>
+                      <p className="text-sm text-gray-600">Opened {new Date(drawer.opened_at).toLocaleString()} by {drawer.opened_by}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setPaidOutDrawerId(paidOutDrawerId === drawer.id ? null : drawer.id)}
+                        className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        <MinusCircle className="h-4 w-4 mr-1" />
+                        Paid Out
+                      </button>
+                      <button
+                        onClick={() => setCashUpDrawer(drawer)}
+                        className="flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        <Calculator className="h-4 w-4 mr-1" />
+                        Cash Up
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-3 text-sm">
+                    <div>
+                      <p className="text-gray-600">Float</p>
+                      <p className="font-medium text-gray-900">{formatCurrency(drawer.opening_float)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Cash taken</p>
+                      <p className="font-medium text-gray-900">{formatCurrency(drawer.cash_sales)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Refunds</p>
+                      <p className="font-medium text-red-600">-{formatCurrency(drawer.cash_refunds)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Paid out</p>
+                      <p className="font-medium text-red-600">-{formatCurrency(drawer.paid_out)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Expected now</p>
+                      <p className="font-bold text-gray-900">{formatCurrency(drawer.expected_cash)}</p>
+                    </div>
+                  </div>
+                  {drawer.paid_outs.map(paidOut => (
+                    <p key={paidOut.id} className="text-sm text-gray-600 mt-1">
+                      Paid out {formatCurrency(paidOut.amount)}: {paidOut.reason} ({paidOut.recorded_by})
+                    </p>
+                  ))}
+                  {paidOutDrawerId === drawer.id && (
+                    <div className="flex items-end space-x-3 mt-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-1">Amount *</label>
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={paidOutAmount}
+                          onChange={(e) => setPaidOutAmount(e.target.value)}
+                          className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-900 mb-1">Reason *</label>
+                        <input
+                          type="text"
+                          maxLength={200}
+                          value={paidOutReason}
+                          onChange={(e) => setPaidOutReason(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder="e.g., Ice delivery"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={recordPaidOut}
+                        disabled={isSaving}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        {isSaving ? 'Saving...' : 'Record'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No drawer is open. Cash payments are only put in a drawer while one is open.
+            </p>
+          )}
+
+          {/* Variance report */}
+          {closedDrawers.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium text-gray-900">Cash-ups</h4>
+                <span className={`text-sm font-medium ${varianceClass(totalVariance)}`}>
+                  Net variance: {formatCurrency(totalVariance)}
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Closed</th>
+                      <th className="py-2 pr-4 font-medium">Terminal</th>
+                      <th className="py-2 pr-4 font-medium">Staff</th>
+                      <th className="py-2 pr-4 font-medium text-right">Float</th>
+                      <th className="py-2 pr-4 font-medium text-right">Cash taken</th>
+                      <th className="py-2 pr-4 font-medium text-right">Out</th>
+                      <th className="py-2 pr-4 font-medium text-right">Expected</th>
+                      <th className="py-2 pr-4 font-medium text-right">Counted</th>
+                      <th className="py-2 pr-4 font-medium text-right">Variance</th>
+                      <th className="py-2 font-medium">Closed by</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {closedDrawers.map(drawer => (
+                      <tr key={drawer.id} title={drawer.notes || undefined}>
+                        <td className="py-2 pr-4 text-gray-900">{drawer.closed_at ? new Date(drawer.closed_at).toLocaleString() : ''}</td>
+                        <td className="py-2 pr-4 text-gray-900">{drawer.terminal}</td>
+                        <td className="py-2 pr-4 text-gray-900">{drawer.staff_name}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(drawer.opening_float)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(drawer.cash_sales)}</td>
+                        <td className="py-2 pr-4 text-right text-red-600">-{formatCurrency(drawer.cash_refunds + drawer.paid_out)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(drawer.expected_cash)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(drawer.counted_cash || 0)}</td>
+                        <td className={`py-2 pr-4 text-right font-medium ${varianceClass(drawer.variance || 0)}`}>
+                          {formatCurrency(drawer.variance || 0)}
+                        </td>
+                        <td className="py-2 text-gray-600">{drawer.closed_by}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <CashUpModal
+        drawer={cashUpDrawer}
+        denominations={denominations}
+        onClose={() => setCashUpDrawer(null)}
+        onClosed={fetchDrawers}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+export interface CashDrawerReportRow {
+  id: string;
+  terminal: string;
+  staff_name: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  opened_by: string;
+  opened_at: string;
+  cash_sales: number;
+  cash_refunds: number;
+  paid_out: number;
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+  denominations: Record<string, number> | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  notes: string | null;
+  payment_count: number;
+  paid_outs: { id: string; amount: number; reason: string; recorded_by: string; created_at: string }[];
+}
+
+interface CashUpModalProps {
+  drawer: CashDrawerReportRow | null; // the modal is open while a drawer is selected
+  denominations: number[];
+  onClose: () => void;
+  onClosed: (drawer: CashDrawerReportRow) => void;
+}
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const formatCurrency = (amount: number) => `${amount < 0 ? '-' : ''}P${Math.abs(amount).toFixed(2)}`;
+
+export default function CashUpModal({ drawer, denominations, onClose, onClosed }: CashUpModalProps) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (drawer) {
+      setCounts({});
+      setNotes('');
+      setError(null);
+    }
+  }, [drawer?.id]);
+
+  // Counted in cents so coins add up exactly
+  const countedCash = denominations.reduce(
+    (sum, denomination) => sum + Math.round(denomination * 100) * (counts[String(denomination)] || 0),
+    0
+  ) / 100;
+  const variance = drawer ? Math.round((countedCash - drawer.expected_cash) * 100) / 100 : 0;
+
+  const submitCashUp = async () => {
+    if (!drawer) return;
+    if (!confirm(`Close ${drawer.terminal} with ${formatCurrency(countedCash)} counted (${variance === 0 ? 'balanced' : `${formatCurrency(variance)} ${variance < 0 ? 'short' : 'over'}`})?`)) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/cash-drawers/close', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          drawerId: drawer.id,
+          denominations: counts,
+          notes: notes.trim() || null
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to cash up drawer');
+      }
+
+      onClosed(data.data);
+      onClose();
+    } catch (error) {
+      console.error('Error cashing up drawer:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cash up drawer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!drawer) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">Cash Up {drawer.terminal}</h2>
+          <p className="text-gray-600 mt-1">
+            {drawer.staff_name} · opened {new Date(drawer.opened_at).toLocaleString()}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+          {denominations.map(denomination => {
+            const key = String(denomination);
+            const count = counts[key] || 0;
+            return (
+              <div key={key} className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-900 w-16">
+                  {denomination >= 1 ? `P${denomination}` : `${Math.round(denomination * 100)}t`}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={count || ''}
+                  onChange={(e) => setCounts(prev => ({
+                    ...prev,
+                    [key]: Math.max(0, parseInt(e.target.value) || 0)
+                  }))}
+                  className="w-20 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="0"
+                />
+                <span className="text-sm text-gray-600 w-20 text-right">
+                  {formatCurrency((Math.round(denomination * 100) * count) / 100)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 space-y-1 text-sm">
+          <div className="flex justify-between text-gray-600">
+            <span>Opening float</span>
+            <span>{formatCurrency(drawer.opening_float)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Cash taken ({drawer.payment_count} payments)</span>
+            <span>{formatCurrency(drawer.cash_sales)}</span>
+          </div>
+          {drawer.cash_refunds > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>Cash refunds</span>
+              <span>-{formatCurrency(drawer.cash_refunds)}</span>
+            </div>
+          )}
+          {drawer.paid_out > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>Paid out</span>
+              <span>-{formatCurrency(drawer.paid_out)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-medium text-gray-900">
+            <span>Expected</span>
+            <span>{formatCurrency(drawer.expected_cash)}</span>
+          </div>
+          <div className="flex justify-between font-medium text-gray-900">
+            <span>Counted</span>
+            <span>{formatCurrency(countedCash)}</span>
+          </div>
+          <div className={`flex justify-between font-bold ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+            <span>Variance</span>
+            <span>{variance === 0 ? 'Balanced' : `${formatCurrency(variance)} ${variance < 0 ? 'short' : 'over'}`}</span>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-900 mb-1">Notes</label>
+          <textarea
+            value={notes}
+            rows={2}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g., Short explained by a P20 miskeyed refund"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={submitCashUp}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isSaving ? 'Closing...' : 'Close Drawer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
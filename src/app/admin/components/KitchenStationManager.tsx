@@ -0,0 +1,297 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+// Kitchen station imports
+import { KitchenStation, validateKitchenStation } from '@/lib/kitchen-stations';
+
+interface KitchenStationManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface StationDraft {
+  code: string;
+  name: string;
+  categories: string; // comma-separated while editing
+  sort_order: number;
+  isNew: boolean;
+}
+
+// Stations are stored per restaurant; the logged-in manager's restaurant is used when known
+const getStationsUrl = (query = '') => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  const params = new URLSearchParams(query);
+  if (restaurantId) {
+    params.set('restaurantId', restaurantId);
+  }
+  const search = params.toString();
+  return `/api/admin/kitchen-stations${search ? `?${search}` : ''}`;
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const parseCategories = (value: string) =>
+  value.split(',').map(category => category.trim()).filter(Boolean);
+
+export default function KitchenStationManager({ isOpen, onClose }: KitchenStationManagerProps) {
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [draft, setDraft] = useState<StationDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStations = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(getStationsUrl(), {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load stations');
+      }
+
+      setStations(data.data || []);
+    } catch (error) {
+      console.error('Error fetching kitchen stations:', error);
+      setError('Failed to load stations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchStations();
+    }
+  }, [isOpen]);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    const station = {
+      code: draft.code.trim(),
+      name: draft.name,
+      categories: parseCategories(draft.categories),
+      sort_order: draft.sort_order
+    };
+
+    const validationError = validateKitchenStation(station);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch(getStationsUrl(), {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ station })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save station');
+      }
+
+      setDraft(null);
+      await fetchStations();
+    } catch (error) {
+      console.error('Error saving kitchen station:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save station');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteStation = async (station: KitchenStation) => {
+    if (!confirm(`Delete the ${station.name} station? Its items will be routed by category or to the grill.`)) return;
+
+    try {
+      setError(null);
+
+      const response = await fetch(getStationsUrl(`code=${encodeURIComponent(station.code)}`), {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete station');
+      }
+
+      setStations(prev => prev.filter(item => item.code !== station.code));
+    } catch (error) {
+      console.error('Error deleting kitchen station:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete station');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">Kitchen Stations</h2>
+          <p className="text-gray-600 mt-1">
+            Orders are routed to a station by the item&apos;s station override, then its category.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-600">Loading stations...</div>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {stations.map(station => (
+              <div key={station.code} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {station.name}
+                    <span className="ml-2 text-xs text-gray-500">{station.code}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {station.categories.length > 0 ? station.categories.join(', ') : 'No categories'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setDraft({
+                      code: station.code,
+                      name: station.name,
+                      categories: station.categories.join(', '),
+                      sort_order: station.sort_order,
+                      isNew: false
+                    })}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteStation(station)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {draft ? (
+          <div className="p-4 border border-gray-200 rounded-md space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="e.g., Bar"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Code *</label>
+                <input
+                  type="text"
+                  value={draft.code}
+                  disabled={!draft.isNew}
+                  onChange={(e) => setDraft({ ...draft, code: e.target.value.toLowerCase() })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                  placeholder="e.g., bar"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Menu categories</label>
+              <input
+                type="text"
+                value={draft.categories}
+                onChange={(e) => setDraft({ ...draft, categories: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g., Beverages, Cold_drinks"
+              />
+              <p className="text-xs text-gray-500 mt-1">Comma-separated</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Display order</label>
+              <input
+                type="number"
+                value={draft.sort_order}
+                onChange={(e) => setDraft({ ...draft, sort_order: parseInt(e.target.value) || 0 })}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveDraft}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save Station'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setDraft({ code: '', name: '', categories: '', sort_order: stations.length, isNew: true })}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            + Add Station
+          </button>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+// Menu schedule imports
+import { describeSchedule, MenuSchedule, validateMenuSchedule, WEEKDAY_LABELS } from '@/lib/menu-schedule';
+
+interface MenuScheduleManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const emptySchedule: Omit<MenuSchedule, 'id'> & { id?: string } = {
+  name: '',
+  days_of_week: [],
+  start_time: null,
+  end_time: null,
+  start_date: null,
+  end_date: null,
+  is_active: true
+};
+
+// Schedules are stored per restaurant; the logged-in manager's restaurant is used when known
+const getSchedulesUrl = (query = '') => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  const params = new URLSearchParams(query);
+  if (restaurantId) {
+    params.set('restaurantId', restaurantId);
+  }
+  const search = params.toString();
+  return `/api/admin/menu-schedules${search ? `?${search}` : ''}`;
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+export default function MenuScheduleManager({ isOpen, onClose, onChange }: MenuScheduleManagerProps) {
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [draft, setDraft] = useState<typeof emptySchedule | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(getSchedulesUrl(), {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load schedules');
+      }
+
+      setSchedules(data.data || []);
+    } catch (error) {
+      console.error('Error fetching menu schedules:', error);
+      setError('Failed to load schedules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSchedules();
+    }
+  }, [isOpen]);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    const validationError = validateMenuSchedule(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch(getSchedulesUrl(), {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ schedule: draft })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save schedule');
+      }
+
+      setDraft(null);
+      await fetchSchedules();
+      onChange?.();
+    } catch (error) {
+      console.error('Error saving menu schedule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSchedule = async (schedule: MenuSchedule) => {
+    if (!confirm(`Delete the "${schedule.name}" schedule? Items using only this schedule will always be available.`)) return;
+
+    try {
+      setError(null);
+
+      const response = await fetch(getSchedulesUrl(`id=${encodeURIComponent(schedule.id)}`), {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+
+      setSchedules(prev => prev.filter(item => item.id !== schedule.id));
+      onChange?.();
+    } catch (error) {
+      console.error('Error deleting menu schedule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete schedule');
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      days_of_week: draft.days_of_week.includes(day)
+        ? draft.days_of_week.filter(item => item !== day)
+        : [...draft.days_of_week, day].sort((a, b) => a - b)
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">Menu Schedules</h2>
+          <p className="text-gray-600 mt-1">
+            Items assigned to a schedule are only shown and orderable while it is open (restaurant local time).
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-600">Loading schedules...</div>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {schedules.length === 0 && (
+              <p className="text-sm text-gray-500">No schedules yet.</p>
+            )}
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {schedule.name}
+                    {!schedule.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                  </p>
+                  <p className="text-sm text-gray-600">{describeSchedule(schedule)}</p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...schedule })}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteSchedule(schedule)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {draft ? (
+          <div className="p-4 border border-gray-200 rounded-md space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Name *</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g., Breakfast"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-900 mb-1">Days (none = every day)</span>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1 rounded-full text-sm border ${
+                      draft.days_of_week.includes(day)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">From (time)</label>
+                <input
+                  type="time"
+                  value={draft.start_time?.slice(0, 5) || ''}
+                  onChange={(e) => setDraft({ ...draft, start_time: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Until (time)</label>
+                <input
+                  type="time"
+                  value={draft.end_time?.slice(0, 5) || ''}
+                  onChange={(e) => setDraft({ ...draft, end_time: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Season starts</label>
+                <input
+                  type="date"
+                  value={draft.start_date || ''}
+                  onChange={(e) => setDraft({ ...draft, start_date: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Season ends</label>
+                <input
+                  type="date"
+                  value={draft.end_date || ''}
+                  onChange={(e) => setDraft({ ...draft, end_date: e.target.value || null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.is_active}
+                onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Active
+            </label>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveDraft}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save Schedule'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setDraft({ ...emptySchedule })}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            + Add Schedule
+          </button>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+interface RefundPaymentModalProps {
+  paymentId: string | null; // the modal is open while a payment is selected
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+interface RefundLine {
+  line: number;
+  name: string;
+  quantity: number;
+  refunded_quantity: number;
+  unit_amount: number;
+}
+
+interface RefundDetails {
+  payment_id: string;
+  reference: string;
+  payment_method: string;
+  total: number;
+  refunded: number;
+  refundable: number;
+  receipt_number: string | null;
+  lines: RefundLine[];
+}
+
+interface OpenDrawer {
+  id: string;
+  terminal: string;
+  staff_name: string;
+}
+
+type RefundMode = 'full' | 'partial' | 'items';
+
+const REFUND_METHODS = ['cash', 'card', 'qr_code', 'digital'];
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const formatCurrency = (amount: number) => `P${amount.toFixed(2)}`;
+
+// Cash refunds come out of one of the restaurant's open drawers
+const getOpenDrawersUrl = () => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  return `/api/admin/cash-drawers?status=open${restaurantId ? `&restaurantId=${encodeURIComponent(restaurantId)}` : ''}`;
+};
+
+export default function RefundPaymentModal({ paymentId, onClose, onRefunded }: RefundPaymentModalProps) {
+  const [details, setDetails] = useState<RefundDetails | null>(null);
+  const [mode, setMode] = useState<RefundMode>('full');
+  const [amount, setAmount] = useState('');
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [refundMethod, setRefundMethod] = useState('');
+  const [reason, setReason] = useState('');
+  const [openDrawers, setOpenDrawers] = useState<OpenDrawer[]>([]);
+  const [cashDrawerId, setCashDrawerId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDetails = async (id: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/payments/refund?paymentId=${encodeURIComponent(id)}`, {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load refund details');
+      }
+
+      setDetails(data.data);
+      setRefundMethod(data.data.payment_method);
+    } catch (error) {
+      console.error('Error fetching refund details:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load refund details');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchOpenDrawers = async () => {
+    try {
+      const response = await fetch(getOpenDrawersUrl(), {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setOpenDrawers(data.data.drawers);
+        setCashDrawerId(data.data.drawers.length === 1 ? data.data.drawers[0].id : '');
+      }
+    } catch (error) {
+      console.error('Error fetching open cash drawers:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (paymentId) {
+      setDetails(null);
+      setMode('full');
+      setAmount('');
+      setQuantities({});
+      setReason('');
+      fetchDetails(paymentId);
+      fetchOpenDrawers();
+    }
+  }, [paymentId]);
+
+  // Item refunds are priced server-side; this is the preview
+  const itemsTotal = details
+    ? details.lines.reduce((sum, line) => sum + line.unit_amount * (quantities[line.line] || 0), 0)
+    : 0;
+  const refundAmount = mode === 'full'
+    ? details?.refundable || 0
+    : mode === 'partial' ? parseFloat(amount) || 0 : itemsTotal;
+
+  const submitRefund = async () => {
+    if (!details) return;
+
+    if (!reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+    if (refundAmount <= 0 || refundAmount > details.refundable + 0.005) {
+      setError(`Refund must be between P0.01 and ${formatCurrency(details.refundable)}`);
+      return;
+    }
+    if (!confirm(`Refund ${formatCurrency(refundAmount)} to ${refundMethod}?`)) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/payments/refund', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          paymentId: details.payment_id,
+          ...(mode === 'partial' ? { amount: parseFloat(amount) } : {}),
+          ...(mode === 'items'
+            ? {
+                items: Object.entries(quantities)
+                  .filter(([, quantity]) => quantity > 0)
+                  .map(([line, quantity]) => ({ line: Number(line), quantity }))
+              }
+            : {}),
+          refundMethod,
+          ...(refundMethod === 'cash' && cashDrawerId ? { cashDrawerId } : {}),
+          reason: reason.trim()
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to refund payment');
+      }
+
+      onRefunded();
+      onClose();
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to refund payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!paymentId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-900">Refund Payment</h2>
+          {details && (
+            <p className="text-gray-600 mt-1">
+              {details.reference}
+              {details.receipt_number ? ` · Receipt ${details.receipt_number}` : ''}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-gray-600">Loading payment...</div>
+        ) : details && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Paid</p>
+                <p className="font-medium text-gray-900">{formatCurrency(details.total)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Refunded</p>
+                <p className="font-medium text-red-600">{formatCurrency(details.refunded)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Refundable</p>
+                <p className="font-medium text-gray-900">{formatCurrency(details.refundable)}</p>
+              </div>
+            </div>
+
+            <div className="flex space-x-2">
+              {(['full', 'partial', 'items'] as RefundMode[])
+                .filter(option => option !== 'items' || details.lines.length > 0)
+                .map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setMode(option)}
+                    className={`px-3 py-2 rounded-md text-sm font-medium border ${
+                      mode === option
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'full' ? 'Full' : option === 'partial' ? 'Amount' : 'Items'}
+                  </button>
+                ))}
+            </div>
+
+            {mode === 'partial' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Amount *</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={details.refundable}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {mode === 'items' && (
+              <div className="space-y-2">
+                {details.lines.map(line => {
+                  const available = line.quantity - line.refunded_quantity;
+                  return (
+                    <div key={line.line} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+                      <div>
+                        <p className="font-medium text-gray-900">{line.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {formatCurrency(line.unit_amount)} each
+                          {line.refunded_quantity > 0 ? ` · ${line.refunded_quantity} of ${line.quantity} refunded` : ''}
+                        </p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        max={available}
+                        disabled={available <= 0}
+                        value={quantities[line.line] || 0}
+                        onChange={(e) => setQuantities(prev => ({
+                          ...prev,
+                          [line.line]: Math.max(0, Math.min(available, parseInt(e.target.value) || 0))
+                        }))}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Refund to</label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value)}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {[...new Set([details.payment_method, ...REFUND_METHODS])]
+                  .filter(method => REFUND_METHODS.includes(method))
+                  .map(method => (
+                    <option key={method} value={method}>
+                      {method.charAt(0).toUpperCase() + method.slice(1)}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            {refundMethod === 'cash' && openDrawers.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-1">Cash from drawer</label>
+                <select
+                  value={cashDrawerId}
+                  onChange={(e) => setCashDrawerId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a drawer</option>
+                  {openDrawers.map(drawer => (
+                    <option key={drawer.id} value={drawer.id}>
+                      {drawer.terminal} ({drawer.staff_name})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-1">Reason *</label>
+              <textarea
+                value={reason}
+                maxLength={300}
+                rows={2}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="e.g., Dish sent back"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-6">
+          <span className="text-lg font-bold text-red-600">
+            {details ? `-${formatCurrency(refundAmount)}` : ''}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={submitRefund}
+              disabled={!details || isSaving || details.refundable <= 0}
+              className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 disabled:bg-gray-400"
+            >
+              {isSaving ? 'Refunding...' : 'Refund'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
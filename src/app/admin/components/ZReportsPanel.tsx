@@ -0,0 +1,378 @@
+'use client';
+
+// React imports
+import { useState, useEffect } from 'react';
+
+// Supabase imports
+import { supabase } from '@/lib/supabase';
+
+// Icon imports
+import { FileText, Download, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ZReportRow {
+  id: string;
+  z_number: number;
+  z_number_label: string;
+  period_start: string;
+  period_end: string;
+  source: 'manual' | 'scheduled';
+  generated_by: string | null;
+  gross_sales: number;
+  vat: number;
+  service_charge: number;
+  tips: number;
+  discounts: number;
+  voids: number;
+  refunds: number;
+  net_sales: number;
+  payment_count: number;
+  covers: number;
+  data: {
+    payment_methods: { method: string; count: number; sales: number; tips: number; refunds: number; net: number }[];
+    staff: { staff_id: string | null; name: string; count: number; sales: number; tips: number }[];
+    voided_items: { name: string; quantity: number; amount: number; reason: string | null }[];
+    refund_count: number;
+    discount_count: number;
+    receipts: { count: number; first: string | null; last: string | null; credit_notes: number };
+    sessions: { paid: number; open_at_reset: number };
+    cash_drawers: { closed: number; open: number; expected: number; counted: number; variance: number };
+  };
+  created_at: string;
+}
+
+// Reports are per restaurant; the logged-in manager's restaurant is used when known
+const getRestaurantId = (): string | null => {
+  const savedManager = localStorage.getItem('manager');
+  return savedManager ? JSON.parse(savedManager).restaurantId || null : null;
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const formatCurrency = (amount: number) => `${amount < 0 ? '-' : ''}P${Math.abs(amount).toFixed(2)}`;
+
+const formatPeriod = (report: ZReportRow) =>
+  `${new Date(report.period_start).toLocaleString()} – ${new Date(report.period_end).toLocaleString()}`;
+
+// Quote every cell so names and reasons containing commas stay in one column
+const toCsv = (rows: (string | number | null)[][]) =>
+  rows.map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(',')).join('\n');
+
+const downloadCsv = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export default function ZReportsPanel() {
+  const [reports, setReports] = useState<ZReportRow[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReports = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const restaurantId = getRestaurantId();
+      const params = new URLSearchParams();
+      if (restaurantId) params.set('restaurantId', restaurantId);
+
+      const response = await fetch(`/api/admin/z-reports?${params.toString()}`, {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load Z-reports');
+      }
+
+      setReports(data.data);
+    } catch (error) {
+      console.error('Error fetching Z-reports:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load Z-reports');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  const exportList = () => {
+    const csvContent = toCsv([
+      ['Z Number', 'Period Start', 'Period End', 'Gross Sales', 'VAT', 'Service Charge', 'Tips', 'Discounts', 'Voids', 'Refunds', 'Net Sales', 'Payments', 'Covers'],
+      ...reports.map(report => [
+        report.z_number_label,
+        report.period_start,
+        report.period_end,
+        report.gross_sales.toFixed(2),
+        report.vat.toFixed(2),
+        report.service_charge.toFixed(2),
+        report.tips.toFixed(2),
+        report.discounts.toFixed(2),
+        report.voids.toFixed(2),
+        report.refunds.toFixed(2),
+        report.net_sales.toFixed(2),
+        report.payment_count,
+        report.covers
+      ])
+    ]);
+
+    downloadCsv(csvContent, `z-reports-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const exportReport = (report: ZReportRow) => {
+    const { data } = report;
+    const csvContent = toCsv([
+      ['Z-Report', report.z_number_label],
+      ['Period Start', report.period_start],
+      ['Period End', report.period_end],
+      ['Issued', report.created_at],
+      ['Issued By', report.generated_by || report.source],
+      [],
+      ['Gross Sales', report.gross_sales.toFixed(2)],
+      ['VAT', report.vat.toFixed(2)],
+      ['Service Charge', report.service_charge.toFixed(2)],
+      ['Tips', report.tips.toFixed(2)],
+      ['Discounts', report.discounts.toFixed(2), `${data.discount_count} receipts`],
+      ['Voids', report.voids.toFixed(2), `${data.voided_items.length} items`],
+      ['Refunds', report.refunds.toFixed(2), `${data.refund_count} refunds`],
+      ['Net Sales', report.net_sales.toFixed(2)],
+      ['Payments', report.payment_count],
+      ['Covers', report.covers],
+      [],
+      ['Payment Method', 'Payments', 'Sales', 'Tips', 'Refunds', 'Net'],
+      ...data.payment_methods.map(line => [
+        line.method, line.count, line.sales.toFixed(2), line.tips.toFixed(2), line.refunds.toFixed(2), line.net.toFixed(2)
+      ]),
+      [],
+      ['Staff', 'Payments', 'Sales', 'Tips'],
+      ...data.staff.map(line => [line.name, line.count, line.sales.toFixed(2), line.tips.toFixed(2)]),
+      [],
+      ['Voided Item', 'Quantity', 'Amount', 'Reason'],
+      ...data.voided_items.map(item => [item.name, item.quantity, item.amount.toFixed(2), item.reason]),
+      [],
+      ['Receipts', data.receipts.count, data.receipts.first, data.receipts.last],
+      ['Credit Notes', data.receipts.credit_notes],
+      ['Sessions Paid', data.sessions.paid],
+      ['Sessions Open At Reset', data.sessions.open_at_reset],
+      ['Cash Drawers Closed', data.cash_drawers.closed],
+      ['Cash Drawers Open', data.cash_drawers.open],
+      ['Cash Expected', data.cash_drawers.expected.toFixed(2)],
+      ['Cash Counted', data.cash_drawers.counted.toFixed(2)],
+      ['Cash Variance', data.cash_drawers.variance.toFixed(2)]
+    ]);
+
+    downloadCsv(csvContent, `${report.z_number_label}.csv`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <FileText className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Z-Reports</h3>
+        </div>
+        <button
+          onClick={exportList}
+          disabled={reports.length === 0}
+          className="flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export All
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Issued by each daily reset and never changed afterwards.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No Z-reports yet. One is issued at the next daily reset.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Z Number</th>
+                <th className="py-2 pr-4 font-medium">Period</th>
+                <th className="py-2 pr-4 font-medium text-right">Gross</th>
+                <th className="py-2 pr-4 font-medium text-right">VAT</th>
+                <th className="py-2 pr-4 font-medium text-right">Tips</th>
+                <th className="py-2 pr-4 font-medium text-right">Refunds</th>
+                <th className="py-2 pr-4 font-medium text-right">Net</th>
+                <th className="py-2 pr-4 font-medium text-right">Covers</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {reports.map(report => {
+                const isExpanded = expandedId === report.id;
+                return [
+                  <tr
+                    key={report.id}
+                    onClick={() => setExpandedId(isExpanded ? null : report.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="py-2 pr-4 font-medium text-gray-900">
+                      <span className="inline-flex items-center">
+                        {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                        {report.z_number_label}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{formatPeriod(report)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(report.gross_sales)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(report.vat)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(report.tips)}</td>
+                    <td className="py-2 pr-4 text-right text-red-600">{report.refunds > 0 ? `-${formatCurrency(report.refunds)}` : ''}</td>
+                    <td className="py-2 pr-4 text-right font-medium text-gray-900">{formatCurrency(report.net_sales)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">{report.covers}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          exportReport(report);
+                        }}
+                        className="text-blue-600 hover:text-blue-800"
+                        title={`Export ${report.z_number_label}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${report.id}-details`}>
+                      <td colSpan={9} className="py-4 bg-gray-50">
+                        <ZReportDetails report={report} />
+                      </td>
+                    </tr>
+                  )
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ZReportDetails({ report }: { report: ZReportRow }) {
+  const { data } = report;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 px-4">
+      <div className="space-y-1">
+        <h4 className="font-medium text-gray-900 mb-2">Totals</h4>
+        {[
+          ['Gross sales', formatCurrency(report.gross_sales)],
+          ['VAT', formatCurrency(report.vat)],
+          ['Service charge', formatCurrency(report.service_charge)],
+          ['Tips', formatCurrency(report.tips)],
+          [`Discounts (${data.discount_count})`, formatCurrency(report.discounts)],
+          [`Voids (${data.voided_items.length})`, formatCurrency(report.voids)],
+          [`Refunds (${data.refund_count})`, formatCurrency(report.refunds)],
+          ['Net sales', formatCurrency(report.net_sales)],
+          ['Payments', String(report.payment_count)],
+          ['Covers', String(report.covers)]
+        ].map(([label, value]) => (
+          <div key={label} className="flex justify-between text-gray-600">
+            <span>{label}</span>
+            <span className="text-gray-900">{value}</span>
+          </div>
+        ))}
+        <p className="text-xs text-gray-500 pt-2">
+          Issued {new Date(report.created_at).toLocaleString()} by {report.generated_by || report.source}
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Payment Methods</h4>
+          {data.payment_methods.length === 0 ? (
+            <p className="text-gray-500">No payments</p>
+          ) : data.payment_methods.map(line => (
+            <div key={line.method} className="flex justify-between text-gray-600">
+              <span className="capitalize">{line.method} ({line.count})</span>
+              <span className="text-gray-900">{formatCurrency(line.net)}</span>
+            </div>
+          ))}
+        </div>
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Staff</h4>
+          {data.staff.length === 0 ? (
+            <p className="text-gray-500">No staff sales</p>
+          ) : data.staff.map(line => (
+            <div key={line.staff_id || line.name} className="flex justify-between text-gray-600">
+              <span>{line.name} ({line.count})</span>
+              <span className="text-gray-900">{formatCurrency(line.sales)} + {formatCurrency(line.tips)} tips</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Voided Items</h4>
+          {data.voided_items.length === 0 ? (
+            <p className="text-gray-500">No voids</p>
+          ) : data.voided_items.map((item, index) => (
+            <div key={index} className="flex justify-between text-gray-600" title={item.reason || undefined}>
+              <span>{item.quantity}× {item.name}</span>
+              <span className="text-gray-900">{formatCurrency(item.amount)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1 text-gray-600">
+          <h4 className="font-medium text-gray-900 mb-2">Receipts &amp; Drawers</h4>
+          <div className="flex justify-between">
+            <span>Receipts ({data.receipts.count})</span>
+            <span className="text-gray-900">
+              {data.receipts.first ? `${data.receipts.first} – ${data.receipts.last}` : 'None'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Credit notes</span>
+            <span className="text-gray-900">{data.receipts.credit_notes}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Sessions paid / open at reset</span>
+            <span className="text-gray-900">{data.sessions.paid} / {data.sessions.open_at_reset}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Drawers closed / open</span>
+            <span className="text-gray-900">{data.cash_drawers.closed} / {data.cash_drawers.open}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Cash variance</span>
+            <span className={data.cash_drawers.variance < 0 ? 'text-red-600' : data.cash_drawers.variance > 0 ? 'text-orange-600' : 'text-green-600'}>
+              {formatCurrency(data.cash_drawers.variance)}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  RefreshCw,
+  Star,
+  AlertTriangle,
+  CheckCircle,
+  MessageSquare,
+  Users,
+  Utensils,
+  TrendingUp
+} from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import type { FeedbackReport } from '@/lib/feedback';
+
+// Feedback is stored per restaurant; the logged-in manager's restaurant is used when known
+const getFeedbackUrl = (days: string) => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  const params = new URLSearchParams({ days });
+  if (restaurantId) {
+    params.set('restaurantId', restaurantId);
+  }
+  return `/api/admin/feedback?${params.toString()}`;
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+};
+
+const Stars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        className={`h-4 w-4 ${star <= Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+      />
+    ))}
+  </div>
+);
+
+export default function AdminFeedbackPage() {
+  const [report, setReport] = useState<FeedbackReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState('30');
+  const [showLowOnly, setShowLowOnly] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFeedback();
+  }, [days]);
+
+  const fetchFeedback = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(getFeedbackUrl(days), {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load feedback');
+      }
+
+      setReport(data.data);
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load feedback');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const markReviewed = async (feedbackId: string) => {
+    try {
+      setReviewingId(feedbackId);
+
+      const response = await fetch('/api/admin/feedback', {
+        method: 'PATCH',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ feedbackId })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update feedback');
+      }
+
+      await fetchFeedback();
+    } catch (error) {
+      console.error('Error marking feedback reviewed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update feedback');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  if (isLoading && !report) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Feedback</h1>
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#00d9ff]"></div>
+        </div>
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-6 space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const feedback = (report?.feedback || []).filter(entry => !showLowOnly || entry.is_low_rating);
+  const maxDailyCount = Math.max(1, ...(report?.overTime || []).map(day => day.count));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Feedback</h1>
+          <p className="text-gray-600">Diner ratings and comments left after paying</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff]"
+          >
+            <option value="7">Last 7 Days</option>
+            <option value="30">Last 30 Days</option>
+            <option value="90">Last 90 Days</option>
+          </select>
+          <button
+            onClick={fetchFeedback}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-[#00d9ff] rounded-lg hover:bg-[#00c4e6] transition-colors"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <p className="text-sm text-gray-600">Average Rating</p>
+          <div className="flex items-center space-x-2 mt-1">
+            <span className="text-2xl font-bold text-gray-900">{(report?.summary.average || 0).toFixed(2)}</span>
+            <Stars rating={report?.summary.average || 0} />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow">
+          <p className="text-sm text-gray-600">Ratings</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{report?.summary.count || 0}</p>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow">
+          <p className="text-sm text-gray-600">Low Ratings</p>
+          <p className="text-2xl font-bold text-red-600 mt-1">{report?.summary.lowCount || 0}</p>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow">
+          <p className="text-sm text-gray-600">Low Ratings to Review</p>
+          <p className="text-2xl font-bold text-orange-600 mt-1">{report?.summary.unreviewedLowCount || 0}</p>
+        </div>
+      </div>
+
+      {/* Ratings over time */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex items-center mb-4">
+          <TrendingUp className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Ratings Over Time</h3>
+        </div>
+        {(report?.overTime || []).length === 0 ? (
+          <p className="text-sm text-gray-500">No ratings in this period</p>
+        ) : (
+          <div className="space-y-2">
+            {report?.overTime.map((day) => (
+              <div key={day.date} className="flex items-center space-x-3 text-sm">
+                <span className="w-24 text-gray-600">{day.date}</span>
+                <div className="flex-1 bg-gray-100 rounded h-4">
+                  <div
+                    className={`h-4 rounded ${day.average < 3 ? 'bg-red-400' : day.average < 4 ? 'bg-yellow-400' : 'bg-green-400'}`}
+                    style={{ width: `${(day.count / maxDailyCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-16 text-right font-medium text-gray-900">{day.average.toFixed(2)}</span>
+                <span className="w-20 text-right text-gray-500">{day.count} rating{day.count === 1 ? '' : 's'}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Per waiter */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex items-center mb-4">
+            <Users className="h-5 w-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">By Waiter</h3>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2">Waiter</th>
+                <th className="py-2 text-right">Ratings</th>
+                <th className="py-2 text-right">Average</th>
+                <th className="py-2 text-right">Low</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {(report?.byStaff || []).map((staff) => (
+                <tr key={staff.staffId || staff.staffName}>
+                  <td className="py-2 text-gray-900">{staff.staffName}</td>
+                  <td className="py-2 text-right text-gray-600">{staff.count}</td>
+                  <td className="py-2 text-right font-medium text-gray-900">{staff.average.toFixed(2)}</td>
+                  <td className="py-2 text-right text-red-600">{staff.lowCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Per item */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex items-center mb-4">
+            <Utensils className="h-5 w-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">By Item</h3>
+          </div>
+          <p className="text-xs text-gray-500 mb-2">Average rating of the visits each item was ordered in, lowest first</p>
+          <div className="max-h-80 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2">Item</th>
+                  <th className="py-2 text-right">Ratings</th>
+                  <th className="py-2 text-right">Average</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(report?.byItem || []).map((item) => (
+                  <tr key={item.menuItemId || item.name}>
+                    <td className="py-2 text-gray-900">{item.name}</td>
+                    <td className="py-2 text-right text-gray-600">{item.count}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{item.average.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Inbox */}
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center">
+            <MessageSquare className="h-5 w-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Inbox ({feedback.length})</h3>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showLowOnly}
+              onChange={(e) => setShowLowOnly(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Low ratings only</span>
+          </label>
+        </div>
+        {feedback.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No feedback yet</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {feedback.map((entry) => (
+              <div key={entry.id} className={`p-6 ${entry.is_low_rating && !entry.reviewed_at ? 'bg-red-50' : ''}`}>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-3">
+                      <Stars rating={entry.rating} />
+                      {entry.is_low_rating && (
+                        <span className="flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          LOW RATING
+                        </span>
+                      )}
+                      <span className="text-sm text-gray-500">{formatDate(entry.created_at)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Table {entry.table_number || 'Unknown'}
+                      {entry.staff_name && ` · Served by ${entry.staff_name}`}
+                      {entry.customer_name && ` · ${entry.customer_name}`}
+                    </p>
+                    {entry.comment && (
+                      <p className="text-gray-900">&ldquo;{entry.comment}&rdquo;</p>
+                    )}
+                    {entry.items.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {entry.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  {entry.reviewed_at ? (
+                    <span className="flex items-center text-sm text-green-700">
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Reviewed{entry.reviewed_by ? ` by ${entry.reviewed_by}` : ''}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => markReviewed(entry.id)}
+                      disabled={reviewingId === entry.id}
+                      className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      Mark Reviewed
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { handleError } from '@/lib/error-handling';
 
 // Component imports
 import MenuItemEditor from '@/app/components/MenuItemEditor';
+import MenuScheduleManager from '@/app/admin/components/MenuScheduleManager';
+import KitchenStationManager from '@/app/admin/components/KitchenStationManager';
 
 // Supabase imports
 import { supabase } from '@/lib/supabase';
@@ -27,7 +29,8 @@ import {
   List,
   DollarSign,
   Clock,
-  Star
+  Star,
+  ChefHat
 } from 'lucide-react';
 
 interface MenuItem {
@@ -57,6 +60,8 @@ export default function AdminMenuPage() {
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'category' | 'created_at'>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [showAvailableOnly, setShowAvailableOnly] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showStations, setShowStations] = useState(false);
   
   const [error, setError] = useState<string | null>(null);
 
@@ -213,6 +218,20 @@ export default function AdminMenuPage() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </button>
+            <button
+              onClick={() => setShowSchedules(true)}
+              className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              Schedules
+            </button>
+            <button
+              onClick={() => setShowStations(true)}
+              className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ChefHat className="h-4 w-4 mr-2" />
+              Stations
+            </button>
             <button
               onClick={() => setIsCreating(true)}
               className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
@@ -517,6 +536,18 @@ export default function AdminMenuPage() {
           }}
         />
       )}
+
+      {/* Menu Schedules Modal */}
+      <MenuScheduleManager
+        isOpen={showSchedules}
+        onClose={() => setShowSchedules(false)}
+      />
+
+      {/* Kitchen Stations Modal */}
+      <KitchenStationManager
+        isOpen={showStations}
+        onClose={() => setShowStations(false)}
+      />
     </div>
   );
 }
@@ -12,22 +12,53 @@ import {
   CheckCircle,
   DollarSign,
   Calendar,
-  Eye
+  Eye,
+  FileText,
+  RotateCcw
 } from 'lucide-react';
+import RefundPaymentModal from '../components/RefundPaymentModal';
+import CashDrawerReport from '../components/CashDrawerReport';
+
+// Payments are read per restaurant; the logged-in manager's restaurant is used when known
+const getPaymentsUrl = () => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  return restaurantId ? `/api/admin/payments?restaurantId=${encodeURIComponent(restaurantId)}` : '/api/admin/payments';
+};
+
+interface CreditNoteSummary {
+  id: string;
+  number: string;
+  amount: number;
+  reason: string | null;
+  issued_at: string;
+}
 
 interface CompletedPayment {
   id: string;
   session_id: string;
   table_number: string;
+  diner_name?: string | null; // individual payments
+  reference?: string;
   subtotal: number;
   vat_amount: number;
   tip_amount: number;
   final_total: number;
   payment_method: string;
-  payment_type: string; // 'individual' or 'table'
+  payment_type: string; // 'table', 'individual' or 'split' (one tender of a split bill)
   completed_by: string;
   completed_at: string;
   diners_count?: number;
+  receipt_id?: string | null;
+  receipt_number?: string | null; // fiscal receipt number, e.g. R-000042
+  credit_notes?: CreditNoteSummary[];
+  credited_amount?: number;
+  entry_type?: 'payment' | 'refund'; // refunds carry negative amounts
+  refunded_amount?: number;
+  original_reference?: string | null;
+  refund_reason?: string | null;
+  refunded_items?: { name: string; quantity: number; amount: number }[] | null;
+  credit_note_number?: string | null;
 }
 
 export default function AdminPaymentsPage() {
@@ -39,6 +70,8 @@ export default function AdminPaymentsPage() {
   const [selectedType, setSelectedType] = useState('all');
   const [dateRange, setDateRange] = useState('today');
   const [error, setError] = useState<string | null>(null);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [drawerRefreshKey, setDrawerRefreshKey] = useState(0);
 
   useEffect(() => {
     fetchPayments();
@@ -54,7 +87,7 @@ export default function AdminPaymentsPage() {
       setError(null);
 
       // Fetch completed payments from the admin API
-      const response = await fetch('/api/admin/payments', {
+      const response = await fetch(getPaymentsUrl(), {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -78,6 +111,12 @@ export default function AdminPaymentsPage() {
     }
   };
 
+  // Refunds and new payments change what the cash drawers should hold
+  const refreshAll = () => {
+    fetchPayments();
+    setDrawerRefreshKey(key => key + 1);
+  };
+
   const filterPayments = () => {
     let filtered = [...payments];
 
@@ -86,6 +125,10 @@ export default function AdminPaymentsPage() {
       filtered = filtered.filter(payment => 
         payment.table_number.toLowerCase().includes(searchQuery.toLowerCase()) ||
         payment.session_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (payment.receipt_number || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (payment.reference || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (payment.original_reference || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (payment.diner_name || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
         payment.completed_by.toLowerCase().includes(searchQuery.toLowerCase())
       );
     }
@@ -184,14 +227,19 @@ export default function AdminPaymentsPage() {
     window.URL.revokeObjectURL(url);
   };
 
+  // Refund rows are negative, so totals come out net of refunds
   const calculateTotals = () => {
-    return filteredPayments.reduce((totals, payment) => ({
-      subtotal: totals.subtotal + payment.subtotal,
-      vat: totals.vat + payment.vat_amount,
-      tip: totals.tip + payment.tip_amount,
-      total: totals.total + payment.final_total,
-      count: totals.count + 1
-    }), { subtotal: 0, vat: 0, tip: 0, total: 0, count: 0 });
+    return filteredPayments.reduce((totals, payment) => {
+      const isRefund = payment.entry_type === 'refund';
+      return {
+        subtotal: totals.subtotal + payment.subtotal,
+        vat: totals.vat + payment.vat_amount,
+        tip: totals.tip + payment.tip_amount,
+        total: totals.total + payment.final_total,
+        refunds: totals.refunds - (isRefund ? payment.final_total : 0),
+        count: totals.count + (isRefund ? 0 : 1)
+      };
+    }, { subtotal: 0, vat: 0, tip: 0, total: 0, refunds: 0, count: 0 });
   };
 
   if (isLoading) {
@@ -231,7 +279,7 @@ export default function AdminPaymentsPage() {
             Export CSV
           </button>
           <button
-            onClick={fetchPayments}
+            onClick={refreshAll}
             className="flex items-center px-4 py-2 text-sm font-medium text-white bg-[#00d9ff] rounded-lg hover:bg-[#00c4e6] transition-colors"
           >
             <RefreshCw className="h-4 w-4 mr-2" />
@@ -262,6 +310,9 @@ export default function AdminPaymentsPage() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Revenue</p>
               <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.total)}</p>
+              {totals.refunds > 0 && (
+                <p className="text-sm text-red-600">after {formatCurrency(totals.refunds)} refunded</p>
+              )}
             </div>
           </div>
         </div>
@@ -293,6 +344,9 @@ export default function AdminPaymentsPage() {
         </div>
       </div>
 
+      {/* Cash drawers and variance report */}
+      <CashDrawerReport refreshKey={drawerRefreshKey} />
+
       {/* Filters */}
       <div className="bg-white p-6 rounded-lg shadow">
         <div className="flex items-center mb-4">
@@ -384,6 +438,7 @@ export default function AdminPaymentsPage() {
           {filteredPayments.length > 0 ? (
             filteredPayments.map((payment) => {
               const timestamp = formatDate(payment.completed_at);
+              const isRefund = payment.entry_type === 'refund';
 
               return (
                 <div key={payment.id} className="p-6 hover:bg-gray-50 transition-colors">
@@ -393,7 +448,7 @@ export default function AdminPaymentsPage() {
                         <div className="flex items-center space-x-2">
                           {getPaymentMethodIcon(payment.payment_method)}
                           <span className="font-medium text-gray-900">
-                            {payment.payment_method.charAt(0).toUpperCase() + payment.payment_method.slice(1)} Payment
+                            {payment.payment_method.charAt(0).toUpperCase() + payment.payment_method.slice(1)} {isRefund ? 'Refund' : 'Payment'}
                           </span>
                         </div>
                         <div className={`px-2 py-1 rounded-full text-xs font-medium ${
@@ -403,6 +458,11 @@ export default function AdminPaymentsPage() {
                         }`}>
                           {payment.payment_type.charAt(0).toUpperCase() + payment.payment_type.slice(1)}
                         </div>
+                        {isRefund && (
+                          <div className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Refund
+                          </div>
+                        )}
                         <div className="flex items-center text-sm text-gray-500">
                           <Clock className="h-4 w-4 mr-1" />
                           <span>{timestamp.date} at {timestamp.time}</span>
@@ -412,7 +472,41 @@ export default function AdminPaymentsPage() {
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div>
                           <h4 className="font-medium text-gray-900">Table {payment.table_number}</h4>
+                          {payment.diner_name && (
+                            <p className="text-sm text-gray-600">Paid by {payment.diner_name}</p>
+                          )}
+                          {payment.receipt_number && (
+                            <p className="flex items-center text-sm font-medium text-gray-900">
+                              <FileText className="h-4 w-4 mr-1" />
+                              Receipt {payment.receipt_number}
+                            </p>
+                          )}
                           <p className="text-sm text-gray-600">Session: {payment.session_id.slice(-8)}</p>
+                          {isRefund && (
+                            <>
+                              <p className="text-sm text-gray-600">Refund of {payment.original_reference || 'an earlier payment'}</p>
+                              {payment.credit_note_number && (
+                                <p className="text-sm text-red-600">Credit note {payment.credit_note_number}</p>
+                              )}
+                              {payment.refund_reason && (
+                                <p className="text-sm text-gray-600">Reason: {payment.refund_reason}</p>
+                              )}
+                              {payment.refunded_items?.map((item, index) => (
+                                <p key={index} className="text-sm text-gray-600">
+                                  {item.quantity} × {item.name}: -{formatCurrency(item.amount)}
+                                </p>
+                              ))}
+                            </>
+                          )}
+                          {!isRefund && (payment.refunded_amount || 0) > 0 && (
+                            <p className="text-sm text-red-600">Refunded: -{formatCurrency(payment.refunded_amount || 0)}</p>
+                          )}
+                          {!isRefund && payment.credit_notes?.map((note) => (
+                            <p key={note.id} className="text-sm text-red-600">
+                              Credit note {note.number}: -{formatCurrency(note.amount)}
+                              {note.reason ? ` (${note.reason})` : ''}
+                            </p>
+                          ))}
                           {payment.diners_count && payment.diners_count > 0 && (
                             <p className="text-sm text-gray-600">{payment.diners_count} diners</p>
                           )}
@@ -429,13 +523,13 @@ export default function AdminPaymentsPage() {
                         
                         <div>
                           <h4 className="font-medium text-gray-900 mb-1">Total Amount</h4>
-                          <div className="text-2xl font-bold text-[#00d9ff]">
+                          <div className={`text-2xl font-bold ${isRefund ? 'text-red-600' : 'text-[#00d9ff]'}`}>
                             {formatCurrency(payment.final_total)}
                           </div>
                         </div>
 
                         <div>
-                          <h4 className="font-medium text-gray-900 mb-1">Completed By</h4>
+                          <h4 className="font-medium text-gray-900 mb-1">{isRefund ? 'Authorized By' : 'Completed By'}</h4>
                           <div className="flex items-center text-sm text-gray-600">
                             <User className="h-4 w-4 mr-2" />
                             <span>{payment.completed_by}</span>
@@ -452,6 +546,15 @@ export default function AdminPaymentsPage() {
                         <Eye className="h-4 w-4 mr-1" />
                         View Details
                       </button>
+                      {!isRefund && (payment.refunded_amount || 0) < payment.final_total && (
+                        <button
+                          onClick={() => setRefundingId(payment.id)}
+                          className="flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Refund
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -471,6 +574,12 @@ export default function AdminPaymentsPage() {
           )}
         </div>
       </div>
+
+      <RefundPaymentModal
+        paymentId={refundingId}
+        onClose={() => setRefundingId(null)}
+        onRefunded={refreshAll}
+      />
     </div>
   );
 }
@@ -15,6 +15,8 @@ import {
   PieChart,
   Activity
 } from 'lucide-react';
+import { SOLD_ORDER_STATUSES } from '@/lib/order-statuses';
+import ZReportsPanel from '../components/ZReportsPanel';
 
 interface SalesData {
   date: string;
@@ -134,8 +136,8 @@ export default function SalesReportsPage() {
           }
 
           if (session.orders) {
-            session.orders.forEach((order: any) => {
-              const itemTotal = order.quantity * order.price;
+            session.orders.filter((order: any) => SOLD_ORDER_STATUSES.includes(order.status)).forEach((order: any) => {
+              const itemTotal = order.quantity * (order.unit_price ?? order.menu_items?.price ?? 0);
               salesByDate[date].total += itemTotal;
               salesByDate[date].orders += order.quantity;
               timeSeries[hour].sales += itemTotal;
@@ -482,6 +484,9 @@ export default function SalesReportsPage() {
           </div>
         </div>
       </div>
+
+      {/* End-of-day Z-reports */}
+      <ZReportsPanel />
     </div>
   );
 }
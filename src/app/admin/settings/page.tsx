@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { handleError } from '@/lib/error-handling';
+import { RestaurantSettings } from '@/types/database';
 import { 
   Save, 
   Shield, 
@@ -14,17 +15,6 @@ import {
   CheckCircle
 } from 'lucide-react';
 
-interface RestaurantSettings {
-  payment_finalization_method: 'attendant_verified' | 'self_serve';
-  auto_close_sessions: boolean;
-  session_timeout_minutes: number;
-  require_table_pins: boolean;
-  enable_notifications: boolean;
-  low_stock_threshold: number;
-  tax_rate: number;
-  service_charge_rate: number;
-}
-
 const defaultSettings: RestaurantSettings = {
   payment_finalization_method: 'attendant_verified',
   auto_close_sessions: false,
@@ -32,8 +22,48 @@ const defaultSettings: RestaurantSettings = {
   require_table_pins: true,
   enable_notifications: true,
   low_stock_threshold: 10,
-  tax_rate: 0.08,
-  service_charge_rate: 0.15
+  tax_rate: 0.14,
+  service_charge_rate: 0,
+  prices_include_tax: false,
+  tax_rounding_mode: 'per_bill',
+  tax_rounding_method: 'half_up',
+  timezone: 'Africa/Gaborone',
+  escalation_floor_minutes: 2,
+  escalation_manager_minutes: 5,
+  low_rating_threshold: 2,
+  business_address: '',
+  vat_registration_number: ''
+};
+
+// Offered in the timezone picker; a stored value outside this list is still shown
+const timezoneOptions = [
+  'Africa/Gaborone',
+  'Africa/Johannesburg',
+  'Africa/Harare',
+  'Africa/Lusaka',
+  'Africa/Windhoek',
+  'Africa/Maputo',
+  'Africa/Nairobi',
+  'Africa/Lagos',
+  'Europe/London',
+  'UTC'
+];
+
+// Settings are stored per restaurant; the logged-in manager's restaurant is used when known
+const getSettingsUrl = () => {
+  const savedManager = localStorage.getItem('manager');
+  const restaurantId = savedManager ? JSON.parse(savedManager).restaurantId : null;
+  return restaurantId
+    ? `/api/admin/settings?restaurantId=${encodeURIComponent(restaurantId)}`
+    : '/api/admin/settings';
+};
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
 };
 
 export default function AdminSettingsPage() {
@@ -52,12 +82,17 @@ export default function AdminSettingsPage() {
       setIsLoading(true);
       setError(null);
 
-      // In a real app, this would fetch from a restaurant_settings table
-      // For now, we'll use localStorage as a simple storage solution
-      const savedSettings = localStorage.getItem('restaurant_settings');
-      if (savedSettings) {
-        setSettings({ ...defaultSettings, ...JSON.parse(savedSettings) });
+      const response = await fetch(getSettingsUrl(), {
+        method: 'GET',
+        headers: await getAuthHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load settings');
       }
+
+      setSettings({ ...defaultSettings, ...data.data });
     } catch (error) {
       console.error('Error fetching settings:', error);
       setError('Failed to load settings');
@@ -72,24 +107,24 @@ export default function AdminSettingsPage() {
       setError(null);
       setSaveStatus('idle');
 
-      // In a real app, this would save to a restaurant_settings table
-      localStorage.setItem('restaurant_settings', JSON.stringify(settings));
-      
-      // Log the configuration change to audit log
-      await supabase.from('audit_logs').insert({
-        action: 'system_configuration_change',
-        details: {
-          changes: settings,
-          changed_by: 'admin'
-        },
-        performed_by: 'admin'
+      // The settings API persists the change and writes the audit log entry
+      const response = await fetch(getSettingsUrl(), {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ settings })
       });
+      const data = await response.json();
 
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save settings');
+      }
+
+      setSettings({ ...defaultSettings, ...data.data });
       setSaveStatus('success');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } catch (error) {
       console.error('Error saving settings:', error);
-      setError('Failed to save settings');
+      setError(error instanceof Error ? error.message : 'Failed to save settings');
       setSaveStatus('error');
     } finally {
       setIsSaving(false);
@@ -151,7 +186,7 @@ export default function AdminSettingsPage() {
       {saveStatus === 'error' && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center">
           <AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
-          <span className="text-red-800">Failed to save settings. Please try again.</span>
+          <span className="text-red-800">{error || 'Failed to save settings. Please try again.'}</span>
         </div>
       )}
 
@@ -239,7 +274,7 @@ export default function AdminSettingsPage() {
                 type="number"
                 step="0.01"
                 min="0"
-                max="1"
+                max="100"
                 value={settings.tax_rate * 100}
                 onChange={(e) => handleSettingChange('tax_rate', parseFloat(e.target.value) / 100)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
@@ -253,13 +288,89 @@ export default function AdminSettingsPage() {
                 type="number"
                 step="0.01"
                 min="0"
-                max="1"
+                max="100"
                 value={settings.service_charge_rate * 100}
                 onChange={(e) => handleSettingChange('service_charge_rate', parseFloat(e.target.value) / 100)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
               />
             </div>
           </div>
+
+          {/* Tax Rules */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Menu Prices Include VAT</h3>
+              <p className="text-sm text-gray-600">Turn on if menu prices are tax-inclusive; VAT is then shown as included instead of added</p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.prices_include_tax}
+                onChange={(e) => handleSettingChange('prices_include_tax', e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                VAT Rounding
+              </label>
+              <select
+                value={settings.tax_rounding_mode}
+                onChange={(e) => handleSettingChange('tax_rounding_mode', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="per_bill">Round once per bill</option>
+                <option value="per_line">Round each line</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Rounding Method
+              </label>
+              <select
+                value={settings.tax_rounding_method}
+                onChange={(e) => handleSettingChange('tax_rounding_method', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="half_up">Half up</option>
+                <option value="half_even">Half even (banker&apos;s)</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Invoice Details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                VAT Registration Number
+              </label>
+              <input
+                type="text"
+                maxLength={40}
+                value={settings.vat_registration_number}
+                onChange={(e) => handleSettingChange('vat_registration_number', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Printed on PDF tax invoices</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Business Address
+              </label>
+              <textarea
+                rows={2}
+                maxLength={300}
+                value={settings.business_address}
+                onChange={(e) => handleSettingChange('business_address', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Shown under the restaurant name on invoices</p>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -302,6 +413,22 @@ export default function AdminSettingsPage() {
             <p className="text-xs text-gray-500 mt-1">Sessions will auto-close after this duration of inactivity</p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Restaurant Timezone
+            </label>
+            <select
+              value={settings.timezone}
+              onChange={(e) => handleSettingChange('timezone', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(timezoneOptions.includes(settings.timezone) ? timezoneOptions : [settings.timezone, ...timezoneOptions]).map(timezone => (
+                <option key={timezone} value={timezone}>{timezone}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Breakfast, lunch and other menu schedules follow this local time</p>
+          </div>
+
           <div className="flex items-center justify-between">
             <div>
               <h3 className="text-sm font-medium text-gray-900">Require Table PINs</h3>
@@ -357,6 +484,52 @@ export default function AdminSettingsPage() {
             />
             <p className="text-xs text-gray-500 mt-1">Get notified when menu item availability drops below this number</p>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Escalate to All Floor Staff (minutes)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="120"
+                value={settings.escalation_floor_minutes}
+                onChange={(e) => handleSettingChange('escalation_floor_minutes', parseInt(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Unacknowledged requests go to every waiter after this long (0 = never)</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Escalate to Manager (minutes)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="120"
+                value={settings.escalation_manager_minutes}
+                onChange={(e) => handleSettingChange('escalation_manager_minutes', parseInt(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Still unacknowledged after this long, the manager is alerted (0 = never)</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Low Rating Alert (stars)
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="4"
+              value={settings.low_rating_threshold}
+              onChange={(e) => handleSettingChange('low_rating_threshold', parseInt(e.target.value) || 0)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">The manager is alerted when a diner rates their visit at or below this (0 = never)</p>
+          </div>
         </div>
       </div>
 
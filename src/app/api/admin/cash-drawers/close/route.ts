@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { logCashDrawerClose } from '@/lib/audit-logging';
+import { closeCashDrawer, toCashDrawerReport } from '@/lib/cash-drawers';
+
+const errorStatus = (error: unknown) => {
+  if (error instanceof AppError && error.code === 'INVALID_CASH_COUNT') {
+    return 400;
+  }
+  if (error instanceof AppError && error.code === 'CASH_DRAWER_NOT_FOUND') {
+    return 404;
+  }
+  if (error instanceof AppError && error.code === 'CASH_DRAWER_NOT_OPEN') {
+    return 409;
+  }
+  return 500;
+};
+
+// POST /api/admin/cash-drawers/close - Cash up a drawer from a denomination count
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { drawerId, denominations, notes } = await request.json();
+
+    if (!drawerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Drawer ID is required'
+      }, { status: 400 });
+    }
+
+    const closedBy = user?.email || user?.id || 'Manager';
+    const summary = await closeCashDrawer(drawerId, { denominations, closedBy, notes });
+    const report = toCashDrawerReport(summary);
+
+    await logCashDrawerClose({
+      drawer_session_id: report.id,
+      terminal: report.terminal,
+      staff_name: report.staff_name,
+      expected_cash: report.expected_cash,
+      counted_cash: report.counted_cash ?? 0,
+      variance: report.variance ?? 0,
+      closed_by: closedBy
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      console.error('Cash-up POST API error:', error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cash up drawer'
+    }, { status });
+  }
+});
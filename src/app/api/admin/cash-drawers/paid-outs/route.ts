@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { logCashPaidOut } from '@/lib/audit-logging';
+import { getCashDrawer, recordPaidOut } from '@/lib/cash-drawers';
+
+const errorStatus = (error: unknown) => {
+  if (error instanceof AppError && error.code === 'INVALID_CASH_DRAWER') {
+    return 400;
+  }
+  if (error instanceof AppError && error.code === 'CASH_DRAWER_NOT_FOUND') {
+    return 404;
+  }
+  if (error instanceof AppError && error.code === 'CASH_DRAWER_NOT_OPEN') {
+    return 409;
+  }
+  return 500;
+};
+
+// POST /api/admin/cash-drawers/paid-outs - Take cash out of an open drawer
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { drawerId, amount, reason } = await request.json();
+
+    if (!drawerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Drawer ID is required'
+      }, { status: 400 });
+    }
+
+    const recordedBy = user?.email || user?.id || 'Manager';
+    const paidOut = await recordPaidOut(drawerId, { amount: Number(amount), reason, recordedBy });
+    const drawer = await getCashDrawer(drawerId);
+
+    await logCashPaidOut({
+      drawer_session_id: drawerId,
+      terminal: drawer?.terminal || '',
+      amount: paidOut.amount,
+      reason: paidOut.reason,
+      recorded_by: recordedBy
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      data: paidOut
+    });
+
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      console.error('Paid-out POST API error:', error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record paid-out'
+    }, { status });
+  }
+});
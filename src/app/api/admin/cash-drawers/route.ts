@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import {
+  CASH_DENOMINATIONS,
+  CashDrawerStatus,
+  getCashDrawers,
+  getCashDrawerSummaries,
+  openCashDrawer,
+  toCashDrawerReport
+} from '@/lib/cash-drawers';
+
+const DEFAULT_REPORT_DAYS = 7;
+
+// Drawers are per restaurant; requests without one act on the default restaurant
+const getRestaurantId = (request: NextRequest, body?: { restaurantId?: string }) =>
+  body?.restaurantId || request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/cash-drawers?status=&days= - Open drawers and recent cash-ups with their variances
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const status = request.nextUrl.searchParams.get('status') as CashDrawerStatus | null;
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '', 10) || DEFAULT_REPORT_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const drawers = await getCashDrawers(getRestaurantId(request), {
+      status: status === 'open' || status === 'closed' ? status : undefined,
+      since: status === 'open' ? undefined : since
+    });
+    const summaries = await getCashDrawerSummaries(drawers);
+
+    // Staff a drawer can be opened for
+    const { data: staff, error: staffError } = await supabaseServer
+      .from('staff')
+      .select('id, staff_id, name')
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (staffError) {
+      console.error('⚠️ Failed to load staff for cash drawers:', staffError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        drawers: summaries.map(toCashDrawerReport),
+        staff: staff || [],
+        denominations: CASH_DENOMINATIONS
+      }
+    });
+
+  } catch (error) {
+    console.error('Cash drawers GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch cash drawers'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/admin/cash-drawers - Open a drawer on a terminal with an opening float
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const { terminal, staffId, staffName, openingFloat } = body;
+
+    const drawer = await openCashDrawer(getRestaurantId(request, body), {
+      terminal,
+      staffId,
+      staffName,
+      openingFloat: Number(openingFloat) || 0,
+      openedBy: user?.email || user?.id || 'Manager'
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: drawer
+    });
+
+  } catch (error) {
+    const status = error instanceof AppError && error.code === 'INVALID_CASH_DRAWER' ? 400
+      : error instanceof AppError && error.code === 'CASH_DRAWER_ALREADY_OPEN' ? 409
+      : 500;
+    if (status === 500) {
+      console.error('Cash drawers POST API error:', error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to open cash drawer'
+    }, { status });
+  }
+});
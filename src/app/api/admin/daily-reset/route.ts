@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { formatZNumber, generateZReportsForAllRestaurants, ZReport } from '@/lib/z-reports';
 import { getSupabaseUrl, getSupabaseServiceKey } from '@/lib/secure-env';
 import { withAdminAuth } from '@/lib/api-auth';
 
@@ -35,6 +36,20 @@ export const POST = withAdminAuth(async (request: NextRequest, adminUser) => {
       console.error('❌ Error counting sessions:', sessionCountError);
     }
 
+    // 0. Issue each restaurant's end-of-day Z-report while today's sessions are still open
+    // (a failed report does not hold up the reset - the next report picks up from the last one issued)
+    let zReports: ZReport[] = [];
+    let zReportErrors: { restaurantId: string; error: string }[] = [];
+    try {
+      ({ reports: zReports, errors: zReportErrors } = await generateZReportsForAllRestaurants({
+        source: 'manual',
+        generatedBy: adminUser.email || adminUser.id
+      }));
+    } catch (zReportError) {
+      console.error('❌ Error issuing Z-reports:', zReportError);
+      zReportErrors = [{ restaurantId: 'all', error: zReportError instanceof Error ? zReportError.message : 'Unknown error' }];
+    }
+
     // 1. Mark all active sessions as 'completed'
     const { error: sessionUpdateError } = await supabase
       .from('sessions')
@@ -92,6 +107,7 @@ export const POST = withAdminAuth(async (request: NextRequest, adminUser) => {
         user_id: adminUser.id,
         metadata: {
           sessions_reset: activeSessions?.length || 0,
+          z_reports: zReports.map(report => report.id),
           reset_time: new Date().toISOString()
         }
       }]);
@@ -106,6 +122,13 @@ export const POST = withAdminAuth(async (request: NextRequest, adminUser) => {
       message: 'Daily reset completed successfully',
       data: {
         sessions_reset: activeSessions?.length || 0,
+        z_reports: zReports.map(report => ({
+          id: report.id,
+          restaurant_id: report.restaurant_id,
+          z_number: formatZNumber(report.z_number),
+          net_sales: report.net_sales
+        })),
+        z_report_errors: zReportErrors,
         reset_time: new Date().toISOString(),
         performed_by: adminUser.email
       }
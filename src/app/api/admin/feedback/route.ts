@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { getFeedbackReport, markFeedbackReviewed } from '@/lib/feedback';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+
+const getRestaurantId = (request: NextRequest) =>
+  request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/feedback?days= - Feedback inbox with ratings over time, per waiter and per item
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30');
+    const report = await getFeedbackReport(
+      getRestaurantId(request),
+      Number.isFinite(days) && days > 0 ? Math.min(days, 365) : 30
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Feedback GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch feedback'
+    }, { status: 500 });
+  }
+});
+
+// PATCH /api/admin/feedback - Mark feedback as reviewed
+export const PATCH = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { feedbackId } = await request.json();
+
+    if (!feedbackId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Feedback ID is required'
+      }, { status: 400 });
+    }
+
+    const feedback = await markFeedbackReviewed(feedbackId, user?.email || user?.id || 'Manager');
+
+    return NextResponse.json({
+      success: true,
+      data: feedback
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'FEEDBACK_NOT_FOUND') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 });
+    }
+
+    console.error('Feedback PATCH API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update feedback'
+    }, { status: 500 });
+  }
+});
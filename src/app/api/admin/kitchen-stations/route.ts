@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { createAuditLog } from '@/lib/audit-logging';
+import { AppError } from '@/lib/error-handling';
+import { deleteKitchenStation, getKitchenStations, saveKitchenStation } from '@/lib/kitchen-station-config';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+
+// Stations are per restaurant; requests without one act on the default restaurant
+const getRestaurantId = (request: NextRequest, body?: { restaurantId?: string }) =>
+  body?.restaurantId || request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/kitchen-stations - List kitchen stations
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const stations = await getKitchenStations(getRestaurantId(request));
+
+    return NextResponse.json({
+      success: true,
+      data: stations
+    });
+
+  } catch (error) {
+    console.error('Kitchen stations GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch kitchen stations'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/admin/kitchen-stations - Create or update a kitchen station
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const { station } = body;
+
+    if (!station || typeof station !== 'object') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid station data'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request, body);
+    const savedStation = await saveKitchenStation(restaurantId, station);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          kitchenStation: savedStation,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: savedStation
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_KITCHEN_STATION') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+
+    console.error('Kitchen stations POST API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save kitchen station'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/kitchen-stations?code= - Delete a kitchen station
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const code = request.nextUrl.searchParams.get('code');
+
+    if (!code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Station code is required'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request);
+    await deleteKitchenStation(restaurantId, code);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          deletedKitchenStation: code,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Kitchen station deleted'
+    });
+
+  } catch (error) {
+    console.error('Kitchen stations DELETE API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete kitchen station'
+    }, { status: 500 });
+  }
+});
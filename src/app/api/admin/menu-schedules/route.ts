@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { createAuditLog } from '@/lib/audit-logging';
+import { AppError } from '@/lib/error-handling';
+import { deleteMenuSchedule, getMenuSchedules, saveMenuSchedule } from '@/lib/menu-availability';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+
+// Schedules are per restaurant; requests without one act on the default restaurant
+const getRestaurantId = (request: NextRequest, body?: { restaurantId?: string }) =>
+  body?.restaurantId || request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/menu-schedules - List menu schedules
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const schedules = await getMenuSchedules(getRestaurantId(request));
+
+    return NextResponse.json({
+      success: true,
+      data: schedules
+    });
+
+  } catch (error) {
+    console.error('Menu schedules GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch menu schedules'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/admin/menu-schedules - Create or update a menu schedule
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const { schedule } = body;
+
+    if (!schedule || typeof schedule !== 'object') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid schedule data'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request, body);
+    const savedSchedule = await saveMenuSchedule(restaurantId, schedule);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          menuSchedule: savedSchedule,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: savedSchedule
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_MENU_SCHEDULE') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+
+    console.error('Menu schedules POST API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save menu schedule'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/menu-schedules?id= - Delete a menu schedule
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const scheduleId = request.nextUrl.searchParams.get('id');
+
+    if (!scheduleId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Schedule ID is required'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request);
+    await deleteMenuSchedule(restaurantId, scheduleId);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          deletedMenuScheduleId: scheduleId,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Menu schedule deleted'
+    });
+
+  } catch (error) {
+    console.error('Menu schedules DELETE API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete menu schedule'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { logPaymentRefund } from '@/lib/audit-logging';
+import { formatFiscalNumber } from '@/lib/fiscal-receipts';
+import { queueCreditNote } from '@/lib/print-queue';
+import { getPaymentTotal } from '@/lib/payments';
+import { assignCashToDrawer } from '@/lib/cash-drawers';
+import { getRefundSummary, refundPayment } from '@/lib/refunds';
+
+const errorStatus = (error: unknown) => {
+  if (error instanceof AppError && (error.code === 'INVALID_REFUND' || error.code === 'INVALID_CREDIT_NOTE')) {
+    return 400;
+  }
+  if (error instanceof AppError && (error.code === 'PAYMENT_NOT_FOUND' || error.code === 'FISCAL_RECEIPT_NOT_FOUND')) {
+    return 404;
+  }
+  if (error instanceof AppError && error.code === 'REFUND_PROVIDER_FAILED') {
+    return 502;
+  }
+  return 500;
+};
+
+// GET /api/admin/payments/refund?paymentId= - What is left to refund on a payment, line by line
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const paymentId = request.nextUrl.searchParams.get('paymentId');
+    if (!paymentId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Payment ID is required'
+      }, { status: 400 });
+    }
+
+    const summary = await getRefundSummary(paymentId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payment_id: summary.payment.id,
+        reference: summary.payment.reference,
+        payment_method: summary.payment.payment_method,
+        total: getPaymentTotal(summary.payment),
+        refunded: summary.refunded,
+        refundable: summary.refundable,
+        receipt_number: summary.receipt ? formatFiscalNumber('receipt', summary.receipt.receipt_number) : null,
+        lines: summary.lines.map(line => ({
+          line: line.line,
+          name: line.name,
+          quantity: line.quantity,
+          refunded_quantity: line.refundedQuantity,
+          unit_amount: Math.round(line.unitAmount * 100) / 100
+        }))
+      }
+    });
+
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      console.error('Refund GET API error:', error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load refund details'
+    }, { status });
+  }
+});
+
+// POST /api/admin/payments/refund - Refund a payment in full, by amount, or by receipt items
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { paymentId, amount, items, reason, refundMethod, cashDrawerId } = await request.json();
+
+    if (!paymentId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Payment ID is required'
+      }, { status: 400 });
+    }
+
+    const authorizedBy = user?.email || user?.id || 'Manager';
+    const { refund, original, creditNote, receipt } = await refundPayment(paymentId, {
+      amount: amount === undefined || amount === null || amount === '' ? null : Number(amount),
+      items: Array.isArray(items) ? items : undefined,
+      reason,
+      refundMethod,
+      authorizedBy
+    });
+
+    // Cash handed back comes out of a drawer
+    const cashDrawer = await assignCashToDrawer([refund], { cashDrawerId });
+
+    const refundAmount = Math.round(-(refund.amount + refund.tip_amount) * 100) / 100;
+    const creditNoteNumber = creditNote ? formatFiscalNumber('credit_note', creditNote.receipt_number) : null;
+    const receiptNumber = receipt ? formatFiscalNumber('receipt', receipt.receipt_number) : null;
+
+    await logPaymentRefund(refund.session_id, {
+      refund_reference: refund.reference,
+      original_reference: original.reference,
+      original_receipt: receiptNumber,
+      credit_note: creditNoteNumber,
+      amount: refundAmount,
+      refund_method: refund.payment_method,
+      ...(refund.refunded_items ? { items: refund.refunded_items.map(({ name, quantity, amount }) => ({ name, quantity, amount })) } : {}),
+      reason: refund.refund_reason || '',
+      authorized_by: authorizedBy
+    }, request);
+
+    if (creditNote && receipt) {
+      try {
+        await queueCreditNote(creditNote, receipt);
+      } catch (printError) {
+        console.error('⚠️ Failed to queue credit note:', printError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...refund,
+        refund_amount: refundAmount,
+        original_reference: original.reference,
+        receipt_number: receiptNumber,
+        credit_note_number: creditNoteNumber,
+        cash_drawer_session_id: cashDrawer?.id || null
+      }
+    });
+
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      console.error('Refund POST API error:', error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to refund payment'
+    }, { status });
+  }
+});
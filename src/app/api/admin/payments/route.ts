@@ -1,55 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { DEFAULT_RESTAURANT_ID, getRestaurantSettings } from '@/lib/restaurant-settings';
+import { buildTaxConfigFromSettings } from '@/lib/tax-config';
+import { calculateTotalsFromTotal } from '@/lib/tax-engine';
+import { formatFiscalNumber, getFiscalDocumentsForSessions } from '@/lib/fiscal-receipts';
+import { getPaymentTotal, getPayments } from '@/lib/payments';
+import { getRefundsForPayments } from '@/lib/refunds';
 
-// GET /api/admin/payments - Get completed payments for admin dashboard
+// GET /api/admin/payments?restaurantId= - Get completed payments from the payments ledger for admin dashboard
 export async function GET(request: NextRequest) {
   try {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !supabaseServiceKey) {
-      console.error('❌ Missing required environment variables');
-      return NextResponse.json({ 
-        error: 'Missing required environment variables'
-      }, { status: 500 });
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-      db: { schema: 'public' },
-      auth: { autoRefreshToken: false, persistSession: false }
-    });
-
-    // Get sessions with completed payments (simple query to avoid join issues)
-    const { data: sessions, error: sessionsError } = await supabase
-      .from('sessions')
-      .select(`
-        id,
-        table_id,
-        status,
-        payment_status,
-        final_total,
-        payment_completed_at,
-        created_at,
-        updated_at
-      `)
-      .eq('payment_status', 'completed')
-      .order('payment_completed_at', { ascending: false })
-      .limit(100);
+    const restaurantId = request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
 
-    if (sessionsError) {
-      console.error('❌ Error fetching sessions:', sessionsError);
-      return NextResponse.json(
-        { error: `Failed to fetch sessions: ${sessionsError.message}` },
-        { status: 500 }
-      );
-    }
+    // Payments come from the ledger - a table paid diner by diner shows one row per diner, and each
+    // refund is its own negative row
+    const ledger = await getPayments(restaurantId, { limit: 200 });
+    const refunds = await getRefundsForPayments(
+      ledger.filter(payment => payment.entry_type === 'payment').map(payment => payment.id)
+    );
+    const ledgerById = new Map(ledger.map(payment => [payment.id, payment]));
 
     // Get table numbers separately to avoid join issues
-    const tableIds = [...new Set((sessions || []).map((s: any) => s.table_id))];
+    const tableIds = [...new Set(ledger.map(payment => payment.table_id).filter(Boolean))] as string[];
     let tableNumbers: Record<string, string> = {};
     
     if (tableIds.length > 0) {
-      const { data: tables, error: tablesError } = await supabase
+      const { data: tables, error: tablesError } = await supabaseServer
         .from('tables')
         .select('id, table_number')
         .in('id', tableIds);
@@ -62,25 +38,64 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Transform sessions into payment records
-    const payments = (sessions || []).map((session: any) => {
-      const finalTotal = session.final_total || 0;
-      const subtotal = finalTotal / 1.14; // Calculate subtotal from final total
-      const vatAmount = finalTotal - subtotal;
+    const settings = await getRestaurantSettings(restaurantId);
+    const taxConfig = buildTaxConfigFromSettings(settings);
+    const fiscalDocuments = await getFiscalDocumentsForSessions(
+      ledger.map(payment => payment.session_id).filter(Boolean) as string[]
+    );
+
+    // Shape ledger rows for the payments page
+    const payments = ledger.map(payment => {
+      // Payments backfilled from sessions have no breakdown, so work it back from the amount
+      const breakdown = payment.subtotal === null
+        ? calculateTotalsFromTotal(payment.amount, taxConfig)
+        : { subtotal: payment.subtotal, tax: payment.tax_amount || 0 };
+      const documents = payment.session_id ? fiscalDocuments[payment.session_id] || [] : [];
+      const receipt = documents.find(document => document.id === payment.fiscal_receipt_id)
+        || documents.find(document => document.document_type === 'receipt' && document.payment_reference === payment.reference);
+      const creditNotes = receipt
+        ? documents.filter(document => document.original_receipt_id === receipt.id)
+        : [];
+      const creditNote = payment.credit_note_id
+        ? documents.find(document => document.id === payment.credit_note_id)
+        : undefined;
+      const paymentRefunds = refunds.filter(refund => refund.original_payment_id === payment.id);
 
       return {
-        id: session.id,
-        session_id: session.id,
-        table_number: tableNumbers[session.table_id] || 'Unknown',
-        subtotal: parseFloat(subtotal.toFixed(2)),
-        vat_amount: parseFloat(vatAmount.toFixed(2)),
-        tip_amount: 0, // We don't store tip separately in sessions
-        final_total: finalTotal,
-        payment_method: 'cash', // Default since we don't store this in sessions
-        payment_type: 'table', // Most completed payments are table payments
-        completed_by: 'Staff Member', // Default since we don't store this in sessions
-        completed_at: session.payment_completed_at || session.updated_at,
-        created_at: session.created_at
+        id: payment.id,
+        session_id: payment.session_id || '',
+        table_number: (payment.table_id && tableNumbers[payment.table_id]) || 'Unknown',
+        diner_name: payment.diner_name,
+        reference: payment.reference,
+        subtotal: parseFloat(breakdown.subtotal.toFixed(2)),
+        vat_amount: parseFloat(breakdown.tax.toFixed(2)),
+        service_charge: payment.service_charge || 0,
+        tip_amount: payment.tip_amount,
+        final_total: getPaymentTotal(payment),
+        payment_method: payment.payment_method,
+        payment_type: payment.payment_type,
+        completed_by: payment.completed_by || 'Staff Member',
+        completed_at: payment.completed_at || payment.created_at,
+        created_at: payment.created_at,
+        receipt_id: receipt?.id || null,
+        receipt_number: receipt ? formatFiscalNumber('receipt', receipt.receipt_number) : null,
+        credit_notes: creditNotes.map(note => ({
+          id: note.id,
+          number: formatFiscalNumber('credit_note', note.receipt_number),
+          amount: note.amount,
+          reason: note.reason,
+          issued_at: note.issued_at
+        })),
+        credited_amount: Math.round(creditNotes.reduce((sum, note) => sum + note.amount, 0) * 100) / 100,
+        entry_type: payment.entry_type,
+        refunded_amount: Math.round(-paymentRefunds.reduce((sum, refund) => sum + getPaymentTotal(refund), 0) * 100) / 100,
+        original_payment_id: payment.original_payment_id,
+        original_reference: payment.original_payment_id
+          ? ledgerById.get(payment.original_payment_id)?.reference || null
+          : null,
+        refund_reason: payment.refund_reason,
+        refunded_items: payment.refunded_items,
+        credit_note_number: creditNote ? formatFiscalNumber('credit_note', creditNote.receipt_number) : null
       };
     });
 
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { createAuditLog } from '@/lib/audit-logging';
+import { AppError } from '@/lib/error-handling';
+import { deletePrinter, getPrinters, savePrinter } from '@/lib/print-queue';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+
+// Printers are per restaurant; requests without one act on the default restaurant
+const getRestaurantId = (request: NextRequest, body?: { restaurantId?: string }) =>
+  body?.restaurantId || request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/printers - List printers
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const printers = await getPrinters(getRestaurantId(request));
+
+    return NextResponse.json({
+      success: true,
+      data: printers
+    });
+
+  } catch (error) {
+    console.error('Printers GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch printers'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/admin/printers - Create or update a printer
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json();
+    const { printer } = body;
+
+    if (!printer || typeof printer !== 'object') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid printer data'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request, body);
+    const savedPrinter = await savePrinter(restaurantId, printer);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          printer: savedPrinter,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: savedPrinter
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_PRINTER') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+
+    console.error('Printers POST API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save printer'
+    }, { status: 500 });
+  }
+});
+
+// DELETE /api/admin/printers?id= - Delete a printer
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Printer ID is required'
+      }, { status: 400 });
+    }
+
+    const restaurantId = getRestaurantId(request);
+    await deletePrinter(restaurantId, id);
+
+    if (user) {
+      await createAuditLog({
+        action: 'system_configuration_change',
+        details: {
+          restaurantId,
+          deletedPrinter: id,
+          updatedBy: user.id
+        },
+        performed_by: user.id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Printer deleted'
+    });
+
+  } catch (error) {
+    console.error('Printers DELETE API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete printer'
+    }, { status: 500 });
+  }
+});
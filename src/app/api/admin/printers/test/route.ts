@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { getPrinters, queueTestPage } from '@/lib/print-queue';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+
+// POST /api/admin/printers/test - Queue a test page for a printer
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { printerId } = body;
+    const restaurantId = body.restaurantId || request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+    if (!printerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Printer ID is required'
+      }, { status: 400 });
+    }
+
+    const printer = (await getPrinters(restaurantId)).find(candidate => candidate.id === printerId);
+    if (!printer) {
+      return NextResponse.json({
+        success: false,
+        error: 'Printer not found'
+      }, { status: 404 });
+    }
+
+    const jobId = await queueTestPage(restaurantId, printer);
+
+    return NextResponse.json({
+      success: true,
+      data: { jobId }
+    });
+
+  } catch (error) {
+    console.error('Printer test API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to queue test page'
+    }, { status: 500 });
+  }
+});
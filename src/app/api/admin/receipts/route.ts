@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { logPaymentRefund } from '@/lib/audit-logging';
+import { formatFiscalNumber, getFiscalDocuments } from '@/lib/fiscal-receipts';
+import { queueCreditNote } from '@/lib/print-queue';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import { assignCashToDrawer } from '@/lib/cash-drawers';
+import { refundReceipt } from '@/lib/refunds';
+
+const getRestaurantId = (request: NextRequest) =>
+  request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+
+// GET /api/admin/receipts?days= - Fiscal receipts and credit notes, newest first
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30');
+    const documents = await getFiscalDocuments(
+      getRestaurantId(request),
+      Number.isFinite(days) && days > 0 ? Math.min(days, 366) : 30
+    );
+
+    const numbersById = new Map(documents.map(document => [document.id, formatFiscalNumber(document.document_type, document.receipt_number)]));
+
+    return NextResponse.json({
+      success: true,
+      data: documents.map(document => ({
+        ...document,
+        number: numbersById.get(document.id),
+        original_number: document.original_receipt_id ? numbersById.get(document.original_receipt_id) || null : null
+      }))
+    });
+
+  } catch (error) {
+    console.error('Receipts GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch receipts'
+    }, { status: 500 });
+  }
+});
+
+// POST /api/admin/receipts - Void (whole amount) or partially credit a receipt
+// The payments on the receipt are refunded, so the ledger, cash drawers and provider follow the credit notes
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { receiptId, amount, reason, cashDrawerId } = await request.json();
+
+    if (!receiptId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Receipt ID is required'
+      }, { status: 400 });
+    }
+
+    const authorizedBy = user?.email || user?.id || 'Manager';
+    const results = await refundReceipt(receiptId, {
+      amount: amount === undefined || amount === null || amount === '' ? null : Number(amount),
+      reason,
+      authorizedBy
+    });
+
+    const creditNotes = [];
+    for (const { refund, original, creditNote, receipt } of results) {
+      // Cash handed back comes out of a drawer
+      await assignCashToDrawer([refund], { cashDrawerId });
+
+      const creditNoteNumber = creditNote ? formatFiscalNumber('credit_note', creditNote.receipt_number) : null;
+      const originalNumber = receipt ? formatFiscalNumber('receipt', receipt.receipt_number) : null;
+
+      await logPaymentRefund(refund.session_id, {
+        refund_reference: refund.reference,
+        original_reference: original.reference,
+        original_receipt: originalNumber,
+        credit_note: creditNoteNumber,
+        amount: Math.round(-(refund.amount + refund.tip_amount) * 100) / 100,
+        refund_method: refund.payment_method,
+        reason: refund.refund_reason || '',
+        authorized_by: authorizedBy
+      }, request);
+
+      if (creditNote && receipt) {
+        try {
+          await queueCreditNote(creditNote, receipt);
+        } catch (printError) {
+          console.error('⚠️ Failed to queue credit note:', printError);
+        }
+        creditNotes.push({
+          ...creditNote,
+          number: creditNoteNumber,
+          original_number: originalNumber,
+          refund_reference: refund.reference
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: creditNotes
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && (error.code === 'INVALID_REFUND' || error.code === 'INVALID_CREDIT_NOTE')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+    if (error instanceof AppError && (error.code === 'PAYMENT_NOT_FOUND' || error.code === 'FISCAL_RECEIPT_NOT_FOUND')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 });
+    }
+    if (error instanceof AppError && error.code === 'REFUND_PROVIDER_FAILED') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 502 });
+    }
+
+    console.error('Receipts POST API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to issue credit note'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { AppError } from '@/lib/error-handling';
+import { setStaffPin } from '@/lib/staff-pins';
+
+// POST /api/admin/staff/pin - Set or reset a staff member's login PIN
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { staffId, pin } = await request.json();
+
+    if (!staffId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Staff ID is required'
+      }, { status: 400 });
+    }
+
+    await setStaffPin(staffId, pin);
+
+    return NextResponse.json({
+      success: true,
+      data: { staff_id: staffId }
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_STAFF_PIN') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+    if (error instanceof AppError && error.code === 'STAFF_NOT_FOUND') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 });
+    }
+
+    console.error('Staff PIN POST API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set PIN'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/api-auth';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import { formatZNumber, getZReports } from '@/lib/z-reports';
+
+// GET /api/admin/z-reports?restaurantId=&limit= - Issued end-of-day Z-reports, newest first
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const restaurantId = request.nextUrl.searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '', 10) || 60, 366);
+    const reports = await getZReports(restaurantId, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: reports.map(report => ({
+        ...report,
+        z_number_label: formatZNumber(report.z_number)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Z-reports GET API error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch Z-reports'
+    }, { status: 500 });
+  }
+});
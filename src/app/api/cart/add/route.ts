@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseUrl, getSupabaseServiceKey } from '@/lib/secure-env';
+import { getModifierTotal, normalizeModifierGroups, resolveModifierSelections } from '@/lib/menu-modifiers';
+import { isMenuItemAvailableNow } from '@/lib/menu-availability';
+import { getRestaurantIdForSession } from '@/lib/restaurant-settings';
+import { getDefaultCourse, isCourse } from '@/lib/courses';
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,9 +47,48 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Price and modifier rules come from the menu, never from the client
+    const { data: menuItem, error: menuItemError } = await supabase
+      .from('menu_items')
+      .select('id, name, category, price, modifier_groups, is_available, schedule_ids')
+      .eq('id', item.id)
+      .single();
+
+    if (menuItemError || !menuItem) {
+      console.error('❌ Error fetching menu item:', menuItemError);
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+
+    // Items switched off or outside their menu schedule (restaurant local time) can't be ordered
+    const restaurantId = await getRestaurantIdForSession(sessionId);
+    if (!(await isMenuItemAvailableNow(menuItem, restaurantId))) {
+      return NextResponse.json({
+        error: `${menuItem.name} is not available right now`,
+        code: 'ITEM_UNAVAILABLE'
+      }, { status: 409 });
+    }
+
+    const { customizations, errors: modifierErrors } = resolveModifierSelections(
+      normalizeModifierGroups(menuItem.modifier_groups),
+      options?.customizations ?? item.customizations
+    );
+
+    if (modifierErrors.length > 0) {
+      return NextResponse.json({
+        error: modifierErrors[0],
+        code: 'INVALID_MODIFIERS',
+        errors: modifierErrors
+      }, { status: 400 });
+    }
+
+    const unitPrice = (Number(menuItem.price) || 0) + getModifierTotal(customizations);
+
+    // Diners may tag the course themselves; otherwise it follows the menu category
+    const course = isCourse(options?.course) ? options.course : getDefaultCourse(menuItem.category);
+
     // Check if item already exists in this diner's cart with same options AND customizations
-    const customizations = item.customizations || [];
-    const customizationsKey = JSON.stringify(customizations.sort());
+    // Resolved customizations are in menu order, so equal selections serialize identically
+    const customizationsKey = JSON.stringify(customizations);
 
     // Get all cart items for this session, menu item, and diner to check for exact matches
     const { data: allCartItems, error: fetchError } = await supabase
@@ -63,13 +106,13 @@ export async function POST(request: NextRequest) {
 
     // Find exact match including customizations
     const existingCartItem = allCartItems?.find(cartItem => {
-      const cartItemCustomizations = cartItem.customizations || [];
-      const cartItemCustomizationsKey = JSON.stringify(cartItemCustomizations.sort());
+      const cartItemCustomizationsKey = JSON.stringify(cartItem.customizations || []);
       
       const isExactMatch = 
         cartItem.notes === (options?.notes || null) &&
         cartItem.is_shared === (options?.isShared || false) &&
         cartItem.is_takeaway === (options?.isTakeaway || false) &&
+        (cartItem.course || null) === course &&
         cartItemCustomizationsKey === customizationsKey;
       
       return isExactMatch;
@@ -102,7 +145,9 @@ export async function POST(request: NextRequest) {
           notes: options?.notes || null,
           is_shared: options?.isShared || false,
           is_takeaway: options?.isTakeaway || false,
-          customizations: customizations
+          customizations: customizations,
+          unit_price: unitPrice,
+          course
         })
         .select()
         .single();
@@ -121,12 +166,13 @@ export async function POST(request: NextRequest) {
       id: cartItem.id,
       menu_item_id: item.id,
       name: item.name,
-      price: item.price, // Store full price, frontend will calculate user portion
+      price: unitPrice, // Store full price (including modifiers), frontend will calculate user portion
       quantity: cartItem.quantity, // Use actual quantity from database
       notes: options?.notes || undefined,
       isShared: options?.isShared || false,
       isTakeaway: options?.isTakeaway || false,
       customizations: cartItem.customizations || [], // Include customizations from database
+      course: cartItem.course || null,
       dinerName: cartItem.diner_name,
       addedAt: Date.now()
     };
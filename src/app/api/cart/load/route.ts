@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseUrl, getSupabaseServiceKey } from '@/lib/secure-env';
+import { getModifierTotal } from '@/lib/menu-modifiers';
 
 async function loadCartItems(sessionId: string, dinerName?: string | null) {
   const supabaseUrl = getSupabaseUrl();
@@ -56,12 +57,15 @@ async function loadCartItems(sessionId: string, dinerName?: string | null) {
       is_shared,
       is_takeaway,
       customizations,
+      course,
       created_at,
       diner_name,
       split_bill_id,
+      unavailable_at,
       menu_items!inner (
         name,
-        price
+        price,
+        is_available
       ),
       split_bills (
         id,
@@ -108,7 +112,7 @@ async function loadCartItems(sessionId: string, dinerName?: string | null) {
   const processedCartItems = cartItems.map(item => {
     const menuItem = Array.isArray(item.menu_items) ? item.menu_items[0] : item.menu_items;
     const menuItemName = menuItem?.name || 'Unknown Item';
-    const menuItemPrice = menuItem?.price || 0;
+    const menuItemPrice = (menuItem?.price || 0) + getModifierTotal(item.customizations);
     
     // CRITICAL FIX: Check for split bill data in multiple ways
     let isSplit = false;
@@ -137,13 +141,16 @@ async function loadCartItems(sessionId: string, dinerName?: string | null) {
       id: item.id,
       menu_item_id: item.menu_item_id,
       name: menuItemName,
-      price: menuItemPrice, // Always use original menu item price for "each" display
+      price: menuItemPrice, // Menu item price plus modifiers for "each" display
       quantity: item.quantity,
       notes: item.notes || undefined,
       isShared: item.is_shared || false,
       isTakeaway: item.is_takeaway || false,
       customizations: item.customizations || [],
+      course: item.course || null,
       dinerName: item.diner_name,
+      // The kitchen 86'd this item after it was added; it must be removed before confirming
+      isUnavailable: Boolean(item.unavailable_at) && menuItem?.is_available === false,
       // Split bill properties - always use the most current data
       isSplit: isSplit,
       splitPrice: isSplit ? currentSplitBill.split_price : undefined,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseUrl, getSupabaseServiceKey } from '@/lib/secure-env';
+import { getModifierTotal, normalizeModifierGroups, resolveModifierSelections } from '@/lib/menu-modifiers';
+import { isCourse } from '@/lib/courses';
 
 export async function POST(request: NextRequest) {
   try {
@@ -49,7 +51,44 @@ export async function POST(request: NextRequest) {
       if (options.notes !== undefined) updateData.notes = options.notes;
       if (options.isShared !== undefined) updateData.is_shared = options.isShared;
       if (options.isTakeaway !== undefined) updateData.is_takeaway = options.isTakeaway;
-      if (options.customizations !== undefined) updateData.customizations = options.customizations;
+      if (options.course !== undefined) {
+        if (options.course !== null && !isCourse(options.course)) {
+          return NextResponse.json({ error: 'Invalid course. Must be one of: starter, main, dessert' }, { status: 400 });
+        }
+        updateData.course = options.course;
+      }
+    }
+
+    // Modifier changes are checked against the menu item's groups before they are stored
+    if (options?.customizations !== undefined) {
+      const { data: currentOrder, error: orderError } = await supabase
+        .from('orders')
+        .select('id, menu_items!inner (id, price, modifier_groups)')
+        .eq('id', itemId)
+        .single();
+
+      if (orderError) {
+        console.error('❌ Error fetching order for modifier update:', orderError);
+        return NextResponse.json({ error: orderError.message }, { status: 500 });
+      }
+
+      const menuItem: { id: string; price: number; modifier_groups: unknown } | undefined =
+        Array.isArray(currentOrder.menu_items) ? currentOrder.menu_items[0] : currentOrder.menu_items;
+      const { customizations, errors: modifierErrors } = resolveModifierSelections(
+        normalizeModifierGroups(menuItem?.modifier_groups),
+        options.customizations
+      );
+
+      if (modifierErrors.length > 0) {
+        return NextResponse.json({
+          error: modifierErrors[0],
+          code: 'INVALID_MODIFIERS',
+          errors: modifierErrors
+        }, { status: 400 });
+      }
+
+      updateData.customizations = customizations;
+      updateData.unit_price = (Number(menuItem?.price) || 0) + getModifierTotal(customizations);
     }
     
     const { error } = await supabase
@@ -72,6 +111,7 @@ export async function POST(request: NextRequest) {
         split_bill_id,
         menu_item_id,
         status,
+        customizations,
         menu_items!inner (price)
       `)
       .eq('id', itemId)
@@ -98,7 +138,7 @@ export async function POST(request: NextRequest) {
       }
       
       // Calculate new original price and split price
-      const newOriginalPrice = updatedOrder.quantity * (menuItem?.price || 0);
+      const newOriginalPrice = updatedOrder.quantity * ((menuItem?.price || 0) + getModifierTotal(updatedOrder.customizations));
       const newSplitPrice = newOriginalPrice / splitBill.split_count;
       
       // Update the split bill with new pricing
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseUrl, getSupabaseServiceKey } from '@/lib/secure-env';
+import { DEFAULT_RESTAURANT_ID, getRestaurantSettingsMap } from '@/lib/restaurant-settings';
 
 // GET /api/cleanup/stale-users - Check for stale users without modifying
 export async function GET(request: NextRequest) {
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
     // Get all active sessions with their diners
     const { data: sessions, error: sessionsError } = await supabase
       .from('sessions')
-      .select('id, created_at, diners, tables!inner(table_number)')
+      .select('id, restaurant_id, created_at, diners, tables!inner(table_number)')
       .eq('status', 'active');
 
     if (sessionsError) {
@@ -32,7 +33,17 @@ export async function GET(request: NextRequest) {
     }
 
     const now = new Date();
-    const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000); // 2 hours ago
+
+    // Each restaurant decides how long a diner may be inactive before being treated as stale
+    const settingsByRestaurant = await getRestaurantSettingsMap(
+      sessions.map(session => session.restaurant_id || DEFAULT_RESTAURANT_ID)
+    );
+    const timeoutMinutesByRestaurant = Object.fromEntries(
+      Object.entries(settingsByRestaurant).map(([restaurantId, settings]) => [restaurantId, settings.session_timeout_minutes])
+    );
+    const getStaleCutoff = (restaurantId: string | null) =>
+      new Date(now.getTime() - timeoutMinutesByRestaurant[restaurantId || DEFAULT_RESTAURANT_ID] * 60 * 1000);
+
     const staleUsers: any[] = [];
     let totalActiveUsers = 0;
     let totalStaleUsers = 0;
@@ -41,13 +52,14 @@ export async function GET(request: NextRequest) {
       const diners = Array.isArray(session.diners) ? session.diners : [];
       const table = Array.isArray(session.tables) ? session.tables[0] : session.tables;
       const tableNumber = table?.table_number || 'Unknown';
+      const staleCutoff = getStaleCutoff(session.restaurant_id);
       
       diners.forEach((diner: any) => {
         totalActiveUsers++;
         
         if (diner.isActive === true) {
           const lastActive = diner.lastActive ? new Date(diner.lastActive) : new Date(session.created_at);
-          const isStale = lastActive < twoHoursAgo;
+          const isStale = lastActive < staleCutoff;
           
           if (isStale) {
             totalStaleUsers++;
@@ -75,8 +87,7 @@ export async function GET(request: NextRequest) {
         stalePercentage: totalActiveUsers > 0 ? Math.round((totalStaleUsers / totalActiveUsers) * 100) : 0
       },
       threshold: {
-        hours: 2,
-        cutoffTime: twoHoursAgo.toISOString()
+        sessionTimeoutMinutes: timeoutMinutesByRestaurant
       }
     });
 
@@ -116,7 +127,7 @@ export async function POST(request: NextRequest) {
     // Get all active sessions with their diners
     const { data: sessions, error: sessionsError } = await supabase
       .from('sessions')
-      .select('id, created_at, diners, tables!inner(table_number)')
+      .select('id, restaurant_id, created_at, diners, tables!inner(table_number)')
       .eq('status', 'active');
 
     if (sessionsError) {
@@ -133,7 +144,17 @@ export async function POST(request: NextRequest) {
     }
 
     const now = new Date();
-    const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+
+    // Each restaurant decides how long a diner may be inactive before being treated as stale
+    const settingsByRestaurant = await getRestaurantSettingsMap(
+      sessions.map(session => session.restaurant_id || DEFAULT_RESTAURANT_ID)
+    );
+    const timeoutMinutesByRestaurant = Object.fromEntries(
+      Object.entries(settingsByRestaurant).map(([restaurantId, settings]) => [restaurantId, settings.session_timeout_minutes])
+    );
+    const getStaleCutoff = (restaurantId: string | null) =>
+      new Date(now.getTime() - timeoutMinutesByRestaurant[restaurantId || DEFAULT_RESTAURANT_ID] * 60 * 1000);
+
     const cleanedUsers: any[] = [];
     let totalCleanedUsers = 0;
     const sessionsToUpdate: any[] = [];
@@ -143,13 +164,14 @@ export async function POST(request: NextRequest) {
       const diners = Array.isArray(session.diners) ? session.diners : [];
       const table = Array.isArray(session.tables) ? session.tables[0] : session.tables;
       const tableNumber = table?.table_number || 'Unknown';
+      const staleCutoff = getStaleCutoff(session.restaurant_id);
       let sessionNeedsUpdate = false;
       const updatedDiners: any[] = [];
 
       diners.forEach((diner: any) => {
         if (diner.isActive === true) {
           const lastActive = diner.lastActive ? new Date(diner.lastActive) : new Date(session.created_at);
-          const isStale = lastActive < twoHoursAgo;
+          const isStale = lastActive < staleCutoff;
 
           if (isStale) {
             // Mark this user as inactive
@@ -238,8 +260,7 @@ export async function POST(request: NextRequest) {
         sessionsFailed: updateErrorCount
       },
       threshold: {
-        hours: 2,
-        cutoffTime: twoHoursAgo.toISOString()
+        sessionTimeoutMinutes: timeoutMinutesByRestaurant
       }
     });
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { formatZNumber, generateZReportsForAllRestaurants, ZReport } from '@/lib/z-reports';
 
 // POST /api/cron/daily-reset - Automatic daily reset at 3AM
 export async function POST(request: NextRequest) {
@@ -42,6 +43,19 @@ export async function POST(request: NextRequest) {
       console.error('❌ CRON - Error counting sessions:', sessionCountError);
     }
 
+    // 0. Issue the Z-reports first; failures are logged and the reset carries on
+    let zReports: ZReport[] = [];
+    let zReportErrors: { restaurantId: string; error: string }[] = [];
+    try {
+      ({ reports: zReports, errors: zReportErrors } = await generateZReportsForAllRestaurants({
+        source: 'scheduled',
+        generatedBy: 'cron'
+      }));
+    } catch (zReportError) {
+      console.error('❌ CRON - Error issuing Z-reports:', zReportError);
+      zReportErrors = [{ restaurantId: 'all', error: zReportError instanceof Error ? zReportError.message : 'Unknown error' }];
+    }
+
     // 1. Mark all active sessions as 'completed'
     const { error: sessionUpdateError } = await supabase
       .from('sessions')
@@ -98,6 +112,7 @@ export async function POST(request: NextRequest) {
         description: `Automatic daily reset performed at 3AM. Reset ${activeSessions?.length || 0} active sessions.`,
         metadata: {
           sessions_reset: activeSessions?.length || 0,
+          z_reports: zReports.map(report => report.id),
           reset_time: new Date().toISOString(),
           trigger: 'cron_3am'
         }
@@ -113,6 +128,13 @@ export async function POST(request: NextRequest) {
       message: 'Automatic daily reset completed successfully',
       data: {
         sessions_reset: activeSessions?.length || 0,
+        z_reports: zReports.map(report => ({
+          id: report.id,
+          restaurant_id: report.restaurant_id,
+          z_number: formatZNumber(report.z_number),
+          net_sales: report.net_sales
+        })),
+        z_report_errors: zReportErrors,
         reset_time: new Date().toISOString(),
         trigger: 'cron_3am'
       }
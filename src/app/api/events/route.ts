@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { getEventsSince, subscribeToRealtimeEvents } from '@/lib/realtime-hub';
+import { verifyEventStreamToken } from '@/lib/event-stream-tokens';
+import { formatSseMessage, isRealtimeEventType, matchesSubscription, RESYNC_EVENT } from '@/lib/realtime-events';
+
+// Long-lived stream; must not be cached or statically rendered
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Comment frame that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+// Browsers wait this long before reconnecting a dropped stream
+const RETRY_MS = 2000;
+
+// GET /api/events?types=notification,payment&sessionId=&token= - Server-sent event stream
+// A token from staff or manager login opens its restaurant's events; without one, a diner can only follow
+// the session they are seated at
+export const GET = async (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const types = (searchParams.get('types') || '').split(',').filter(isRealtimeEventType);
+  const restaurantId = verifyEventStreamToken(searchParams.get('token'));
+  const sessionId = searchParams.get('sessionId');
+
+  if (!restaurantId && !sessionId) {
+    return Response.json({ error: 'A valid event stream token is required' }, { status: 401 });
+  }
+
+  const subscription = { types, sessionId, restaurantId };
+
+  // EventSource sends the last id it saw when it reconnects; ?lastEventId= covers manual reconnects
+  const lastEventId = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      const unsubscribe = subscribeToRealtimeEvents(event => {
+        if (event === 'resync') {
+          send(formatSseMessage(RESYNC_EVENT, { reason: 'missed_events' }));
+        } else if (matchesSubscription(event, subscription)) {
+          send(formatSseMessage(event.type, event, event.id));
+        }
+      });
+
+      if (lastEventId) {
+        const missed = getEventsSince(lastEventId);
+        if (missed === null) {
+          send(formatSseMessage(RESYNC_EVENT, { reason: 'backfill_unavailable' }));
+        } else {
+          missed
+            .filter(event => matchesSubscription(event, subscription))
+            .forEach(event => send(formatSseMessage(event.type, event, event.id)));
+        }
+      }
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+};
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { submitFeedback } from '@/lib/feedback';
+
+// POST /api/feedback - Record a diner's rating and comment for their visit, once the bill has been paid
+export const POST = async (request: NextRequest) => {
+  try {
+    const { sessionId, rating, comment, customerName, dinerName } = await request.json();
+
+    if (!sessionId || rating === undefined) {
+      return NextResponse.json(
+        { error: 'Session ID and rating are required' },
+        { status: 400 }
+      );
+    }
+
+    const feedback = await submitFeedback(sessionId, Number(rating), comment, customerName || dinerName);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thank you for your feedback',
+      data: {
+        id: feedback.id,
+        rating: feedback.rating,
+        timestamp: feedback.created_at
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_FEEDBACK') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AppError && error.code === 'FEEDBACK_SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof AppError && (error.code === 'FEEDBACK_ALREADY_SUBMITTED' || error.code === 'FEEDBACK_SESSION_NOT_PAID')) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('🔍 API: Feedback exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while saving feedback' },
+      { status: 500 }
+    );
+  }
+};
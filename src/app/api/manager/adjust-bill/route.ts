@@ -3,6 +3,7 @@ import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
 import { logDetailedError } from '@/lib/error-handling';
 import { logManagerBillAdjustment } from '@/lib/audit-logging';
+import { calculateSessionBill } from '@/lib/session-bill';
 
 export const POST = async (request: NextRequest) => {
   try {
@@ -41,7 +42,7 @@ export const POST = async (request: NextRequest) => {
       );
     }
 
-    
+    const originalBill = await calculateSessionBill(sessionId);
 
     // 2. Handle item voids
     if (hasVoids) {
@@ -91,12 +92,14 @@ export const POST = async (request: NextRequest) => {
 
     // 4. Create audit log entry
     try {
+      const adjustedBill = await calculateSessionBill(sessionId);
+
       await logManagerBillAdjustment(sessionId, {
         voids: hasVoids ? voids : undefined,
         discount: hasDiscount ? discount : undefined,
         table_number: Array.isArray(session.tables) ? session.tables[0]?.table_number : (session.tables as any)?.table_number,
-        original_total: 0, // TODO: Calculate actual order total from orders table
-        new_total: 0 // TODO: Calculate new total based on voids/discounts
+        original_total: originalBill.total,
+        new_total: adjustedBill.total
       }, request);
       
     } catch (auditError) {
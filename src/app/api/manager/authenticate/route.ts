@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError, logDetailedError } from '@/lib/error-handling';
 import { hashPassword, verifyPassword, validatePassword } from '@/lib/auth/password-utils';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import { createEventStreamToken } from '@/lib/event-stream-tokens';
 
 export const POST = async (request: NextRequest) => {
   try {
@@ -98,7 +100,8 @@ export const POST = async (request: NextRequest) => {
             email: manager.email,
             fullName: manager.full_name,
             role: manager.role,
-            restaurantId: manager.restaurant_id
+            restaurantId: manager.restaurant_id,
+            eventsToken: createEventStreamToken(manager.restaurant_id || DEFAULT_RESTAURANT_ID)
           },
           timestamp: new Date().toISOString()
         });
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eightySixMenuItem, getEightySixedItems, restoreMenuItem } from '@/lib/menu-availability';
+import { createAuditLog } from '@/lib/audit-logging';
+
+// List items the kitchen has 86'd (used by the kitchen display and the diner menu)
+export const GET = async () => {
+  try {
+    const unavailableItems = await getEightySixedItems();
+
+    return NextResponse.json({
+      success: true,
+      unavailableItems,
+      count: unavailableItems.length
+    });
+  } catch (error) {
+    console.error('🔍 API: Menu availability exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
+
+// 86 an item ({ available: false }) or put it back on the menu ({ available: true })
+export const POST = async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { menuItemId, available, staffName } = body;
+
+    if (!menuItemId || typeof available !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required fields: menuItemId and available' },
+        { status: 400 }
+      );
+    }
+
+    if (available) {
+      const menuItem = await restoreMenuItem(menuItemId);
+
+      await createAuditLog({
+        action: 'menu_item_availability_change',
+        details: { menu_item_id: menuItem.id, menu_item_name: menuItem.name, available: true },
+        performed_by: staffName || 'kitchen'
+      }, request);
+
+      return NextResponse.json({
+        success: true,
+        menuItem,
+        message: `${menuItem.name} is back on the menu`
+      });
+    }
+
+    const result = await eightySixMenuItem(menuItemId, staffName);
+
+    await createAuditLog({
+      action: 'menu_item_availability_change',
+      details: {
+        menu_item_id: result.menuItem.id,
+        menu_item_name: result.menuItem.name,
+        available: false,
+        flagged_cart_items: result.flaggedCartItems,
+        notified_sessions: result.notifiedSessions
+      },
+      performed_by: staffName || 'kitchen'
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `${result.menuItem.name} has been 86'd`
+    });
+
+  } catch (error) {
+    console.error('🔍 API: Update menu availability exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
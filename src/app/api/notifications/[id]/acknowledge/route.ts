@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { updateWaiterRequestStatus } from '@/lib/waiter-requests';
 
 export const POST = async (
   request: NextRequest,
@@ -90,6 +91,22 @@ export const POST = async (
       }
     }
     
+    // Keep the diner's bill/help request (and its response times) in step with the notification
+    if (data.type === 'waiter_request' && data.metadata?.waiter_request_id) {
+      try {
+        await updateWaiterRequestStatus(
+          data.metadata.waiter_request_id,
+          action === 'resolve' ? 'completed' : 'acknowledged',
+          staff_member,
+          null,
+          { syncNotification: false }
+        );
+      } catch (waiterRequestError) {
+        console.error('⚠️ Failed to update waiter request:', waiterRequestError);
+        // Don't fail the main notification update if the request update fails
+      }
+    }
+    
     return NextResponse.json({
       success: true,
       notification: data,
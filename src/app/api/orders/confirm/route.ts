@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from '@/lib/idempotency';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { shouldHoldItem } from '@/lib/courses';
+import { queueKitchenTickets } from '@/lib/print-queue';
 
 // GET /api/orders/confirm - Get confirmed orders for a session
 export const GET = async (request: NextRequest) => {
@@ -59,6 +62,9 @@ export const GET = async (request: NextRequest) => {
         created_at,
         diner_name,
         split_bill_id,
+        customizations,
+        course,
+        held,
         menu_items (
           id,
           name,
@@ -106,7 +112,7 @@ export const GET = async (request: NextRequest) => {
     });
   };
 
-export const POST = async (request: NextRequest) => {
+export const POST = withIdempotency('orders.confirm', async (request: NextRequest) => {
   const body = await request.json();
     const { sessionId, dinerName } = body;
     
@@ -183,7 +189,47 @@ export const POST = async (request: NextRequest) => {
       });
     }
 
+    // Items the kitchen 86'd while they were in the cart can't be sent to the kitchen
+    const unavailableOrders = cartOrders.filter(order => order.unavailable_at);
+    if (unavailableOrders.length > 0) {
+      const { data: unavailableItems } = await supabaseServer
+        .from('menu_items')
+        .select('name')
+        .in('id', unavailableOrders.map(order => order.menu_item_id));
+
+      const names = (unavailableItems || []).map(item => item.name).join(', ') || 'Some items';
+      return NextResponse.json({
+        success: false,
+        error: `${names} ${unavailableOrders.length === 1 ? 'is' : 'are'} no longer available. Please remove ${unavailableOrders.length === 1 ? 'it' : 'them'} from your cart.`,
+        code: 'ITEM_UNAVAILABLE',
+        unavailableOrderIds: unavailableOrders.map(order => order.id)
+      }, { status: 409 });
+    }
+
+    // Hold later courses while an earlier course at the table is still to come (mains wait for starters)
+    // Flagged while still in the cart so the kitchen never sees them unheld
+    const tableItems = [
+      ...(existingOrders || []).filter(order => ['waiting', 'preparing', 'ready', 'served'].includes(order.status)),
+      ...cartOrders.map(order => ({ ...order, status: 'waiting', held: false }))
+    ];
+    const heldOrderIds = cartOrders
+      .filter(order => shouldHoldItem(order.course, tableItems))
+      .map(order => order.id);
+
+    if (heldOrderIds.length > 0) {
+      const { error: holdError } = await supabaseServer
+        .from('orders')
+        .update({ held: true })
+        .in('id', heldOrderIds);
+
+      if (holdError) {
+        console.error('❌ Error holding later courses:', holdError);
+        return NextResponse.json({ error: holdError.message }, { status: 500 });
+      }
+    }
+
     // Update only the specific diner's cart items to 'waiting' status (confirmed orders waiting to be prepared by kitchen)
+    // An item 86'd since the check above stays in the cart and is reported back below
     const { data: updatedOrders, error: updateError } = await supabaseServer
       .from('orders')
       .update({ 
@@ -192,6 +238,7 @@ export const POST = async (request: NextRequest) => {
       .eq('session_id', sessionId)
       .eq('status', 'cart')
       .eq('diner_name', dinerName) // CRITICAL FIX: Only update the specific diner's cart items
+      .is('unavailable_at', null)
       .select(`
         id,
         menu_item_id,
@@ -202,6 +249,9 @@ export const POST = async (request: NextRequest) => {
         status,
         created_at,
         split_bill_id,
+        customizations,
+        course,
+        held,
         menu_items (
           id,
           name,
@@ -221,6 +271,25 @@ export const POST = async (request: NextRequest) => {
       return NextResponse.json({ error: updateError.message }, { status: 500 });
     }
 
+    const confirmedIds = new Set((updatedOrders || []).map(order => order.id));
+    const skippedOrders = cartOrders.filter(order => !confirmedIds.has(order.id));
+    if (skippedOrders.length > 0 && confirmedIds.size === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Your items are no longer available. Please remove them from your cart.',
+        code: 'ITEM_UNAVAILABLE',
+        unavailableOrderIds: skippedOrders.map(order => order.id)
+      }, { status: 409 });
+    }
+
+    // Paper chits for kitchen printers; held courses print marked HOLD and again when fired
+    try {
+      await queueKitchenTickets(sessionId, (updatedOrders || []).map(order => order.id));
+    } catch (printError) {
+      console.error('⚠️ Failed to queue kitchen tickets:', printError);
+      // Don't fail the confirmation if printing fails - the kitchen display still has the orders
+    }
+
     // Final verification
     const { data: finalOrders, error: finalError } = await supabaseServer
       .from('orders')
@@ -236,8 +305,11 @@ export const POST = async (request: NextRequest) => {
 
     return NextResponse.json({
       success: true,
-      message: 'Orders confirmed and sent to kitchen',
+      message: skippedOrders.length > 0
+        ? `Orders confirmed and sent to kitchen; ${skippedOrders.length} ${skippedOrders.length === 1 ? 'item is' : 'items are'} no longer available and stayed in your cart`
+        : 'Orders confirmed and sent to kitchen',
       confirmedOrders: updatedOrders || [],
+      unavailableOrderIds: skippedOrders.map(order => order.id),
       debug: {
         sessionId,
         cartOrdersFound: cartOrders?.length || 0,
@@ -245,4 +317,4 @@ export const POST = async (request: NextRequest) => {
         finalOrdersInDB: finalOrders?.length || 0
       }
     });
-  };
\ No newline at end of file
+  });
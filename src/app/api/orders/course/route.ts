@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { isCourse, shouldHoldItem } from '@/lib/courses';
+
+// Re-tag an order item's course (waiter side); only before the kitchen starts on it
+export const POST = async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { orderItemId, course } = body;
+
+    if (!orderItemId || course === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: orderItemId and course' },
+        { status: 400 }
+      );
+    }
+
+    if (course !== null && !isCourse(course)) {
+      return NextResponse.json(
+        { error: 'Invalid course. Must be one of: starter, main, dessert' },
+        { status: 400 }
+      );
+    }
+
+    const { data: orderItem, error: itemError } = await supabaseServer
+      .from('orders')
+      .select('id, session_id, status')
+      .eq('id', orderItemId)
+      .maybeSingle();
+
+    if (itemError) {
+      console.error('❌ Database error:', itemError);
+      return NextResponse.json(
+        { error: `Failed to load order item: ${itemError.message}` },
+        { status: 500 }
+      );
+    }
+
+    if (!orderItem) {
+      return NextResponse.json(
+        { error: 'Order item not found' },
+        { status: 404 }
+      );
+    }
+
+    // The hold follows the new course: an item with no course is never held, and a confirmed item is held
+    // while an earlier course at the table is still to come (cart items are held when confirmed)
+    let held = false;
+    if (course !== null && orderItem.status === 'waiting') {
+      const { data: tableItems, error: tableError } = await supabaseServer
+        .from('orders')
+        .select('course, status, held')
+        .eq('session_id', orderItem.session_id)
+        .neq('id', orderItemId)
+        .in('status', ['waiting', 'preparing', 'ready', 'served']);
+
+      if (tableError) {
+        console.error('❌ Database error:', tableError);
+        return NextResponse.json(
+          { error: `Failed to load table items: ${tableError.message}` },
+          { status: 500 }
+        );
+      }
+
+      held = shouldHoldItem(course, tableItems || []);
+    }
+
+    const { data, error } = await supabaseServer
+      .from('orders')
+      .update({ course, held })
+      .eq('id', orderItemId)
+      .in('status', ['cart', 'waiting'])
+      .select('id, course, held, status');
+
+    if (error) {
+      console.error('❌ Database error:', error);
+      return NextResponse.json(
+        { error: `Failed to update course: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: 'Course can only be changed before the kitchen starts preparing the item' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      orderItem: data[0]
+    });
+
+  } catch (error) {
+    console.error('🔍 API: Update course exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
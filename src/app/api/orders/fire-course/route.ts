@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabaseServer';
+import { createAuditLog } from '@/lib/audit-logging';
+import { getCourseLabel, isCourse } from '@/lib/courses';
+import { queueKitchenTickets } from '@/lib/print-queue';
+
+// Release a held course to the kitchen for one table
+export const POST = async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { sessionId, course, staffName } = body;
+
+    if (!sessionId || !course) {
+      return NextResponse.json(
+        { error: 'Missing required fields: sessionId and course' },
+        { status: 400 }
+      );
+    }
+
+    if (!isCourse(course)) {
+      return NextResponse.json(
+        { error: 'Invalid course. Must be one of: starter, main, dessert' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabaseServer
+      .from('orders')
+      .update({
+        held: false,
+        fired_at: new Date().toISOString(),
+        fired_by: staffName || null
+      })
+      .eq('session_id', sessionId)
+      .eq('course', course)
+      .eq('held', true)
+      .eq('status', 'waiting')
+      .select('id');
+
+    if (error) {
+      console.error('❌ Database error:', error);
+      return NextResponse.json(
+        { error: `Failed to fire course: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await queueKitchenTickets(
+        sessionId,
+        (data || []).map(order => order.id),
+        `FIRE ${getCourseLabel(course).toUpperCase()}`
+      );
+    } catch (printError) {
+      console.error('⚠️ Failed to queue fire ticket:', printError);
+    }
+
+    await createAuditLog({
+      session_id: sessionId,
+      action: 'order_status_change',
+      details: {
+        course,
+        fired_items: data?.length || 0
+      },
+      performed_by: staffName || 'waitstaff'
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      firedItems: data?.length || 0,
+      message: `${getCourseLabel(course)} course fired`
+    });
+
+  } catch (error) {
+    console.error('🔍 API: Fire course exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
@@ -43,7 +43,7 @@ export const GET = async (request: NextRequest) => {
         )
       `)
       .eq('session_id', sessionId)
-      .in('status', ['confirmed', 'waiting', 'preparing', 'ready', 'served', 'completed'])
+      .in('status', ['confirmed', 'waiting', 'preparing', 'ready', 'served', 'completed', 'paid'])
       .order('created_at', { ascending: true });
 
     if (ordersError) {
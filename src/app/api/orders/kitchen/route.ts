@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { summarizeModifiers } from '@/lib/menu-modifiers';
+import { getKitchenStations } from '@/lib/kitchen-station-config';
+import { getStationStatuses, resolveItemStation } from '@/lib/kitchen-stations';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
 
 // Retry wrapper for database operations
 async function withRetry<T>(
@@ -39,6 +43,9 @@ async function withRetry<T>(
 
 export const GET = async (request: NextRequest) => {
   try {
+    const { searchParams } = new URL(request.url);
+    const restaurantId = searchParams.get('restaurantId') || DEFAULT_RESTAURANT_ID;
+    const stations = await getKitchenStations(restaurantId);
     
     // Get orders from the last 24 hours (more flexible than just today)
     const now = new Date();
@@ -59,10 +66,16 @@ export const GET = async (request: NextRequest) => {
           notes,
           is_shared,
           is_takeaway,
+          customizations,
+          course,
+          held,
+          fired_at,
           menu_items (
             id,
             name,
-            price
+            price,
+            category,
+            station
           ),
           sessions!orders_session_id_fkey (
             id,
@@ -124,15 +137,25 @@ export const GET = async (request: NextRequest) => {
         status: order.status,
         created_at: order.created_at,
         special_instructions: order.notes,
+        modifiers: summarizeModifiers(order.customizations),
+        station: resolveItemStation(order.menu_items || {}, stations),
+        course: order.course,
+        held: order.held || false,
+        fired_at: order.fired_at,
         menu_item: order.menu_items
       });
     });
 
-    const transformedOrders = Array.from(sessionMap.values());
+    // Roll each station's progress up to the table so every screen can see what the others still owe
+    const transformedOrders = Array.from(sessionMap.values()).map(session => ({
+      ...session,
+      station_statuses: getStationStatuses(session.order_items)
+    }));
 
     return NextResponse.json({
       success: true,
       confirmedOrders: transformedOrders,
+      stations,
       count: transformedOrders.length
     });
 
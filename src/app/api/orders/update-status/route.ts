@@ -21,6 +21,28 @@ export const POST = async (request: NextRequest) => {
       );
     }
 
+    // Held courses stay untouched until the waiter fires them
+    const { data: currentItem, error: currentError } = await supabaseServer
+      .from('orders')
+      .select('held')
+      .eq('id', orderItemId)
+      .single();
+
+    if (currentError) {
+      console.error('❌ Database error:', currentError);
+      return NextResponse.json(
+        { error: `Failed to load order item: ${currentError.message}` },
+        { status: 500 }
+      );
+    }
+
+    if (currentItem?.held) {
+      return NextResponse.json(
+        { error: 'This course is on hold until the waiter fires it' },
+        { status: 409 }
+      );
+    }
+
     // Update the order item status
     const { data, error } = await supabaseServer
       .from('orders')
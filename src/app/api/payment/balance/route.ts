@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentTotal, getSessionBalance, MAX_SPLIT_WAYS, splitEvenly } from '@/lib/payments';
+
+// GET /api/payment/balance?sessionId=&splitWays= - Running balance of a bill being paid in parts,
+// with even shares of what is left when splitWays is given
+export const GET = async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const splitWays = parseInt(searchParams.get('splitWays') || '');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (searchParams.has('splitWays') && (!Number.isFinite(splitWays) || splitWays < 1 || splitWays > MAX_SPLIT_WAYS)) {
+      return NextResponse.json(
+        { error: `Split must be between 1 and ${MAX_SPLIT_WAYS} ways` },
+        { status: 400 }
+      );
+    }
+
+    const balance = await getSessionBalance(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      session_id: sessionId,
+      bill_total: balance.billTotal,
+      paid: balance.paid,
+      balance_due: balance.balance,
+      payments: balance.payments
+        .filter(payment => !payment.settled_at)
+        .map(payment => ({
+          reference: payment.reference,
+          payment_type: payment.payment_type,
+          payment_method: payment.payment_method,
+          diner_name: payment.diner_name,
+          amount: payment.amount,
+          tip_amount: payment.tip_amount,
+          total: getPaymentTotal(payment),
+          completed_at: payment.completed_at
+        })),
+      even_split: Number.isFinite(splitWays) ? splitEvenly(balance.balance, splitWays) : null
+    });
+
+  } catch (error) {
+    console.error('🔍 API: Payment balance exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
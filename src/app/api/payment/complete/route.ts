@@ -1,12 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from '@/lib/idempotency';
 import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError, handleError } from '@/lib/error-handling';
+import { getRestaurantIdForSession, getSettingsForSession } from '@/lib/restaurant-settings';
+import { getStaffFromRequest } from '@/lib/staff-tokens';
+import { BILL_TOTAL_TOLERANCE, BILLABLE_ORDER_STATUSES, calculateSessionBill, SessionBill } from '@/lib/session-bill';
+import { queueReceipt } from '@/lib/print-queue';
+import { FiscalReceipt, formatFiscalNumber, getFiscalReceiptForSession } from '@/lib/fiscal-receipts';
+import { getPaymentIntent, linkIntentPayment, PaymentIntent, refundUnappliedIntent } from '@/lib/payment-intents';
+import { assignCashToDrawer } from '@/lib/cash-drawers';
+import {
+  getIndividualPaymentStatus,
+  getPaymentTotal,
+  getSessionBalance,
+  getSessionPayments,
+  NewPayment,
+  Payment,
+  PAYMENT_METHODS,
+  PaymentReceipt,
+  recordPayments,
+  resolveTenders,
+  SessionBalance,
+  settleSessionPayments,
+  Tender
+} from '@/lib/payments';
 
-export const POST = async (request: NextRequest) => {
+// Reference stored on settled orders, e.g. PAY-20261019-1A2B3C4D
+const createPaymentReference = () =>
+  `PAY-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+// Bill lines and totals kept with the fiscal receipt
+const toReceiptSnapshot = (bill: SessionBill) => ({
+  items: bill.items.map(item => ({ name: item.name, quantity: item.quantity, amount: item.amount })),
+  subtotal: bill.subtotal,
+  discount: bill.discount,
+  tax: bill.tax,
+  serviceCharge: bill.serviceCharge,
+  total: bill.total
+});
+
+export const POST = withIdempotency('payment.complete', async (request: NextRequest) => {
   try {
     const body = await request.json();
     
-    const { sessionId, paymentMethod, completedBy, paymentType = 'table', dinerName, paymentAmount } = body;
+    const { sessionId, tenders, paymentIntentId, cashDrawerId } = body;
+    let { paymentMethod, paymentType = 'table', dinerName, paymentAmount, tipAmount, paymentReference } = body;
     
     // Validate required fields
     if (!sessionId) {
@@ -16,23 +54,75 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    if (!paymentMethod) {
+    // A diner's self-payment is completed from its captured intent, which fixes what was paid and how
+    let intent: PaymentIntent | null = null;
+    if (paymentIntentId) {
+      intent = await getPaymentIntent(paymentIntentId);
+      if (!intent || intent.session_id !== sessionId) {
+        return NextResponse.json(
+          { error: 'Payment not found' },
+          { status: 404 }
+        );
+      }
+      if (intent.payment_id) {
+        return NextResponse.json({
+          success: true,
+          message: 'Payment was already completed',
+          session_id: sessionId,
+          payment_method: intent.payment_method,
+          payment_reference: intent.reference,
+          payment_id: intent.payment_id,
+          payment_type: intent.payment_type,
+          already_completed: true
+        });
+      }
+      if (intent.status !== 'succeeded') {
+        return NextResponse.json(
+          { error: `Payment has not gone through (status: ${intent.status})` },
+          { status: 409 }
+        );
+      }
+      ({ payment_method: paymentMethod, payment_type: paymentType, diner_name: dinerName, amount: paymentAmount, tip_amount: tipAmount, reference: paymentReference } = intent);
+    }
+    const isSplit = paymentType === 'split';
+    
+    if (!paymentMethod && !(isSplit && Array.isArray(tenders))) {
       return NextResponse.json(
         { error: 'Payment method is required' },
         { status: 400 }
       );
     }
     
-    if (!completedBy) {
+    // Only a staff token from staff login counts as a staff member completing the payment
+    const staff = getStaffFromRequest(request);
+    if (staff && staff.restaurantId !== await getRestaurantIdForSession(sessionId)) {
       return NextResponse.json(
-        { error: 'Completed by is required' },
+        { error: 'Staff member does not work at this restaurant' },
+        { status: 403 }
+      );
+    }
+    
+    // Attendant-verified restaurants need a staff member to sign off every payment;
+    // self-serve restaurants let diners complete their own
+    const settings = await getSettingsForSession(sessionId);
+    if (!staff && settings.payment_finalization_method === 'attendant_verified') {
+      return NextResponse.json(
+        { error: 'A signed-in staff member must complete this payment' },
+        { status: 401 }
+      );
+    }
+    // Diners paying for themselves go through the payment provider
+    if (!staff && !intent) {
+      return NextResponse.json(
+        { error: 'Self-serve payments must be paid through the payment provider' },
         { status: 400 }
       );
     }
+    const staffId = staff?.id || null;
+    const completedByName = staff?.name || dinerName || 'self_serve';
     
-    // Validate payment method
-    const validPaymentMethods = ['cash', 'card', 'qr_code', 'digital'];
-    if (!validPaymentMethods.includes(paymentMethod)) {
+    // Validate payment method (split payments check each tender against the balance below)
+    if (!isSplit && !PAYMENT_METHODS.includes(paymentMethod)) {
       return NextResponse.json(
         { error: 'Invalid payment method' },
         { status: 400 }
@@ -40,6 +130,8 @@ export const POST = async (request: NextRequest) => {
     }
     
     // SUSTAINABLE SOLUTION: Handle payment completion directly without database function
+    const paymentCompletedAt = new Date().toISOString();
+    const reference = paymentReference || createPaymentReference();
     
     // Step 1: Get session details to verify it exists and get table info
     const { data: sessionData, error: sessionError } = await supabaseServer
@@ -62,17 +154,53 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    // Step 2: Check if payment is already completed
+    // Step 2: Check if payment is already completed - for the table, or for this diner in the ledger
     const isAlreadyCompleted = sessionData.payment_status === 'completed';
+    const dinerPayment = paymentType === 'individual' && dinerName
+      ? (await getSessionPayments(sessionId)).find(payment => payment.payment_type === 'individual' && payment.diner_name === dinerName)
+      : undefined;
+    
+    // Running balance: the unsettled bill less payments already taken towards it
+    let balanceBefore: SessionBalance | null = null;
     
-    if (isAlreadyCompleted && paymentType !== 'table') {
+    // A captured self-payment that can no longer be applied - the bill was settled, the diner already paid,
+    // or it is for more than is now due - goes back through the provider instead of being dropped
+    if (intent) {
+      let unappliedReason = isAlreadyCompleted
+        ? 'The bill has already been paid'
+        : dinerPayment ? 'This share has already been paid' : null;
+      if (!unappliedReason) {
+        balanceBefore = await getSessionBalance(sessionId);
+        if (intent.amount > balanceBefore.balance + BILL_TOTAL_TOLERANCE) {
+          unappliedReason = 'The amount due changed while this payment was being made';
+        }
+      }
+      if (unappliedReason) {
+        try {
+          await refundUnappliedIntent(intent, unappliedReason);
+        } catch (refundError) {
+          console.error('❌ Captured payment could not be applied or refunded:', intent.reference, refundError);
+          return NextResponse.json(
+            { error: `${unappliedReason}, and the payment could not be refunded automatically; please ask a staff member` },
+            { status: 500 }
+          );
+        }
+        return NextResponse.json(
+          { error: `${unappliedReason}; your payment has been refunded`, refunded: true },
+          { status: 409 }
+        );
+      }
+    }
+    
+    if ((isAlreadyCompleted || dinerPayment) && paymentType !== 'table') {
       return NextResponse.json({
         success: true,
         message: 'Payment was already completed',
         session_id: sessionId,
         payment_method: 'already_completed',
-        final_total: sessionData.final_total,
-        payment_completed_at: (sessionData as any).payment_completed_at || new Date().toISOString(),
+        final_total: dinerPayment ? getPaymentTotal(dinerPayment) : sessionData.final_total,
+        payment_completed_at: dinerPayment?.completed_at || (sessionData as any).payment_completed_at || new Date().toISOString(),
+        payment_reference: dinerPayment?.reference,
         completed_by: 'system',
         payment_type: paymentType,
         already_completed: true
@@ -86,13 +214,213 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    // Step 3: Update session to completed status (only if not already completed)
+    // The payments the balance was worked out from are checked again when the payment is recorded
+    if (!isAlreadyCompleted && !balanceBefore) {
+      try {
+        balanceBefore = await getSessionBalance(sessionId);
+      } catch (balanceError) {
+        console.error('⚠️ Failed to work out the balance due:', balanceError);
+        return NextResponse.json(
+          { error: 'Failed to work out the balance due' },
+          { status: 500 }
+        );
+      }
+    }
+    
+    // Split tenders are checked against the balance before anything is recorded
+    let resolvedTenders: Tender[] = [];
+    if (isSplit && balanceBefore) {
+      const tenderResult = resolveTenders(
+        Array.isArray(tenders) ? tenders : [{ paymentMethod, amount: paymentAmount, tipAmount }],
+        balanceBefore.balance
+      );
+      if (typeof tenderResult === 'string') {
+        return NextResponse.json(
+          { error: tenderResult, balance_due: balanceBefore.balance },
+          { status: 400 }
+        );
+      }
+      resolvedTenders = tenderResult;
+    }
+    
+    // Price the bill and its receipt now - settled orders drop out of the bill
+    let receiptBill: SessionBill | null = null;
     if (!isAlreadyCompleted) {
+      try {
+        receiptBill = await calculateSessionBill(sessionId, { paymentType: isSplit ? 'table' : paymentType, dinerName });
+      } catch (billError) {
+        console.error('⚠️ Failed to price the bill:', billError);
+      }
+    }
+    
+    // Step 3: Write the payment to the ledger - one row per tender for split payments
+    // (a repeat table completion keeps the payment already recorded)
+    const payments: Payment[] = [];
+    let fiscalReceipt: FiscalReceipt | null = null;
+    if (!isAlreadyCompleted) {
+      const requestedTip = Number(tipAmount);
+      const sessionTotal = Number(sessionData.final_total) || 0;
+      // A self-payment records what the provider captured; a table payment pays whatever is left after earlier tenders.
+      // The amount always comes from the server - never from the request or the session's stored total
+      const billAmount = intent
+        ? intent.amount
+        : paymentType === 'table' && balanceBefore
+        ? balanceBefore.balance
+        : receiptBill?.total ?? null;
+      if (billAmount === null) {
+        return NextResponse.json(
+          { error: 'Failed to work out the amount due' },
+          { status: 500 }
+        );
+      }
+      // The table's requested total includes the tip chosen at payment request
+      const tip = Number.isFinite(requestedTip) && requestedTip >= 0
+        ? requestedTip
+        : paymentType === 'table' && receiptBill ? Math.max(0, sessionTotal - receiptBill.total) : 0;
+      
+      const entries = isSplit
+        ? resolvedTenders.map((tender, index) => ({
+          paymentMethod: tender.paymentMethod,
+          amount: tender.amount,
+          tipAmount: tender.tipAmount || 0,
+          reference: resolvedTenders.length === 1 ? reference : `${reference}-${index + 1}`
+        }))
+        : [{ paymentMethod, amount: billAmount, tipAmount: tip, reference }];
+      
+      const newPayments: NewPayment[] = entries.map(entry => ({
+        sessionId,
+        tableId: sessionData.table_id,
+        paymentType: isSplit ? 'split' : paymentType === 'table' ? 'table' : 'individual',
+        dinerName: paymentType === 'individual' ? dinerName : null,
+        amount: entry.amount,
+        // The bill breakdown belongs to single payments; tenders only carry their share
+        subtotal: isSplit ? null : receiptBill?.subtotal,
+        taxAmount: isSplit ? null : receiptBill?.tax,
+        serviceCharge: isSplit ? null : receiptBill?.serviceCharge,
+        tipAmount: entry.tipAmount,
+        paymentMethod: entry.paymentMethod,
+        reference: entry.reference,
+        staffId,
+        completedBy: completedByName,
+        completedAt: paymentCompletedAt,
+        paymentIntentId: intent?.id
+      }));
+      
+      // Step 3b: The fiscal receipt number is allocated in the same transaction as the ledger write.
+      // Every split tender on the bill goes on the one receipt issued once the tenders settle it
+      let receipt: PaymentReceipt | null = null;
+      if (isSplit) {
+        const paidNow = entries.reduce((sum, entry) => sum + entry.amount, 0);
+        const settlesSplit = balanceBefore !== null
+          && Math.max(0, Math.round((balanceBefore.balance - paidNow) * 100) / 100) <= BILL_TOTAL_TOLERANCE;
+        if (settlesSplit) {
+          const tenderReferences = new Set(entries.map(entry => entry.reference));
+          const receiptTenders = [
+            ...(balanceBefore?.payments || [])
+              .filter(payment => payment.payment_type === 'split' && !payment.settled_at && !tenderReferences.has(payment.reference))
+              .map(payment => ({
+                reference: payment.reference,
+                method: payment.payment_method,
+                amount: payment.amount,
+                tip: payment.tip_amount
+              })),
+            ...entries.map(entry => ({
+              reference: entry.reference,
+              method: entry.paymentMethod,
+              amount: entry.amount,
+              tip: entry.tipAmount
+            }))
+          ];
+          receipt = {
+            reference,
+            amount: receiptTenders.reduce((sum, tender) => sum + tender.amount + tender.tip, 0),
+            paymentMethod: Array.from(new Set(receiptTenders.map(tender => tender.method))).join('+'),
+            issuedBy: completedByName,
+            data: {
+              ...(receiptBill ? toReceiptSnapshot(receiptBill) : {}),
+              tenders: receiptTenders
+            },
+            linkReferences: receiptTenders.map(tender => tender.reference)
+          };
+        }
+      } else {
+        const [entry] = entries;
+        receipt = {
+          reference: entry.reference,
+          amount: entry.amount + entry.tipAmount,
+          paymentMethod,
+          dinerName: paymentType === 'individual' ? dinerName : null,
+          issuedBy: completedByName,
+          data: receiptBill ? { ...toReceiptSnapshot(receiptBill), tip: entry.tipAmount } : null,
+          linkReferences: [entry.reference]
+        };
+      }
+      
+      // Nothing is committed when this fails, so the completion can be retried
+      const newReferences = new Set(entries.map(entry => entry.reference));
+      const expectedPaymentCount = (balanceBefore?.payments || []).filter(payment => !newReferences.has(payment.reference)).length;
+      try {
+        const recorded = await recordPayments(newPayments, receipt, expectedPaymentCount);
+        payments.push(...recorded.payments);
+        fiscalReceipt = recorded.receipt;
+        if (intent && payments[0]) {
+          await linkIntentPayment(intent.id, payments[0].id);
+        }
+      } catch (ledgerError) {
+        if (ledgerError instanceof AppError && ledgerError.code === 'PAYMENT_CONFLICT') {
+          return NextResponse.json(
+            { error: `${ledgerError.message}; check the bill and try again` },
+            { status: 409 }
+          );
+        }
+        console.error('❌ Failed to record payment:', ledgerError);
+        return NextResponse.json(
+          { error: 'Failed to record payment' },
+          { status: 500 }
+        );
+      }
+      
+      // Cash tenders go into the drawer open for this staff member (or the only drawer open)
+      await assignCashToDrawer(payments, { cashDrawerId, staffId });
+    } else {
+      fiscalReceipt = await getFiscalReceiptForSession(sessionId);
+    }
+    
+    const paidNow = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    const balanceDue = balanceBefore ? Math.max(0, Math.round((balanceBefore.balance - paidNow) * 100) / 100) : 0;
+    
+    // The bill is settled by a table payment, by tenders or diners covering the balance,
+    // or once every diner has paid their share
+    // (a table self-payment only settles what it captured, in case orders were added since)
+    let settlesSession = (paymentType === 'table' && !intent) || (balanceBefore !== null && balanceDue <= BILL_TOTAL_TOLERANCE);
+    if (!settlesSession && paymentType === 'individual') {
+      try {
+        settlesSession = (await getIndividualPaymentStatus(sessionId)).all_paid;
+      } catch (statusError) {
+        console.error('⚠️ Failed to check individual payments:', statusError);
+      }
+    }
+    
+    const splitPayments = isSplit
+      ? [
+        ...(balanceBefore?.payments || []).filter(payment =>
+          payment.payment_type === 'split' && !payment.settled_at && !payments.some(recorded => recorded.id === payment.id)),
+        ...payments
+      ]
+      : [];
+    const paymentMethodLabel = isSplit
+      ? splitPayments.map(payment => `${payment.payment_method} P${getPaymentTotal(payment).toFixed(2)}`).join(', ')
+      : paymentMethod;
+    
+    const receiptNumber = fiscalReceipt ? formatFiscalNumber('receipt', fiscalReceipt.receipt_number) : null;
+    
+    // Step 4: Update session to completed status (only if not already completed)
+    if (settlesSession && !isAlreadyCompleted) {
       const { error: updateError } = await supabaseServer
         .from('sessions')
         .update({
           payment_status: 'completed',
-          payment_completed_at: new Date().toISOString(),
+          payment_completed_at: paymentCompletedAt,
           status: 'completed' // Mark session as completed
         })
         .eq('id', sessionId);
@@ -103,25 +431,26 @@ export const POST = async (request: NextRequest) => {
           { status: 500 }
         );
       }
-    } else {
     }
     
-    // Step 4: Clear the table (mark as available)
-    const { error: tableError } = await supabaseServer
-      .from('tables')
-      .update({
-        occupied: false,
-        current_session_id: null,
-        current_pin: null
-      })
-      .eq('id', sessionData.table_id);
-    
-    if (tableError) {
-      // Don't fail the payment completion if table clearing fails
+    // Step 4b: Clear the table (mark as available)
+    if (settlesSession) {
+      const { error: tableError } = await supabaseServer
+        .from('tables')
+        .update({
+          occupied: false,
+          current_session_id: null,
+          current_pin: null
+        })
+        .eq('id', sessionData.table_id);
+      
+      if (tableError) {
+        // Don't fail the payment completion if table clearing fails
+      }
     }
     
-        // Step 5: For table payments, clear all orders and mark all diners as inactive
-        if (paymentType === 'table') {
+        // Step 5: Once the table is paid, settle all orders and mark all diners as inactive
+        if (settlesSession) {
           
           try {
             // First, update payment notification status to completed
@@ -130,7 +459,7 @@ export const POST = async (request: NextRequest) => {
               .update({
                 status: 'completed',
                 completed_at: new Date().toISOString(),
-                completed_by: completedBy
+                completed_by: completedByName
               })
               .eq('session_id', sessionId)
               .eq('type', 'payment_request');
@@ -138,13 +467,21 @@ export const POST = async (request: NextRequest) => {
             if (notificationUpdateError) {
             }
 
-            // Clear all orders for this session
+            // Mark the session's orders as paid - they stay in place for sales reports and audits
             const { error: ordersError } = await supabaseServer
               .from('orders')
-              .delete()
-              .eq('session_id', sessionId);
+              .update({
+                status: 'paid',
+                paid_at: paymentCompletedAt,
+                payment_reference: reference
+              })
+              .eq('session_id', sessionId)
+              .in('status', BILLABLE_ORDER_STATUSES);
             
             if (ordersError) {
+              console.error('❌ Failed to mark orders as paid:', ordersError);
+            } else {
+              await settleSessionPayments(sessionId, paymentCompletedAt);
             }
         
         // Get current session with diners to mark them all inactive
@@ -199,7 +536,9 @@ export const POST = async (request: NextRequest) => {
             metadata: {
               action: 'redirect_to_receipt',
               redirect_url: `/payment-receipt?sessionId=${sessionId}`,
-              payment_type: 'table'
+              payment_type: 'table',
+              payment_reference: reference,
+              receipt_number: receiptNumber
             }
           })
           .select('id')
@@ -213,17 +552,45 @@ export const POST = async (request: NextRequest) => {
       }
     }
     
-    // Step 6: Return success response with our calculated values
+    // Step 6: Print the customer receipt on the restaurant's receipt printers (if any)
+    // Split bills print once, when the last tender settles them
+    if (receiptBill && (!isSplit || settlesSession)) {
+      try {
+        await queueReceipt(sessionId, receiptBill, {
+          reference,
+          receiptNumber,
+          paymentMethod: paymentMethodLabel,
+          completedAt: paymentCompletedAt,
+          completedBy: staff?.name || null
+        });
+      } catch (printError) {
+        console.error('⚠️ Failed to queue receipt:', printError);
+        // Don't fail the payment completion if printing fails
+      }
+    }
+    
+    // Step 7: Return success response with our calculated values
     return NextResponse.json({
       success: true,
-      message: 'Payment completed successfully',
+      message: settlesSession ? 'Payment completed successfully' : 'Partial payment recorded',
       session_id: sessionId,
-      payment_method: paymentMethod,
+      payment_method: paymentMethodLabel,
       final_total: sessionData.final_total,
-      payment_completed_at: new Date().toISOString(),
-      completed_by: completedBy,
+      payment_completed_at: paymentCompletedAt,
+      payment_reference: reference,
+      payment_id: payments[0]?.id || null,
+      tenders: payments.map(payment => ({
+        payment_id: payment.id,
+        reference: payment.reference,
+        payment_method: payment.payment_method,
+        amount: payment.amount,
+        tip_amount: payment.tip_amount
+      })),
+      balance_due: balanceDue,
+      receipt_number: receiptNumber,
+      completed_by: completedByName,
       payment_type: paymentType,
-      table_cleared: paymentType === 'table'
+      table_cleared: settlesSession
     });
     
   } catch (error) {
@@ -232,4 +599,4 @@ export const POST = async (request: NextRequest) => {
       { status: 500 }
     );
   }
-};
+});
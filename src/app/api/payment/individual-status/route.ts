@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError, handleError } from '@/lib/error-handling';
+import { getIndividualPaymentStatus } from '@/lib/payments';
 
 export const GET = async (request: NextRequest) => {
   try {
@@ -14,26 +14,8 @@ export const GET = async (request: NextRequest) => {
       );
     }
     
-    // Call the database function to get individual payment status
-    
-    const { data, error } = await supabaseServer.rpc('get_individual_payment_status', {
-      session_id_param: sessionId
-    });
-    
-    if (error) {
-      console.error('❌ Database function error:', error);
-      return NextResponse.json(
-        { error: `Failed to get individual payment status: ${error.message}` },
-        { status: 500 }
-      );
-    }
-    
-    if (!data) {
-      return NextResponse.json(
-        { error: 'No payment status data found' },
-        { status: 404 }
-      );
-    }
+    // Work out who has paid from the payments ledger
+    const data = await getIndividualPaymentStatus(sessionId);
     
     return NextResponse.json({
       success: true,
@@ -47,6 +29,12 @@ export const GET = async (request: NextRequest) => {
     });
     
   } catch (error) {
+    if (error instanceof AppError && error.code === 'SESSION_NOT_FOUND') {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
     console.error('🔍 API: Individual payment status exception:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { confirmPaymentIntent, toPublicIntent } from '@/lib/payment-intents';
+
+// POST /api/payment/intent/confirm - Charge a diner's self-payment with their payment details
+// A succeeded intent is then completed through /api/payment/complete with its paymentIntentId
+export const POST = async (request: NextRequest) => {
+  try {
+    const { intentId, cardNumber } = await request.json();
+
+    if (!intentId) {
+      return NextResponse.json(
+        { error: 'Intent ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const intent = await confirmPaymentIntent(intentId, {
+      ...(typeof cardNumber === 'string' ? { cardNumber } : {})
+    });
+
+    return NextResponse.json({
+      success: intent.status !== 'failed',
+      ...toPublicIntent(intent),
+      ...(intent.status === 'failed' ? { error: intent.failure_reason || 'Payment failed' } : {})
+    }, { status: intent.status === 'failed' ? 402 : 200 });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_PAYMENT_INTENT') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError && error.code === 'PAYMENT_INTENT_NOT_FOUND') {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+    console.error('🔍 API: Confirm payment intent exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
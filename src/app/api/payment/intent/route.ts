@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { createPaymentIntent, getPaymentIntent, toPublicIntent } from '@/lib/payment-intents';
+
+const errorStatus = (error: unknown) => {
+  if (!(error instanceof AppError)) {
+    return 500;
+  }
+  switch (error.code) {
+    case 'INVALID_PAYMENT_INTENT':
+      return 400;
+    case 'SELF_SERVE_DISABLED':
+      return 403;
+    case 'SESSION_NOT_FOUND':
+    case 'PAYMENT_INTENT_NOT_FOUND':
+      return 404;
+    case 'PAYMENT_PROVIDER_NOT_CONFIGURED':
+      return 503;
+    default:
+      return 500;
+  }
+};
+
+// GET /api/payment/intent?intentId= - Where a diner's self-payment stands
+export const GET = async (request: NextRequest) => {
+  try {
+    const intentId = request.nextUrl.searchParams.get('intentId');
+    if (!intentId) {
+      return NextResponse.json(
+        { error: 'Intent ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const intent = await getPaymentIntent(intentId);
+    if (!intent) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...toPublicIntent(intent) });
+
+  } catch (error) {
+    console.error('🔍 API: Payment intent exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
+
+// POST /api/payment/intent - Start a self-payment with the payment provider for what is owed
+export const POST = async (request: NextRequest) => {
+  try {
+    const { sessionId, paymentType = 'table', dinerName, paymentMethod, tipAmount } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (paymentType !== 'table' && paymentType !== 'individual') {
+      return NextResponse.json(
+        { error: 'Payment type must be table or individual' },
+        { status: 400 }
+      );
+    }
+
+    const intent = await createPaymentIntent(sessionId, { paymentType, dinerName, paymentMethod, tipAmount });
+
+    return NextResponse.json({
+      success: true,
+      ...toPublicIntent(intent)
+    });
+
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      console.error('🔍 API: Create payment intent exception:', error);
+    }
+    return NextResponse.json(
+      { error: status === 500 ? 'Internal server error' : (error as Error).message },
+      { status }
+    );
+  }
+};
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError, handleError } from '@/lib/error-handling';
+import { amountsMatch, calculateSessionBill, SessionBill } from '@/lib/session-bill';
+import { roundMoney } from '@/lib/tax-engine';
 
 export const POST = async (request: NextRequest) => {
   try {
     const body = await request.json();
     
-    const { sessionId, tipAmount, finalTotal, paymentType = 'individual', subtotal, vat } = body;
+    const { sessionId, tipAmount, finalTotal, paymentType = 'individual', dinerName, subtotal, vat } = body;
     
     // Validate required fields
     if (!sessionId) {
@@ -16,7 +18,14 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    if (tipAmount === undefined || tipAmount < 0) {
+    if (paymentType !== 'table' && paymentType !== 'individual') {
+      return NextResponse.json(
+        { error: 'Payment type must be table or individual' },
+        { status: 400 }
+      );
+    }
+    
+    if (tipAmount === undefined || !Number.isFinite(Number(tipAmount)) || Number(tipAmount) < 0) {
       return NextResponse.json(
         { error: 'Valid tip amount is required' },
         { status: 400 }
@@ -71,10 +80,49 @@ export const POST = async (request: NextRequest) => {
     }
     
     const tableNumber = tableData?.table_number;
+    
+    // Step 1c: Recompute the bill from the session's orders, split bills, voids and discounts
+    let bill: SessionBill;
+    try {
+      bill = await calculateSessionBill(sessionId, { paymentType, dinerName });
+    } catch (billError) {
+      if (billError instanceof AppError && billError.code === 'DINER_NAME_REQUIRED') {
+        return NextResponse.json(
+          { error: billError.message },
+          { status: 400 }
+        );
+      }
+      throw billError;
+    }
+    
+    if (bill.items.length === 0 || bill.total <= 0) {
+      return NextResponse.json(
+        { error: 'There is nothing to pay for on this bill' },
+        { status: 400 }
+      );
+    }
+    
     const tipAmountFloat = parseFloat(tipAmount.toString());
-    const finalTotalFloat = parseFloat(finalTotal.toString());
-    const subtotalFloat = subtotal ? parseFloat(subtotal.toString()) : null;
-    const vatFloat = vat ? parseFloat(vat.toString()) : null;
+    const finalTotalFloat = roundMoney(bill.total + tipAmountFloat);
+    
+    // Reject totals that don't match what the server calculated
+    const mismatch =
+      !amountsMatch(parseFloat(finalTotal.toString()), finalTotalFloat) ||
+      (subtotal !== undefined && subtotal !== null && !amountsMatch(parseFloat(subtotal.toString()), bill.subtotal)) ||
+      (vat !== undefined && vat !== null && !amountsMatch(parseFloat(vat.toString()), bill.tax));
+    
+    if (mismatch) {
+      console.warn(`⚠️ Payment request total mismatch for session ${sessionId}: client ${finalTotal}, server ${finalTotalFloat}`);
+      return NextResponse.json(
+        {
+          error: 'Bill total has changed. Please review the updated bill and try again.',
+          code: 'BILL_TOTAL_MISMATCH',
+          bill,
+          expected_final_total: finalTotalFloat
+        },
+        { status: 409 }
+      );
+    }
     
     // Step 2: Update session with payment details (only existing columns)
     const { error: updateError } = await supabaseServer
@@ -108,10 +156,14 @@ export const POST = async (request: NextRequest) => {
           status: 'pending',
           metadata: {
             payment_type: paymentType,
-            subtotal: subtotalFloat,
-            vat_amount: vatFloat,
+            diner_name: bill.dinerName,
+            subtotal: bill.subtotal,
+            discount_amount: bill.discount,
+            vat_amount: bill.tax,
+            service_charge_amount: bill.serviceCharge,
             tip_amount: tipAmountFloat,
-            final_total: finalTotalFloat
+            final_total: finalTotalFloat,
+            items: bill.items
           }
         })
         .select('id')
@@ -134,12 +186,15 @@ export const POST = async (request: NextRequest) => {
       notification_id: notificationId,
       session_id: sessionId,
       table_number: tableNumber,
-      subtotal: subtotalFloat,
-      vat_amount: vatFloat,
+      subtotal: bill.subtotal,
+      discount_amount: bill.discount,
+      vat_amount: bill.tax,
+      service_charge_amount: bill.serviceCharge,
       tip_amount: tipAmountFloat,
       final_total: finalTotalFloat,
       payment_requested_at: new Date().toISOString(),
-      payment_type: paymentType
+      payment_type: paymentType,
+      bill
     });
     
   } catch (error) {
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { formatFiscalNumber, getFiscalReceiptForSession } from '@/lib/fiscal-receipts';
+import { getSettingsForSession } from '@/lib/restaurant-settings';
+import { getPaymentProvider } from '@/lib/payment-provider';
 
 export const GET = async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
+    const dinerName = searchParams.get('dinerName');
     
     if (!sessionId) {
       return NextResponse.json(
@@ -86,6 +90,21 @@ export const GET = async (request: NextRequest) => {
       }
     }
     
+    // Fiscal receipt number once the payment is complete
+    const fiscalReceipt = session.payment_status === 'completed'
+      ? await getFiscalReceiptForSession(sessionId, dinerName)
+      : null;
+    
+    // Self-serve restaurants let diners pay through the payment provider with these methods
+    let selfServeMethods: string[] = [];
+    if (session.payment_status === 'pending' && (await getSettingsForSession(sessionId)).payment_finalization_method === 'self_serve') {
+      try {
+        selfServeMethods = getPaymentProvider().methods;
+      } catch (providerError) {
+        console.error('⚠️ Self-serve payments are on but no payment provider is configured:', providerError);
+      }
+    }
+    
     return NextResponse.json({
       success: true,
       session_id: sessionId,
@@ -94,6 +113,8 @@ export const GET = async (request: NextRequest) => {
       final_total: session.final_total,
       payment_requested_at: session.payment_requested_at,
       payment_completed_at: session.payment_completed_at,
+      receipt_number: fiscalReceipt ? formatFiscalNumber('receipt', fiscalReceipt.receipt_number) : null,
+      self_serve_methods: selfServeMethods,
       message,
       details,
       notification_status: notification?.status || null,
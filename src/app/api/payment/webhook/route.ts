@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { getPaymentProvider } from '@/lib/payment-provider';
+import { applyPaymentWebhook } from '@/lib/payment-intents';
+
+// POST /api/payment/webhook - Payment provider events; the signature is checked against the raw body
+export const POST = async (request: NextRequest) => {
+  try {
+    const rawBody = await request.text();
+    const event = getPaymentProvider().verifyWebhook(rawBody, request.headers);
+    const intent = await applyPaymentWebhook(event);
+
+    // Unknown intents are acknowledged so the provider stops retrying them
+    return NextResponse.json({
+      received: true,
+      event_id: event.id,
+      intent_id: intent?.id || null,
+      status: intent?.status || null
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'PAYMENT_WEBHOOK_INVALID') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AppError && error.code === 'PAYMENT_PROVIDER_NOT_CONFIGURED') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503 }
+      );
+    }
+    console.error('🔍 API: Payment webhook exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { getReceiptEmailData } from '@/lib/receipt-email';
+import { generateInvoicePdf } from '@/lib/invoices';
+
+// POST /api/receipt/invoice - Download the PDF tax invoice for the table's or a diner's receipt (issued on first request, once paid)
+export const POST = async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { sessionId, billTo, dinerName } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const receipt = await getReceiptEmailData(sessionId, dinerName);
+    const { filename, pdf } = await generateInvoicePdf(receipt, billTo || {});
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_INVOICE_DETAILS') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AppError && error.code === 'RECEIPT_NOT_AVAILABLE') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('🔍 API: Invoice generation exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate invoice' },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handling';
+import { calculateSessionBill } from '@/lib/session-bill';
+
+// GET /api/sessions/[sessionId]/bill?paymentType=table|individual&dinerName= - Itemized server-side bill
+export const GET = async (request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) => {
+  try {
+    const { sessionId } = await params;
+    const paymentType = request.nextUrl.searchParams.get('paymentType') || 'table';
+    const dinerName = request.nextUrl.searchParams.get('dinerName');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (paymentType !== 'table' && paymentType !== 'individual') {
+      return NextResponse.json(
+        { error: 'Payment type must be table or individual' },
+        { status: 400 }
+      );
+    }
+
+    const bill = await calculateSessionBill(sessionId, { paymentType, dinerName });
+
+    return NextResponse.json({
+      success: true,
+      bill
+    });
+
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'DINER_NAME_REQUIRED') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('🔍 API: Session bill exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaxConfigForSession } from '@/lib/tax-config';
+
+// GET /api/sessions/[sessionId]/tax-config - Tax rules used to display bills for this session
+export const GET = async (request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) => {
+  try {
+    const { sessionId } = await params;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const taxConfig = await getTaxConfigForSession(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      taxConfig
+    });
+
+  } catch (error) {
+    console.error('🔍 API: Tax config exception:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+};
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { calculateSessionBill } from '@/lib/session-bill';
 
 export const GET = async (request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) => {
   try {
@@ -13,46 +13,20 @@ export const GET = async (request: NextRequest, { params }: { params: Promise<{
       );
     }
     
-    // Get all orders for this session with menu item prices
-    const { data: orders, error } = await supabaseServer
-      .from('orders')
-      .select(`
-        id,
-        quantity,
-        status,
-        menu_items!orders_menu_item_id_fkey (
-          id,
-          price
-        )
-      `)
-      .eq('session_id', sessionId)
-      .in('status', ['placed', 'waiting', 'preparing', 'ready', 'served']);
-    
-    if (error) {
-      console.error('❌ Database error:', error);
-      return NextResponse.json(
-        { error: `Failed to fetch orders: ${error.message}` },
-        { status: 500 }
-      );
-    }
-    
-    // Calculate total
-    const subtotal = orders?.reduce((sum, order) => {
-      const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
-      const price = menuItem?.price || 0;
-      return sum + (price * order.quantity);
-    }, 0) || 0;
-    
-    const tax = subtotal * 0.14; // 14% tax
-    const total = subtotal + tax;
+    // Same calculation the payment request is priced from (voids and discounts included)
+    const bill = await calculateSessionBill(sessionId);
     
     return NextResponse.json({
       success: true,
       total: {
-        subtotal,
-        tax,
-        total,
-        itemCount: orders?.length || 0
+        subtotal: bill.subtotal,
+        discount: bill.discount,
+        tax: bill.tax,
+        serviceCharge: bill.serviceCharge,
+        total: bill.total,
+        taxSummary: bill.taxSummary,
+        pricesIncludeTax: bill.pricesIncludeTax,
+        itemCount: bill.items.length
       }
     });
     
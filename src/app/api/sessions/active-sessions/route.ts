@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import { getTaxConfig } from '@/lib/tax-config';
+import { calculateBillTotals, TaxConfig } from '@/lib/tax-engine';
 
 export const GET = async (request: NextRequest) => {
   try {
@@ -11,6 +14,7 @@ export const GET = async (request: NextRequest) => {
       .select(`
         id,
         table_id,
+        restaurant_id,
         status,
         started_by_name,
         created_at,
@@ -34,6 +38,13 @@ export const GET = async (request: NextRequest) => {
       );
     }
     
+    // Load tax rules once per restaurant
+    const restaurantIds = [...new Set((sessions || []).map(session => session.restaurant_id || DEFAULT_RESTAURANT_ID))];
+    const taxConfigByRestaurant: Record<string, TaxConfig> = {};
+    for (const restaurantId of restaurantIds) {
+      taxConfigByRestaurant[restaurantId] = await getTaxConfig(restaurantId);
+    }
+
     // Calculate order totals for each session
     const sessionsWithTotals = await Promise.all(
       (sessions || []).map(async (session) => {
@@ -59,19 +70,20 @@ export const GET = async (request: NextRequest) => {
           }
           
           // Calculate total
-          const subtotal = orders?.reduce((sum, order) => {
-            const price = (order.menu_items as any)?.price || 0;
-            return sum + (price * order.quantity);
-          }, 0) || 0;
-          
-          const tax = subtotal * 0.14; // 14% tax
-          const total = subtotal + tax;
+          const { subtotal, tax, serviceCharge, total } = calculateBillTotals(
+            (orders || []).map(order => ({
+              menuItemId: (order.menu_items as any)?.id,
+              amount: ((order.menu_items as any)?.price || 0) * order.quantity
+            })),
+            taxConfigByRestaurant[session.restaurant_id || DEFAULT_RESTAURANT_ID]
+          );
           
           return { 
             ...session, 
             orderTotal: total,
             orderSubtotal: subtotal,
             orderTax: tax,
+            orderServiceCharge: serviceCharge,
             orderItemCount: orders?.length || 0
           };
         } catch (error) {
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError, handleError } from '@/lib/error-handling';
+import { DEFAULT_RESTAURANT_ID } from '@/lib/restaurant-settings';
+import { createEventStreamToken } from '@/lib/event-stream-tokens';
+import { createStaffToken } from '@/lib/staff-tokens';
+import { verifyStaffPin } from '@/lib/staff-pins';
 
 export const POST = async (request: NextRequest) => {
   try {
-    const { staffId, deviceId, staffName } = await request.json();
+    const { staffId, pin, deviceId, staffName } = await request.json();
     
     if (!staffId) {
       return NextResponse.json(
@@ -66,6 +70,27 @@ export const POST = async (request: NextRequest) => {
       );
     }
 
+    // Fallback staff have no PIN to check, so they get no signed tokens and cannot sign off payments
+    const isMockStaff = String(staff.id).startsWith('mock-');
+    if (!isMockStaff) {
+      try {
+        if (!await verifyStaffPin(staff, pin)) {
+          return NextResponse.json(
+            { error: 'Invalid staff ID or PIN' },
+            { status: 401 }
+          );
+        }
+      } catch (pinError) {
+        if (pinError instanceof AppError) {
+          return NextResponse.json(
+            { error: pinError.message },
+            { status: pinError.code === 'STAFF_PIN_LOCKED' ? 429 : 401 }
+          );
+        }
+        throw pinError;
+      }
+    }
+
     // Log the staff login (with fallback if function doesn't exist)
     let session = null;
     try {
@@ -86,6 +111,8 @@ export const POST = async (request: NextRequest) => {
       session = `mock-session-${Date.now()}`;
     }
 
+    const restaurantId = staff.restaurant_id || DEFAULT_RESTAURANT_ID;
+
     return NextResponse.json({
       success: true,
       staff: {
@@ -93,7 +120,9 @@ export const POST = async (request: NextRequest) => {
         staffId: staff.staff_id,
         name: staff.name,
         email: staff.email,
-        role: staff.role
+        role: staff.role,
+        eventsToken: isMockStaff ? null : createEventStreamToken(restaurantId),
+        token: isMockStaff ? null : createStaffToken({ id: staff.id, name: staff.name, restaurantId })
       },
       sessionId: session,
       message: `Welcome back, ${staff.name}!`
@@ -51,8 +51,58 @@ export const GET = async (request: NextRequest) => {
       ?.filter((n: any) => n.status === status)
       ?.slice(0, limit) || [];
 
+    // Escalated notifications go to every floor staff member, not just the assigned waiter
+    const { data: escalatedNotifications, error: escalatedError } = await supabaseServer
+      .from('notifications')
+      .select(`
+        id,
+        session_id,
+        type,
+        title,
+        message,
+        priority,
+        status,
+        created_at,
+        escalation_level,
+        escalation_history,
+        sessions!notifications_session_id_fkey(
+          tables!sessions_table_id_fkey(
+            table_number
+          )
+        )
+      `)
+      .eq('status', status)
+      .gte('escalation_level', 1)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (escalatedError) {
+      console.warn('⚠️ Could not load escalated notifications:', escalatedError.message);
+    }
+
+    const escalationById = new Map((escalatedNotifications || []).map((n: any) => [n.id, n]));
+    const assignedIds = new Set(filteredNotifications.map((n: any) => n.notification_id));
+    const extraEscalated = (escalatedNotifications || [])
+      .filter((n: any) => !assignedIds.has(n.id))
+      .map((n: any) => {
+        const session = Array.isArray(n.sessions) ? n.sessions[0] : n.sessions;
+        const table = Array.isArray(session?.tables) ? session?.tables[0] : session?.tables;
+        return {
+          notification_id: n.id,
+          session_id: n.session_id,
+          type: n.type,
+          title: n.title,
+          message: n.message,
+          priority: n.priority,
+          status: n.status,
+          created_at: n.created_at,
+          table_number: table?.table_number,
+          is_assigned: false
+        };
+      });
+
     // Transform notifications to match expected format
-    const transformedNotifications = filteredNotifications.map((notification: any) => ({
+    const transformedNotifications = [...filteredNotifications, ...extraEscalated].map((notification: any) => ({
       id: notification.notification_id,
       session_id: notification.session_id,
       type: notification.type,
@@ -63,6 +113,8 @@ export const GET = async (request: NextRequest) => {
       timestamp: notification.created_at,
       table_number: notification.table_number,
       is_assigned: notification.is_assigned,
+      escalation_level: escalationById.get(notification.notification_id)?.escalation_level || 0,
+      escalation_history: escalationById.get(notification.notification_id)?.escalation_history || [],
       // Add metadata for waitstaff assignment
       metadata: {
         assigned_waitstaff: staff.name,
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
 import { handleError } from '@/lib/error-handling';
+import { DEFAULT_RESTAURANT_ID, getRestaurantSettings } from '@/lib/restaurant-settings';
 
 export const POST = async (request: NextRequest) => {
   try {
     const { tableId, pin } = await request.json();
     
-    if (!tableId || !pin) {
+    if (!tableId) {
       return NextResponse.json(
-        { error: 'Table ID and PIN are required' },
+        { error: 'Table ID is required' },
         { status: 400 }
       );
     }
@@ -51,8 +52,17 @@ export const POST = async (request: NextRequest) => {
       );
     }
 
-    // Verify PIN
-    if (pin !== table.current_pin) {
+    // Verify PIN (restaurants can turn PIN entry off in their settings)
+    const settings = await getRestaurantSettings(table.restaurant_id || DEFAULT_RESTAURANT_ID);
+
+    if (settings.require_table_pins && !pin) {
+      return NextResponse.json(
+        { error: 'Table ID and PIN are required' },
+        { status: 400 }
+      );
+    }
+
+    if (settings.require_table_pins && pin !== table.current_pin) {
       return NextResponse.json(
         { error: 'Invalid PIN. Please check with your server.' },
         { status: 401 }
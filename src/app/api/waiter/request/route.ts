@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError } from '@/lib/error-handling';
+import { createWaiterRequest, WAITER_REQUEST_TYPES, WaiterRequestType } from '@/lib/waiter-requests';
 
 export const POST = async (request: NextRequest) => {
   try {
-    const { sessionId, requestType, timestamp } = await request.json();
+    const { sessionId, requestType, dinerName, customerName, notes } = await request.json();
 
     if (!sessionId || !requestType) {
       return NextResponse.json(
@@ -13,29 +13,45 @@ export const POST = async (request: NextRequest) => {
       );
     }
 
-    if (!['bill', 'help'].includes(requestType)) {
+    if (!WAITER_REQUEST_TYPES.includes(requestType)) {
       return NextResponse.json(
         { error: 'Request type must be either "bill" or "help"' },
         { status: 400 }
       );
     }
 
-    // For now, just return success without creating database records
-    // This allows the UI to work while we set up the database properly
+    const { request: waiterRequest, duplicate } = await createWaiterRequest(
+      sessionId,
+      requestType as WaiterRequestType,
+      customerName || dinerName,
+      notes
+    );
+
+    const label = requestType === 'bill' ? 'Bill request' : 'Help request';
 
     return NextResponse.json({
       success: true,
-      message: `${requestType === 'bill' ? 'Bill request' : 'Help request'} sent successfully`,
+      message: duplicate ? `${label} already sent - staff have been notified` : `${label} sent successfully`,
+      duplicate,
       data: {
-        id: `temp-${Date.now()}`,
-        requestType,
-        tableNumber: 'A1', // Default for testing
-        customerName: 'Customer',
-        timestamp: timestamp || new Date().toISOString()
+        id: waiterRequest.id,
+        requestType: waiterRequest.request_type,
+        tableNumber: waiterRequest.table_number,
+        customerName: waiterRequest.customer_name,
+        status: waiterRequest.status,
+        assignedTo: waiterRequest.assigned_staff_name,
+        timestamp: waiterRequest.created_at
       }
     });
 
   } catch (error) {
+    if (error instanceof AppError && error.code === 'WAITER_REQUEST_SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof AppError && error.code === 'WAITER_REQUEST_SESSION_CLOSED') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     console.error('🔍 Waiter request exception:', error);
     return NextResponse.json(
       { error: 'Internal server error during waiter request' },
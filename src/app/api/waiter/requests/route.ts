@@ -1,19 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabaseServer';
-import { handleError } from '@/lib/error-handling';
+import { AppError, handleError } from '@/lib/error-handling';
+import { updateWaiterRequestStatus, WAITER_REQUEST_STATUSES, WaiterRequestStatus } from '@/lib/waiter-requests';
+
+// PATCH accepts an action as well as a target status
+const ACTION_STATUS: Record<string, WaiterRequestStatus> = {
+  acknowledge: 'acknowledged',
+  resolve: 'completed',
+  reopen: 'pending'
+};
 
 export const GET = async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status') || 'pending';
+    const staffId = searchParams.get('staffId');
+    const sessionId = searchParams.get('sessionId');
     const limit = parseInt(searchParams.get('limit') || '50');
 
-    // Fetch waiter requests
-    const { data: requests, error: fetchError } = await supabaseServer
+    // Fetch waiter requests ('all' lists every status)
+    let query = supabaseServer
       .from('waiter_requests')
       .select(`
         id,
         session_id,
+        table_id,
         request_type,
         table_number,
         customer_name,
@@ -22,9 +33,25 @@ export const GET = async (request: NextRequest) => {
         acknowledged_at,
         completed_at,
         acknowledged_by,
+        completed_by,
+        assigned_staff_id,
+        assigned_staff_name,
+        response_seconds,
+        resolution_seconds,
         notes
-      `)
-      .eq('status', status)
+      `);
+
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+    if (staffId) {
+      query = query.eq('assigned_staff_id', staffId);
+    }
+    if (sessionId) {
+      query = query.eq('session_id', sessionId);
+    }
+
+    const { data: requests, error: fetchError } = await query
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -66,50 +93,25 @@ export const GET = async (request: NextRequest) => {
 
 export const PATCH = async (request: NextRequest) => {
   try {
-    const { id, status, acknowledgedBy, notes } = await request.json();
+    const { id, status: requestedStatus, action, acknowledgedBy, staffName, notes } = await request.json();
+    const status = requestedStatus || ACTION_STATUS[action];
 
     if (!id || !status) {
       return NextResponse.json(
-        { error: 'Request ID and status are required' },
+        { error: 'Request ID and status (or action) are required' },
         { status: 400 }
       );
     }
 
-    if (!['pending', 'acknowledged', 'completed'].includes(status)) {
+    if (!WAITER_REQUEST_STATUSES.includes(status)) {
       return NextResponse.json(
         { error: 'Status must be pending, acknowledged, or completed' },
         { status: 400 }
       );
     }
 
-    // Prepare update data
-    const updateData: any = { status };
-    
-    if (status === 'acknowledged') {
-      updateData.acknowledged_at = new Date().toISOString();
-      updateData.acknowledged_by = acknowledgedBy;
-    } else if (status === 'completed') {
-      updateData.completed_at = new Date().toISOString();
-      if (acknowledgedBy) updateData.acknowledged_by = acknowledgedBy;
-    }
-    
-    if (notes) updateData.notes = notes;
-
-    // Update waiter request
-    const { data: updatedRequest, error: updateError } = await supabaseServer
-      .from('waiter_requests')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error('❌ Failed to update waiter request:', updateError);
-      return NextResponse.json(
-        { error: 'Failed to update waiter request' },
-        { status: 500 }
-      );
-    }
+    // Also moves the linked staff notification and records response times
+    const updatedRequest = await updateWaiterRequestStatus(id, status, staffName || acknowledgedBy, notes);
 
     return NextResponse.json({
       success: true,
@@ -118,6 +120,10 @@ export const PATCH = async (request: NextRequest) => {
     });
 
   } catch (error) {
+    if (error instanceof AppError && error.code === 'WAITER_REQUEST_NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     const appError = handleError(error, {
       operation: 'Update Waiter Request'
     });
@@ -1,19 +1,26 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useCart, CartItem, CartProvider } from '@/contexts/CartContext';
 import { ShoppingCart, ArrowLeft, Trash2, Edit3, Users } from 'lucide-react';
 import GlobalNavigation from '@/app/components/GlobalNavigation';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, getTaxLabel } from '@/lib/tax-engine';
+import { summarizeModifiers } from '@/lib/menu-modifiers';
+import { COURSES, isCourse } from '@/lib/courses';
 
 function CartReviewContent() {
   const searchParams = useSearchParams();
   const sessionId = searchParams.get('sessionId');
-  const { state, removeItem, updateQuantity, loadCartItems, clearCart } = useCart();
+  const { state, removeItem, updateQuantity, updateItem, loadCartItems, clearCart } = useCart();
   const dinerName = state.dinerName;
   const items = state.items;
   const isLoading = state.isLoading;
+  const taxConfig = useTaxConfig(sessionId);
+  // Idempotency-Key for the order confirmation; reused until it succeeds
+  const confirmKeyRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Debug logging removed for production security
@@ -50,6 +57,8 @@ function CartReviewContent() {
     }
   }, [items, isLoading, sessionId]);
 
+  const hasUnavailableItems = items.some(item => item.isUnavailable);
+
   const calculateItemPrice = (item: CartItem) => {
     if (item.isSplit && item.splitPrice && item.splitCount) {
       // CRITICAL FIX: Recalculate split price based on current quantity
@@ -66,21 +75,17 @@ function CartReviewContent() {
 
   const calculateTotal = (items: CartItem[]) => {
     if (!items || !Array.isArray(items)) {
-      return { subtotal: 0, vat: 0, total: 0 };
+      return { subtotal: 0, vat: 0, serviceCharge: 0, total: 0 };
     }
     
-    let subtotal = 0;
-    items.forEach(item => {
-      const itemPrice = calculateItemPrice(item);
-      subtotal += itemPrice;
-      // Debug logging removed for production security
-    });
-    const vat = subtotal * 0.14;
-    const total = subtotal + vat;
+    const bill = calculateBillTotals(
+      items.map(item => ({ menuItemId: item.menu_item_id, amount: calculateItemPrice(item) })),
+      taxConfig
+    );
     
     // Debug logging removed for production security
     
-    return { subtotal, vat, total };
+    return { subtotal: bill.subtotal, vat: bill.tax, serviceCharge: bill.serviceCharge, total: bill.total };
   };
 
   const handleRemoveItem = (itemId: string) => {
@@ -276,6 +281,52 @@ function CartReviewContent() {
                     </div>
                   )}
 
+                  {/* 86'd by the kitchen while in the cart */}
+                  {item.isUnavailable && (
+                    <div className="mb-3 flex items-center justify-between rounded-md bg-red-50 border border-red-200 px-3 py-2">
+                      <p className="text-xs font-medium text-red-700">
+                        Sorry, this item is no longer available.
+                      </p>
+                      <button
+                        onClick={() => removeItem(item.id)}
+                        className="text-xs font-medium text-red-700 underline hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Selected Modifiers */}
+                  {summarizeModifiers(item.customizations).length > 0 && (
+                    <div className="mb-2">
+                      {summarizeModifiers(item.customizations).map(modifier => (
+                        <p key={modifier} className="text-xs text-gray-600">
+                          {modifier}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Course - later courses are held until the waiter fires them */}
+                  <div className="mb-2 flex items-center space-x-2">
+                    <label htmlFor={`course-${item.id}`} className="text-xs text-gray-600">Serve as</label>
+                    <select
+                      id={`course-${item.id}`}
+                      value={item.course || ''}
+                      onChange={(e) => updateItem({
+                        itemId: item.id,
+                        quantity: item.quantity,
+                        options: { course: isCourse(e.target.value) ? e.target.value : null }
+                      })}
+                      className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-700"
+                    >
+                      <option value="">Right away</option>
+                      {COURSES.map(course => (
+                        <option key={course.value} value={course.value}>{course.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   {/* Regular Item Info */}
                   {!item.isSplit && item.notes && (
                     <div className="mb-3">
@@ -321,9 +372,15 @@ function CartReviewContent() {
                     <span>P{totals.subtotal.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between text-sm text-gray-700">
-                    <span>VAT (14%)</span>
+                    <span>{getTaxLabel(taxConfig)}</span>
                     <span>P{totals.vat.toFixed(2)}</span>
                   </div>
+                  {totals.serviceCharge > 0 && (
+                    <div className="flex justify-between text-sm text-gray-700">
+                      <span>Service Charge</span>
+                      <span>P{totals.serviceCharge.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="border-t pt-2">
                     <div className="flex justify-between font-semibold text-gray-900">
                       <span>Total</span>
@@ -346,9 +403,10 @@ function CartReviewContent() {
                     // Debug logging removed for production security
                     
                     // Call the orders confirmation API
+                    confirmKeyRef.current = confirmKeyRef.current || crypto.randomUUID();
                     const response = await fetch('/api/orders/confirm', {
                       method: 'POST',
-                      headers: { 'Content-Type': 'application/json' },
+                      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': confirmKeyRef.current },
                       body: JSON.stringify({
                         sessionId: sessionId
                       })
@@ -360,6 +418,7 @@ function CartReviewContent() {
                     }
 
                     const result = await response.json();
+                    confirmKeyRef.current = null;
                     // Debug logging removed for production security
                     // Debug logging removed for production security
                     
@@ -375,9 +434,9 @@ function CartReviewContent() {
                     alert(`Failed to confirm orders: ${error instanceof Error ? error.message : 'Unknown error'}`);
                   }
                 }}
-                disabled={!items || items.length === 0}
+                disabled={!items || items.length === 0 || hasUnavailableItems}
                 className={`w-full py-4 rounded-lg font-semibold transition-colors text-center block ${
-                  !items || items.length === 0
+                  !items || items.length === 0 || hasUnavailableItems
                     ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
                     : 'bg-[#00d9ff] text-white hover:bg-[#00c7e6]'
                 }`}
@@ -5,6 +5,8 @@ import { usePathname } from 'next/navigation';
 import { UtensilsCrossed, Receipt, ShoppingCart, Bell, HelpCircle, FileText } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { useState, useRef, useEffect } from 'react';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals } from '@/lib/tax-engine';
 
 interface BottomNavBarProps {
   sessionId?: string;
@@ -19,6 +21,7 @@ const BottomNavBar = ({ sessionId }: BottomNavBarProps) => {
 
   // Extract sessionId from URL if not provided
   const currentSessionId = sessionId || (pathname.includes('/session/') ? pathname.split('/session/')[1]?.split('/')[0] : '');
+  const taxConfig = useTaxConfig(currentSessionId);
 
   // Calculate total cart quantity from context
   const cartItemCount = state.items.reduce((total: number, item: any) => total + item.quantity, 0);
@@ -58,23 +61,27 @@ const BottomNavBar = ({ sessionId }: BottomNavBarProps) => {
       // Start the new payment flow
       if (currentSessionId) {
         // Calculate current totals from cart
-        const cartSubtotal = state.items.reduce((sum: number, item: any) => {
-          if (item.isSplit && item.splitPrice) {
-            return sum + item.splitPrice;
-          } else {
-            return sum + (item.price * item.quantity);
-          }
-        }, 0);
-        const vat = cartSubtotal * 0.14;
+        const bill = calculateBillTotals(
+          state.items.map((item: any) => ({
+            menuItemId: item.menu_item_id,
+            amount: item.isSplit && item.splitPrice ? item.splitPrice : item.price * item.quantity
+          })),
+          taxConfig
+        );
         
         // Navigate to tipping modal via payment confirmation page
         const params = new URLSearchParams({
           sessionId: currentSessionId,
-          subtotal: cartSubtotal.toString(),
-          vat: vat.toString(),
+          subtotal: bill.subtotal.toString(),
+          vat: bill.tax.toString(),
+          serviceCharge: bill.serviceCharge.toString(),
           tipAmount: '0',
-          finalTotal: (cartSubtotal + vat).toString()
+          finalTotal: bill.total.toString(),
+          paymentType: 'individual'
         });
+        if (state.dinerName) {
+          params.set('dinerName', state.dinerName);
+        }
         
         window.location.href = `/payment-confirmation?${params.toString()}`;
       } else {
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 
 import { useCart } from '@/contexts/CartContext';
+import { ModifierGroup, ModifierSelection, normalizeModifierGroups, resolveModifierSelections } from '@/lib/menu-modifiers';
 import BottomSheetModal from './BottomSheetModal';
 
 interface CenteredModalProps {
@@ -23,6 +24,7 @@ interface CenteredModalProps {
     category?: string;
     rating?: number;
     preparation_time?: string;
+    modifier_groups?: ModifierGroup[];
   };
 }
 
@@ -41,6 +43,7 @@ const CenteredModal = ({
   const [isShared, setIsShared] = useState(false);
   const [_isTakeaway, _setIsTakeaway] = useState(false); // Disabled as requested
   const [isUpdating, setIsUpdating] = useState(false);
+  const [selections, setSelections] = useState<ModifierSelection[]>([]);
   const { state, getItemQuantity, addItem, loadCartItems } = useCart();
   const cart = state.items;
   
@@ -54,16 +57,38 @@ const CenteredModal = ({
       setNotes(cartItem?.notes || '');
       setIsShared(cartItem?.isShared || false);
       _setIsTakeaway(false); // Always disabled
+      setSelections((cartItem?.customizations || []).map((customization: ModifierSelection) => ({
+        group_id: customization.group_id,
+        option_id: customization.option_id
+      })));
     }
   }, [isOpen, cartItem]);
 
-  // Calculate real-time price based on options
+  // Modifier groups and the diner's current picks (the cart routes re-check these server-side)
+  const modifierGroups = normalizeModifierGroups(item?.modifier_groups);
+  const { customizations, errors: modifierErrors } = resolveModifierSelections(modifierGroups, selections);
+
+  const isOptionSelected = (groupId: string, optionId: string): boolean =>
+    selections.some(selection => selection.group_id === groupId && selection.option_id === optionId);
+
+  const handleToggleOption = (group: ModifierGroup, optionId: string): void => {
+    if (isOptionSelected(group.id, optionId)) {
+      setSelections(selections.filter(selection => !(selection.group_id === group.id && selection.option_id === optionId)));
+      return;
+    }
+
+    // Single-choice groups behave like radio buttons; otherwise stop at the group's maximum
+    const groupSelections = selections.filter(selection => selection.group_id === group.id);
+    if (group.max_select === 1) {
+      setSelections([...selections.filter(selection => selection.group_id !== group.id), { group_id: group.id, option_id: optionId }]);
+    } else if (groupSelections.length < group.max_select) {
+      setSelections([...selections, { group_id: group.id, option_id: optionId }]);
+    }
+  };
+
+  // Calculate real-time price based on the selected modifiers
   const calculatePrice = (): number => {
-    const basePrice = itemPrice;
-    // Add any price modifications based on options here
-    // For now, we'll keep it simple and just return the base price
-    // Future: Add pricing logic for shared items, customizations, etc.
-    return basePrice;
+    return customizations.reduce((sum, customization) => sum + customization.price_delta, itemPrice);
   };
 
   // Remove the old handleAddToCart function - we don't add items in the modal anymore
@@ -77,7 +102,7 @@ const CenteredModal = ({
   };
 
   const handleMakeShared = async () => {
-    if (!item || !sessionId) return;
+    if (!item || !sessionId || modifierErrors.length > 0) return;
 
     setIsUpdating(true);
     
@@ -94,7 +119,8 @@ const CenteredModal = ({
         // Update existing item to be shared
         const updateData = {
           is_shared: true,
-          notes: notes || undefined
+          notes: notes || undefined,
+          customizations
         };
         
         
@@ -105,6 +131,7 @@ const CenteredModal = ({
           },
           body: JSON.stringify({
             itemId: existingCartItem.id,
+            quantity: existingCartItem.quantity,
             options: updateData
           })
         });
@@ -127,7 +154,8 @@ const CenteredModal = ({
         await addItem(item, { 
           notes: notes || undefined, 
           isShared: true, 
-          isTakeaway: false 
+          isTakeaway: false,
+          customizations
         });
       }
       
@@ -140,7 +168,7 @@ const CenteredModal = ({
   };
 
   const handleUpdateItem = async () => {
-    if (!item || !sessionId) return;
+    if (!item || !sessionId || modifierErrors.length > 0) return;
 
     setIsUpdating(true);
     
@@ -154,7 +182,8 @@ const CenteredModal = ({
       if (existingCartItem) {
         // Update existing item
         const updateData = {
-          notes: notes || undefined
+          notes: notes || undefined,
+          customizations
         };
         
         
@@ -165,6 +194,7 @@ const CenteredModal = ({
           },
           body: JSON.stringify({
             itemId: existingCartItem.id,
+            quantity: existingCartItem.quantity,
             options: updateData
           })
         });
@@ -187,7 +217,8 @@ const CenteredModal = ({
         await addItem(item, { 
           notes: notes || undefined, 
           isShared: false, 
-          isTakeaway: false 
+          isTakeaway: false,
+          customizations
         });
       }
       
@@ -226,16 +257,59 @@ const CenteredModal = ({
           <div className="mb-4 p-4 border-2 border-[#00d9ff] rounded-lg">
             <div className="flex items-center justify-between text-sm">
               <div className="text-left text-black font-medium">
-                Total: {cartItem.quantity} × P{itemPrice.toFixed(0)}
+                Total: {cartItem.quantity} × P{calculatePrice().toFixed(0)}
               </div>
               <div className="text-right font-bold text-black text-lg">
-                P{(cartItem.quantity * itemPrice).toFixed(2)}
+                P{(cartItem.quantity * calculatePrice()).toFixed(2)}
               </div>
             </div>
           </div>
         )}
       </div>
 
+      {/* Modifier Groups */}
+      {modifierGroups.map(group => (
+        <div key={group.id} className="px-6 mb-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-3">
+            {group.name}{' '}
+            <span className="text-gray-500 font-bold">
+              {group.min_select === 0
+                ? '(optional)'
+                : group.max_select === 1
+                  ? '(choose 1)'
+                  : `(choose ${group.min_select}-${group.max_select})`}
+            </span>
+          </h3>
+          <div className="space-y-2">
+            {group.options.map(option => {
+              const selected = isOptionSelected(group.id, option.id);
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => !isUpdating && handleToggleOption(group, option.id)}
+                  className={`w-full flex items-center justify-between p-3 border-2 rounded-xl text-sm transition-all duration-200 ${
+                    selected
+                      ? 'border-[#00d9ff] bg-blue-50 text-gray-900'
+                      : 'border-gray-200 text-gray-700 hover:border-[#00d9ff]'
+                  }`}
+                >
+                  <span className="font-medium">{option.name}</span>
+                  {option.price_delta !== 0 && (
+                    <span className="text-gray-500">
+                      {option.price_delta > 0 ? '+' : '-'}P{Math.abs(option.price_delta).toFixed(2)}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      {modifierErrors.length > 0 && (
+        <p className="px-6 -mt-3 mb-6 text-sm text-red-600">{modifierErrors[0]}</p>
+      )}
+
       {/* Special Instructions */}
       <div className="px-6 mb-6">
         <h3 className="text-base font-semibold text-gray-800 mb-3">Special Instructions <span className="text-gray-500 font-bold">(optional)</span></h3>
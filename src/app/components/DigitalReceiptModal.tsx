@@ -23,12 +23,16 @@ interface DigitalReceiptModalProps {
   orderItems: OrderItem[];
   subtotal: number;
   vat: number;
+  serviceCharge?: number;
+  taxLabel?: string;
   tipAmount: number;
   finalTotal: number;
   sessionId: string;
   tableNumber?: string | undefined;
   paymentMethod?: string | undefined;
   paymentCompletedAt?: string | undefined;
+  receiptNumber?: string | undefined; // fiscal receipt number, e.g. R-000042
+  dinerName?: string | undefined; // picks the diner's own receipt for individual payments
 }
 
 export default function DigitalReceiptModal({
@@ -39,17 +43,32 @@ export default function DigitalReceiptModal({
   orderItems,
   subtotal,
   vat,
+  serviceCharge = 0,
+  taxLabel = 'VAT (14%)',
   tipAmount,
   finalTotal,
   sessionId,
   tableNumber,
   paymentMethod,
-  paymentCompletedAt
+  paymentCompletedAt,
+  receiptNumber,
+  dinerName
 }: DigitalReceiptModalProps) {
   const [email, setEmail] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [attachInvoice, setAttachInvoice] = useState(true);
+  const [showBillTo, setShowBillTo] = useState(false);
+  const [billTo, setBillTo] = useState({ company: '', name: '', vatNumber: '' });
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Fields shared by the email and invoice requests - the server builds the receipt from the payment itself
+  const receiptPayload = {
+    sessionId,
+    dinerName,
+    billTo: showBillTo ? billTo : undefined
+  };
 
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -82,16 +101,9 @@ export default function DigitalReceiptModal({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          sessionId,
+          ...receiptPayload,
           email: email.trim(),
-          orderItems,
-          subtotal,
-          vat,
-          tipAmount,
-          finalTotal,
-          tableNumber,
-          paymentMethod,
-          paymentCompletedAt
+          attachInvoice
         })
       });
 
@@ -109,6 +121,39 @@ export default function DigitalReceiptModal({
     }
   };
 
+  // Download the PDF tax invoice
+  const handleDownloadInvoice = async () => {
+    setIsDownloading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/receipt/invoice', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(receiptPayload)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to download invoice');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'invoice.pdf';
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download invoice');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   // Handle skip
   const handleSkip = () => {
     onSkip();
@@ -143,6 +188,9 @@ export default function DigitalReceiptModal({
           <div className="text-center">
             <h3 className="text-lg font-bold text-gray-900">PulaNodus Restaurant</h3>
             <p className="text-sm text-gray-600">Thank you for dining with us!</p>
+            {receiptNumber && (
+              <p className="text-sm font-semibold text-gray-900 mt-1">Receipt No {receiptNumber}</p>
+            )}
             {tableNumber && (
               <p className="text-sm text-gray-600">Table {tableNumber}</p>
             )}
@@ -191,9 +239,15 @@ export default function DigitalReceiptModal({
               <span className="font-medium text-gray-900">{formatCurrency(subtotal)}</span>
             </div>
             <div className="flex justify-between text-sm">
-              <span className="text-gray-600">VAT (14%):</span>
+              <span className="text-gray-600">{taxLabel}:</span>
               <span className="font-medium text-gray-900">{formatCurrency(vat)}</span>
             </div>
+            {serviceCharge > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Service Charge:</span>
+                <span className="font-medium text-gray-900">{formatCurrency(serviceCharge)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-gray-600">Tip:</span>
               <span className="font-medium text-gray-900">{formatCurrency(tipAmount)}</span>
@@ -216,6 +270,62 @@ export default function DigitalReceiptModal({
             </div>
           )}
 
+          {/* Tax Invoice */}
+          <div className="space-y-3">
+            <button
+              type="button"
+              onClick={() => setShowBillTo(!showBillTo)}
+              className="text-sm text-[#00d9ff] hover:underline"
+            >
+              {showBillTo ? 'Remove company details' : 'Need a tax invoice for a company?'}
+            </button>
+            {showBillTo && (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={billTo.company}
+                  onChange={(e) => setBillTo({ ...billTo, company: e.target.value })}
+                  placeholder="Company name"
+                  maxLength={120}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent text-gray-900 placeholder-gray-400"
+                />
+                <input
+                  type="text"
+                  value={billTo.name}
+                  onChange={(e) => setBillTo({ ...billTo, name: e.target.value })}
+                  placeholder="Contact name (optional)"
+                  maxLength={120}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent text-gray-900 placeholder-gray-400"
+                />
+                <input
+                  type="text"
+                  value={billTo.vatNumber}
+                  onChange={(e) => setBillTo({ ...billTo, vatNumber: e.target.value })}
+                  placeholder="Company VAT number (optional)"
+                  maxLength={40}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent text-gray-900 placeholder-gray-400"
+                />
+              </div>
+            )}
+            <button
+              onClick={handleDownloadInvoice}
+              disabled={isDownloading}
+              className="w-full border-2 border-[#00d9ff] text-[#00d9ff] py-2 px-4 rounded-lg font-medium hover:bg-cyan-50 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {isDownloading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#00d9ff]"></div>
+                  <span>Preparing PDF...</span>
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4" />
+                  <span>Download PDF Invoice</span>
+                </>
+              )}
+            </button>
+          </div>
+
           {/* Email Receipt Section */}
           {!emailSent ? (
             <div className="space-y-4">
@@ -234,6 +344,16 @@ export default function DigitalReceiptModal({
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent text-gray-900 placeholder-gray-400"
                   />
                 </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={attachInvoice}
+                    onChange={(e) => setAttachInvoice(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>Attach PDF tax invoice</span>
+                </label>
                 
                 {error && (
                   <div className="bg-red-50 border border-red-200 rounded-lg p-3">
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { describeEscalation, EscalationEntry, getEscalationBadge } from '@/lib/escalation-rules';
 import { 
   Bell, 
   Users, 
@@ -33,6 +35,8 @@ interface Notification {
   timestamp: string;
   table_number: string;
   is_assigned: boolean;
+  escalation_level?: number;
+  escalation_history?: EscalationEntry[];
   metadata: {
     assigned_waitstaff: string;
     is_my_table: boolean;
@@ -97,12 +101,14 @@ export default function FilteredStaffDashboard({
 
   useEffect(() => {
     loadData();
-    
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(() => loadData(true), 30000);
-    return () => clearInterval(interval);
   }, [staff.id]);
 
+  // New notifications and order/payment changes are pushed as they happen
+  useRealtimeEvents({
+    types: ['notification', 'order_status', 'payment'],
+    refresh: () => loadData(true)
+  });
+
   const handleNotificationAction = async (notificationId: string) => {
     try {
       const response = await fetch(`/api/notifications/${notificationId}/acknowledge`, {
@@ -363,8 +369,18 @@ export default function FilteredStaffDashboard({
                               <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.badgeColor}`}>
                                 {notification.priority}
                               </span>
+                              {getEscalationBadge(notification.escalation_level) && (
+                                <span className="px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full">
+                                  {getEscalationBadge(notification.escalation_level)}
+                                </span>
+                              )}
                             </div>
                             <p className="text-sm text-gray-700 mb-2">{notification.message}</p>
+                            {(notification.escalation_history || []).map((entry) => (
+                              <p key={entry.level} className="text-xs text-red-700 mb-1">
+                                {describeEscalation(entry)}
+                              </p>
+                            ))}
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-2 text-xs text-gray-500">
                                 <Timer className="w-3 h-3" />
@@ -404,8 +420,18 @@ export default function FilteredStaffDashboard({
                               <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.badgeColor}`}>
                                 {notification.priority}
                               </span>
+                              {getEscalationBadge(notification.escalation_level) && (
+                                <span className="px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full">
+                                  {getEscalationBadge(notification.escalation_level)}
+                                </span>
+                              )}
                             </div>
                             <p className="text-sm text-gray-700 mb-2">{notification.message}</p>
+                            {(notification.escalation_history || []).map((entry) => (
+                              <p key={entry.level} className="text-xs text-red-700 mb-1">
+                                {describeEscalation(entry)}
+                              </p>
+                            ))}
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-2 text-xs text-gray-500">
                                 <Timer className="w-3 h-3" />
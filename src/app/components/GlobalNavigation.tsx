@@ -39,16 +39,18 @@ export default function GlobalNavigation({ sessionId, className = '' }: GlobalNa
         body: JSON.stringify({
           sessionId: currentSessionId,
           requestType,
-          timestamp: new Date().toISOString()
+          dinerName: currentDinerName
         }),
       });
 
       const data = await response.json();
       
       if (response.ok && data.success) {
-        alert(`${requestType === 'bill' ? 'Bill request' : 'Help request'} sent to staff!`);
+        alert(data.duplicate
+          ? `Your ${requestType === 'bill' ? 'bill' : 'help'} request is already with staff.`
+          : `${requestType === 'bill' ? 'Bill request' : 'Help request'} sent to staff!`);
       } else {
-        alert('Failed to send request. Please try again.');
+        alert(data.error || 'Failed to send request. Please try again.');
       }
     } catch (error) {
       console.error('Error sending waiter request:', error);
@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { useCart } from '@/contexts/CartContext';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, getTaxLabel, TaxableLine } from '@/lib/tax-engine';
+import { getModifierTotal, summarizeModifiers } from '@/lib/menu-modifiers';
 import { createClient } from '@supabase/supabase-js';
 import {
   Users,
@@ -35,6 +38,8 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
   const [confirmedOrders, setConfirmedOrders] = useState<any[]>([]);
   const [loadingConfirmedOrders, setLoadingConfirmedOrders] = useState(false);
   const [isConfirming, setIsConfirming] = useState(false);
+  // Kept until the confirmation goes through, so a resubmit can't fire the same items twice
+  const confirmKeyRef = useRef<string | null>(null);
   const [sessionData, setSessionData] = useState<any>(null);
   const [loadingSession, setLoadingSession] = useState(false);
   
@@ -42,6 +47,10 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
   const { state, clearCart, loadCartItems } = useCart();
   const cartItems = state.items;
 
+  // Tax rules for this restaurant (inclusive/exclusive pricing, tax classes, rounding)
+  const taxConfig = useTaxConfig(sessionId);
+  const taxLabel = getTaxLabel(taxConfig);
+
   // Load session data
   const loadSessionData = async () => {
     if (!sessionId) {
@@ -183,21 +192,26 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
   }, [sessionId]);
 
   // Calculate table totals from confirmed orders only - use original prices
-  const tableSubtotal = confirmedOrders.reduce((sum, order) => {
-    const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
-    const price = menuItem?.price || 0;
-    return sum + (price * order.quantity);
-  }, 0);
-  const vat = tableSubtotal * 0.14;
-  const tableTotal = tableSubtotal + vat;
+  const tableBill = calculateBillTotals(
+    confirmedOrders.map(order => {
+      const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
+      return { menuItemId: order.menu_item_id || menuItem?.id, amount: ((menuItem?.price || 0) + getModifierTotal(order.customizations)) * order.quantity };
+    }),
+    taxConfig
+  );
+  const tableSubtotal = tableBill.subtotal;
+  const vat = tableBill.tax;
+  const tableTotal = tableBill.total;
   
   // DEBUG: Log table total calculation
   // Debug logging removed for production security
 
   // Calculate individual shares from confirmed orders using the same logic as Table Bill
-  const calculateUserShare = (userId: string) => {
+  // Matches the server's individual bill: the diner's own items plus their split shares
+  const calculateUserShare = (dinerName?: string | null) => {
     let personalTotal = 0;
     let sharedTotal = 0;
+    const lines: TaxableLine[] = [];
     
     // Debug logging removed for production security
     
@@ -209,16 +223,22 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
       // Debug logging removed for production security
       
       if (isShared && splitBill.participants) {
-        // For shared items, we need to check if the current user is in the participants
-        // Since we don't know the current user's name, we'll calculate the total shared amount
-        // and let the UI handle the display logic
+        // For shared items, only count the share if the current diner is a participant
+        if (dinerName && !splitBill.participants.includes(dinerName)) {
+          return;
+        }
         const itemPrice = splitBill.split_price || 0;
         sharedTotal += itemPrice;
+        lines.push({ menuItemId: order.menu_item_id || menuItem?.id, amount: itemPrice });
         // Debug logging removed for production security
       } else {
-        // For personal items, add to personal total
-        const itemPrice = (menuItem?.price || 0) * order.quantity;
+        // For personal items, add to personal total if the current diner ordered it
+        if (dinerName && order.diner_name !== dinerName) {
+          return;
+        }
+        const itemPrice = ((menuItem?.price || 0) + getModifierTotal(order.customizations)) * order.quantity;
         personalTotal += itemPrice;
+        lines.push({ menuItemId: order.menu_item_id || menuItem?.id, amount: itemPrice });
         // Debug logging removed for production security
       }
     });
@@ -226,7 +246,8 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
     const result = {
       individualTotal: personalTotal,
       sharedTotal: sharedTotal,
-      subtotal: personalTotal + sharedTotal
+      subtotal: personalTotal + sharedTotal,
+      lines
     };
     
     // Debug logging removed for production security
@@ -243,6 +264,10 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
       return sum + (item.price * item.quantity);
     }
   }, 0);
+  const cartLines: TaxableLine[] = (cartItems || []).map(item => ({
+    menuItemId: item.menu_item_id,
+    amount: item.isSplit && item.splitPrice ? item.splitPrice : item.price * item.quantity
+  }));
 
   // Note: Order confirmation is now handled in the cart-review page
   // This ensures a single, consistent confirmation flow
@@ -400,39 +425,25 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
     }
 
     try {
-      let subtotal: number;
-      let vat: number;
-      let finalTotal: number;
-
-      if (isTablePayment) {
-        // Calculate table total - use original prices for all confirmed orders
-        subtotal = confirmedOrders.reduce((sum, order) => {
-          const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
-          const price = menuItem?.price || 0;
-          return sum + (price * order.quantity);
-        }, 0);
-        vat = subtotal * 0.14;
-        finalTotal = subtotal + vat;
-        
-        // Debug logging removed for production security
-      } else {
-        // Calculate individual diner's share
-        subtotal = currentDinerShare.subtotal + cartSubtotal;
-        vat = subtotal * 0.14;
-        finalTotal = subtotal + vat;
-        
-        // Debug logging removed for production security
-      }
+      // Table payment uses original prices for all confirmed orders; individual uses the diner's share
+      const bill = isTablePayment ? tableBill : myShareBill;
+      const subtotal = bill.subtotal;
+      const vat = bill.tax;
+      const finalTotal = bill.total;
 
       // Navigate to payment confirmation page with initial values
       const params = new URLSearchParams({
         sessionId: sessionId,
         subtotal: subtotal.toString(),
         vat: vat.toString(),
+        serviceCharge: bill.serviceCharge.toString(),
         tipAmount: '0',
         finalTotal: finalTotal.toString(),
         paymentType: isTablePayment ? 'table' : 'individual'
       });
+      if (!isTablePayment && currentDinerName) {
+        params.set('dinerName', currentDinerName);
+      }
 
       window.location.href = `/payment-confirmation?${params.toString()}`;
     } catch (error) {
@@ -441,7 +452,9 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
     }
   };
 
-  const currentDinerShare = calculateUserShare('You');
+  const currentDinerName = state.dinerName || sessionData?.diners?.find((d: any) => d.isActive)?.name;
+  const currentDinerShare = calculateUserShare(currentDinerName);
+  const myShareBill = calculateBillTotals([...currentDinerShare.lines, ...cartLines], taxConfig);
   
   // Check if all orders are served for payment eligibility
   const allOrdersServed = confirmedOrders.length > 0 && confirmedOrders.every(order => order.status === 'served');
@@ -537,7 +550,7 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                           const menuItem = Array.isArray(item.menu_items) ? item.menu_items[0] : item.menu_items;
                           const splitBill = Array.isArray(item.split_bills) ? item.split_bills[0] : item.split_bills;
                           const itemName = menuItem?.name || 'Unknown Item';
-                          const itemPrice = menuItem?.price || 0;
+                          const itemPrice = (menuItem?.price || 0) + getModifierTotal(item.customizations);
                           const isSplit = !!item.split_bill_id && !!splitBill;
                           const splitPrice = splitBill?.split_price || 0;
                           const splitCount = splitBill?.split_count || 1;
@@ -583,6 +596,11 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                                     <>P{itemPrice.toFixed(2)} × {item.quantity}</>
                                   )}
                                 </div>
+                                {summarizeModifiers(item.customizations).map(modifier => (
+                                  <div key={modifier} className="text-xs text-gray-500 mt-1">
+                                    {modifier}
+                                  </div>
+                                ))}
                                 {item.notes && (
                                   <div className="text-xs text-gray-500 mt-1">
                                     Note: {item.notes}
@@ -685,9 +703,10 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                           }
 
                           // Call the orders confirmation API
+                          confirmKeyRef.current = confirmKeyRef.current || crypto.randomUUID();
                           const response = await fetch('/api/orders/confirm', {
                             method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
+                            headers: { 'Content-Type': 'application/json', 'Idempotency-Key': confirmKeyRef.current },
                             body: JSON.stringify({
                               sessionId: sessionId,
                               dinerName: currentDinerName // CRITICAL FIX: Pass diner name to confirm only their items
@@ -700,6 +719,7 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                           }
 
                           const result = await response.json();
+                          confirmKeyRef.current = null;
                           // Small delay to ensure database consistency
                           await new Promise(resolve => setTimeout(resolve, 500));
                           
@@ -777,12 +797,18 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                       <span className="font-bold text-gray-900">P{(currentDinerShare.subtotal + cartSubtotal).toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between text-xs text-gray-500">
-                      <span className="font-bold">VAT (14%):</span>
-                      <span className="font-bold">P{((currentDinerShare.subtotal + cartSubtotal) * 0.14).toFixed(2)}</span>
+                      <span className="font-bold">{taxLabel}:</span>
+                      <span className="font-bold">P{myShareBill.tax.toFixed(2)}</span>
                     </div>
+                    {myShareBill.serviceCharge > 0 && (
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span className="font-bold">Service Charge:</span>
+                        <span className="font-bold">P{myShareBill.serviceCharge.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-lg font-bold mt-3 pt-2 border-t border-gray-200">
                       <span className="text-gray-900">Your Total:</span>
-                      <span className="text-[#00d9ff]">P{((currentDinerShare.subtotal + cartSubtotal) * 1.14).toFixed(2)}</span>
+                      <span className="text-[#00d9ff]">P{myShareBill.total.toFixed(2)}</span>
                     </div>
                   </div>
                 </div>
@@ -824,7 +850,7 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                     ? 'No Orders' 
                     : !allOrdersServed 
                       ? 'Request Payment after all orders are served' 
-                      : `Request Payment - P${((currentDinerShare.subtotal + cartSubtotal) * 1.14).toFixed(2)}`
+                      : `Request Payment - P${myShareBill.total.toFixed(2)}`
                   }
                 </span>
               </button>
@@ -903,9 +929,15 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                       <span className="text-gray-900">P{tableSubtotal.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">VAT (14%):</span>
-                      <span className="text-gray-900">P{(tableSubtotal * 0.14).toFixed(2)}</span>
+                      <span className="text-gray-600">{taxLabel}:</span>
+                      <span className="text-gray-900">P{vat.toFixed(2)}</span>
                     </div>
+                    {tableBill.serviceCharge > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Service Charge:</span>
+                        <span className="text-gray-900">P{tableBill.serviceCharge.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="border-t border-gray-200 pt-2">
                       <div className="flex justify-between text-lg font-semibold">
                         <span className="text-gray-900">Table Total:</span>
@@ -1001,7 +1033,7 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                           isShared: true,
                           sharedWith: splitBill.participants,
                           splitCount: splitBill.split_count || 1,
-                          originalPrice: (menuItem?.price || 0) * order.quantity // Store original for reference
+                          originalPrice: ((menuItem?.price || 0) + getModifierTotal(order.customizations)) * order.quantity // Store original for reference
                         });
                         diner.sharedTotal += splitAmountPerPerson;
                         // Debug logging removed for production security
@@ -1012,7 +1044,7 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                     const dinerName = order.diner_name;
                     const diner = dinerMap.get(dinerName);
                     if (diner) {
-                      const itemPrice = (menuItem?.price || 0) * order.quantity;
+                      const itemPrice = ((menuItem?.price || 0) + getModifierTotal(order.customizations)) * order.quantity;
                       diner.orders.push({
                         ...order,
                         itemName: menuItem?.name || 'Unknown Item',
@@ -1027,9 +1059,10 @@ const LiveBill = ({ sessionId: propSessionId, tableId: propTableId }: LiveBillPr
                 
                 // Calculate totals for each diner (including VAT)
                 dinerMap.forEach(diner => {
-                  const subtotal = diner.personalTotal + diner.sharedTotal;
-                  const vat = subtotal * 0.14; // 14% VAT
-                  diner.total = subtotal + vat;
+                  diner.total = calculateBillTotals(
+                    diner.orders.map((dinerOrder: any) => ({ menuItemId: dinerOrder.menu_item_id, amount: dinerOrder.itemPrice })),
+                    taxConfig
+                  ).total;
                 });
                 
                 // Filter out diners with no orders
@@ -12,6 +12,8 @@ interface MenuItem {
   category: string
   rating?: number
   preparation_time?: string
+  allergens?: string[]
+  dietary_tags?: string[]
 }
 
 interface MenuCategoryProps {
@@ -1,10 +1,18 @@
 'use client'
 
 // React imports
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 
 // Component imports
 import MenuCategory from './MenuCategory'
+import MenuTagFilter from './MenuTagFilter'
+
+// Menu tag imports
+import { EMPTY_MENU_TAG_FILTERS, matchesMenuTagFilters, MenuTagFilters } from '@/lib/menu-tags'
+
+// Menu schedule imports
+import { getLocalTime, isMenuItemAvailable } from '@/lib/menu-schedule'
+import type { MenuAvailability } from '@/lib/menu-availability'
 
 interface MenuItem {
   id: string
@@ -15,15 +23,64 @@ interface MenuItem {
   category: string
   rating?: number
   preparation_time?: string
+  allergens?: string[]
+  dietary_tags?: string[]
+  schedule_ids?: string[]
 }
 
 interface MenuDisplayProps {
   categories: Record<string, MenuItem[]>
   sessionId: string
+  availability?: MenuAvailability
 }
 
-export default function MenuDisplay({ categories, sessionId }: MenuDisplayProps) {
+// How often scheduled items are re-checked while the menu is open
+const SCHEDULE_REFRESH_MS = 60 * 1000
+
+// How often the menu checks for items the kitchen has 86'd
+const UNAVAILABLE_REFRESH_MS = 30 * 1000
+
+export default function MenuDisplay({ categories, sessionId, availability }: MenuDisplayProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>('All')
+  const [tagFilters, setTagFilters] = useState<MenuTagFilters>(EMPTY_MENU_TAG_FILTERS)
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), SCHEDULE_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Items 86'd by the kitchen since the menu was loaded
+  const [unavailableIds, setUnavailableIds] = useState<string[]>([])
+
+  useEffect(() => {
+    const loadUnavailableItems = async () => {
+      try {
+        const response = await fetch('/api/menu-items/availability')
+        const data = await response.json()
+        if (data.success) {
+          setUnavailableIds((data.unavailableItems || []).map((item: { id: string }) => item.id))
+        }
+      } catch (error) {
+        console.error('Error loading unavailable menu items:', error)
+      }
+    }
+
+    loadUnavailableItems()
+    const interval = setInterval(loadUnavailableItems, UNAVAILABLE_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Hide 86'd items and items outside their menu schedule in the restaurant's timezone
+  const isVisible = (item: MenuItem) => {
+    if (unavailableIds.includes(item.id)) {
+      return false
+    }
+    if (!availability) {
+      return true
+    }
+    return isMenuItemAvailable(item, availability.schedules, getLocalTime(now, availability.timezone))
+  }
 
   // Define the category order as requested
   const categoryOrder = [
@@ -121,16 +178,18 @@ export default function MenuDisplay({ categories, sessionId }: MenuDisplayProps)
         }
       })
       
-      return [{ category: 'All', items: allItems }]
+      return [{ category: 'All', items: allItems.filter(item => isVisible(item) && matchesMenuTagFilters(item, tagFilters)) }]
     } else {
       // Show only items from the selected category
       const categoryItems = categories[selectedCategory]
       if (categoryItems) {
-        return [{ category: selectedCategory, items: categoryItems }]
+        return [{ category: selectedCategory, items: categoryItems.filter(item => isVisible(item) && matchesMenuTagFilters(item, tagFilters)) }]
       }
       return []
     }
-  }, [selectedCategory, categories])
+  }, [selectedCategory, categories, tagFilters, availability, now])
+
+  const hasVisibleItems = itemsToDisplay.some(({ items }) => items.length > 0)
 
   return (
     <>
@@ -188,9 +247,12 @@ export default function MenuDisplay({ categories, sessionId }: MenuDisplayProps)
         </div>
       </div>
 
+      {/* Allergen and Dietary Filters */}
+      <MenuTagFilter filters={tagFilters} onChange={setTagFilters} />
+
       {/* Responsive Menu Items Display */}
       <div className="space-y-4 md:space-y-6">
-        {itemsToDisplay.map(({ category, items }) => (
+        {hasVisibleItems ? itemsToDisplay.map(({ category, items }) => (
           <MenuCategory
             key={category}
             category={category}
@@ -198,7 +260,11 @@ export default function MenuDisplay({ categories, sessionId }: MenuDisplayProps)
             sessionId={sessionId}
             showCategoryHeader={selectedCategory !== 'All'}
           />
-        ))}
+        )) : (
+          <div className="bg-white rounded-lg shadow-sm p-6 text-center text-sm text-gray-500">
+            No items match your filters right now.
+          </div>
+        )}
       </div>
     </>
   )
@@ -13,6 +13,8 @@ import { handleError } from '@/lib/error-handling';
 import CenteredModal from './CenteredModal';
 import { Clock } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
+import { hasRequiredModifiers, ModifierGroup, normalizeModifierGroups } from '@/lib/menu-modifiers';
+import { ALLERGENS, DIETARY_TAGS, getTagLabel } from '@/lib/menu-tags';
 
 interface MenuItemData {
   id: string;
@@ -23,6 +25,9 @@ interface MenuItemData {
   category: string;
   rating?: number;
   preparation_time?: string;
+  modifier_groups?: ModifierGroup[];
+  allergens?: string[];
+  dietary_tags?: string[];
 }
 
 interface MenuItemProps {
@@ -66,6 +71,9 @@ export default function MenuItem({ item, sessionId }: MenuItemProps): React.JSX.
       if (cartItem) {
         // If item is in cart, increment quantity
         await updateQuantity(cartItemId!, currentQuantity + 1);
+      } else if (hasRequiredModifiers(normalizeModifierGroups(item.modifier_groups))) {
+        // Items with required choices (e.g. doneness) are added from the modal
+        setIsModalOpen(true);
       } else {
         // If new item, add it with default options
         await addItem(item);
@@ -136,6 +144,20 @@ export default function MenuItem({ item, sessionId }: MenuItemProps): React.JSX.
           <div className="flex-grow min-w-0 md:w-full">
             <h3 className="font-semibold text-gray-900 truncate text-sm md:text-base md:font-bold">{item.name}</h3>
             <p className="text-xs text-gray-600 mt-1 line-clamp-2 md:text-sm md:mt-2 italic">{item.description}</p>
+            {((item.dietary_tags?.length ?? 0) > 0 || (item.allergens?.length ?? 0) > 0) && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {item.dietary_tags?.map(tag => (
+                  <span key={tag} className="px-1.5 py-0.5 text-[10px] font-medium rounded-full bg-green-100 text-green-800">
+                    {getTagLabel(tag, DIETARY_TAGS)}
+                  </span>
+                ))}
+                {(item.allergens?.length ?? 0) > 0 && (
+                  <span className="px-1.5 py-0.5 text-[10px] font-medium rounded-full bg-amber-100 text-amber-800">
+                    Contains: {item.allergens!.map(allergen => getTagLabel(allergen, ALLERGENS)).join(', ')}
+                  </span>
+                )}
+              </div>
+            )}
             <div className="mt-1 md:mt-2">
               <p className="text-base font-bold text-gray-900 md:text-lg">P{item.price.toFixed(2)}</p>
               {item.preparation_time && (
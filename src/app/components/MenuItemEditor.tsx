@@ -9,6 +9,12 @@ import { supabase } from '@/lib/supabase';
 // Error handling imports
 import { handleError } from '@/lib/error-handling';
 
+// Modifier imports
+import { ModifierGroup, normalizeModifierGroups, validateModifierGroups } from '@/lib/menu-modifiers';
+import { ALLERGENS, DIETARY_TAGS, normalizeTags } from '@/lib/menu-tags';
+import { describeSchedule, MenuSchedule } from '@/lib/menu-schedule';
+import { DEFAULT_KITCHEN_STATIONS, KitchenStation } from '@/lib/kitchen-stations';
+
 interface MenuItem {
   id: string;
   name: string;
@@ -19,6 +25,12 @@ interface MenuItem {
   rating?: number;
   preparation_time?: string;
   restaurant_id: string;
+  tax_class?: string | null;
+  station?: string | null;
+  modifier_groups?: ModifierGroup[];
+  allergens?: string[];
+  dietary_tags?: string[];
+  schedule_ids?: string[];
 }
 
 interface MenuItemEditorProps {
@@ -37,9 +49,17 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
     category: '',
     rating: '',
     preparation_time: '',
-    restaurant_id: ''
+    restaurant_id: '',
+    tax_class: '',
+    station: '',
+    allergens: [] as string[],
+    dietary_tags: [] as string[],
+    schedule_ids: [] as string[]
   });
   
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>(DEFAULT_KITCHEN_STATIONS);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [descriptionLength, setDescriptionLength] = useState(0);
   
@@ -61,6 +81,13 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
     'Specials'
   ];
 
+  // Built-in tax classes (empty = use the class mapped to the category, else standard)
+  const taxClasses = [
+    { value: 'standard', label: 'Standard rate' },
+    { value: 'zero_rated', label: 'Zero-rated' },
+    { value: 'exempt', label: 'Exempt' }
+  ];
+
   // Initialize form data
   useEffect(() => {
     if (item) {
@@ -72,8 +99,14 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
         category: item.category || '',
         rating: item.rating?.toString() || '',
         preparation_time: item.preparation_time || '',
-        restaurant_id: item.restaurant_id || ''
+        restaurant_id: item.restaurant_id || '',
+        tax_class: item.tax_class || '',
+        station: item.station || '',
+        allergens: normalizeTags(item.allergens, ALLERGENS),
+        dietary_tags: normalizeTags(item.dietary_tags, DIETARY_TAGS),
+        schedule_ids: item.schedule_ids || []
       });
+      setModifierGroups(normalizeModifierGroups(item.modifier_groups));
     } else {
       setFormData({
         name: '',
@@ -83,11 +116,55 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
         category: '',
         rating: '',
         preparation_time: '',
-        restaurant_id: ''
+        restaurant_id: '',
+        tax_class: '',
+        station: '',
+        allergens: [],
+        dietary_tags: [],
+        schedule_ids: []
       });
+      setModifierGroups([]);
     }
   }, [item]);
 
+  // Load the schedules an item can be assigned to
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchSchedules = async () => {
+      const { data, error } = await supabase
+        .from('menu_schedules')
+        .select('id, name, days_of_week, start_time, end_time, start_date, end_date, is_active')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching menu schedules:', error);
+        return;
+      }
+
+      setSchedules((data || []) as MenuSchedule[]);
+    };
+
+    const fetchStations = async () => {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .select('code, name, categories, sort_order')
+        .order('sort_order');
+
+      if (error) {
+        console.error('Error fetching kitchen stations:', error);
+        return;
+      }
+
+      if (data && data.length > 0) {
+        setStations(data as KitchenStation[]);
+      }
+    };
+
+    fetchSchedules();
+    fetchStations();
+  }, [isOpen]);
+
   // Update description length
   useEffect(() => {
     setDescriptionLength(formData.description.length);
@@ -101,6 +178,55 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
     }));
   };
 
+  const handleTagToggle = (field: 'allergens' | 'dietary_tags' | 'schedule_ids', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(tag => tag !== value)
+        : [...prev[field], value]
+    }));
+  };
+
+  // Modifier group editing
+  const addModifierGroup = () => {
+    setModifierGroups(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', min_select: 0, max_select: 1, options: [] }
+    ]);
+  };
+
+  const updateModifierGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    setModifierGroups(prev => prev.map(group => (group.id === groupId ? { ...group, ...changes } : group)));
+  };
+
+  const removeModifierGroup = (groupId: string) => {
+    setModifierGroups(prev => prev.filter(group => group.id !== groupId));
+  };
+
+  const addModifierOption = (groupId: string) => {
+    setModifierGroups(prev => prev.map(group => (
+      group.id === groupId
+        ? { ...group, options: [...group.options, { id: crypto.randomUUID(), name: '', price_delta: 0 }] }
+        : group
+    )));
+  };
+
+  const updateModifierOption = (groupId: string, optionId: string, changes: { name?: string; price_delta?: number }) => {
+    setModifierGroups(prev => prev.map(group => (
+      group.id === groupId
+        ? { ...group, options: group.options.map(option => (option.id === optionId ? { ...option, ...changes } : option)) }
+        : group
+    )));
+  };
+
+  const removeModifierOption = (groupId: string, optionId: string) => {
+    setModifierGroups(prev => prev.map(group => (
+      group.id === groupId
+        ? { ...group, options: group.options.filter(option => option.id !== optionId) }
+        : group
+    )));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -109,6 +235,12 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
       return;
     }
 
+    const modifierErrors = validateModifierGroups(modifierGroups);
+    if (modifierErrors.length > 0) {
+      setError(modifierErrors[0]);
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
@@ -121,7 +253,17 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
         category: formData.category.trim(),
         rating: formData.rating ? parseFloat(formData.rating) : null,
         preparation_time: formData.preparation_time.trim() || null,
-        restaurant_id: formData.restaurant_id.trim() || 'default-restaurant'
+        restaurant_id: formData.restaurant_id.trim() || 'default-restaurant',
+        tax_class: formData.tax_class || null,
+        station: formData.station || null,
+        allergens: formData.allergens,
+        dietary_tags: formData.dietary_tags,
+        schedule_ids: formData.schedule_ids,
+        modifier_groups: modifierGroups.map(group => ({
+          ...group,
+          name: group.name.trim(),
+          options: group.options.map(option => ({ ...option, name: option.name.trim() }))
+        }))
       };
 
       if (item) {
@@ -244,6 +386,207 @@ export default function MenuItemEditor({ item, isOpen, onClose, onSave }: MenuIt
             </div>
           </div>
 
+          {/* Tax Class */}
+          <div>
+            <label htmlFor="tax_class" className="block text-sm font-medium text-gray-900 mb-1">
+              Tax Class
+            </label>
+            <select
+              id="tax_class"
+              name="tax_class"
+              value={formData.tax_class}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Category default</option>
+              {taxClasses.map(taxClass => (
+                <option key={taxClass.value} value={taxClass.value}>{taxClass.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Kitchen Station */}
+          <div>
+            <label htmlFor="station" className="block text-sm font-medium text-gray-900 mb-1">
+              Kitchen Station
+            </label>
+            <select
+              id="station"
+              name="station"
+              value={formData.station}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Category default</option>
+              {stations.map(station => (
+                <option key={station.code} value={station.code}>{station.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Dietary Tags and Allergens */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <span className="block text-sm font-medium text-gray-900 mb-1">
+                Dietary
+              </span>
+              <div className="space-y-1">
+                {DIETARY_TAGS.map(tag => (
+                  <label key={tag.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.dietary_tags.includes(tag.value)}
+                      onChange={() => handleTagToggle('dietary_tags', tag.value)}
+                      className="rounded border-gray-300"
+                    />
+                    {tag.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-900 mb-1">
+                Contains Allergens
+              </span>
+              <div className="grid grid-cols-2 gap-1">
+                {ALLERGENS.map(allergen => (
+                  <label key={allergen.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.allergens.includes(allergen.value)}
+                      onChange={() => handleTagToggle('allergens', allergen.value)}
+                      className="rounded border-gray-300"
+                    />
+                    {allergen.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Availability Schedules */}
+          {schedules.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-900 mb-1">
+                Available During
+              </span>
+              <div className="space-y-1">
+                {schedules.map(schedule => (
+                  <label key={schedule.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.schedule_ids.includes(schedule.id)}
+                      onChange={() => handleTagToggle('schedule_ids', schedule.id)}
+                      className="rounded border-gray-300"
+                    />
+                    {schedule.name}
+                    <span className="text-xs text-gray-500">{describeSchedule(schedule)}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Leave all unchecked to offer this item whenever it is available.
+              </p>
+            </div>
+          )}
+
+          {/* Modifier Groups */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-900">
+                Modifiers
+              </label>
+              <button
+                type="button"
+                onClick={addModifierGroup}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                + Add Group
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              e.g. Doneness (choose 1) or Extras (choose up to 3). Price changes are added to the item price.
+            </p>
+            <div className="space-y-3">
+              {modifierGroups.map(group => (
+                <div key={group.id} className="p-3 border border-gray-200 rounded-md">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateModifierGroup(group.id, { name: e.target.value })}
+                      className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Group name, e.g. Doneness"
+                    />
+                    <input
+                      type="number"
+                      value={group.min_select}
+                      onChange={(e) => updateModifierGroup(group.id, { min_select: parseInt(e.target.value, 10) || 0 })}
+                      min="0"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      title="Minimum selections (0 = optional)"
+                      placeholder="Min"
+                    />
+                    <input
+                      type="number"
+                      value={group.max_select}
+                      onChange={(e) => updateModifierGroup(group.id, { max_select: parseInt(e.target.value, 10) || 0 })}
+                      min="1"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      title="Maximum selections"
+                      placeholder="Max"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    {group.options.map(option => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={option.name}
+                          onChange={(e) => updateModifierOption(group.id, option.id, { name: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder="Option, e.g. Extra cheese"
+                        />
+                        <input
+                          type="number"
+                          value={option.price_delta}
+                          onChange={(e) => updateModifierOption(group.id, option.id, { price_delta: parseFloat(e.target.value) || 0 })}
+                          step="0.01"
+                          className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          title="Price change"
+                          placeholder="+0.00"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeModifierOption(group.id, option.id)}
+                          className="text-sm text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between mt-2">
+                    <button
+                      type="button"
+                      onClick={() => addModifierOption(group.id)}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Add Option
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeModifierGroup(group.id)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove Group
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Rating and Preparation Time */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
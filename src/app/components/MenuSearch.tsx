@@ -8,6 +8,10 @@ import { supabase } from '@/lib/supabase';
 
 // Component imports
 import MenuItem from './MenuItem';
+import MenuTagFilter from './MenuTagFilter';
+
+// Menu tag imports
+import { EMPTY_MENU_TAG_FILTERS, hasActiveMenuTagFilters, matchesMenuTagFilters, MenuTagFilters } from '@/lib/menu-tags';
 
 interface MenuItemData {
   id: string;
@@ -18,6 +22,8 @@ interface MenuItemData {
   category: string;
   rating?: number;
   preparation_time?: string;
+  allergens?: string[];
+  dietary_tags?: string[];
 }
 
 interface MenuSearchProps {
@@ -31,6 +37,7 @@ export default function MenuSearch({ sessionId, restaurantId }: MenuSearchProps)
   const [isLoading, setIsLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [categories, setCategories] = useState<string[]>([]);
+  const [tagFilters, setTagFilters] = useState<MenuTagFilters>(EMPTY_MENU_TAG_FILTERS);
 
   // Fetch menu items
   const fetchMenuItems = async () => {
@@ -72,9 +79,9 @@ export default function MenuSearch({ sessionId, restaurantId }: MenuSearchProps)
       
       const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
       
-      return matchesSearch && matchesCategory;
+      return matchesSearch && matchesCategory && matchesMenuTagFilters(item, tagFilters);
     });
-  }, [menuItems, searchQuery, selectedCategory]);
+  }, [menuItems, searchQuery, selectedCategory, tagFilters]);
 
   // Group items by category for display
   const groupedItems = useMemo(() => {
@@ -137,6 +144,9 @@ export default function MenuSearch({ sessionId, restaurantId }: MenuSearchProps)
         </div>
       </div>
 
+      {/* Allergen and Dietary Filters */}
+      <MenuTagFilter filters={tagFilters} onChange={setTagFilters} />
+
       {/* Search Results */}
       {searchQuery && (
         <div className="mb-4">
@@ -176,7 +186,9 @@ export default function MenuSearch({ sessionId, restaurantId }: MenuSearchProps)
           <div className="text-gray-500 text-lg">
             {searchQuery 
               ? `No menu items found for "${searchQuery}". Try a different search term.`
-              : 'No menu items available.'}
+              : hasActiveMenuTagFilters(tagFilters)
+                ? 'No items match your dietary and allergen filters.'
+                : 'No menu items available.'}
           </div>
           {searchQuery && (
             <button
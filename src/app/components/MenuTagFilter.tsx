@@ -0,0 +1,96 @@
+'use client';
+
+// React imports
+import { useState } from 'react';
+
+// Menu tag imports
+import { ALLERGENS, DIETARY_TAGS, hasActiveMenuTagFilters, MenuTagFilters } from '@/lib/menu-tags';
+
+interface MenuTagFilterProps {
+  filters: MenuTagFilters;
+  onChange: (filters: MenuTagFilters) => void;
+}
+
+export default function MenuTagFilter({ filters, onChange }: MenuTagFilterProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const activeCount = filters.excludeAllergens.length + filters.dietaryTags.length;
+
+  const toggle = (list: string[], value: string): string[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-3 mb-4 md:p-4">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-sm font-semibold text-gray-800"
+          aria-expanded={isExpanded}
+        >
+          Dietary &amp; Allergens {activeCount > 0 && <span className="text-[#00d9ff]">({activeCount})</span>}
+          <span className="ml-1 text-gray-400">{isExpanded ? '▲' : '▼'}</span>
+        </button>
+        {hasActiveMenuTagFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ excludeAllergens: [], dietaryTags: [] })}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Show only</p>
+            <div className="flex flex-wrap gap-2">
+              {DIETARY_TAGS.map(tag => {
+                const isActive = filters.dietaryTags.includes(tag.value);
+                return (
+                  <button
+                    key={tag.value}
+                    type="button"
+                    onClick={() => onChange({ ...filters, dietaryTags: toggle(filters.dietaryTags, tag.value) })}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      isActive
+                        ? 'bg-green-600 border-green-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-green-600'
+                    }`}
+                    aria-pressed={isActive}
+                  >
+                    {tag.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Hide items containing</p>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map(allergen => {
+                const isActive = filters.excludeAllergens.includes(allergen.value);
+                return (
+                  <button
+                    key={allergen.value}
+                    type="button"
+                    onClick={() => onChange({ ...filters, excludeAllergens: toggle(filters.excludeAllergens, allergen.value) })}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      isActive
+                        ? 'bg-red-600 border-red-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-red-600'
+                    }`}
+                    aria-pressed={isActive}
+                  >
+                    {allergen.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import { supabase } from '@/lib/supabase';
 // Error handling imports
 import { handleError } from '@/lib/error-handling';
 
+// Tax imports
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, getTaxLabel } from '@/lib/tax-engine';
+
 interface OrderItem {
   id: string;
   menu_item_id: string;
@@ -38,6 +42,7 @@ interface OrderReviewProps {
 
 export default function OrderReview({ sessionId, onOrderUpdate }: OrderReviewProps) {
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const taxConfig = useTaxConfig(sessionId);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -167,12 +172,13 @@ export default function OrderReview({ sessionId, onOrderUpdate }: OrderReviewPro
   };
 
   // Calculate totals
-  const subtotal = orderItems.reduce((sum, item) => {
-    return sum + (item.menu_items?.price || 0) * item.quantity;
-  }, 0);
-
-  const tax = subtotal * 0.14; // 14% tax
-  const total = subtotal + tax;
+  const bill = calculateBillTotals(
+    orderItems.map(item => ({ menuItemId: item.menu_item_id, amount: (item.menu_items?.price || 0) * item.quantity })),
+    taxConfig
+  );
+  const subtotal = bill.subtotal;
+  const tax = bill.tax;
+  const total = bill.total;
 
   useEffect(() => {
     fetchOrderItems();
@@ -311,9 +317,15 @@ export default function OrderReview({ sessionId, onOrderUpdate }: OrderReviewPro
                   <span className="font-medium">P {subtotal.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Tax (14%)</span>
+                  <span className="text-gray-600">{getTaxLabel(taxConfig)}</span>
                   <span className="font-medium">P {tax.toFixed(2)}</span>
                 </div>
+                {bill.serviceCharge > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Service Charge</span>
+                    <span className="font-medium">P {bill.serviceCharge.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="border-t pt-3">
                   <div className="flex justify-between">
                     <span className="text-lg font-semibold text-gray-900">Total</span>
@@ -1,7 +1,8 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
 
 interface PaymentNotificationListenerProps {
   sessionId: string;
@@ -12,52 +13,61 @@ export default function PaymentNotificationListener({ sessionId }: PaymentNotifi
   const router = useRouter();
   const [isListening, setIsListening] = useState(false);
 
-  useEffect(() => {
-    if (!sessionId) return;
-
-    // Debug logging removed for production
-    setIsListening(true);
+  // Ask the server whether the table's payment completed (acknowledges the notification)
+  const checkForPaymentCompletion = useCallback(async () => {
+    if (!sessionId || !isListening) return;
 
-    // Poll for payment completion notifications
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/notifications/payment-complete?sessionId=${sessionId}`, {
-          method: 'GET',
-          headers: { 'Content-Type': 'application/json' }
-        });
+    try {
+      const response = await fetch(`/api/notifications/payment-complete?sessionId=${sessionId}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' }
+      });
 
-        if (response.ok) {
-          const data = await response.json();
-          
-          if (data.hasNotification && data.notification) {
-            // Debug logging removed for production
+      if (response.ok) {
+        const data = await response.json();
+        
+        if (data.hasNotification && data.notification) {
+          // Check if this is a table payment completion
+          if (data.notification.metadata?.payment_type === 'table') {
+            // Redirect to receipt page
+            const redirectUrl = data.notification.metadata?.redirect_url || `/payment-receipt?sessionId=${sessionId}`;
+            router.push(redirectUrl);
             
-            // Check if this is a table payment completion
-            if (data.notification.metadata?.payment_type === 'table') {
-              // Debug logging removed for production
-              
-              // Redirect to receipt page
-              const redirectUrl = data.notification.metadata?.redirect_url || `/payment-receipt?sessionId=${sessionId}`;
-              router.push(redirectUrl);
-              
-              // Stop listening after redirect
-              setIsListening(false);
-              clearInterval(pollInterval);
-            }
+            // Stop listening after redirect
+            setIsListening(false);
           }
         }
-      } catch (error) {
-        console.error('❌ Error polling for payment notifications:', error);
       }
-    }, 2000); // Poll every 2 seconds
+    } catch (error) {
+      console.error('❌ Error checking for payment notifications:', error);
+    }
+  }, [sessionId, isListening, router]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    setIsListening(true);
 
     // Cleanup on unmount
     return () => {
-      // Debug logging removed for production
-      clearInterval(pollInterval);
       setIsListening(false);
     };
-  }, [sessionId, router]);
+  }, [sessionId]);
+
+  // Catch a payment completed before this page opened
+  useEffect(() => {
+    checkForPaymentCompletion();
+  }, [checkForPaymentCompletion]);
+
+  // The payment_complete notification is pushed the moment staff finish the payment;
+  // fall back to the old 2 second check while the stream is down
+  useRealtimeEvents({
+    types: ['notification'],
+    sessionId,
+    enabled: isListening,
+    refresh: checkForPaymentCompletion,
+    fallbackIntervalMs: 2000
+  });
 
   // Don't render anything visible
   return null;
@@ -1,7 +1,12 @@
 'use client';
 
-import { useState } from 'react';
-import { X, Smartphone, CreditCard, DollarSign, MoreHorizontal, ArrowLeft, Check } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Smartphone, CreditCard, DollarSign, MoreHorizontal, ArrowLeft, Check, Split, Plus, Trash2 } from 'lucide-react';
+
+export interface SplitTender {
+  paymentMethod: string;
+  amount: number | null; // null on the last tender pays the rest
+}
 
 interface PaymentProcessingModalProps {
   isOpen: boolean;
@@ -9,22 +14,106 @@ interface PaymentProcessingModalProps {
   paymentAmount: number;
   paymentType: 'individual' | 'table';
   onPaymentConfirmed: (method: string) => void;
+  sessionId?: string; // enables splitting a table payment across tenders
+  onSplitConfirmed?: (tenders: SplitTender[]) => void;
 }
 
 type PaymentMethod = 'mobile-money' | 'card' | 'cash' | 'other';
 
+const TENDER_METHODS = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'qr_code', label: 'QR Code' },
+  { value: 'digital', label: 'Digital' }
+];
+
+interface TenderRow {
+  paymentMethod: string;
+  amount: string;
+}
+
 export default function PaymentProcessingModal({
   isOpen,
   onClose,
   paymentAmount,
   paymentType,
-  onPaymentConfirmed
+  onPaymentConfirmed,
+  sessionId,
+  onSplitConfirmed
 }: PaymentProcessingModalProps) {
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
-  const [step, setStep] = useState<'select' | 'process'>('select');
+  const [step, setStep] = useState<'select' | 'process' | 'split'>('select');
+  const [balanceDue, setBalanceDue] = useState<number | null>(null);
+  const [paidSoFar, setPaidSoFar] = useState(0);
+  const [splitWays, setSplitWays] = useState(2);
+  const [evenShare, setEvenShare] = useState<number | null>(null);
+  const [tenderRows, setTenderRows] = useState<TenderRow[]>([{ paymentMethod: 'card', amount: '' }]);
+  const [splitError, setSplitError] = useState<string | null>(null);
+
+  const canSplit = paymentType === 'table' && !!sessionId && !!onSplitConfirmed;
+
+  // Load the running balance (and an even share of it) while splitting
+  useEffect(() => {
+    if (step !== 'split' || !sessionId) return;
+
+    const loadBalance = async () => {
+      try {
+        const params = new URLSearchParams({ sessionId, splitWays: String(splitWays) });
+        const response = await fetch(`/api/payment/balance?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load balance');
+        }
+
+        setBalanceDue(data.balance_due);
+        setPaidSoFar(data.paid);
+        setEvenShare(data.even_split?.[0] ?? null);
+        setSplitError(null);
+      } catch (error) {
+        console.error('Error loading balance:', error);
+        setSplitError(error instanceof Error ? error.message : 'Failed to load balance');
+      }
+    };
+
+    loadBalance();
+  }, [step, sessionId, splitWays]);
 
   if (!isOpen) return null;
 
+  const tenderTotal = tenderRows.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0);
+  const lastRowIsRest = tenderRows.length > 0 && tenderRows[tenderRows.length - 1].amount.trim() === '';
+  const remainingAfterTenders = balanceDue === null ? null : Math.max(0, balanceDue - tenderTotal);
+
+  const updateTenderRow = (index: number, update: Partial<TenderRow>) => {
+    setTenderRows(rows => rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)));
+  };
+
+  const handleConfirmSplit = () => {
+    if (!onSplitConfirmed) return;
+
+    const tenders: SplitTender[] = tenderRows.map((row, index) => ({
+      paymentMethod: row.paymentMethod,
+      amount: row.amount.trim() === '' && index === tenderRows.length - 1 ? null : parseFloat(row.amount)
+    }));
+
+    if (tenders.some(tender => tender.amount !== null && (!Number.isFinite(tender.amount) || tender.amount <= 0))) {
+      setSplitError('Enter a positive amount for each tender (leave the last one empty to pay the rest)');
+      return;
+    }
+    if (balanceDue !== null && tenderTotal > balanceDue + 0.005) {
+      setSplitError(`Tenders add up to more than the P${balanceDue.toFixed(2)} due`);
+      return;
+    }
+
+    onSplitConfirmed(tenders);
+    onClose();
+    // Reset state
+    setStep('select');
+    setTenderRows([{ paymentMethod: 'card', amount: '' }]);
+    setSplitError(null);
+  };
+
   const handleMethodSelect = (method: PaymentMethod) => {
     setSelectedMethod(method);
     setStep('process');
@@ -33,6 +122,7 @@ export default function PaymentProcessingModal({
   const handleBack = () => {
     setStep('select');
     setSelectedMethod(null);
+    setSplitError(null);
   };
 
   const handleConfirmPayment = () => {
@@ -55,7 +145,7 @@ export default function PaymentProcessingModal({
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-bold text-gray-900">
-            {step === 'select' ? 'Select Payment Method' : 'Process Payment'}
+            {step === 'select' ? 'Select Payment Method' : step === 'split' ? 'Split Payment' : 'Process Payment'}
           </h2>
           <button
             onClick={onClose}
@@ -124,6 +214,129 @@ export default function PaymentProcessingModal({
                   <span className="font-medium text-gray-900">Other</span>
                 </button>
               </div>
+
+              {canSplit && (
+                <button
+                  onClick={() => setStep('split')}
+                  className="w-full flex items-center justify-center space-x-2 py-3 px-4 border-2 border-dashed border-gray-300 rounded-xl text-gray-700 font-medium hover:border-[#00d9ff] hover:bg-blue-50 transition-colors"
+                >
+                  <Split className="w-5 h-5" />
+                  <span>Split across several payments</span>
+                </button>
+              )}
+            </div>
+          ) : step === 'split' ? (
+            /* Split Payment */
+            <div className="space-y-5">
+              <button
+                onClick={handleBack}
+                className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                <span>Back</span>
+              </button>
+
+              <div className="text-center">
+                <p className="text-sm text-gray-600">Balance due</p>
+                <p className="text-2xl font-bold text-[#00d9ff]">
+                  {balanceDue === null ? '...' : formatAmount(balanceDue)}
+                </p>
+                {paidSoFar > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">{formatAmount(paidSoFar)} already paid</p>
+                )}
+              </div>
+
+              {/* Even split */}
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-gray-700">Split evenly between</label>
+                  <input
+                    type="number"
+                    min={2}
+                    max={20}
+                    value={splitWays}
+                    onChange={(e) => setSplitWays(Math.min(20, Math.max(2, parseInt(e.target.value) || 2)))}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-gray-900 text-center"
+                  />
+                </div>
+                {evenShare !== null && (
+                  <div className="flex items-center justify-between mt-3">
+                    <span className="text-sm text-gray-600">{formatAmount(evenShare)} each</span>
+                    <button
+                      onClick={() => setTenderRows([{ paymentMethod: tenderRows[0]?.paymentMethod || 'card', amount: evenShare.toFixed(2) }])}
+                      className="text-sm font-medium text-[#00d9ff] hover:underline"
+                    >
+                      Take one share
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Tenders */}
+              <div className="space-y-2">
+                {tenderRows.map((row, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select
+                      value={row.paymentMethod}
+                      onChange={(e) => updateTenderRow(index, { paymentMethod: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    >
+                      {TENDER_METHODS.map(method => (
+                        <option key={method.value} value={method.value}>{method.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.amount}
+                      onChange={(e) => updateTenderRow(index, { amount: e.target.value })}
+                      placeholder={index === tenderRows.length - 1 ? 'Rest' : 'Amount'}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    />
+                    {tenderRows.length > 1 && (
+                      <button
+                        onClick={() => setTenderRows(rows => rows.filter((_, rowIndex) => rowIndex !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => setTenderRows(rows => [...rows, { paymentMethod: 'cash', amount: '' }])}
+                  className="flex items-center space-x-1 text-sm font-medium text-gray-600 hover:text-gray-900"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add tender</span>
+                </button>
+              </div>
+
+              {remainingAfterTenders !== null && (
+                <p className="text-sm text-gray-600 text-center">
+                  {lastRowIsRest
+                    ? 'The last tender pays the rest and settles the bill'
+                    : remainingAfterTenders > 0.005
+                      ? `${formatAmount(remainingAfterTenders)} will still be due`
+                      : 'These tenders settle the bill'}
+                </p>
+              )}
+
+              {splitError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm text-red-600">{splitError}</p>
+                </div>
+              )}
+
+              <button
+                onClick={handleConfirmSplit}
+                disabled={balanceDue === null || balanceDue <= 0}
+                className="w-full py-3 px-4 bg-[#00d9ff] text-white rounded-lg font-medium hover:bg-[#00c4e6] transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                <span>Confirm Tenders</span>
+              </button>
             </div>
           ) : (
             /* Payment Processing */
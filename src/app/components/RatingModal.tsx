@@ -8,7 +8,7 @@ interface RatingModalProps {
   onClose: () => void;
   onSkip: () => void;
   onReturnHome: () => void;
-  onSubmitRating: (rating: number, comment: string) => void;
+  onSubmitRating: (rating: number, comment: string) => Promise<void>;
   sessionId: string;
   tableNumber?: string | undefined;
 }
@@ -26,6 +26,7 @@ export default function RatingModal({
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   // Handle star click
   const handleStarClick = (starRating: number) => {
@@ -39,11 +40,13 @@ export default function RatingModal({
     }
 
     setIsSubmitting(true);
+    setSubmitError(null);
     try {
       await onSubmitRating(rating, comment);
       setHasSubmitted(true);
     } catch (error) {
       console.error('Error submitting rating:', error);
+      setSubmitError('We couldn\'t save your rating. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -147,6 +150,10 @@ export default function RatingModal({
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent text-gray-900 placeholder-gray-400 resize-none"
                 />
               </div>
+
+              {submitError && (
+                <p className="text-sm text-red-600 text-center">{submitError}</p>
+              )}
             </>
           ) : (
             /* Thank you after submission */
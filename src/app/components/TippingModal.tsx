@@ -9,6 +9,9 @@ interface TippingModalProps {
   onContinue: (tipAmount: number, finalTotal: number) => void;
   subtotal: number;
   vat: number;
+  serviceCharge?: number;
+  billTotal?: number; // total before tip; needed when prices include VAT
+  taxLabel?: string;
   sessionId: string;
 }
 
@@ -18,6 +21,9 @@ export default function TippingModal({
   onContinue,
   subtotal,
   vat,
+  serviceCharge = 0,
+  billTotal,
+  taxLabel = 'VAT (14%)',
   sessionId
 }: TippingModalProps) {
   const [tipAmount, setTipAmount] = useState<number>(0);
@@ -28,8 +34,9 @@ export default function TippingModal({
   // Calculate totals
   const preTaxTotal = subtotal;
   const vatAmount = vat;
+  const totalBeforeTip = billTotal ?? preTaxTotal + vatAmount + serviceCharge;
   const tipAmountValue = tipAmount;
-  const finalTotal = preTaxTotal + vatAmount + tipAmountValue;
+  const finalTotal = totalBeforeTip + tipAmountValue;
 
   // Quick tip percentage options
   const tipPercentages = [
@@ -75,7 +82,7 @@ export default function TippingModal({
 
   // Handle continue without tip
   const handleContinueWithoutTip = () => {
-    onContinue(0, preTaxTotal + vatAmount);
+    onContinue(0, totalBeforeTip);
   };
 
   // Format currency
@@ -117,9 +124,15 @@ export default function TippingModal({
                 <span className="font-medium text-gray-900">{formatCurrency(preTaxTotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600">VAT (14%):</span>
+                <span className="text-gray-600">{taxLabel}:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(vatAmount)}</span>
               </div>
+              {serviceCharge > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Service Charge:</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(serviceCharge)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Tip:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(tipAmountValue)}</span>
@@ -5,6 +5,8 @@ import { useCart, CartProvider } from '@/contexts/CartContext';
 import { useEffect, useState, Suspense } from 'react';
 import Link from 'next/link';
 import GlobalNavigation from '@/app/components/GlobalNavigation';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, getTaxLabel } from '@/lib/tax-engine';
 
 function OrderReviewContent() {
   const searchParams = useSearchParams();
@@ -13,6 +15,7 @@ function OrderReviewContent() {
   const [isLoading, setIsLoading] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
   const [isClearing, setIsClearing] = useState(false);
+  const taxConfig = useTaxConfig(sessionId);
 
   // Load cart items when component mounts
   useEffect(() => {
@@ -24,10 +27,13 @@ function OrderReviewContent() {
   }, [sessionId, loadCartItems]);
 
   // Calculate totals
-  const subtotal = state.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const vatRate = 0.14; // 14% VAT
-  const vatAmount = subtotal * vatRate;
-  const total = subtotal + vatAmount;
+  const bill = calculateBillTotals(
+    state.items.map(item => ({ menuItemId: item.menu_item_id, amount: item.price * item.quantity })),
+    taxConfig
+  );
+  const subtotal = bill.subtotal;
+  const vatAmount = bill.tax;
+  const total = bill.total;
 
   const handleRemoveItem = async (itemId: string) => {
     setIsLoading(true);
@@ -182,10 +188,17 @@ function OrderReviewContent() {
               </div>
               
               <div className="flex justify-between">
-                <span className="text-gray-600 text-sm">VAT (14%)</span>
+                <span className="text-gray-600 text-sm">{getTaxLabel(taxConfig)}</span>
                 <span className="font-medium text-sm">P{vatAmount.toFixed(2)}</span>
               </div>
               
+              {bill.serviceCharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 text-sm">Service Charge</span>
+                  <span className="font-medium text-sm">P{bill.serviceCharge.toFixed(2)}</span>
+                </div>
+              )}
+              
               <div className="border-t pt-2">
                 <div className="flex justify-between">
                   <span className="text-base font-bold text-gray-800">Total</span>
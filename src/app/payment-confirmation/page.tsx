@@ -6,6 +6,9 @@ import { ArrowLeft, Edit3, CreditCard, CheckCircle, AlertCircle, LogOut } from '
 import TippingModal from '@/app/components/TippingModal';
 import GlobalNavigation from '@/app/components/GlobalNavigation';
 import { CartProvider } from '@/contexts/CartContext';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { getTaxLabel } from '@/lib/tax-engine';
+import type { SessionBill } from '@/lib/session-bill';
 
 interface OrderItem {
   id: string;
@@ -35,6 +38,7 @@ function PaymentConfirmationPageContent() {
   const dinerName = searchParams.get('dinerName');
   const subtotal = parseFloat(searchParams.get('subtotal') || '0');
   const vat = parseFloat(searchParams.get('vat') || '0');
+  const serviceCharge = parseFloat(searchParams.get('serviceCharge') || '0');
   const tipAmount = parseFloat(searchParams.get('tipAmount') || '0');
   const finalTotal = parseFloat(searchParams.get('finalTotal') || '0');
   const paymentType = searchParams.get('paymentType') || 'individual'; // individual or table
@@ -46,6 +50,9 @@ function PaymentConfirmationPageContent() {
   const [showTippingModal, setShowTippingModal] = useState(false);
   const [currentTipAmount, setCurrentTipAmount] = useState(tipAmount);
   const [currentFinalTotal, setCurrentFinalTotal] = useState(finalTotal);
+  const [bill, setBill] = useState<SessionBill | null>(null);
+  const [billNotice, setBillNotice] = useState<string | null>(null);
+  const taxLabel = getTaxLabel(useTaxConfig(sessionId));
 
   // Show tipping modal on first load if no tip amount is set
   useEffect(() => {
@@ -54,9 +61,9 @@ function PaymentConfirmationPageContent() {
     }
   }, [tipAmount, subtotal]);
 
-  // Load order items from the session
+  // Load the itemized bill calculated by the server
   useEffect(() => {
-    const loadOrderItems = async () => {
+    const loadBill = async () => {
       if (!sessionId) {
         setError('Session ID is required');
         setIsLoading(false);
@@ -67,8 +74,12 @@ function PaymentConfirmationPageContent() {
         setIsLoading(true);
         setError(null);
 
-        // Fetch confirmed orders for this session
-        const response = await fetch(`/api/orders/confirm?sessionId=${sessionId}`, {
+        const params = new URLSearchParams({ paymentType });
+        if (dinerName) {
+          params.set('dinerName', dinerName);
+        }
+
+        const response = await fetch(`/api/sessions/${sessionId}/bill?${params.toString()}`, {
           method: 'GET',
           headers: { 'Content-Type': 'application/json' }
         });
@@ -78,33 +89,7 @@ function PaymentConfirmationPageContent() {
         }
 
         const data = await response.json();
-        const confirmedOrders = data.confirmedOrders || [];
-
-        // Transform orders to order items format
-        const items: OrderItem[] = confirmedOrders.map((order: any) => {
-          const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
-          const splitBill = Array.isArray(order.split_bills) ? order.split_bills[0] : order.split_bills;
-          const itemName = menuItem?.name || 'Unknown Item';
-          const itemPrice = menuItem?.price || 0;
-          const isSplit = !!order.split_bill_id && !!splitBill;
-          const splitPrice = splitBill?.split_price || 0;
-          const splitCount = splitBill?.split_count || 1;
-          const originalPrice = splitBill?.original_price || (itemPrice * order.quantity);
-          
-          return {
-            id: order.id,
-            name: itemName,
-            quantity: order.quantity,
-            price: itemPrice,
-            total: isSplit ? splitPrice : (itemPrice * order.quantity),
-            isSplit,
-            splitPrice,
-            splitCount,
-            originalPrice
-          };
-        });
-
-        setOrderItems(items);
+        setBill(data.bill);
       } catch (error) {
         console.error('Error loading order items:', error);
         setError('Failed to load order items');
@@ -113,8 +98,25 @@ function PaymentConfirmationPageContent() {
       }
     };
 
-    loadOrderItems();
-  }, [sessionId]);
+    loadBill();
+  }, [sessionId, paymentType, dinerName]);
+
+  // Transform bill items to order items format
+  useEffect(() => {
+    if (!bill) return;
+
+    setOrderItems(bill.items.map(item => ({
+      id: item.orderId,
+      name: item.name,
+      quantity: item.quantity,
+      price: item.unitPrice,
+      total: item.amount,
+      isSplit: item.isSplit,
+      splitPrice: item.amount,
+      ...(item.splitCount !== undefined && { splitCount: item.splitCount }),
+      originalPrice: item.unitPrice * item.quantity
+    })));
+  }, [bill]);
 
   // Handle tip modification
   const handleModifyTip = () => {
@@ -169,16 +171,25 @@ function PaymentConfirmationPageContent() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sessionId,
+          dinerName,
           tipAmount: currentTipAmount,
-          finalTotal: currentFinalTotal,
+          finalTotal: currentTotal, // Checked against the server's own calculation
           paymentType: paymentType, // Pass payment type to API
-          subtotal: currentSubtotal, // Pass subtotal for individual payments
-          vat: currentVat // Pass VAT for individual payments
+          subtotal: currentSubtotal,
+          vat: currentVat
         })
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+
+        // The bill changed (e.g. a void or discount) since it was loaded - show the new one
+        if (response.status === 409 && errorData.bill) {
+          setBill(errorData.bill);
+          setBillNotice(errorData.error);
+          return;
+        }
+
         throw new Error(errorData.error || 'Failed to submit payment request');
       }
 
@@ -201,11 +212,13 @@ function PaymentConfirmationPageContent() {
     return `P${amount.toFixed(2)}`;
   };
 
-  // Use totals passed from Live Bill (URL parameters) instead of recalculating
-  // This ensures consistency between Live Bill and Payment Confirmation
-  const currentSubtotal = subtotal; // Use subtotal from URL params
-  const currentVat = vat; // Use VAT from URL params  
-  const currentTotal = currentSubtotal + currentVat + currentTipAmount;
+  // Use the server's bill once loaded; Live Bill's URL parameters are only a first estimate
+  const currentSubtotal = bill ? bill.subtotal : subtotal;
+  const currentVat = bill ? bill.tax : vat;
+  const currentServiceCharge = bill ? bill.serviceCharge : serviceCharge;
+  const currentDiscount = bill ? bill.discount : 0;
+  const billTotal = bill ? bill.total : finalTotal - tipAmount; // Total before tip (VAT may be included in the subtotal)
+  const currentTotal = Math.round((billTotal + currentTipAmount) * 100) / 100;
 
   if (isLoading) {
     return (
@@ -311,15 +324,33 @@ function PaymentConfirmationPageContent() {
           {/* Payment Breakdown */}
           <div className="bg-green-50 border border-green-200 rounded-xl p-4">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Payment Breakdown</h2>
+            {billNotice && (
+              <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">
+                <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5" />
+                <p className="text-sm text-yellow-800">{billNotice}</p>
+              </div>
+            )}
             <div className="space-y-3">
               <div className="flex justify-between">
                 <span className="text-gray-600">Subtotal:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(currentSubtotal)}</span>
               </div>
+              {currentDiscount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Discount:</span>
+                  <span className="font-medium text-green-700">-{formatCurrency(currentDiscount)}</span>
+                </div>
+              )}
               <div className="flex justify-between">
-                <span className="text-gray-600">VAT (14%):</span>
+                <span className="text-gray-600">{taxLabel}:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(currentVat)}</span>
               </div>
+              {currentServiceCharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Service Charge:</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(currentServiceCharge)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">Tip:</span>
                 <div className="flex items-center space-x-2">
@@ -409,6 +440,9 @@ function PaymentConfirmationPageContent() {
           onContinue={handleTipUpdate}
           subtotal={currentSubtotal}
           vat={currentVat}
+          serviceCharge={currentServiceCharge}
+          billTotal={billTotal}
+          taxLabel={taxLabel}
           sessionId={sessionId || ''}
         />
       </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { CheckCircle, Clock, CreditCard, Bell, RefreshCw } from 'lucide-react';
 import GlobalNavigation from '@/app/components/GlobalNavigation';
@@ -12,6 +12,14 @@ interface PaymentStatus {
   details?: string;
 }
 
+const METHOD_LABELS: Record<string, string> = {
+  card: 'Card',
+  qr_code: 'QR code',
+  digital: 'Digital wallet'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 function PaymentProcessingPageContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -26,6 +34,17 @@ function PaymentProcessingPageContent() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Self-serve restaurants let diners pay here instead of waiting for staff
+  const [selfServeMethods, setSelfServeMethods] = useState<string[]>([]);
+  const [selfPayMethod, setSelfPayMethod] = useState('card');
+  const [payFor, setPayFor] = useState<'individual' | 'table'>(dinerName ? 'individual' : 'table');
+  const [cardNumber, setCardNumber] = useState('');
+  const [tableTip, setTableTip] = useState(0);
+  const [isPaying, setIsPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
+  const [payNotice, setPayNotice] = useState<string | null>(null);
+  // Idempotency-Key for recording the current intent, so a resubmit can't record the payment twice
+  const completeKeyRef = useRef<string | null>(null);
 
   // Poll for payment status updates
   useEffect(() => {
@@ -52,6 +71,8 @@ function PaymentProcessingPageContent() {
           message: data.message,
           details: data.details
         });
+        setSelfServeMethods(data.self_serve_methods || []);
+        setTableTip(Number(data.tip_amount) || 0);
 
         // If payment is completed, redirect to receipt
         if (data.payment_status === 'completed') {
@@ -77,6 +98,92 @@ function PaymentProcessingPageContent() {
     return () => clearInterval(interval);
   }, [sessionId, router]);
 
+  const goToReceipt = () => {
+    const dinerNameParam = dinerName ? `&dinerName=${encodeURIComponent(dinerName)}` : '';
+    router.push(`/payment-receipt?sessionId=${sessionId}${dinerNameParam}`);
+  };
+
+  // Create an intent for what is owed, charge it, then record it against the bill
+  const handleSelfPay = async () => {
+    if (!sessionId) return;
+    if (selfPayMethod === 'card' && !cardNumber.trim()) {
+      setPayError('Enter your card number');
+      return;
+    }
+
+    try {
+      setIsPaying(true);
+      setPayError(null);
+      setPayNotice(null);
+
+      const intentResponse = await fetch('/api/payment/intent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          paymentType: payFor,
+          dinerName: payFor === 'individual' ? dinerName : null,
+          paymentMethod: selfPayMethod,
+          tipAmount: payFor === 'table' ? tableTip : 0
+        })
+      });
+      const intentData = await intentResponse.json();
+      if (!intentResponse.ok) {
+        throw new Error(intentData.error || 'Failed to start payment');
+      }
+      completeKeyRef.current = crypto.randomUUID();
+
+      const confirmResponse = await fetch('/api/payment/intent/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          intentId: intentData.intent_id,
+          ...(selfPayMethod === 'card' ? { cardNumber } : {})
+        })
+      });
+      let intent = await confirmResponse.json();
+      if (!confirmResponse.ok) {
+        throw new Error(intent.error || 'Payment failed');
+      }
+
+      // Some providers take a moment to settle a payment
+      for (let attempt = 0; intent.status === 'processing' && attempt < 20; attempt++) {
+        await sleep(3000);
+        const pollResponse = await fetch(`/api/payment/intent?intentId=${encodeURIComponent(intentData.intent_id)}`);
+        intent = await pollResponse.json();
+      }
+      if (intent.status !== 'succeeded') {
+        throw new Error(intent.failure_reason || 'Payment did not go through');
+      }
+
+      const completeResponse = await fetch('/api/payment/complete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': completeKeyRef.current
+        },
+        body: JSON.stringify({ sessionId, paymentIntentId: intentData.intent_id })
+      });
+      const completeData = await completeResponse.json();
+      if (!completeResponse.ok) {
+        throw new Error(completeData.error || 'Payment was taken but could not be recorded; please ask a staff member');
+      }
+      completeKeyRef.current = null;
+
+      setCardNumber('');
+      if (completeData.table_cleared || payFor === 'individual') {
+        goToReceipt();
+      } else {
+        setPayNotice(`Payment received. P${Number(completeData.balance_due || 0).toFixed(2)} is still due on the table.`);
+      }
+    } catch (error) {
+      console.error('Error paying:', error);
+      setPayError(error instanceof Error ? error.message : 'Payment failed');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -188,6 +295,62 @@ function PaymentProcessingPageContent() {
               )}
             </div>
 
+            {/* Self-serve payment */}
+            {paymentStatus.status === 'pending' && selfServeMethods.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-xl p-6 text-left space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Pay now</h3>
+
+                {dinerName && (
+                  <div className="flex space-x-2">
+                    {(['individual', 'table'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setPayFor(option)}
+                        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium border ${
+                          payFor === option ? 'bg-[#00d9ff] text-white border-[#00d9ff]' : 'text-gray-700 border-gray-300'
+                        }`}
+                      >
+                        {option === 'individual' ? 'My share' : 'Whole table'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <select
+                  value={selfPayMethod}
+                  onChange={(e) => setSelfPayMethod(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff]"
+                >
+                  {selfServeMethods.map(method => (
+                    <option key={method} value={method}>{METHOD_LABELS[method] || method}</option>
+                  ))}
+                </select>
+
+                {selfPayMethod === 'card' && (
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                    placeholder="Card number"
+                    value={cardNumber}
+                    onChange={(e) => setCardNumber(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00d9ff]"
+                  />
+                )}
+
+                {payError && <p className="text-sm text-red-600">{payError}</p>}
+                {payNotice && <p className="text-sm text-green-600">{payNotice}</p>}
+
+                <button
+                  onClick={handleSelfPay}
+                  disabled={isPaying}
+                  className="w-full bg-[#00d9ff] text-white py-3 px-4 rounded-lg font-medium hover:bg-[#00c4e6] transition-colors disabled:opacity-50"
+                >
+                  {isPaying ? 'Processing payment...' : 'Pay now'}
+                </button>
+              </div>
+            )}
+
             {/* Progress Steps */}
             <div className="bg-white border border-gray-200 rounded-xl p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Progress</h3>
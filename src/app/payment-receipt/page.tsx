@@ -5,6 +5,8 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { CheckCircle, Home, Mail, Download } from 'lucide-react';
 import DigitalReceiptModal from '@/app/components/DigitalReceiptModal';
 import RatingModal from '@/app/components/RatingModal';
+import { fetchTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, calculateTotalsFromTotal, getTaxLabel } from '@/lib/tax-engine';
 
 interface OrderItem {
   id: string;
@@ -12,6 +14,7 @@ interface OrderItem {
   quantity: number;
   price: number;
   total: number;
+  menuItemId?: string;
   isSplit?: boolean;
   splitPrice?: number;
   splitCount?: number;
@@ -22,11 +25,14 @@ interface ReceiptData {
   orderItems: OrderItem[];
   subtotal: number;
   vat: number;
+  serviceCharge: number;
+  taxLabel: string;
   tipAmount: number;
   finalTotal: number;
   tableNumber?: string;
   paymentMethod?: string;
   paymentCompletedAt?: string;
+  receiptNumber?: string;
 }
 
 function PaymentReceiptPageContent() {
@@ -34,6 +40,7 @@ function PaymentReceiptPageContent() {
   const router = useRouter();
   
   const sessionId = searchParams.get('sessionId');
+  const dinerName = searchParams.get('dinerName');
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,7 +62,11 @@ function PaymentReceiptPageContent() {
         setError(null);
 
         // Fetch session payment data
-        const sessionResponse = await fetch(`/api/payment/status?sessionId=${sessionId}`, {
+        const statusParams = new URLSearchParams({ sessionId });
+        if (dinerName) {
+          statusParams.set('dinerName', dinerName);
+        }
+        const sessionResponse = await fetch(`/api/payment/status?${statusParams.toString()}`, {
           method: 'GET',
           headers: { 'Content-Type': 'application/json' }
         });
@@ -76,8 +87,10 @@ function PaymentReceiptPageContent() {
         let orderItems: OrderItem[] = [];
         let subtotal = 0;
         let vat = 0;
+        let serviceCharge = 0;
         let tipAmount = sessionData.tip_amount || 0;
         let finalTotal = sessionData.final_total || 0;
+        const taxConfig = await fetchTaxConfig(sessionId);
         
         // Try to fetch order items from a different endpoint that doesn't filter by payment status
         try {
@@ -107,6 +120,7 @@ function PaymentReceiptPageContent() {
                 quantity: order.quantity,
                 price: itemPrice,
                 total: isSplit ? splitPrice : (itemPrice * order.quantity),
+                menuItemId: order.menu_item_id,
                 isSplit,
                 splitPrice,
                 splitCount,
@@ -115,8 +129,13 @@ function PaymentReceiptPageContent() {
             });
 
             // Calculate totals from orders if available
-            subtotal = orderItems.reduce((sum, item) => sum + item.total, 0);
-            vat = subtotal * 0.14;
+            const bill = calculateBillTotals(
+              orderItems.map(item => ({ menuItemId: item.menuItemId, amount: item.total })),
+              taxConfig
+            );
+            subtotal = bill.subtotal;
+            vat = bill.tax;
+            serviceCharge = bill.serviceCharge;
           }
         } catch (error) {
           // Error handling for order history fetch - using session totals as fallback
@@ -124,11 +143,11 @@ function PaymentReceiptPageContent() {
         
         // If we couldn't get order details, use session totals
         if (orderItems.length === 0) {
-          // Calculate subtotal from session data
-          // final_total = subtotal + vat + tip
-          // So: subtotal = (final_total - tip) / 1.14
-          subtotal = (finalTotal - tipAmount) / 1.14;
-          vat = subtotal * 0.14;
+          // Work back from the session total (final_total = bill total + tip)
+          const bill = calculateTotalsFromTotal(finalTotal - tipAmount, taxConfig);
+          subtotal = bill.subtotal;
+          vat = bill.tax;
+          serviceCharge = bill.serviceCharge;
           
           // Create a generic order item for display
           orderItems = [{
@@ -145,11 +164,14 @@ function PaymentReceiptPageContent() {
           orderItems,
           subtotal,
           vat,
+          serviceCharge,
+          taxLabel: getTaxLabel(taxConfig),
           tipAmount,
           finalTotal,
           tableNumber: sessionData.table_number,
           paymentMethod: sessionData.payment_method,
-          paymentCompletedAt: sessionData.payment_completed_at
+          paymentCompletedAt: sessionData.payment_completed_at,
+          receiptNumber: sessionData.receipt_number || undefined
         });
 
         // Show receipt modal automatically
@@ -203,13 +225,17 @@ function PaymentReceiptPageContent() {
 
   // Handle rating submission
   const handleSubmitRating = async (rating: number, comment: string) => {
-    // Here you would typically save the rating to your database
-    // Rating submission logic would go here
-    
-    // For now, we'll just simulate the submission
-    return new Promise((resolve) => {
-      setTimeout(resolve, 1000);
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, rating, comment, dinerName })
     });
+
+    // A repeat submission already counted, so treat it as sent
+    if (!response.ok && response.status !== 409) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to submit rating');
+    }
   };
 
   // Format currency
@@ -312,6 +338,9 @@ function PaymentReceiptPageContent() {
             <div className="text-center mb-6 pb-4 border-b border-gray-200">
               <h4 className="text-lg font-bold text-gray-900">PulaNodus Restaurant</h4>
               <p className="text-sm text-gray-600">Thank you for dining with us!</p>
+              {receiptData.receiptNumber && (
+                <p className="text-sm font-semibold text-gray-900 mt-1">Receipt No {receiptData.receiptNumber}</p>
+              )}
               {receiptData.tableNumber && (
                 <p className="text-sm text-gray-600">Table {receiptData.tableNumber}</p>
               )}
@@ -357,9 +386,15 @@ function PaymentReceiptPageContent() {
                 <span className="font-medium text-gray-900">{formatCurrency(receiptData.subtotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600">VAT (14%):</span>
+                <span className="text-gray-600">{receiptData.taxLabel}:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(receiptData.vat)}</span>
               </div>
+              {receiptData.serviceCharge > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Service Charge:</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(receiptData.serviceCharge)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Tip:</span>
                 <span className="font-medium text-gray-900">{formatCurrency(receiptData.tipAmount)}</span>
@@ -413,12 +448,16 @@ function PaymentReceiptPageContent() {
         orderItems={receiptData.orderItems}
         subtotal={receiptData.subtotal}
         vat={receiptData.vat}
+        serviceCharge={receiptData.serviceCharge}
+        taxLabel={receiptData.taxLabel}
         tipAmount={receiptData.tipAmount}
         finalTotal={receiptData.finalTotal}
         sessionId={sessionId || ''}
         {...(receiptData.tableNumber && { tableNumber: receiptData.tableNumber })}
         {...(receiptData.paymentMethod && { paymentMethod: receiptData.paymentMethod })}
         {...(receiptData.paymentCompletedAt && { paymentCompletedAt: receiptData.paymentCompletedAt })}
+        {...(receiptData.receiptNumber && { receiptNumber: receiptData.receiptNumber })}
+        {...(dinerName && { dinerName })}
       />
 
       {/* Rating Modal */}
@@ -13,6 +13,7 @@ import { CartProvider, useCart } from '@/contexts/CartContext';
 import { supabase } from '@/lib/supabase';
 import { triggerCleanupOnUserAction } from '@/lib/auto-cleanup';
 import PaymentNotificationListener from '@/app/components/PaymentNotificationListener';
+import type { MenuAvailability } from '@/lib/menu-availability';
 
 interface SessionData {
   id: string;
@@ -38,6 +39,7 @@ interface MenuCategories {
     description: string;
     rating?: number;
     preparation_time?: string;
+    schedule_ids?: string[];
   }>;
 }
 
@@ -45,9 +47,10 @@ interface SessionPageClientProps {
   session: SessionData;
   categories: MenuCategories;
   restaurantName?: string;
+  menuAvailability?: MenuAvailability;
 }
 
-function SessionContent({ session, categories, restaurantName }: SessionPageClientProps) {
+function SessionContent({ session, categories, restaurantName, menuAvailability }: SessionPageClientProps) {
   const { state, setDinerName, clearCart } = useCart();
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -340,6 +343,7 @@ function SessionContent({ session, categories, restaurantName }: SessionPageClie
               ])
             )} 
             sessionId={session.id} 
+            availability={menuAvailability}
           />
         </div>
 
@@ -352,7 +356,7 @@ function SessionContent({ session, categories, restaurantName }: SessionPageClie
   );
 }
 
-export default function SessionPageClient({ session, categories, restaurantName }: SessionPageClientProps) {
+export default function SessionPageClient({ session, categories, restaurantName, menuAvailability }: SessionPageClientProps) {
   // Extract diner name from URL parameters
   const searchParams = useSearchParams();
   const dinerNameFromUrl = searchParams.get('dinerName');
@@ -363,6 +367,7 @@ export default function SessionPageClient({ session, categories, restaurantName
         session={session} 
         categories={categories} 
         restaurantName={restaurantName} 
+        menuAvailability={menuAvailability}
       />
     </CartProvider>
   );
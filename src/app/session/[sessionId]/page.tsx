@@ -1,6 +1,9 @@
 // Supabase imports
 import { supabase } from '@/lib/supabase';
 
+// Menu imports
+import { getMenuAvailability } from '@/lib/menu-availability';
+
 // Next.js imports
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
@@ -62,6 +65,9 @@ export default async function SessionPage({ params }: PageProps) {
     console.error(menuError);
   }
 
+  // Schedules are re-checked on the client so items drop off when their window closes
+  const menuAvailability = await getMenuAvailability(restaurantId);
+
   // Group menu items by category
   const categories = menuItems?.reduce((acc, item) => {
     const category = item.category || 'Uncategorized';
@@ -79,6 +85,7 @@ export default async function SessionPage({ params }: PageProps) {
     category: string;
     rating?: number;
     preparation_time?: string;
+    schedule_ids?: string[];
   }>>);
 
   return (
@@ -86,6 +93,7 @@ export default async function SessionPage({ params }: PageProps) {
       session={session} 
       categories={categories || {}} 
       restaurantName={restaurant?.name}
+      menuAvailability={menuAvailability}
     />
   );
 }
\ No newline at end of file
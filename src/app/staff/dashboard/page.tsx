@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { useAudioNotification, getNotificationSoundType } from '@/lib/audio-notifications';
 import AudioSettings from '@/app/components/AudioSettings';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { describeEscalation, EscalationEntry, getEscalationBadge } from '@/lib/escalation-rules';
 
 
 interface StaffMember {
@@ -45,6 +47,8 @@ interface Notification {
     is_my_table?: boolean;
     request_type?: 'bill' | 'help';
     customer_name?: string;
+    escalation_level?: number;
+    escalation_history?: EscalationEntry[];
   };
 }
 
@@ -170,7 +174,9 @@ export default function StaffDashboard() {
               assigned_waitstaff: n.metadata?.assigned_waitstaff,
               is_my_table: staff ? (n.sessions?.served_by === staff.staffId || n.sessions?.served_by === staff.id) : false,
               request_type: n.metadata?.request_type,
-              customer_name: n.metadata?.customer_name
+              customer_name: n.metadata?.customer_name,
+              escalation_level: n.escalation_level || 0,
+              escalation_history: n.escalation_history || []
             }
           }));
 
@@ -278,11 +284,11 @@ export default function StaffDashboard() {
     loadData();
   }, []);
 
-  // Auto-refresh every 30 seconds (silent - no loading spinner)
-  useEffect(() => {
-    const interval = setInterval(silentRefresh, 30000);
-    return () => clearInterval(interval);
-  }, []);
+  // Notifications, order status and payments are pushed; refresh silently (no loading spinner)
+  useRealtimeEvents({
+    types: ['notification', 'order_status', 'payment'],
+    refresh: silentRefresh
+  });
 
   // Load staff assignments when tablet mode is enabled
   useEffect(() => {
@@ -705,9 +711,10 @@ export default function StaffDashboard() {
       return notifications; // Show all notifications
     }
     
-    // Show only notifications for tables assigned to this staff member
+    // Show only notifications for tables assigned to this staff member, plus anything escalated to all floor staff
     return notifications.filter(notification => 
-      notification.metadata?.is_my_table === true
+      notification.metadata?.is_my_table === true ||
+      (notification.metadata?.escalation_level || 0) >= 1
     );
   };
 
@@ -927,8 +934,18 @@ export default function StaffDashboard() {
                               <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.badgeColor}`}>
                                 {notification.priority}
                               </span>
+                              {getEscalationBadge(notification.metadata?.escalation_level) && (
+                                <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                  {getEscalationBadge(notification.metadata?.escalation_level)}
+                                </span>
+                              )}
                             </div>
                             <p className="text-sm text-gray-700 mb-2">{notification.message}</p>
+                            {(notification.metadata?.escalation_history || []).map((entry) => (
+                              <p key={entry.level} className="text-xs text-red-700 mb-1">
+                                {describeEscalation(entry)}
+                              </p>
+                            ))}
                             {notification.amount && (
                               <p className="text-sm font-semibold text-[#00d9ff]">
                                 Amount: {formatCurrency(notification.amount)}
@@ -9,8 +9,11 @@ import {
   ChefHat,
   Timer,
   Eye,
-  CheckSquare
+  CheckSquare,
+  Ban
 } from 'lucide-react';
+import { getStationStatuses, KitchenItemStatus, KitchenStation } from '@/lib/kitchen-stations';
+import { getCourseLabel } from '@/lib/courses';
 
 interface OrderItem {
   id: string;
@@ -20,6 +23,11 @@ interface OrderItem {
   created_at: string;
   updated_at: string;
   special_instructions?: string;
+  modifiers?: string[];
+  station?: string;
+  course?: string | null;
+  held?: boolean;
+  fired_at?: string | null;
   menu_item: {
     id: string;
     name: string;
@@ -36,6 +44,7 @@ interface Order {
   created_at: string;
   updated_at: string;
   order_items: OrderItem[];
+  station_statuses?: Record<string, KitchenItemStatus>;
   session: {
     id: string;
     table_id: string;
@@ -44,6 +53,12 @@ interface Order {
   };
 }
 
+interface UnavailableItem {
+  id: string;
+  name: string;
+  eighty_sixed_at: string;
+}
+
 interface TableOrder {
   table_number: string;
   orders: Order[];
@@ -51,6 +66,7 @@ interface TableOrder {
   waiting_items: number;
   ready_items: number;
   served_items: number;
+  station_statuses: Record<string, KitchenItemStatus>;
 }
 
 export default function KitchenDisplay() {
@@ -60,6 +76,22 @@ export default function KitchenDisplay() {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [unavailableItems, setUnavailableItems] = useState<UnavailableItem[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [stationFilter, setStationFilter] = useState<string>('all');
+
+  // Each screen remembers its station (e.g. the bar tablet stays on "Bar")
+  useEffect(() => {
+    const savedStation = localStorage.getItem('kitchenStation');
+    if (savedStation) {
+      setStationFilter(savedStation);
+    }
+  }, []);
+
+  const selectStation = (station: string) => {
+    setStationFilter(station);
+    localStorage.setItem('kitchenStation', station);
+  };
 
   // Load kitchen orders
   const loadKitchenOrders = async (silent = false) => {
@@ -69,15 +101,24 @@ export default function KitchenDisplay() {
       }
       setError(null);
 
-      // Fetch confirmed orders with their items
-      const response = await fetch('/api/orders/kitchen');
+      // Fetch confirmed orders with their items, and the items currently 86'd
+      const [response, availabilityResponse] = await Promise.all([
+        fetch('/api/orders/kitchen'),
+        fetch('/api/menu-items/availability')
+      ]);
       const data = await response.json();
+      const availabilityData = await availabilityResponse.json();
       
       if (!data.success) {
         throw new Error(data.error || 'Failed to fetch orders');
       }
 
+      if (availabilityData.success) {
+        setUnavailableItems(availabilityData.unavailableItems || []);
+      }
+
       const orders: Order[] = data.confirmedOrders || [];
+      setStations(data.stations || []);
       
       // Group orders by table
       const tableMap = new Map<string, Order[]>();
@@ -102,7 +143,10 @@ export default function KitchenDisplay() {
           total_items: allItems.length,
           waiting_items: waitingItems,
           ready_items: readyItems,
-          served_items: servedItems
+          served_items: servedItems,
+          station_statuses: getStationStatuses(
+            allItems.map(item => ({ station: item.station || '', status: item.status }))
+          )
         };
       });
 
@@ -173,6 +217,43 @@ export default function KitchenDisplay() {
     }
   };
 
+  // 86 an item (out of stock) or put it back on the menu
+  const setMenuItemAvailability = async (menuItemId: string, available: boolean) => {
+    try {
+      const savedStaff = localStorage.getItem('staff');
+      const staffName = savedStaff ? JSON.parse(savedStaff).name : null;
+
+      const response = await fetch('/api/menu-items/availability', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          menuItemId,
+          available,
+          staffName
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update item availability');
+      }
+
+      await loadKitchenOrders(true);
+
+    } catch (error) {
+      console.error('Error updating item availability:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update item availability');
+    }
+  };
+
+  const eightySixItem = (item: OrderItem) => {
+    if (!confirm(`86 ${item.menu_item.name}? It will be removed from the menu and flagged in diners' carts.`)) return;
+    setMenuItemAvailability(item.menu_item_id, false);
+  };
+
   // Calculate waiting time
   const getWaitingTime = (createdAt: string) => {
     const now = new Date();
@@ -217,14 +298,34 @@ export default function KitchenDisplay() {
     }
   };
 
-  // Get filtered orders based on status filter
+  // Keep only the items routed to the selected station
+  const filterByStation = (tables: TableOrder[]) => {
+    if (stationFilter === 'all') {
+      return tables;
+    }
+
+    return tables.map(tableOrder => ({
+      ...tableOrder,
+      orders: tableOrder.orders.map(order => ({
+        ...order,
+        order_items: order.order_items.filter(item => item.station === stationFilter)
+      }))
+    })).filter(tableOrder =>
+      tableOrder.orders.some(order => order.order_items.length > 0)
+    );
+  };
+
+  const getStationName = (code?: string) =>
+    stations.find(station => station.code === code)?.name || code || 'Kitchen';
+
+  // Get filtered orders based on station and status filters
   const getFilteredOrders = () => {
     if (statusFilter === 'all') {
-      return tableOrders; // Show only active orders for Kanban
+      return filterByStation(tableOrders); // Show only active orders for Kanban
     }
     
     // For specific status filters, show all daily orders with that status
-    return allDailyOrders.map(tableOrder => ({
+    return filterByStation(allDailyOrders).map(tableOrder => ({
       ...tableOrder,
       orders: tableOrder.orders.map(order => ({
         ...order,
@@ -345,13 +446,88 @@ export default function KitchenDisplay() {
           </div>
         )}
 
+        {/* 86'd Items */}
+        {unavailableItems.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6">
+            <div className="flex items-center space-x-2 mb-3">
+              <Ban className="w-5 h-5 text-red-600" />
+              <h3 className="font-medium text-red-900">86&apos;d Items</h3>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {unavailableItems.map(menuItem => (
+                <div key={menuItem.id} className="flex items-center space-x-2 bg-white border border-red-200 rounded-lg px-3 py-1">
+                  <span className="text-sm font-medium text-gray-900">{menuItem.name}</span>
+                  <button
+                    onClick={() => setMenuItemAvailability(menuItem.id, true)}
+                    className="text-xs font-medium text-green-700 hover:text-green-800"
+                  >
+                    Back in stock
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Station Selector and Table Progress */}
+        {stations.length > 0 && (
+          <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={() => selectStation('all')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  stationFilter === 'all'
+                    ? 'bg-gray-900 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                All Stations
+              </button>
+              {stations.map(station => (
+                <button
+                  key={station.code}
+                  onClick={() => selectStation(station.code)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    stationFilter === station.code
+                      ? 'bg-orange-600 text-white'
+                      : 'bg-orange-50 text-orange-700 hover:bg-orange-100'
+                  }`}
+                >
+                  {station.name}
+                </button>
+              ))}
+            </div>
+
+            {tableOrders.length > 0 && (
+              <div className="space-y-2">
+                {tableOrders.map(tableOrder => (
+                  <div key={tableOrder.table_number} className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 w-20">Table {tableOrder.table_number}</span>
+                    {Object.entries(tableOrder.station_statuses).map(([station, status]) => {
+                      const statusStyle = getStatusStyle(status);
+                      return (
+                        <span
+                          key={station}
+                          className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${statusStyle.color}`}
+                        >
+                          {getStationName(station)}: {statusStyle.text}
+                        </span>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Status Filter Buttons */}
         {allDailyOrders.length > 0 && (
           <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-4">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900">Daily Orders</h3>
               <div className="text-sm text-gray-600">
-                Total: {allDailyOrders.reduce((sum, table) => 
+                Total: {filterByStation(allDailyOrders).reduce((sum, table) => 
                   sum + table.orders.flatMap(o => o.order_items).length, 0
                 )} items today
               </div>
@@ -375,7 +551,7 @@ export default function KitchenDisplay() {
                     : 'bg-pink-100 text-pink-700 hover:bg-pink-200'
                 }`}
               >
-                Waiting ({allDailyOrders.reduce((sum, table) => 
+                Waiting ({filterByStation(allDailyOrders).reduce((sum, table) => 
                   sum + table.orders.flatMap(o => o.order_items).filter(item => item.status === 'waiting').length, 0
                 )})
               </button>
@@ -387,7 +563,7 @@ export default function KitchenDisplay() {
                     : 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
                 }`}
               >
-                Preparing ({allDailyOrders.reduce((sum, table) => 
+                Preparing ({filterByStation(allDailyOrders).reduce((sum, table) => 
                   sum + table.orders.flatMap(o => o.order_items).filter(item => item.status === 'preparing').length, 0
                 )})
               </button>
@@ -399,7 +575,7 @@ export default function KitchenDisplay() {
                     : 'bg-green-100 text-green-700 hover:bg-green-200'
                 }`}
               >
-                Ready ({allDailyOrders.reduce((sum, table) => 
+                Ready ({filterByStation(allDailyOrders).reduce((sum, table) => 
                   sum + table.orders.flatMap(o => o.order_items).filter(item => item.status === 'ready' || item.status === 'served').length, 0
                 )})
               </button>
@@ -411,7 +587,7 @@ export default function KitchenDisplay() {
                     : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
                 }`}
               >
-                Served ({allDailyOrders.reduce((sum, table) => 
+                Served ({filterByStation(allDailyOrders).reduce((sum, table) => 
                   sum + table.orders.flatMap(o => o.order_items).filter(item => item.status === 'served').length, 0
                 )})
               </button>
@@ -474,29 +650,60 @@ export default function KitchenDisplay() {
                     return (
                       <div
                         key={item.id}
-                      className="p-4 rounded-lg border border-pink-200 bg-pink-50 hover:bg-pink-100 transition-colors cursor-pointer"
-                      onClick={() => updateOrderItemStatus(item.id, 'preparing')}
+                      className={`p-4 rounded-lg border transition-colors ${
+                        item.held
+                          ? 'border-gray-200 bg-gray-50 opacity-75'
+                          : 'border-pink-200 bg-pink-50 hover:bg-pink-100 cursor-pointer'
+                      }`}
+                      onClick={() => !item.held && updateOrderItemStatus(item.id, 'preparing')}
                     >
                       <div className="flex items-start justify-between mb-2">
                           <div className="flex-1">
-                          <h4 className="font-medium text-gray-900 text-sm">
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium text-gray-900 text-sm">
                               {item.menu_item.name}
                             </h4>
+                            {item.course && (
+                              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                                item.held ? 'bg-gray-200 text-gray-700' : 'bg-pink-100 text-pink-700'
+                              }`}>
+                                {getCourseLabel(item.course)}{item.held ? ' • Held' : item.fired_at ? ' • Fired' : ''}
+                              </span>
+                            )}
+                          </div>
                           <p className="text-xs text-gray-600">
                             Table {tableNumber} • Qty: {item.quantity}
+                            {stationFilter === 'all' && item.station && ` • ${getStationName(item.station)}`}
                             </p>
+                            {item.modifiers?.map(modifier => (
+                              <p key={modifier} className="text-xs font-medium text-gray-800 mt-1">
+                                {modifier}
+                              </p>
+                            ))}
                             {item.special_instructions && (
                             <p className="text-xs text-blue-600 mt-1">
                                 Note: {item.special_instructions}
                               </p>
                             )}
                           </div>
-                        <div className="text-xs text-pink-600 font-medium">
-                          {waitingTime}m
+                        <div className="flex flex-col items-end gap-1">
+                          <div className="text-xs text-pink-600 font-medium">
+                            {waitingTime}m
+                          </div>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              eightySixItem(item);
+                            }}
+                            className="px-2 py-0.5 text-xs font-semibold text-red-700 bg-red-100 rounded hover:bg-red-200 transition-colors"
+                            title="Out of stock - remove from menu"
+                          >
+                            86
+                          </button>
                         </div>
                           </div>
                       <div className="text-xs text-gray-500">
-                        Click to start preparing
+                        {item.held ? 'Waiting for the waiter to fire this course' : 'Click to start preparing'}
                         </div>
                       </div>
                     );
@@ -546,15 +753,33 @@ export default function KitchenDisplay() {
                           </h4>
                           <p className="text-xs text-gray-600">
                             Table {tableNumber} • Qty: {item.quantity}
+                            {stationFilter === 'all' && item.station && ` • ${getStationName(item.station)}`}
                           </p>
+                          {item.modifiers?.map(modifier => (
+                            <p key={modifier} className="text-xs font-medium text-gray-800 mt-1">
+                              {modifier}
+                            </p>
+                          ))}
                           {item.special_instructions && (
                             <p className="text-xs text-blue-600 mt-1">
                               Note: {item.special_instructions}
                             </p>
                           )}
                         </div>
-                        <div className="text-xs text-yellow-600 font-medium">
-                          {waitingTime}m
+                        <div className="flex flex-col items-end gap-1">
+                          <div className="text-xs text-yellow-600 font-medium">
+                            {waitingTime}m
+                          </div>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              eightySixItem(item);
+                            }}
+                            className="px-2 py-0.5 text-xs font-semibold text-red-700 bg-red-100 rounded hover:bg-red-200 transition-colors"
+                            title="Out of stock - remove from menu"
+                          >
+                            86
+                          </button>
                         </div>
                       </div>
                       <div className="text-xs text-gray-500">
@@ -620,7 +845,13 @@ export default function KitchenDisplay() {
                           </div>
                           <p className="text-xs text-gray-600">
                             Table {tableNumber} • Qty: {item.quantity}
+                            {stationFilter === 'all' && item.station && ` • ${getStationName(item.station)}`}
                           </p>
+                          {item.modifiers?.map(modifier => (
+                            <p key={modifier} className="text-xs font-medium text-gray-800 mt-1">
+                              {modifier}
+                            </p>
+                          ))}
                           {item.special_instructions && (
                             <p className="text-xs text-blue-600 mt-1">
                               Note: {item.special_instructions}
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Bell, CheckCircle, Clock, CreditCard, RefreshCw, Eye } from 'lucide-react';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
 
 interface PaymentNotification {
   id: string;
@@ -26,11 +27,13 @@ export default function StaffPaymentsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedNotification, setSelectedNotification] = useState<PaymentNotification | null>(null);
+  // One Idempotency-Key per payment attempt, so a double-click or resubmit can't record the payment twice
+  const paymentKeyRef = useRef<string | null>(null);
 
   // Load payment notifications
-  const loadNotifications = async () => {
+  const loadNotifications = async (silent = false) => {
     try {
-      setIsLoading(true);
+      if (!silent) setIsLoading(true);
       setError(null);
 
       const response = await fetch('/api/staff/payment-notifications', {
@@ -81,13 +84,18 @@ export default function StaffPaymentsPage() {
   // Complete payment
   const completePayment = async (sessionId: string, paymentMethod: string) => {
     try {
+      paymentKeyRef.current = paymentKeyRef.current || crypto.randomUUID();
+      const savedStaff = localStorage.getItem('staff');
       const response = await fetch('/api/payment/complete', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': paymentKeyRef.current,
+          'X-Staff-Token': savedStaff ? JSON.parse(savedStaff).token || '' : ''
+        },
         body: JSON.stringify({
           sessionId,
-          paymentMethod,
-          completedBy: 'Staff Member' // In real app, get from auth
+          paymentMethod
         })
       });
 
@@ -96,6 +104,7 @@ export default function StaffPaymentsPage() {
         console.error('❌ Payment completion failed:', errorData);
         throw new Error(errorData.error || `Failed to complete payment (${response.status})`);
       }
+      paymentKeyRef.current = null;
 
       // Reload notifications
       await loadNotifications();
@@ -111,11 +120,11 @@ export default function StaffPaymentsPage() {
     loadNotifications();
   }, []);
 
-  // Auto-refresh every 30 seconds
-  useEffect(() => {
-    const interval = setInterval(loadNotifications, 30000);
-    return () => clearInterval(interval);
-  }, []);
+  // Payment requests and completions are pushed as they happen
+  useRealtimeEvents({
+    types: ['notification', 'payment'],
+    refresh: () => loadNotifications(true)
+  });
 
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -182,7 +191,7 @@ export default function StaffPaymentsPage() {
               </div>
             </div>
             <button
-              onClick={loadNotifications}
+              onClick={() => loadNotifications()}
               className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
               title="Refresh notifications"
             >
@@ -7,6 +7,7 @@ import { LogIn, User, Key, ArrowRight, AlertCircle } from 'lucide-react';
 export default function StaffPinEntryPage() {
   const [staffId, setStaffId] = useState('');
   const [staffName, setStaffName] = useState('');
+  const [pin, setPin] = useState('');
   const [deviceId, setDeviceId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -56,6 +57,7 @@ export default function StaffPinEntryPage() {
         },
         body: JSON.stringify({
           staffId: staffId.trim(),
+          pin,
           deviceId: deviceId.trim() || null,
           staffName: staffName.trim(),
         }),
@@ -63,7 +65,7 @@ export default function StaffPinEntryPage() {
 
       const data = await response.json();
 
-      if (!error && data) {
+      if (response.ok && data.staff) {
           // Store staff data in localStorage
           localStorage.setItem('staff', JSON.stringify(data.staff));
           
@@ -119,6 +121,30 @@ export default function StaffPinEntryPage() {
               </div>
             </div>
 
+            {/* PIN Input */}
+            <div>
+              <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-2">
+                PIN
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Key className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="password"
+                  id="pin"
+                  name="pin"
+                  inputMode="numeric"
+                  autoComplete="current-password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="Your staff PIN"
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00d9ff] focus:border-transparent transition-colors text-gray-900"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
             {/* Staff Name Input */}
             <div>
               <label htmlFor="staffName" className="block text-sm font-medium text-gray-700 mb-2">
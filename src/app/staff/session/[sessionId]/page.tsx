@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { 
   ArrowLeft, 
@@ -21,7 +21,10 @@ import {
 } from 'lucide-react';
 import { useAudioNotification, getNotificationSoundType } from '@/lib/audio-notifications';
 import AudioSettings from '@/app/components/AudioSettings';
-import PaymentProcessingModal from '@/app/components/PaymentProcessingModal';
+import PaymentProcessingModal, { SplitTender } from '@/app/components/PaymentProcessingModal';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { calculateBillTotals, getTaxLabel } from '@/lib/tax-engine';
+import { COURSES, getCourseLabel, getHeldCourses, isCourse } from '@/lib/courses';
 
 interface OrderItem {
   id: string;
@@ -33,6 +36,8 @@ interface OrderItem {
   is_shared: boolean;
   is_takeaway: boolean;
   diner_name?: string;
+  course?: string | null;
+  held?: boolean;
   menu_items: {
     id: string;
     name: string;
@@ -66,6 +71,7 @@ interface Session {
 
 interface ProcessedOrderItem {
   id: string;
+  menu_item_id?: string;
   menu_items: any;
   split_bills: any;
   quantity: number;
@@ -90,6 +96,8 @@ export default function ActiveSessionView() {
   const params = useParams();
   const router = useRouter();
   const sessionId = params.sessionId as string;
+  const taxConfig = useTaxConfig(sessionId);
+  const taxLabel = getTaxLabel(taxConfig);
   
   const [session, setSession] = useState<Session | null>(null);
   const [orders, setOrders] = useState<OrderItem[]>([]);
@@ -123,6 +131,8 @@ export default function ActiveSessionView() {
   const [paymentType, setPaymentType] = useState<'individual' | 'table'>('individual');
   const [selectedDiner, setSelectedDiner] = useState<Diner | null>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  // One Idempotency-Key per payment attempt, so a resubmit after a dropped connection can't charge twice
+  const paymentKeyRef = useRef<string | null>(null);
   const [individualPayments, setIndividualPayments] = useState<Array<{
     diner_name: string;
     payment_amount: number;
@@ -282,9 +292,7 @@ export default function ActiveSessionView() {
     
     // Calculate totals for each diner (including VAT)
     dinerMap.forEach(diner => {
-      const subtotal = diner.personalTotal + diner.sharedTotal;
-      const vat = subtotal * 0.14; // 14% VAT
-      diner.total = subtotal + vat;
+      diner.total = getDinerBill(diner).total;
     });
     
     // Filter out diners with no orders
@@ -293,6 +301,17 @@ export default function ActiveSessionView() {
     setDiners(finalDiners);
   };
 
+  // Tax and service charge on a diner's own items and shares
+  const getDinerBill = (diner: Diner) => calculateBillTotals(
+    diner.orders.map(order => ({ menuItemId: order.menu_item_id, amount: order.itemPrice })),
+    taxConfig
+  );
+
+  // Recalculate diner totals once the restaurant's tax rules have loaded
+  useEffect(() => {
+    setDiners(prev => prev.map(diner => ({ ...diner, total: getDinerBill(diner).total })));
+  }, [taxConfig]);
+
   // Get diner color
   const getDinerColor = (name: string | undefined) => {
     if (!name) return '#FF6B6B';
@@ -451,9 +470,62 @@ export default function ActiveSessionView() {
       setSelectedDiner(null);
     }
     
+    paymentKeyRef.current = crypto.randomUUID();
     setShowPaymentModal(true);
   };
 
+  // Handle a table bill paid in several tenders
+  const handleSplitConfirmed = async (tenders: SplitTender[]) => {
+    if (!session) return;
+    
+    setIsProcessingPayment(true);
+    
+    try {
+      paymentKeyRef.current = paymentKeyRef.current || crypto.randomUUID();
+      // The staff token signs the payment off; cash goes into the logged-in staff member's drawer
+      const savedStaff = localStorage.getItem('staff');
+      const response = await fetch('/api/payment/complete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': paymentKeyRef.current,
+          'X-Staff-Token': savedStaff ? JSON.parse(savedStaff).token || '' : ''
+        },
+        body: JSON.stringify({
+          sessionId: session.id,
+          paymentType: 'split',
+          tenders
+        }),
+      });
+
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to record payment');
+      }
+      // The next tender is a new payment
+      paymentKeyRef.current = null;
+
+      if (data.already_completed) {
+        alert('Payment was already completed. The table is marked as paid.');
+      } else if (data.balance_due > 0) {
+        alert(`Payment recorded (${data.payment_method}). P${data.balance_due.toFixed(2)} is still due.`);
+      } else {
+        alert(`Table bill settled: ${data.payment_method}`);
+      }
+      
+      // Reload session data to reflect changes
+      await loadSessionData();
+      setSelectedDiner(null);
+      
+    } catch (error) {
+      console.error('Error recording split payment:', error);
+      alert(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessingPayment(false);
+    }
+  };
+
   // Handle payment confirmation
   const handlePaymentConfirmed = async (paymentMethod: string) => {
     if (!session) return;
@@ -465,15 +537,18 @@ export default function ActiveSessionView() {
       const isIndividualPayment = selectedDiner !== null;
       const dinerName = isIndividualPayment ? selectedDiner.name : null;
       
+      paymentKeyRef.current = paymentKeyRef.current || crypto.randomUUID();
+      const savedStaff = localStorage.getItem('staff');
       const response = await fetch('/api/payment/complete', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': paymentKeyRef.current,
+          'X-Staff-Token': savedStaff ? JSON.parse(savedStaff).token || '' : ''
         },
         body: JSON.stringify({
           sessionId: session.id,
           paymentMethod: paymentMethod,
-          completedBy: userRole === 'kitchen' ? 'Kitchen Staff' : 'Waitstaff',
           paymentType: isIndividualPayment ? 'individual' : 'table',
           dinerName: dinerName,
           paymentAmount: paymentAmount
@@ -485,6 +560,7 @@ export default function ActiveSessionView() {
       if (!data.success) {
         throw new Error(data.error || 'Failed to complete payment');
       }
+      paymentKeyRef.current = null;
 
       // Show success message
       const paymentTypeText = isIndividualPayment ? `${dinerName}'s individual payment` : 'table payment';
@@ -548,6 +624,66 @@ export default function ActiveSessionView() {
     }
   };
 
+  // Release a held course to the kitchen
+  const fireCourse = async (course: string) => {
+    try {
+      const savedStaff = localStorage.getItem('staff');
+      const staffName = savedStaff ? JSON.parse(savedStaff).name : null;
+
+      const response = await fetch('/api/orders/fire-course', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          sessionId,
+          course,
+          staffName
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fire course');
+      }
+
+      await loadSessionData(true);
+
+    } catch (error) {
+      console.error('Error firing course:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fire course');
+    }
+  };
+
+  // Re-tag an item's course before the kitchen starts on it
+  const changeOrderCourse = async (orderItemId: string, course: string) => {
+    try {
+      const response = await fetch('/api/orders/course', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderItemId,
+          course: isCourse(course) ? course : null
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update course');
+      }
+
+      await loadSessionData(true);
+
+    } catch (error) {
+      console.error('Error updating course:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update course');
+    }
+  };
+
   // Handle manager authentication for bill adjustments
   const handleManagerAuth = async () => {
     if (!managerUsername.trim() || !managerPassword.trim()) {
@@ -682,14 +818,16 @@ export default function ActiveSessionView() {
   };
 
   // Calculate table totals - use original prices for all items
-  const tableSubtotal = orders.reduce((sum, order) => {
-    const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
-    const price = menuItem?.price || 0;
-    return sum + (price * order.quantity);
-  }, 0);
-  
-  const tableVat = tableSubtotal * 0.14;
-  const tableTotal = tableSubtotal + tableVat;
+  const tableBill = calculateBillTotals(
+    orders.map(order => {
+      const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
+      return { menuItemId: order.menu_item_id, amount: (menuItem?.price || 0) * order.quantity };
+    }),
+    taxConfig
+  );
+  const tableSubtotal = tableBill.subtotal;
+  const tableVat = tableBill.tax;
+  const tableTotal = tableBill.total;
 
   if (isLoading) {
     return (
@@ -880,6 +1018,70 @@ export default function ActiveSessionView() {
         </div>
 
 
+        {/* Courses - held courses wait here until fired to the kitchen */}
+        {orders.some(order => order.course) && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <ChefHat className="w-5 h-5 mr-2" />
+              Courses
+            </h3>
+            <div className="space-y-4">
+              {COURSES.filter(course => orders.some(order => order.course === course.value)).map(course => {
+                const courseOrders = orders.filter(order => order.course === course.value);
+                const isHeld = getHeldCourses(courseOrders).includes(course.value);
+
+                return (
+                  <div key={course.value} className={`p-4 rounded-lg border ${isHeld ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-gray-50'}`}>
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{course.label}</span>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${isHeld ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'}`}>
+                          {isHeld ? 'Held' : 'Fired'}
+                        </span>
+                      </div>
+                      {isHeld && (
+                        <button
+                          onClick={() => fireCourse(course.value)}
+                          className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
+                        >
+                          Fire {course.label}
+                        </button>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      {courseOrders.map(order => {
+                        const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
+                        return (
+                          <div key={order.id} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">
+                              {order.quantity}× {menuItem?.name || 'Unknown Item'}
+                              {order.diner_name && <span className="text-gray-500"> ({order.diner_name})</span>}
+                            </span>
+                            {order.status === 'waiting' ? (
+                              <select
+                                value={order.course || ''}
+                                onChange={(e) => changeOrderCourse(order.id, e.target.value)}
+                                className="text-xs border border-gray-300 rounded px-2 py-1 text-gray-700"
+                              >
+                                <option value="">No course</option>
+                                {COURSES.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-xs text-gray-500">{getCourseLabel(order.course)}</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Tabs - Matching Customer Live Bill Design */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
           <div className="p-6">
@@ -1061,9 +1263,15 @@ export default function ActiveSessionView() {
                       <span className="font-medium text-gray-900">P{tableSubtotal.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-gray-700">VAT (14%):</span>
+                      <span className="text-gray-700">{taxLabel}:</span>
                       <span className="font-medium text-gray-900">P{tableVat.toFixed(2)}</span>
                     </div>
+                    {tableBill.serviceCharge > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Service Charge:</span>
+                        <span className="font-medium text-gray-900">P{tableBill.serviceCharge.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-lg font-bold border-t border-gray-300 pt-2">
                       <span className="text-gray-900">Total:</span>
                       <span className="text-[#00d9ff]">P{tableTotal.toFixed(2)}</span>
@@ -1187,8 +1395,8 @@ export default function ActiveSessionView() {
                             <span className="font-medium text-gray-900">P{(diner.personalTotal + diner.sharedTotal).toFixed(2)}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-700">VAT (14%):</span>
-                            <span className="font-medium text-gray-900">P{((diner.personalTotal + diner.sharedTotal) * 0.14).toFixed(2)}</span>
+                            <span className="text-gray-700">{taxLabel}:</span>
+                            <span className="font-medium text-gray-900">P{getDinerBill(diner).tax.toFixed(2)}</span>
                           </div>
                           <div className="flex justify-between font-bold text-lg">
                             <span className="text-gray-900">Total:</span>
@@ -1425,6 +1633,8 @@ export default function ActiveSessionView() {
         paymentAmount={paymentAmount}
         paymentType={paymentType}
         onPaymentConfirmed={handlePaymentConfirmed}
+        sessionId={session?.id}
+        onSplitConfirmed={handleSplitConfirmed}
       />
     </div>
   );
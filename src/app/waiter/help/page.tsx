@@ -9,13 +9,43 @@ function WaiterHelpPageContent() {
   const searchParams = useSearchParams();
   const sessionId = searchParams.get('sessionId');
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSubmitHelp = () => {
-    // In a real app, this would send a request to the backend
-    setIsSubmitted(true);
-    setTimeout(() => {
-      setIsSubmitted(false);
-    }, 3000);
+  const handleSubmitHelp = async () => {
+    if (!sessionId) {
+      setError('No table session found. Please scan your table QR code again.');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/waiter/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          requestType: 'help',
+          dinerName: searchParams.get('dinerName')
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to send request');
+      }
+
+      setIsSubmitted(true);
+      setTimeout(() => {
+        setIsSubmitted(false);
+      }, 3000);
+    } catch (requestError) {
+      console.error('Error sending waiter request:', requestError);
+      setError(requestError instanceof Error ? requestError.message : 'Failed to send request. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
   };
 
   if (isSubmitted) {
@@ -73,11 +103,16 @@ function WaiterHelpPageContent() {
               </ul>
             </div>
 
+            {error && (
+              <p className="text-sm text-red-600 text-center">{error}</p>
+            )}
+
             <button
               onClick={handleSubmitHelp}
-              className="w-full py-3 bg-[#00d9ff] text-white rounded-lg hover:bg-[#00c4e6] transition-colors font-medium"
+              disabled={isSending}
+              className="w-full py-3 bg-[#00d9ff] text-white rounded-lg hover:bg-[#00c4e6] transition-colors font-medium disabled:opacity-50"
             >
-              Request Assistance
+              {isSending ? 'Sending...' : 'Request Assistance'}
             </button>
 
             <p className="text-xs text-gray-500 text-center">
@@ -1,7 +1,8 @@
 'use client'
 
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react'
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
+import type { Course } from '@/lib/courses'
 
 // Types
 export interface CartItem {
@@ -25,6 +26,9 @@ export interface CartItem {
   splitBillId?: string
   participants?: string[]
   hasSplitData?: boolean
+  // Set when the kitchen 86'd the item while it was in the cart
+  isUnavailable?: boolean
+  course?: Course | null
 }
 
 interface CartState {
@@ -161,9 +165,9 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 const CartContext = createContext<{
   state: CartState
   dispatch: React.Dispatch<CartAction>
-  addItem: (item: any, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[] }) => Promise<void>
+  addItem: (item: any, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[]; course?: Course | null }) => Promise<void>
   removeItem: (itemId: string) => Promise<void>
-  updateQuantity: (itemId: string, quantity: number, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[] }) => Promise<void>
+  updateQuantity: (itemId: string, quantity: number, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[]; course?: Course | null }) => Promise<void>
   updateItem: (updateData: { itemId: string; quantity: number; options: any }) => Promise<void>
   updateSplitData: (menuItemId: string, splitCount: number, sharedWith: string[], discountedPrice: number) => void
   getItemQuantity: (menuItemId: string) => number
@@ -248,8 +252,42 @@ export function CartProvider({ children, sessionId, dinerName }: { children: Rea
     }
   }, [currentSessionId, loadCartItems])
 
+  // Reload when the kitchen 86's (or restores) an item sitting in this diner's cart
+  const itemsRef = useRef(state.items)
+  itemsRef.current = state.items
+
+  useEffect(() => {
+    if (!currentSessionId || !state.dinerName) {
+      return
+    }
+
+    const channel = supabase
+      .channel(`cart-availability-${currentSessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'orders',
+          filter: `session_id=eq.${currentSessionId}`
+        },
+        (payload) => {
+          const order = payload.new as { id: string; status: string; unavailable_at: string | null }
+          const cartItem = itemsRef.current.find(item => item.id === order.id)
+          if (order.status === 'cart' && cartItem && Boolean(order.unavailable_at) !== Boolean(cartItem.isUnavailable)) {
+            loadCartItems()
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentSessionId, state.dinerName, loadCartItems])
+
   // Add item to cart
-  const addItem = async (item: any, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[] }) => {
+  const addItem = async (item: any, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[]; course?: Course | null }) => {
     if (!currentSessionId) {
       console.error('❌ CartContext - No session ID available');
       dispatch({ type: 'SET_ERROR', payload: 'No session ID available' })
@@ -319,7 +357,7 @@ export function CartProvider({ children, sessionId, dinerName }: { children: Rea
   }
 
   // Update item quantity
-  const updateQuantity = async (itemId: string, quantity: number, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[] }) => {
+  const updateQuantity = async (itemId: string, quantity: number, options?: { notes?: string; isShared?: boolean; isTakeaway?: boolean; customizations?: any[]; course?: Course | null }) => {
     if (!currentSessionId) {
       console.error('❌ CartContext - No session ID available for updateQuantity');
       return
@@ -0,0 +1,138 @@
+// hooks/useRealtimeEvents.ts
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { RealtimeEvent, RealtimeEventType, RESYNC_EVENT } from '@/lib/realtime-events'
+
+interface UseRealtimeEventsOptions {
+  types: RealtimeEventType[]
+  sessionId?: string | null
+  enabled?: boolean
+  /** Called for every pushed event */
+  onEvent?: (event: RealtimeEvent) => void
+  /** Reloads the screen's data; debounced after events, called at once on resync and polled while disconnected */
+  refresh?: () => void
+  fallbackIntervalMs?: number
+}
+
+// Bursts (e.g. a whole order confirmed at once) collapse into one refresh
+const REFRESH_DEBOUNCE_MS = 300
+
+// Staff and manager logins store the token that opens their restaurant's stream
+const getStoredEventsToken = (): string | null => {
+  for (const key of ['staff', 'manager']) {
+    try {
+      const token = JSON.parse(localStorage.getItem(key) || 'null')?.eventsToken
+      if (token) return token
+    } catch {
+      // Not a stored login
+    }
+  }
+  return null
+}
+
+// Backoff for reconnecting after the browser gives up on the stream
+const MIN_RECONNECT_MS = 1000
+const MAX_RECONNECT_MS = 30000
+
+/**
+ * Subscribe to notification, order-status and payment events from /api/events
+ * Missed events are replayed after a reconnect (or a resync asks for a refresh); while the
+ * stream is down, refresh is polled on the old 30 second interval
+ */
+export function useRealtimeEvents({
+  types,
+  sessionId,
+  enabled = true,
+  onEvent,
+  refresh,
+  fallbackIntervalMs = 30000
+}: UseRealtimeEventsOptions): { connected: boolean } {
+  const [connected, setConnected] = useState(false)
+
+  // Latest callbacks without resubscribing on every render
+  const onEventRef = useRef(onEvent)
+  const refreshRef = useRef(refresh)
+  onEventRef.current = onEvent
+  refreshRef.current = refresh
+
+  const typesKey = types.join(',')
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof EventSource === 'undefined') return
+
+    let source: EventSource | null = null
+    let lastEventId: string | null = null
+    let reconnectDelay = MIN_RECONNECT_MS
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null
+    let closed = false
+    let wasOpen = false
+
+    const scheduleRefresh = () => {
+      if (refreshTimer) clearTimeout(refreshTimer)
+      refreshTimer = setTimeout(() => refreshRef.current?.(), REFRESH_DEBOUNCE_MS)
+    }
+
+    const open = () => {
+      const params = new URLSearchParams({ types: typesKey })
+      if (sessionId) params.set('sessionId', sessionId)
+      const token = getStoredEventsToken()
+      if (token) params.set('token', token)
+      if (lastEventId) params.set('lastEventId', lastEventId)
+
+      source = new EventSource(`/api/events?${params.toString()}`)
+
+      source.onopen = () => {
+        reconnectDelay = MIN_RECONNECT_MS
+        setConnected(true)
+        // Nothing to replay from, so reload anything missed while the stream was down
+        if (wasOpen && !lastEventId) refreshRef.current?.()
+        wasOpen = true
+      }
+
+      const handleEvent = (message: MessageEvent) => {
+        if (message.lastEventId) lastEventId = message.lastEventId
+        try {
+          onEventRef.current?.(JSON.parse(message.data) as RealtimeEvent)
+        } catch (error) {
+          console.error('❌ Failed to handle realtime event:', error)
+        }
+        scheduleRefresh()
+      }
+
+      typesKey.split(',').forEach(type => source?.addEventListener(type, handleEvent as EventListener))
+      source.addEventListener(RESYNC_EVENT, () => refreshRef.current?.())
+
+      source.onerror = () => {
+        setConnected(false)
+        // The browser retries on its own unless the stream was refused outright
+        if (source?.readyState === EventSource.CLOSED && !closed) {
+          source.close()
+          reconnectTimer = setTimeout(open, reconnectDelay)
+          reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_MS)
+        }
+      }
+    }
+
+    open()
+
+    return () => {
+      closed = true
+      source?.close()
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      if (refreshTimer) clearTimeout(refreshTimer)
+      setConnected(false)
+    }
+  }, [enabled, typesKey, sessionId])
+
+  // Fall back to polling while the stream is down
+  useEffect(() => {
+    if (!enabled || connected || !refreshRef.current) return
+
+    const interval = setInterval(() => refreshRef.current?.(), fallbackIntervalMs)
+    return () => clearInterval(interval)
+  }, [enabled, connected, fallbackIntervalMs])
+
+  return { connected }
+}
@@ -0,0 +1,50 @@
+// hooks/useTaxConfig.ts
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DEFAULT_TAX_CONFIG, TaxConfig } from '@/lib/tax-engine'
+
+/**
+ * Fetch the tax rules for a session, falling back to the defaults
+ */
+export async function fetchTaxConfig(sessionId: string): Promise<TaxConfig> {
+  try {
+    const response = await fetch(`/api/sessions/${sessionId}/tax-config`)
+    if (!response.ok) {
+      console.warn('⚠️ Could not load tax config, using defaults')
+      return DEFAULT_TAX_CONFIG
+    }
+
+    const result = await response.json()
+    return result.taxConfig || DEFAULT_TAX_CONFIG
+  } catch (error) {
+    console.warn('⚠️ Failed to load tax config, using defaults:', error)
+    return DEFAULT_TAX_CONFIG
+  }
+}
+
+/**
+ * Load the tax rules for a session so client-side totals match the server
+ * Returns the default config until the session's config has loaded
+ */
+export function useTaxConfig(sessionId?: string | null): TaxConfig {
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(DEFAULT_TAX_CONFIG)
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    let cancelled = false
+
+    fetchTaxConfig(sessionId).then(config => {
+      if (!cancelled) {
+        setTaxConfig(config)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  return taxConfig
+}
@@ -16,7 +16,11 @@ export type AuditAction =
   | 'staff_logout'
   | 'pin_generation'
   | 'order_status_change'
+  | 'menu_item_availability_change'
   | 'payment_processing'
+  | 'payment_refund'
+  | 'cash_paid_out'
+  | 'cash_drawer_close'
   | 'session_creation'
   | 'session_completion'
   | 'system_configuration_change'
@@ -97,6 +101,83 @@ export async function logManagerBillAdjustment(
   }, request);
 }
 
+/**
+ * Log a refund against a completed payment
+ */
+export async function logPaymentRefund(
+  sessionId: string | null,
+  details: {
+    refund_reference: string;
+    original_reference: string;
+    original_receipt?: string | null;
+    credit_note?: string | null;
+    amount: number;
+    refund_method: string;
+    items?: { name: string; quantity: number; amount: number }[];
+    reason: string;
+    authorized_by: string;
+  },
+  request?: Request
+): Promise<void> {
+  await createAuditLog({
+    ...(sessionId ? { session_id: sessionId } : {}),
+    action: 'payment_refund',
+    details: {
+      ...details,
+      timestamp: new Date().toISOString()
+    },
+    performed_by: details.authorized_by
+  }, request);
+}
+
+/**
+ * Log cash taken out of a drawer
+ */
+export async function logCashPaidOut(
+  details: {
+    drawer_session_id: string;
+    terminal: string;
+    amount: number;
+    reason: string;
+    recorded_by: string;
+  },
+  request?: Request
+): Promise<void> {
+  await createAuditLog({
+    action: 'cash_paid_out',
+    details: {
+      ...details,
+      timestamp: new Date().toISOString()
+    },
+    performed_by: details.recorded_by
+  }, request);
+}
+
+/**
+ * Log an end-of-shift cash-up
+ */
+export async function logCashDrawerClose(
+  details: {
+    drawer_session_id: string;
+    terminal: string;
+    staff_name: string;
+    expected_cash: number;
+    counted_cash: number;
+    variance: number;
+    closed_by: string;
+  },
+  request?: Request
+): Promise<void> {
+  await createAuditLog({
+    action: 'cash_drawer_close',
+    details: {
+      ...details,
+      timestamp: new Date().toISOString()
+    },
+    performed_by: details.closed_by
+  }, request);
+}
+
 /**
  * Log table transfer
  */
@@ -0,0 +1,442 @@
+// Cash drawers
+// Cash-up sessions for the cash kept on a terminal: a drawer is opened for a staff member with an opening float,
+// cash payments and cash refunds recorded while it is open are linked to it, and paid-outs are taken from it.
+// At the end of the shift the cash is counted note by note and compared with what the drawer should hold
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getPaymentTotal, normalizePaymentRow, Payment } from './payments';
+
+export type CashDrawerStatus = 'open' | 'closed';
+
+export interface CashDrawer {
+  id: string;
+  restaurant_id: string;
+  terminal: string;
+  staff_id: string | null;
+  staff_name: string;
+  status: CashDrawerStatus;
+  opening_float: number;
+  opened_by: string;
+  opened_at: string;
+  denominations: Record<string, number> | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  variance: number | null; // counted less expected: negative is a shortage
+  closed_by: string | null;
+  closed_at: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CashPaidOut {
+  id: string;
+  drawer_session_id: string;
+  amount: number;
+  reason: string;
+  recorded_by: string;
+  created_at: string;
+}
+
+export interface CashDrawerSummary {
+  drawer: CashDrawer;
+  cashSales: number; // cash payments including tips
+  cashRefunds: number; // cash handed back, as a positive amount
+  paidOut: number;
+  expectedCash: number; // at cash-up for closed drawers, otherwise as it stands
+  payments: Payment[]; // cash payments and refunds, oldest first
+  paidOuts: CashPaidOut[];
+}
+
+export interface NewCashDrawer {
+  terminal: string;
+  staffId?: string | null;
+  staffName: string;
+  openingFloat: number;
+  openedBy: string;
+}
+
+/**
+ * Pula notes and coins counted at cash-up, largest first
+ */
+export const CASH_DENOMINATIONS = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05];
+
+export const MAX_PAID_OUT_REASON_LENGTH = 200;
+
+// Postgres unique_violation - the terminal already has an open drawer
+const UNIQUE_VIOLATION = '23505';
+
+// Postgres error codes raised by close_cash_drawer() and record_cash_paid_out()
+const NO_DATA_FOUND = 'P0002';
+const OBJECT_NOT_IN_PREREQUISITE_STATE = '55000';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const toNullableNumber = (value: unknown) => value === null || value === undefined ? null : Number(value);
+
+const normalizeDrawerRow = (row: any): CashDrawer => ({
+  ...row,
+  opening_float: Number(row.opening_float) || 0,
+  counted_cash: toNullableNumber(row.counted_cash),
+  expected_cash: toNullableNumber(row.expected_cash),
+  variance: toNullableNumber(row.variance)
+});
+
+const normalizePaidOutRow = (row: any): CashPaidOut => ({
+  ...row,
+  amount: Number(row.amount) || 0
+});
+
+/**
+ * Check a denomination count and total it
+ * Keys are denominations as written in CASH_DENOMINATIONS; denominations left out count as none
+ */
+export function countDenominations(counts: Record<string, unknown>): { denominations: Record<string, number>; total: number } {
+  if (!counts || typeof counts !== 'object' || Array.isArray(counts)) {
+    throw new AppError('A count for each denomination is required', 'INVALID_CASH_COUNT', 'low');
+  }
+
+  const denominations: Record<string, number> = {};
+  let cents = 0;
+
+  for (const [key, value] of Object.entries(counts)) {
+    const denomination = CASH_DENOMINATIONS.find(candidate => String(candidate) === key);
+    const count = Number(value);
+    if (denomination === undefined) {
+      throw new AppError(`Unknown denomination: ${key}`, 'INVALID_CASH_COUNT', 'low');
+    }
+    if (!Number.isInteger(count) || count < 0) {
+      throw new AppError(`Count for P${key} must be a whole number of at least 0`, 'INVALID_CASH_COUNT', 'low');
+    }
+    if (count > 0) {
+      denominations[key] = count;
+      cents += Math.round(denomination * 100) * count;
+    }
+  }
+
+  return { denominations, total: cents / 100 };
+}
+
+/**
+ * A drawer as shown on the cash-up report
+ */
+export function toCashDrawerReport(summary: CashDrawerSummary) {
+  const { drawer } = summary;
+  return {
+    id: drawer.id,
+    terminal: drawer.terminal,
+    staff_id: drawer.staff_id,
+    staff_name: drawer.staff_name,
+    status: drawer.status,
+    opening_float: drawer.opening_float,
+    opened_by: drawer.opened_by,
+    opened_at: drawer.opened_at,
+    cash_sales: summary.cashSales,
+    cash_refunds: summary.cashRefunds,
+    paid_out: summary.paidOut,
+    expected_cash: summary.expectedCash,
+    counted_cash: drawer.counted_cash,
+    variance: drawer.variance,
+    denominations: drawer.denominations,
+    closed_by: drawer.closed_by,
+    closed_at: drawer.closed_at,
+    notes: drawer.notes,
+    payment_count: summary.payments.filter(payment => payment.entry_type === 'payment').length,
+    paid_outs: summary.paidOuts.map(paidOut => ({
+      id: paidOut.id,
+      amount: paidOut.amount,
+      reason: paidOut.reason,
+      recorded_by: paidOut.recorded_by,
+      created_at: paidOut.created_at
+    }))
+  };
+}
+
+export async function getCashDrawer(drawerId: string): Promise<CashDrawer | null> {
+  const { data, error } = await supabaseServer
+    .from('cash_drawer_sessions')
+    .select('*')
+    .eq('id', drawerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load cash drawer: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizeDrawerRow(data) : null;
+}
+
+/**
+ * A restaurant's drawers, newest first; closed drawers are limited to those opened since the given time
+ */
+export async function getCashDrawers(
+  restaurantId: string,
+  options: { status?: CashDrawerStatus; since?: string; limit?: number } = {}
+): Promise<CashDrawer[]> {
+  let query = supabaseServer
+    .from('cash_drawer_sessions')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('opened_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options.since) {
+    query = query.or(`status.eq.open,opened_at.gte.${options.since}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new AppError(`Failed to load cash drawers: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizeDrawerRow);
+}
+
+/**
+ * Open a drawer on a terminal; each terminal has at most one open drawer
+ */
+export async function openCashDrawer(restaurantId: string, request: NewCashDrawer): Promise<CashDrawer> {
+  const terminal = typeof request.terminal === 'string' ? request.terminal.trim() : '';
+  const staffName = typeof request.staffName === 'string' ? request.staffName.trim() : '';
+  const openingFloat = roundMoney(Number(request.openingFloat));
+
+  if (!terminal || !staffName) {
+    throw new AppError('Terminal and staff member are required', 'INVALID_CASH_DRAWER', 'low');
+  }
+  if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+    throw new AppError('Opening float cannot be negative', 'INVALID_CASH_DRAWER', 'low');
+  }
+
+  const { data, error } = await supabaseServer
+    .from('cash_drawer_sessions')
+    .insert({
+      restaurant_id: restaurantId,
+      terminal,
+      staff_id: request.staffId && UUID_PATTERN.test(request.staffId) ? request.staffId : null,
+      staff_name: staffName,
+      status: 'open',
+      opening_float: openingFloat,
+      opened_by: request.openedBy
+    })
+    .select('*')
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new AppError(`${terminal} already has an open drawer; cash it up first`, 'CASH_DRAWER_ALREADY_OPEN', 'low');
+  }
+  if (error || !data) {
+    throw new AppError(`Failed to open cash drawer: ${error?.message || 'no drawer returned'}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return normalizeDrawerRow(data);
+}
+
+/**
+ * Take cash out of an open drawer
+ */
+export async function recordPaidOut(
+  drawerId: string,
+  request: { amount: number; reason: string; recordedBy: string }
+): Promise<CashPaidOut> {
+  const amount = roundMoney(Number(request.amount));
+  const reason = typeof request.reason === 'string' ? request.reason.trim() : '';
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new AppError('Paid-out must be a positive amount', 'INVALID_CASH_DRAWER', 'low');
+  }
+  if (!reason || reason.length > MAX_PAID_OUT_REASON_LENGTH) {
+    throw new AppError(`A reason of at most ${MAX_PAID_OUT_REASON_LENGTH} characters is required`, 'INVALID_CASH_DRAWER', 'low');
+  }
+
+  // Checked and inserted under a lock on the drawer, so a paid-out cannot land after its cash-up
+  const { data, error } = await supabaseServer.rpc('record_cash_paid_out', {
+    p_drawer_id: drawerId,
+    p_amount: amount,
+    p_reason: reason,
+    p_recorded_by: request.recordedBy
+  });
+
+  throwIfDrawerNotOpen(error);
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    throw new AppError(`Failed to record paid-out: ${error?.message || 'no paid-out returned'}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return normalizePaidOutRow(row);
+}
+
+/**
+ * Cash taken, refunded and paid out on each drawer, and what each should hold
+ */
+export async function getCashDrawerSummaries(drawers: CashDrawer[]): Promise<CashDrawerSummary[]> {
+  const drawerIds = drawers.map(drawer => drawer.id);
+  if (drawerIds.length === 0) {
+    return [];
+  }
+
+  const [paymentsResult, paidOutsResult] = await Promise.all([
+    supabaseServer
+      .from('payments')
+      .select('*')
+      .in('cash_drawer_session_id', drawerIds)
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: true }),
+    supabaseServer
+      .from('cash_paid_outs')
+      .select('*')
+      .in('drawer_session_id', drawerIds)
+      .order('created_at', { ascending: true })
+  ]);
+
+  if (paymentsResult.error) {
+    throw new AppError(`Failed to load drawer payments: ${paymentsResult.error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (paidOutsResult.error) {
+    throw new AppError(`Failed to load paid-outs: ${paidOutsResult.error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  const payments = (paymentsResult.data || []).map(normalizePaymentRow);
+  const paidOuts = (paidOutsResult.data || []).map(normalizePaidOutRow);
+
+  return drawers.map(drawer => {
+    const drawerPayments = payments.filter(payment => payment.cash_drawer_session_id === drawer.id);
+    const drawerPaidOuts = paidOuts.filter(paidOut => paidOut.drawer_session_id === drawer.id);
+    const cashSales = roundMoney(drawerPayments
+      .filter(payment => payment.entry_type === 'payment')
+      .reduce((sum, payment) => sum + getPaymentTotal(payment), 0));
+    const cashRefunds = roundMoney(-drawerPayments
+      .filter(payment => payment.entry_type === 'refund')
+      .reduce((sum, payment) => sum + getPaymentTotal(payment), 0));
+    const paidOut = roundMoney(drawerPaidOuts.reduce((sum, paidOut) => sum + paidOut.amount, 0));
+
+    return {
+      drawer,
+      cashSales,
+      cashRefunds,
+      paidOut,
+      expectedCash: drawer.expected_cash ?? roundMoney(drawer.opening_float + cashSales - cashRefunds - paidOut),
+      payments: drawerPayments,
+      paidOuts: drawerPaidOuts
+    };
+  });
+}
+
+export async function getCashDrawerSummary(drawerId: string): Promise<CashDrawerSummary> {
+  const drawer = await getCashDrawer(drawerId);
+  if (!drawer) {
+    throw new AppError('Cash drawer not found', 'CASH_DRAWER_NOT_FOUND', 'low');
+  }
+
+  const [summary] = await getCashDrawerSummaries([drawer]);
+  return summary;
+}
+
+// Map the errors the drawer functions raise when the drawer is missing or already cashed up
+function throwIfDrawerNotOpen(error: { code?: string } | null) {
+  if (error?.code === NO_DATA_FOUND) {
+    throw new AppError('Cash drawer not found', 'CASH_DRAWER_NOT_FOUND', 'low');
+  }
+  if (error?.code === OBJECT_NOT_IN_PREREQUISITE_STATE) {
+    throw new AppError('This drawer has already been cashed up', 'CASH_DRAWER_NOT_OPEN', 'low');
+  }
+}
+
+/**
+ * Cash up a drawer: total the counted notes and coins and fix expected cash and the variance
+ * Expected cash is worked out under the same lock that closes the drawer; cash recorded after this goes to
+ * whichever drawer is open then
+ */
+export async function closeCashDrawer(
+  drawerId: string,
+  request: { denominations: Record<string, unknown>; closedBy: string; notes?: string | null }
+): Promise<CashDrawerSummary> {
+  const { denominations, total: countedCash } = countDenominations(request.denominations);
+
+  const { data, error } = await supabaseServer.rpc('close_cash_drawer', {
+    p_drawer_id: drawerId,
+    p_denominations: denominations,
+    p_counted_cash: countedCash,
+    p_closed_by: request.closedBy,
+    p_notes: typeof request.notes === 'string' && request.notes.trim() ? request.notes.trim() : null
+  });
+
+  throwIfDrawerNotOpen(error);
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    throw new AppError(`Failed to close cash drawer: ${error?.message || 'no drawer returned'}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  const [summary] = await getCashDrawerSummaries([normalizeDrawerRow(row)]);
+  return summary;
+}
+
+// The open drawer cash goes into: the one asked for, the staff member's own, or the only one open
+async function findOpenDrawer(
+  restaurantId: string,
+  options: { cashDrawerId?: string | null; staffId?: string | null }
+): Promise<CashDrawer | null> {
+  const openDrawers = await getCashDrawers(restaurantId, { status: 'open' });
+
+  if (options.cashDrawerId) {
+    return openDrawers.find(drawer => drawer.id === options.cashDrawerId) || null;
+  }
+
+  const staffDrawers = options.staffId
+    ? openDrawers.filter(drawer => drawer.staff_id === options.staffId)
+    : [];
+  if (staffDrawers.length === 1) {
+    return staffDrawers[0];
+  }
+
+  return openDrawers.length === 1 ? openDrawers[0] : null;
+}
+
+/**
+ * Put the cash entries among these ledger rows in an open drawer
+ * Returns the drawer used, or null when there was no cash or no drawer to put it in
+ */
+export async function assignCashToDrawer(
+  payments: Payment[],
+  options: { cashDrawerId?: string | null; staffId?: string | null } = {}
+): Promise<CashDrawer | null> {
+  const cashPayments = payments.filter(payment => payment.payment_method === 'cash');
+  if (cashPayments.length === 0) {
+    return null;
+  }
+
+  try {
+    const drawer = await findOpenDrawer(cashPayments[0].restaurant_id, options);
+    if (!drawer) {
+      console.error('⚠️ No open cash drawer for cash payments:', cashPayments.map(payment => payment.reference));
+      return null;
+    }
+
+    // Linked only while the drawer is still open; a cash-up in progress is waited for, not slipped past
+    const { data, error } = await supabaseServer.rpc('assign_cash_to_drawer', {
+      p_drawer_id: drawer.id,
+      p_payment_ids: cashPayments.map(payment => payment.id)
+    });
+
+    if (error) {
+      console.error('⚠️ Failed to put cash payments in the drawer:', error);
+      return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row?.id) {
+      console.error('⚠️ Cash drawer was cashed up before cash payments reached it:', cashPayments.map(payment => payment.reference));
+      return null;
+    }
+
+    return normalizeDrawerRow(row);
+  } catch (drawerError) {
+    console.error('⚠️ Failed to find a cash drawer:', drawerError);
+    return null;
+  }
+}
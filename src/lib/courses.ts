@@ -0,0 +1,76 @@
+// Course sequencing
+// Tags order items as starter/main/dessert and decides which courses the kitchen holds
+// until the waiter fires them; used by /api/orders/confirm, the kitchen display and the staff session view
+
+export type Course = 'starter' | 'main' | 'dessert';
+
+export const COURSES: { value: Course; label: string }[] = [
+  { value: 'starter', label: 'Starter' },
+  { value: 'main', label: 'Main' },
+  { value: 'dessert', label: 'Dessert' }
+];
+
+export interface CoursedItem {
+  course?: string | null;
+  status: string;
+  held?: boolean | null;
+}
+
+// Menu categories that default to a course; anything else is a main, drinks have no course
+const STARTER_CATEGORIES = ['starters', 'appetizers', 'salads', 'soups', 'snacks'];
+const DESSERT_CATEGORIES = ['desserts'];
+const UNCOURSED_CATEGORIES = ['cold_drinks', 'hot beverages', 'beverages'];
+
+export function isCourse(value: unknown): value is Course {
+  return COURSES.some(course => course.value === value);
+}
+
+export function getCourseLabel(course?: string | null): string {
+  return COURSES.find(entry => entry.value === course)?.label || 'No course';
+}
+
+/**
+ * Course an item gets when nobody tagged it, based on its menu category
+ * Returns null for items that should never be held (drinks)
+ */
+export function getDefaultCourse(category?: string | null): Course | null {
+  const normalized = (category || '').trim().toLowerCase();
+  if (UNCOURSED_CATEGORIES.includes(normalized)) {
+    return null;
+  }
+  if (STARTER_CATEGORIES.includes(normalized)) {
+    return 'starter';
+  }
+  if (DESSERT_CATEGORIES.includes(normalized)) {
+    return 'dessert';
+  }
+  return 'main';
+}
+
+const courseIndex = (course: Course) => COURSES.findIndex(entry => entry.value === course);
+
+/**
+ * Whether a newly confirmed item should be held
+ * An item is held when an earlier course at the table is still held or not yet served,
+ * so mains wait for starters and desserts wait for mains; the first course always fires.
+ */
+export function shouldHoldItem(course: string | null | undefined, tableItems: CoursedItem[]): boolean {
+  if (!isCourse(course)) {
+    return false;
+  }
+
+  return tableItems.some(item =>
+    isCourse(item.course) &&
+    courseIndex(item.course) < courseIndex(course) &&
+    (item.held || item.status !== 'served')
+  );
+}
+
+/**
+ * Courses that have held items waiting to be fired, in course order
+ */
+export function getHeldCourses(items: CoursedItem[]): Course[] {
+  return COURSES
+    .map(course => course.value)
+    .filter(course => items.some(item => item.course === course && item.held));
+}
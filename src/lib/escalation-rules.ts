@@ -0,0 +1,89 @@
+// Escalation rules
+// Decides when an unacknowledged staff notification escalates from the assigned waiter to all floor
+// staff and then to the manager; shared by the escalation job and the staff screens
+
+export type EscalationTarget = 'floor' | 'manager';
+
+export interface EscalationRule {
+  level: number;
+  target: EscalationTarget;
+  afterMinutes: number;
+}
+
+export interface EscalationEntry {
+  level: number;
+  target: EscalationTarget;
+  escalated_at: string;
+  pending_seconds: number; // how long the notification had been waiting
+  notified: string[]; // staff names the notification went to
+}
+
+export interface EscalatableNotification {
+  type: string;
+  status: string;
+  created_at: string;
+  escalation_level?: number | null;
+}
+
+/**
+ * Notification types that escalate when nobody acknowledges them
+ */
+export const ESCALATING_NOTIFICATION_TYPES = ['customer_help', 'waiter_request', 'payment_request', 'kitchen_ready'];
+
+/**
+ * Staff roles that count as floor staff
+ */
+export const FLOOR_STAFF_ROLES = ['waiter', 'server'];
+
+export const MANAGER_ROLES = ['manager'];
+
+export const MAX_ESCALATION_LEVEL = 2;
+
+/**
+ * A restaurant's escalation steps in order; a threshold of 0 turns that step off
+ */
+export function getEscalationRules(settings: {
+  escalation_floor_minutes: number;
+  escalation_manager_minutes: number;
+}): EscalationRule[] {
+  const rules: EscalationRule[] = [
+    { level: 1, target: 'floor', afterMinutes: settings.escalation_floor_minutes },
+    { level: 2, target: 'manager', afterMinutes: settings.escalation_manager_minutes }
+  ];
+  return rules.filter(rule => rule.afterMinutes > 0);
+}
+
+/**
+ * The step a notification is due for now, or null
+ * When several steps are overdue (e.g. the job didn't run) it jumps straight to the highest
+ */
+export function getDueEscalation(
+  notification: EscalatableNotification,
+  rules: EscalationRule[],
+  now: Date = new Date()
+): EscalationRule | null {
+  if (notification.status !== 'pending' || !ESCALATING_NOTIFICATION_TYPES.includes(notification.type)) {
+    return null;
+  }
+
+  const pendingMinutes = (now.getTime() - new Date(notification.created_at).getTime()) / 60000;
+  const currentLevel = notification.escalation_level || 0;
+
+  const due = rules.filter(rule => rule.level > currentLevel && pendingMinutes >= rule.afterMinutes);
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+/**
+ * Badge for an escalated notification; escalated notifications are shown to every floor staff member
+ */
+export function getEscalationBadge(escalationLevel: number | null | undefined): string | null {
+  if ((escalationLevel || 0) >= 2) {
+    return 'MANAGER';
+  }
+  return (escalationLevel || 0) >= 1 ? 'ALL FLOOR' : null;
+}
+
+export function describeEscalation(entry: Pick<EscalationEntry, 'target' | 'pending_seconds'>): string {
+  const minutes = Math.max(1, Math.round(entry.pending_seconds / 60));
+  return `${entry.target === 'manager' ? 'Escalated to the manager' : 'Escalated to all floor staff'} after ${minutes} min`;
+}
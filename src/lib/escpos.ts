@@ -0,0 +1,349 @@
+// ESC/POS rendering
+// Turns confirmed order batches into kitchen chits and completed payments into customer receipts
+// as raw ESC/POS bytes for network thermal printers; queued and sent by src/lib/print-queue.ts
+
+import { SelectedModifier } from './menu-modifiers';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const COMMANDS = {
+  init: [ESC, 0x40],
+  alignLeft: [ESC, 0x61, 0],
+  alignCenter: [ESC, 0x61, 1],
+  boldOn: [ESC, 0x45, 1],
+  boldOff: [ESC, 0x45, 0],
+  doubleSize: [GS, 0x21, 0x11],
+  normalSize: [GS, 0x21, 0x00],
+  feedAndCut: [GS, 0x56, 0x42, 0x03] // feed 3 lines, then partial cut
+};
+
+/**
+ * Characters per line for 80mm paper in the default font
+ */
+export const DEFAULT_LINE_WIDTH = 42;
+
+export interface KitchenTicketItem {
+  name: string;
+  quantity: number;
+  notes?: string | null;
+  customizations?: SelectedModifier[] | null;
+  dinerName?: string | null;
+  isTakeaway?: boolean | null;
+  held?: boolean | null;
+}
+
+export interface KitchenTicket {
+  tableNumber: string;
+  stationName?: string | null;
+  serverName?: string | null;
+  heading?: string; // e.g. 'NEW ORDER' or 'FIRE MAINS'
+  items: KitchenTicketItem[];
+  createdAt: string;
+}
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  amount: number;
+  customizations?: SelectedModifier[] | null;
+}
+
+export interface Receipt {
+  restaurantName: string;
+  receiptNumber?: string | null; // fiscal number, e.g. R-000042
+  tableNumber?: string | null;
+  reference: string;
+  paymentMethod: string;
+  completedAt: string;
+  completedBy?: string | null;
+  items: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxLabel: string;
+  pricesIncludeTax: boolean;
+  serviceCharge: number;
+  total: number;
+  currencySymbol?: string;
+}
+
+export interface CreditNote {
+  restaurantName: string;
+  creditNoteNumber: string;
+  originalReceiptNumber: string;
+  tableNumber?: string | null;
+  amount: number;
+  reason: string;
+  issuedAt: string;
+  issuedBy?: string | null;
+  currencySymbol?: string;
+}
+
+/**
+ * Replace characters the printer's default code page can't print
+ * Accents are stripped (é -> e) and anything else outside printable ASCII becomes '?'
+ */
+export function toPrintableText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * Word-wrap text to the line width, breaking words longer than a line
+ * Leading spaces indent every wrapped line
+ */
+export function wrapText(text: string, width: number): string[] {
+  const indent = text.match(/^ */)?.[0] || '';
+  if (indent) {
+    return wrapText(text.slice(indent.length), Math.max(width - indent.length, 1)).map(line => indent + line);
+  }
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let remaining = word;
+    while (remaining.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(remaining.slice(0, width));
+      remaining = remaining.slice(width);
+    }
+
+    if (!current) {
+      current = remaining;
+    } else if (current.length + 1 + remaining.length <= width) {
+      current += ` ${remaining}`;
+    } else {
+      lines.push(current);
+      current = remaining;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Left text and right-aligned text on one line; the left side wraps if both don't fit
+ */
+export function columns(left: string, right: string, width: number): string[] {
+  const leftLines = wrapText(left, Math.max(width - right.length - 1, 1));
+  const last = leftLines[leftLines.length - 1];
+  leftLines[leftLines.length - 1] = last + ' '.repeat(Math.max(width - last.length - right.length, 1)) + right;
+  return leftLines;
+}
+
+// Minimal document builder; text is sanitised to ASCII so one byte per character
+const createDocument = () => {
+  const bytes: number[] = [...COMMANDS.init];
+
+  const doc = {
+    command: (command: number[]) => {
+      bytes.push(...command);
+      return doc;
+    },
+    line: (text = '') => {
+      for (const char of toPrintableText(text)) {
+        bytes.push(char.charCodeAt(0));
+      }
+      bytes.push(LF);
+      return doc;
+    },
+    lines: (texts: string[]) => {
+      texts.forEach(text => doc.line(text));
+      return doc;
+    },
+    toBytes: () => Uint8Array.from([...bytes, ...COMMANDS.feedAndCut])
+  };
+
+  return doc;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' });
+
+const modifierLabel = (modifier: SelectedModifier) => `${modifier.group_name}: ${modifier.option_name}`;
+
+/**
+ * Render a kitchen chit: large table number and quantities, modifiers and notes indented below each item
+ */
+export function renderKitchenTicket(ticket: KitchenTicket, width: number = DEFAULT_LINE_WIDTH): Uint8Array {
+  const doc = createDocument();
+  const rule = '-'.repeat(width);
+
+  doc.command(COMMANDS.alignCenter)
+    .command(COMMANDS.boldOn)
+    .line(ticket.heading || 'NEW ORDER')
+    .command(COMMANDS.doubleSize)
+    .line(`TABLE ${ticket.tableNumber}`)
+    .command(COMMANDS.normalSize)
+    .command(COMMANDS.boldOff);
+
+  if (ticket.stationName) {
+    doc.line(ticket.stationName.toUpperCase());
+  }
+
+  doc.command(COMMANDS.alignLeft)
+    .lines(columns(ticket.serverName ? `Server: ${ticket.serverName}` : '', formatTime(ticket.createdAt), width))
+    .line(rule);
+
+  for (const item of ticket.items) {
+    // Double size halves the line width
+    doc.command(COMMANDS.boldOn)
+      .command(COMMANDS.doubleSize)
+      .lines(wrapText(`${item.quantity} x ${item.name}`, Math.floor(width / 2)))
+      .command(COMMANDS.normalSize)
+      .command(COMMANDS.boldOff);
+
+    for (const modifier of item.customizations || []) {
+      doc.lines(wrapText(`  + ${modifierLabel(modifier)}`, width));
+    }
+    if (item.notes) {
+      doc.lines(wrapText(`  NOTE: ${item.notes}`, width));
+    }
+    if (item.isTakeaway) {
+      doc.line('  ** TAKEAWAY **');
+    }
+    if (item.held) {
+      doc.line('  ** HOLD - WAIT FOR FIRE **');
+    }
+    if (item.dinerName) {
+      doc.line(`  for ${item.dinerName}`);
+    }
+  }
+
+  return doc.line(rule).toBytes();
+}
+
+/**
+ * Render a customer receipt with line items, totals and the payment reference
+ */
+export function renderReceipt(receipt: Receipt, width: number = DEFAULT_LINE_WIDTH): Uint8Array {
+  const doc = createDocument();
+  const rule = '-'.repeat(width);
+  const money = (amount: number) => `${receipt.currencySymbol || 'P'}${amount.toFixed(2)}`;
+
+  doc.command(COMMANDS.alignCenter)
+    .command(COMMANDS.boldOn)
+    .command(COMMANDS.doubleSize)
+    .lines(wrapText(receipt.restaurantName, Math.floor(width / 2)))
+    .command(COMMANDS.normalSize)
+    .command(COMMANDS.boldOff)
+    .line(formatTime(receipt.completedAt));
+
+  if (receipt.receiptNumber) {
+    doc.command(COMMANDS.boldOn)
+      .line(`Receipt No ${receipt.receiptNumber}`)
+      .command(COMMANDS.boldOff);
+  }
+  if (receipt.tableNumber) {
+    doc.line(`Table ${receipt.tableNumber}`);
+  }
+
+  doc.command(COMMANDS.alignLeft).line(rule);
+
+  for (const item of receipt.items) {
+    doc.lines(columns(`${item.quantity} x ${item.name}`, money(item.amount), width));
+    for (const modifier of item.customizations || []) {
+      doc.lines(wrapText(`  + ${modifierLabel(modifier)}`, width));
+    }
+  }
+
+  doc.line(rule).lines(columns('Subtotal', money(receipt.subtotal), width));
+  if (receipt.discount > 0) {
+    doc.lines(columns('Discount', `-${money(receipt.discount)}`, width));
+  }
+  if (!receipt.pricesIncludeTax) {
+    doc.lines(columns(receipt.taxLabel, money(receipt.tax), width));
+  }
+  if (receipt.serviceCharge > 0) {
+    doc.lines(columns('Service charge', money(receipt.serviceCharge), width));
+  }
+
+  doc.command(COMMANDS.boldOn)
+    .lines(columns('TOTAL', money(receipt.total), width))
+    .command(COMMANDS.boldOff);
+
+  // Tax-inclusive prices still show the tax contained in the total
+  if (receipt.pricesIncludeTax && receipt.tax > 0) {
+    doc.lines(columns(`Incl. ${receipt.taxLabel}`, money(receipt.tax), width));
+  }
+
+  doc.line(rule)
+    .lines(columns('Paid by', receipt.paymentMethod.replace(/_/g, ' '), width))
+    .lines(columns('Reference', receipt.reference, width));
+
+  if (receipt.completedBy) {
+    doc.lines(columns('Served by', receipt.completedBy, width));
+  }
+
+  return doc.command(COMMANDS.alignCenter)
+    .line()
+    .line('Thank you!')
+    .toBytes();
+}
+
+/**
+ * Render a credit note for a void or refund, referencing the receipt it reverses
+ */
+export function renderCreditNote(note: CreditNote, width: number = DEFAULT_LINE_WIDTH): Uint8Array {
+  const doc = createDocument();
+  const rule = '-'.repeat(width);
+  const money = (amount: number) => `${note.currencySymbol || 'P'}${amount.toFixed(2)}`;
+
+  doc.command(COMMANDS.alignCenter)
+    .command(COMMANDS.boldOn)
+    .command(COMMANDS.doubleSize)
+    .lines(wrapText(note.restaurantName, Math.floor(width / 2)))
+    .command(COMMANDS.normalSize)
+    .line('CREDIT NOTE')
+    .line(`No ${note.creditNoteNumber}`)
+    .command(COMMANDS.boldOff)
+    .line(formatTime(note.issuedAt));
+
+  if (note.tableNumber) {
+    doc.line(`Table ${note.tableNumber}`);
+  }
+
+  doc.command(COMMANDS.alignLeft)
+    .line(rule)
+    .lines(columns('Original receipt', note.originalReceiptNumber, width))
+    .lines(wrapText(`Reason: ${note.reason}`, width))
+    .line(rule)
+    .command(COMMANDS.boldOn)
+    .lines(columns('CREDITED', `-${money(note.amount)}`, width))
+    .command(COMMANDS.boldOff);
+
+  if (note.issuedBy) {
+    doc.lines(columns('Authorised by', note.issuedBy, width));
+  }
+
+  return doc.line(rule).toBytes();
+}
+
+/**
+ * Render a short page used to check a printer is reachable
+ */
+export function renderTestPage(printerName: string, width: number = DEFAULT_LINE_WIDTH): Uint8Array {
+  return createDocument()
+    .command(COMMANDS.alignCenter)
+    .command(COMMANDS.boldOn)
+    .line('TEST PRINT')
+    .command(COMMANDS.boldOff)
+    .line(printerName)
+    .line(formatTime(new Date().toISOString()))
+    .line('-'.repeat(width))
+    .toBytes();
+}
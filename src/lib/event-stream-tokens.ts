@@ -0,0 +1,27 @@
+// Event stream tokens
+// Signed, expiring tokens that open a restaurant's /api/events stream. EventSource cannot send an Authorization
+// header, so staff and manager logins hand one out and screens pass it on the stream URL; server-only
+
+import { createSignedToken, readSignedToken } from './signed-tokens';
+
+/**
+ * Long enough for a shift; logging in again issues a fresh token
+ */
+export const EVENT_STREAM_TOKEN_TTL_HOURS = 16;
+
+const TOKEN_PURPOSE = 'event_stream';
+
+/**
+ * Token for following one restaurant's events
+ */
+export function createEventStreamToken(restaurantId: string): string {
+  return createSignedToken(TOKEN_PURPOSE, { restaurantId }, EVENT_STREAM_TOKEN_TTL_HOURS);
+}
+
+/**
+ * The restaurant a token was issued for, or null when it is malformed, tampered with or expired
+ */
+export function verifyEventStreamToken(token: string | null): string | null {
+  const claims = readSignedToken(TOKEN_PURPOSE, token);
+  return typeof claims?.restaurantId === 'string' ? claims.restaurantId : null;
+}
@@ -0,0 +1,337 @@
+// Diner feedback
+// Stores the rating and comment a diner leaves after paying against the session, table and serving staff member,
+// alerts the manager about low ratings and builds the admin feedback inbox report
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantIdForSession, getRestaurantSettings } from './restaurant-settings';
+import { SOLD_ORDER_STATUSES } from './order-statuses';
+import { getLocalTime } from './menu-schedule';
+
+export interface FeedbackItem {
+  menu_item_id: string | null;
+  name: string;
+  quantity: number;
+}
+
+export interface Feedback {
+  id: string;
+  restaurant_id: string | null;
+  session_id: string;
+  table_id: string | null;
+  table_number: string | null;
+  staff_id: string | null;
+  staff_name: string | null;
+  customer_name: string | null;
+  rating: number;
+  comment: string | null;
+  items: FeedbackItem[];
+  is_low_rating: boolean;
+  alert_notification_id: string | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  created_at: string;
+}
+
+export interface RatingStats {
+  count: number;
+  average: number;
+  lowCount: number;
+}
+
+export interface FeedbackReport {
+  feedback: Feedback[];
+  summary: RatingStats & { distribution: Record<number, number>; unreviewedLowCount: number };
+  overTime: (RatingStats & { date: string })[];
+  byStaff: (RatingStats & { staffId: string | null; staffName: string })[];
+  byItem: (RatingStats & { menuItemId: string | null; name: string })[];
+}
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+// Postgres unique_violation - this diner already rated the visit
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Record a diner's rating for a session
+ * Each diner rates a session once; a second rating from the same name is rejected
+ */
+export async function submitFeedback(
+  sessionId: string,
+  rating: number,
+  comment?: string | null,
+  customerName?: string | null
+): Promise<Feedback> {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new AppError('Rating must be a whole number of stars from 1 to 5', 'INVALID_FEEDBACK', 'low');
+  }
+
+  const trimmedComment = comment?.trim().slice(0, MAX_COMMENT_LENGTH) || null;
+
+  const { data: session, error: sessionError } = await supabaseServer
+    .from('sessions')
+    .select(`
+      id,
+      table_id,
+      payment_status,
+      served_by,
+      started_by_name,
+      tables!sessions_table_id_fkey(
+        table_number
+      )
+    `)
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError || !session) {
+    throw new AppError('Session not found', 'FEEDBACK_SESSION_NOT_FOUND', 'low');
+  }
+  if (session.payment_status !== 'completed') {
+    throw new AppError('Feedback can be left once the bill has been paid', 'FEEDBACK_SESSION_NOT_PAID', 'low');
+  }
+
+  let duplicateQuery = supabaseServer
+    .from('feedback')
+    .select('id')
+    .eq('session_id', sessionId);
+  duplicateQuery = customerName
+    ? duplicateQuery.eq('customer_name', customerName)
+    : duplicateQuery.is('customer_name', null);
+  const { data: existing } = await duplicateQuery.limit(1).maybeSingle();
+
+  if (existing) {
+    throw new AppError('Feedback has already been submitted for this visit', 'FEEDBACK_ALREADY_SUBMITTED', 'low');
+  }
+
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+  const settings = await getRestaurantSettings(restaurantId);
+
+  const tableNumber = Array.isArray(session.tables)
+    ? session.tables[0]?.table_number
+    : (session.tables as any)?.table_number;
+
+  const { data: staff } = session.served_by
+    ? await supabaseServer.from('staff').select('id, name').eq('id', session.served_by).maybeSingle()
+    : { data: null };
+
+  const items = await getSessionItems(sessionId);
+  const isLowRating = settings.low_rating_threshold > 0 && rating <= settings.low_rating_threshold;
+
+  const { data: feedback, error: insertError } = await supabaseServer
+    .from('feedback')
+    .insert({
+      restaurant_id: restaurantId,
+      session_id: sessionId,
+      table_id: session.table_id,
+      table_number: tableNumber || null,
+      staff_id: staff?.id || null,
+      staff_name: staff?.name || session.started_by_name || null,
+      customer_name: customerName || null,
+      rating,
+      comment: trimmedComment,
+      items,
+      is_low_rating: isLowRating
+    })
+    .select('*')
+    .single();
+
+  // Submitted twice at once: the unique index lets one through
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    throw new AppError('Feedback has already been submitted for this visit', 'FEEDBACK_ALREADY_SUBMITTED', 'low');
+  }
+  if (insertError) {
+    throw new AppError(`Failed to save feedback: ${insertError.message}`, 'FEEDBACK_CREATE_FAILED', 'medium');
+  }
+
+  if (!isLowRating) {
+    return feedback as Feedback;
+  }
+
+  // Low ratings go to the manager through the notification feed
+  const { data: notification, error: notificationError } = await supabaseServer
+    .from('notifications')
+    .insert({
+      session_id: sessionId,
+      type: 'low_rating',
+      title: `Low Rating: ${rating} Star${rating === 1 ? '' : 's'}`,
+      message: `Table ${tableNumber || 'Unknown'} rated their visit ${rating}/5${feedback.staff_name ? ` - Served by: ${feedback.staff_name}` : ''}${trimmedComment ? ` - "${trimmedComment.slice(0, 140)}"` : ''}`,
+      priority: 'high',
+      status: 'pending',
+      metadata: {
+        feedback_id: feedback.id,
+        rating,
+        table_number: tableNumber || null,
+        staff_name: feedback.staff_name,
+        target_role: 'manager'
+      }
+    })
+    .select('id')
+    .single();
+
+  if (notificationError) {
+    console.error('⚠️ Failed to create low rating alert:', notificationError);
+    return feedback as Feedback;
+  }
+
+  await supabaseServer
+    .from('feedback')
+    .update({ alert_notification_id: notification.id })
+    .eq('id', feedback.id);
+
+  return { ...(feedback as Feedback), alert_notification_id: notification.id };
+}
+
+/**
+ * What was ordered in a session, merged by menu item
+ */
+async function getSessionItems(sessionId: string): Promise<FeedbackItem[]> {
+  const { data: orders, error } = await supabaseServer
+    .from('orders')
+    .select(`
+      menu_item_id,
+      quantity,
+      menu_items (
+        id,
+        name
+      )
+    `)
+    .eq('session_id', sessionId)
+    .in('status', SOLD_ORDER_STATUSES);
+
+  if (error) {
+    console.warn('⚠️ Could not load session items for feedback:', error.message);
+    return [];
+  }
+
+  const items = new Map<string, FeedbackItem>();
+  for (const order of (orders || []) as Record<string, any>[]) {
+    const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
+    const menuItemId = order.menu_item_id || menuItem?.id || null;
+    const name = menuItem?.name || 'Unknown Item';
+    const key = menuItemId || name;
+    const current = items.get(key);
+    if (current) {
+      current.quantity += order.quantity || 0;
+    } else {
+      items.set(key, { menu_item_id: menuItemId, name, quantity: order.quantity || 0 });
+    }
+  }
+
+  return [...items.values()];
+}
+
+/**
+ * Mark feedback as reviewed and resolve its low rating alert
+ */
+export async function markFeedbackReviewed(feedbackId: string, reviewedBy: string): Promise<Feedback> {
+  const now = new Date().toISOString();
+
+  const { data: feedback, error } = await supabaseServer
+    .from('feedback')
+    .update({ reviewed_at: now, reviewed_by: reviewedBy })
+    .eq('id', feedbackId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update feedback: ${error.message}`, 'FEEDBACK_UPDATE_FAILED', 'medium');
+  }
+
+  if (!feedback) {
+    throw new AppError('Feedback not found', 'FEEDBACK_NOT_FOUND', 'low');
+  }
+
+  if (feedback.alert_notification_id) {
+    const { error: notificationError } = await supabaseServer
+      .from('notifications')
+      .update({ status: 'resolved', resolved_at: now, resolved_by: reviewedBy, updated_at: now })
+      .eq('id', feedback.alert_notification_id)
+      .neq('status', 'resolved');
+
+    if (notificationError) {
+      console.error('⚠️ Failed to resolve low rating alert:', notificationError);
+    }
+  }
+
+  return feedback as Feedback;
+}
+
+/**
+ * Feedback for a restaurant over the last `days` days with ratings over time, per waiter and per item
+ * Days are the restaurant's local days
+ */
+export async function getFeedbackReport(restaurantId: string, days = 30): Promise<FeedbackReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseServer
+    .from('feedback')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(2000);
+
+  if (error) {
+    throw new AppError(`Failed to load feedback: ${error.message}`, 'FEEDBACK_FETCH_FAILED', 'medium');
+  }
+
+  const settings = await getRestaurantSettings(restaurantId);
+  return summarizeFeedback((data || []) as Feedback[], settings.timezone);
+}
+
+/**
+ * Group feedback rows into the report sections
+ */
+export function summarizeFeedback(feedback: Feedback[], timeZone: string): FeedbackReport {
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const byDate = new Map<string, Feedback[]>();
+  const byStaff = new Map<string, { staffId: string | null; staffName: string; rows: Feedback[] }>();
+  const byItem = new Map<string, { menuItemId: string | null; name: string; rows: Feedback[] }>();
+
+  for (const entry of feedback) {
+    distribution[entry.rating] = (distribution[entry.rating] || 0) + 1;
+
+    const date = getLocalTime(new Date(entry.created_at), timeZone).date;
+    byDate.set(date, [...(byDate.get(date) || []), entry]);
+
+    const staffKey = entry.staff_id || entry.staff_name || 'unassigned';
+    const staffGroup = byStaff.get(staffKey) || { staffId: entry.staff_id, staffName: entry.staff_name || 'Unassigned', rows: [] };
+    staffGroup.rows.push(entry);
+    byStaff.set(staffKey, staffGroup);
+
+    // An item counts once per rating however many were ordered
+    for (const item of entry.items || []) {
+      const itemKey = item.menu_item_id || item.name;
+      const itemGroup = byItem.get(itemKey) || { menuItemId: item.menu_item_id, name: item.name, rows: [] };
+      itemGroup.rows.push(entry);
+      byItem.set(itemKey, itemGroup);
+    }
+  }
+
+  return {
+    feedback,
+    summary: {
+      ...getRatingStats(feedback),
+      distribution,
+      unreviewedLowCount: feedback.filter(entry => entry.is_low_rating && !entry.reviewed_at).length
+    },
+    overTime: [...byDate.entries()]
+      .map(([date, rows]) => ({ date, ...getRatingStats(rows) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byStaff: [...byStaff.values()]
+      .map(({ staffId, staffName, rows }) => ({ staffId, staffName, ...getRatingStats(rows) }))
+      .sort((a, b) => b.count - a.count),
+    byItem: [...byItem.values()]
+      .map(({ menuItemId, name, rows }) => ({ menuItemId, name, ...getRatingStats(rows) }))
+      .sort((a, b) => a.average - b.average || b.count - a.count)
+  };
+}
+
+function getRatingStats(rows: Feedback[]): RatingStats {
+  const total = rows.reduce((sum, row) => sum + row.rating, 0);
+  return {
+    count: rows.length,
+    average: rows.length > 0 ? Math.round((total / rows.length) * 100) / 100 : 0,
+    lowCount: rows.filter(row => row.is_low_rating).length
+  };
+}
@@ -0,0 +1,213 @@
+// Fiscal receipts
+// Gives every completed payment a sequential receipt number and every void or refund a credit note number
+// referencing the original receipt; issue_fiscal_receipt() and issue_credit_note() in the database keep
+// each series gap-free per restaurant
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+
+export type FiscalDocumentType = 'receipt' | 'credit_note';
+
+export interface FiscalReceipt {
+  id: string;
+  restaurant_id: string;
+  document_type: FiscalDocumentType;
+  receipt_number: number;
+  session_id: string | null;
+  payment_reference: string | null;
+  diner_name: string | null;
+  payment_method: string | null;
+  amount: number;
+  original_receipt_id: string | null;
+  reason: string | null;
+  issued_by: string | null;
+  data: Record<string, unknown> | null;
+  issued_at: string;
+}
+
+export interface FiscalPayment {
+  reference: string;
+  amount: number;
+  paymentMethod: string;
+  dinerName?: string | null;
+  issuedBy?: string | null;
+  data?: Record<string, unknown> | null;
+}
+
+export const MAX_CREDIT_REASON_LENGTH = 300;
+
+// Postgres error codes raised by issue_credit_note()
+const NO_DATA_FOUND = 'P0002';
+const CHECK_VIOLATION = '23514';
+
+export const normalizeReceiptRow = (row: any): FiscalReceipt => ({
+  ...row,
+  amount: Number(row.amount) || 0
+});
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Receipt and credit note numbers are shown zero-padded with a prefix per series
+ */
+export function formatFiscalNumber(documentType: FiscalDocumentType, receiptNumber: number): string {
+  return `${documentType === 'credit_note' ? 'CN' : 'R'}-${String(receiptNumber).padStart(6, '0')}`;
+}
+
+/**
+ * Amount already credited against a receipt
+ */
+export async function getCreditedAmount(receiptId: string): Promise<number> {
+  const { data, error } = await supabaseServer
+    .from('fiscal_receipts')
+    .select('amount')
+    .eq('original_receipt_id', receiptId);
+
+  if (error) {
+    throw new AppError(`Failed to load credit notes: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return roundMoney((data || []).reduce((sum, row) => sum + (Number(row.amount) || 0), 0));
+}
+
+/**
+ * Issue a credit note against a receipt
+ * Without an amount the whole remaining balance is credited, which voids the receipt
+ */
+export async function issueCreditNote(
+  receiptId: string,
+  amount: number | null,
+  reason: string,
+  issuedBy: string,
+  data: Record<string, unknown> | null = null
+): Promise<{ creditNote: FiscalReceipt; original: FiscalReceipt }> {
+  const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+  if (!trimmedReason || trimmedReason.length > MAX_CREDIT_REASON_LENGTH) {
+    throw new AppError(`A reason of at most ${MAX_CREDIT_REASON_LENGTH} characters is required`, 'INVALID_CREDIT_NOTE', 'low');
+  }
+
+  const original = await getFiscalReceipt(receiptId);
+  if (!original || original.document_type !== 'receipt') {
+    throw new AppError('Receipt not found', 'FISCAL_RECEIPT_NOT_FOUND', 'low');
+  }
+
+  const remaining = roundMoney(original.amount - await getCreditedAmount(receiptId));
+  const creditAmount = amount === null || amount === undefined ? remaining : roundMoney(Number(amount));
+  if (!Number.isFinite(creditAmount) || creditAmount <= 0 || creditAmount > remaining) {
+    throw new AppError(
+      remaining > 0 ? `Credit must be between 0.01 and ${remaining.toFixed(2)}` : 'This receipt has already been fully credited',
+      'INVALID_CREDIT_NOTE',
+      'low'
+    );
+  }
+
+  const { data: row, error } = await supabaseServer.rpc('issue_credit_note', {
+    p_original_receipt_id: receiptId,
+    p_amount: creditAmount,
+    p_reason: trimmedReason,
+    p_issued_by: issuedBy,
+    p_data: data
+  });
+
+  if (error?.code === NO_DATA_FOUND) {
+    throw new AppError('Receipt not found', 'FISCAL_RECEIPT_NOT_FOUND', 'low');
+  }
+  // Another credit note landed between the check above and the insert
+  if (error?.code === CHECK_VIOLATION) {
+    throw new AppError(error.message, 'INVALID_CREDIT_NOTE', 'low');
+  }
+  if (error || !row) {
+    throw new AppError(`Failed to issue credit note: ${error?.message || 'no credit note returned'}`, 'FISCAL_RECEIPT_FAILED', 'high');
+  }
+
+  return {
+    creditNote: normalizeReceiptRow(Array.isArray(row) ? row[0] : row),
+    original
+  };
+}
+
+export async function getFiscalReceipt(receiptId: string): Promise<FiscalReceipt | null> {
+  const { data, error } = await supabaseServer
+    .from('fiscal_receipts')
+    .select('*')
+    .eq('id', receiptId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load receipt: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizeReceiptRow(data) : null;
+}
+
+/**
+ * The receipt for a session's payment
+ * A diner's own receipt is preferred when they paid individually, otherwise the table receipt
+ */
+export async function getFiscalReceiptForSession(sessionId: string, dinerName?: string | null): Promise<FiscalReceipt | null> {
+  const { data, error } = await supabaseServer
+    .from('fiscal_receipts')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('document_type', 'receipt')
+    .order('receipt_number', { ascending: false });
+
+  if (error) {
+    console.error('⚠️ Failed to load receipt for session:', error);
+    return null;
+  }
+
+  const receipts = (data || []).map(normalizeReceiptRow);
+  return (dinerName && receipts.find(receipt => receipt.diner_name === dinerName))
+    || receipts.find(receipt => !receipt.diner_name)
+    || null;
+}
+
+/**
+ * Receipts and credit notes for a set of sessions, grouped by session
+ */
+export async function getFiscalDocumentsForSessions(sessionIds: string[]): Promise<Record<string, FiscalReceipt[]>> {
+  const uniqueIds = [...new Set(sessionIds.filter(Boolean))];
+  if (uniqueIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabaseServer
+    .from('fiscal_receipts')
+    .select('*')
+    .in('session_id', uniqueIds)
+    .order('issued_at', { ascending: true });
+
+  if (error) {
+    console.error('⚠️ Failed to load receipts for sessions:', error);
+    return {};
+  }
+
+  return (data || []).map(normalizeReceiptRow).reduce((acc: Record<string, FiscalReceipt[]>, receipt) => {
+    if (receipt.session_id) {
+      (acc[receipt.session_id] = acc[receipt.session_id] || []).push(receipt);
+    }
+    return acc;
+  }, {});
+}
+
+/**
+ * A restaurant's receipts and credit notes over the last few days, newest first
+ */
+export async function getFiscalDocuments(restaurantId: string, days: number = 30): Promise<FiscalReceipt[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseServer
+    .from('fiscal_receipts')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .gte('issued_at', since)
+    .order('issued_at', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    throw new AppError(`Failed to load receipts: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizeReceiptRow);
+}
@@ -0,0 +1,211 @@
+// Idempotency keys
+// Lets clients resubmit a POST safely: a request sent with an Idempotency-Key header is fingerprinted and its
+// response stored, and a repeat with the same key gets the stored response instead of running again; server-only
+// Only responses below 400 are kept - after an error the key is released so the same request can be retried
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from './supabaseServer';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * A request still marked processing after this long is taken to have died and can be run again
+ */
+const PROCESSING_TIMEOUT_MS = 60 * 1000;
+
+// Postgres unique_violation - the key has been used before
+const UNIQUE_VIOLATION = '23505';
+
+type IdempotencyClaim =
+  | { kind: 'claimed' }
+  | { kind: 'replay'; status: number; body: unknown }
+  | { kind: 'in_progress' }
+  | { kind: 'mismatch' }
+  | { kind: 'unavailable' };
+
+const fingerprintBody = (rawBody: string) => crypto.createHash('sha256').update(rawBody, 'utf8').digest('hex');
+
+async function insertKey(scope: string, key: string, fingerprint: string) {
+  return supabaseServer
+    .from('idempotency_keys')
+    .insert({
+      scope,
+      key,
+      fingerprint,
+      status: 'processing',
+      expires_at: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000).toISOString()
+    });
+}
+
+// Take the key for this request, or say why it cannot be taken
+async function claimKey(scope: string, key: string, fingerprint: string): Promise<IdempotencyClaim> {
+  let { error } = await insertKey(scope, key, fingerprint);
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: existing, error: loadError } = await supabaseServer
+      .from('idempotency_keys')
+      .select('*')
+      .eq('scope', scope)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error('⚠️ Failed to load idempotency key:', loadError);
+      return { kind: 'unavailable' };
+    }
+
+    if (existing && new Date(existing.expires_at).getTime() > Date.now()) {
+      if (existing.fingerprint !== fingerprint) {
+        return { kind: 'mismatch' };
+      }
+      if (existing.status === 'completed') {
+        return { kind: 'replay', status: existing.response_status, body: existing.response_body };
+      }
+      if (Date.now() - new Date(existing.created_at).getTime() < PROCESSING_TIMEOUT_MS) {
+        return { kind: 'in_progress' };
+      }
+    }
+
+    // Expired, or abandoned mid-request: start over under the same key
+    if (existing) {
+      await supabaseServer
+        .from('idempotency_keys')
+        .delete()
+        .eq('scope', scope)
+        .eq('key', key)
+        .eq('created_at', existing.created_at);
+    }
+    ({ error } = await insertKey(scope, key, fingerprint));
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { kind: 'in_progress' };
+    }
+  }
+
+  if (error) {
+    console.error('⚠️ Failed to store idempotency key:', error);
+    return { kind: 'unavailable' };
+  }
+
+  return { kind: 'claimed' };
+}
+
+async function releaseKey(scope: string, key: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('idempotency_keys')
+    .delete()
+    .eq('scope', scope)
+    .eq('key', key)
+    .eq('status', 'processing');
+
+  if (error) {
+    console.error('⚠️ Failed to release idempotency key:', error);
+  }
+}
+
+async function completeKey(scope: string, key: string, status: number, body: unknown): Promise<void> {
+  const { error } = await supabaseServer
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: status,
+      response_body: body,
+      completed_at: new Date().toISOString()
+    })
+    .eq('scope', scope)
+    .eq('key', key);
+
+  if (error) {
+    console.error('⚠️ Failed to store idempotent response:', error);
+  }
+}
+
+/**
+ * Wrap a JSON route so requests carrying an Idempotency-Key run at most once per key
+ * A repeat gets the first response (with Idempotent-Replayed: true), 409 while the first is still running,
+ * or 422 if the key was used with a different body; requests without the header run as before
+ */
+export function withIdempotency<T extends any[]>(
+  scope: string,
+  handler: (request: NextRequest, ...args: T) => Promise<NextResponse>
+) {
+  return async function(request: NextRequest, ...args: T): Promise<NextResponse> {
+    const key = request.headers.get(IDEMPOTENCY_HEADER);
+    if (key === null) {
+      return handler(request, ...args);
+    }
+
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const claim = await claimKey(scope, key, fingerprintBody(await request.clone().text()));
+
+    switch (claim.kind) {
+      case 'replay':
+        return NextResponse.json(claim.body, {
+          status: claim.status,
+          headers: { 'Idempotent-Replayed': 'true' }
+        });
+      case 'in_progress':
+        return NextResponse.json(
+          { error: 'A request with this Idempotency-Key is still being processed' },
+          { status: 409, headers: { 'Retry-After': '1' } }
+        );
+      case 'mismatch':
+        return NextResponse.json(
+          { error: `This ${IDEMPOTENCY_HEADER} was already used for a different request` },
+          { status: 422 }
+        );
+      case 'unavailable':
+        // Don't block payments or orders when the key store is down
+        return handler(request, ...args);
+    }
+
+    let response: NextResponse;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      await releaseKey(scope, key);
+      throw error;
+    }
+
+    if (response.status >= 400) {
+      await releaseKey(scope, key);
+      return response;
+    }
+
+    try {
+      await completeKey(scope, key, response.status, await response.clone().json());
+    } catch (error) {
+      console.error('⚠️ Response is not JSON; releasing idempotency key:', error);
+      await releaseKey(scope, key);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Delete keys past their expiry
+ */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const { data, error } = await supabaseServer
+    .from('idempotency_keys')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('key');
+
+  if (error) {
+    console.error('⚠️ Failed to purge expired idempotency keys:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
@@ -0,0 +1,164 @@
+// Invoice PDF
+// Lays out an A4 tax invoice from the same receipt data as the email receipt: restaurant details,
+// VAT registration number, invoice number, itemised lines, VAT, service charge and tip
+
+import { createPdfDocument, wrapPdfText } from './pdf';
+import type { ReceiptEmailData } from './receipt-email';
+
+export interface InvoiceDocument {
+  invoiceNumber: string; // formatted, e.g. INV-000042
+  issuedAt: string;
+  restaurant: {
+    name: string;
+    address: string;
+    vatRegistrationNumber: string;
+  };
+  billTo?: {
+    name?: string | null;
+    company?: string | null;
+    vatNumber?: string | null;
+  } | null;
+  receipt: ReceiptEmailData;
+}
+
+const MARGIN = 50;
+const FOOTER_SPACE = 90;
+
+const formatCurrency = (amount: number) => `P${(Number(amount) || 0).toFixed(2)}`;
+
+/**
+ * Invoice numbers are shown zero-padded with a prefix
+ */
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(6, '0')}`;
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Uint8Array {
+  const { receipt, restaurant } = invoice;
+  const pdf = createPdfDocument({ title: `Tax Invoice ${invoice.invoiceNumber}` });
+  const right = pdf.width - MARGIN;
+  const columns = { qty: right - 190, unit: right - 90, amount: right };
+  let y = MARGIN;
+
+  // Header: restaurant on the left, document title and number on the right
+  pdf.text(MARGIN, y + 16, restaurant.name, { size: 18, bold: true });
+  pdf.text(right, y + 16, 'TAX INVOICE', { size: 16, bold: true, align: 'right' });
+  y += 34;
+
+  const addressLines = restaurant.address
+    ? restaurant.address.split(/\r?\n/).flatMap(line => wrapPdfText(line, 260, 9))
+    : [];
+  const details: [string, string][] = [
+    ['Invoice No', invoice.invoiceNumber],
+    ['Date', new Date(invoice.issuedAt).toLocaleString()],
+    ...(receipt.receiptNumber ? [['Receipt No', receipt.receiptNumber] as [string, string]] : []),
+    ...(receipt.tableNumber ? [['Table', receipt.tableNumber] as [string, string]] : []),
+    ['Reference', receipt.sessionId.slice(-8)]
+  ];
+
+  const headerTop = y;
+  for (const line of addressLines) {
+    pdf.text(MARGIN, y, line, { size: 9 });
+    y += 12;
+  }
+  if (restaurant.vatRegistrationNumber) {
+    pdf.text(MARGIN, y, `VAT Reg No: ${restaurant.vatRegistrationNumber}`, { size: 9, bold: true });
+    y += 12;
+  }
+
+  let detailY = headerTop;
+  for (const [label, value] of details) {
+    pdf.text(right - 110, detailY, `${label}:`, { size: 9, align: 'right', color: [0.4, 0.4, 0.4] });
+    pdf.text(right, detailY, value, { size: 9, align: 'right' });
+    detailY += 12;
+  }
+  y = Math.max(y, detailY) + 10;
+
+  const billTo = invoice.billTo;
+  if (billTo && (billTo.name || billTo.company || billTo.vatNumber)) {
+    pdf.text(MARGIN, y, 'Bill To', { size: 10, bold: true });
+    y += 13;
+    for (const line of [billTo.company, billTo.name, billTo.vatNumber ? `VAT No: ${billTo.vatNumber}` : null]) {
+      if (line) {
+        pdf.text(MARGIN, y, line, { size: 9 });
+        y += 12;
+      }
+    }
+    y += 8;
+  }
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 11, right - MARGIN, 16);
+    pdf.text(MARGIN + 4, y, 'Description', { size: 9, bold: true });
+    pdf.text(columns.qty, y, 'Qty', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.unit, y, 'Unit Price', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.amount - 4, y, 'Amount', { size: 9, bold: true, align: 'right' });
+    y += 18;
+  };
+
+  drawTableHeader();
+
+  for (const item of receipt.orderItems) {
+    const descriptionLines = wrapPdfText(item.name, columns.qty - MARGIN - 50, 9);
+    const detail = item.isSplit ? `Shared item, split ${item.splitCount} ways (${formatCurrency(item.originalPrice || 0)} total)` : null;
+    const rowHeight = (descriptionLines.length + (detail ? 1 : 0)) * 12 + 4;
+
+    if (y + rowHeight > pdf.height - FOOTER_SPACE) {
+      pdf.addPage();
+      y = MARGIN;
+      drawTableHeader();
+    }
+
+    pdf.text(columns.qty, y, item.isSplit ? '1' : String(item.quantity), { size: 9, align: 'right' });
+    pdf.text(columns.unit, y, formatCurrency(item.isSplit ? item.total : item.price), { size: 9, align: 'right' });
+    pdf.text(columns.amount - 4, y, formatCurrency(item.total), { size: 9, align: 'right' });
+    for (const line of descriptionLines) {
+      pdf.text(MARGIN + 4, y, line, { size: 9 });
+      y += 12;
+    }
+    if (detail) {
+      pdf.text(MARGIN + 4, y, detail, { size: 8, color: [0.4, 0.4, 0.4] });
+      y += 12;
+    }
+    pdf.line(MARGIN, y - 8, right, y - 8, 0.25, 0.8);
+    y += 4;
+  }
+
+  // Totals block
+  const totals: [string, number, boolean][] = [
+    ['Subtotal', receipt.subtotal, false],
+    [receipt.taxLabel, receipt.vat, false],
+    ...(receipt.serviceCharge > 0 ? [['Service Charge', receipt.serviceCharge, false] as [string, number, boolean]] : []),
+    ['Tip', receipt.tipAmount, false],
+    ['Total', receipt.finalTotal, true]
+  ];
+
+  if (y + totals.length * 16 + 40 > pdf.height - FOOTER_SPACE) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+
+  y += 8;
+  for (const [label, amount, isTotal] of totals) {
+    if (isTotal) {
+      pdf.line(columns.unit - 80, y - 10, right, y - 10, 1);
+      y += 4;
+    }
+    pdf.text(columns.unit, y, `${label}:`, { size: isTotal ? 11 : 9, bold: isTotal, align: 'right' });
+    pdf.text(columns.amount - 4, y, formatCurrency(amount), { size: isTotal ? 11 : 9, bold: isTotal, align: 'right' });
+    y += 16;
+  }
+
+  if (receipt.paymentMethod) {
+    y += 6;
+    pdf.text(MARGIN, y, `Paid by ${receipt.paymentMethod.charAt(0).toUpperCase() + receipt.paymentMethod.slice(1)}`, { size: 9 });
+    y += 12;
+  }
+  if (receipt.paymentCompletedAt) {
+    pdf.text(MARGIN, y, `Payment received ${new Date(receipt.paymentCompletedAt).toLocaleString()}`, { size: 9, color: [0.4, 0.4, 0.4] });
+  }
+
+  pdf.text(pdf.width / 2, pdf.height - 40, 'Thank you for dining with us!', { size: 9, align: 'center', color: [0.4, 0.4, 0.4] });
+
+  return pdf.toBytes();
+}
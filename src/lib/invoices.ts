@@ -0,0 +1,145 @@
+// Tax invoices
+// Issues one sequentially numbered invoice per fiscal receipt (issue_invoice() in the database keeps numbers gap-free)
+// and renders it as a PDF for download or as an email attachment
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantIdForSession, getRestaurantSettings } from './restaurant-settings';
+import { formatInvoiceNumber, InvoiceDocument, renderInvoicePdf } from './invoice-pdf';
+import type { ReceiptEmailData } from './receipt-email';
+
+export interface Invoice {
+  id: string;
+  restaurant_id: string;
+  session_id: string;
+  fiscal_receipt_id: string | null;
+  invoice_number: number;
+  bill_to_name: string | null;
+  bill_to_company: string | null;
+  bill_to_vat_number: string | null;
+  data: ReceiptEmailData;
+  issued_at: string;
+}
+
+export interface InvoiceBillTo {
+  name?: string | null;
+  company?: string | null;
+  vatNumber?: string | null;
+}
+
+export const DEFAULT_RESTAURANT_NAME = 'PulaNodus Restaurant';
+
+/**
+ * Check optional bill-to details from a corporate customer
+ */
+export function validateInvoiceBillTo(billTo: InvoiceBillTo): string | null {
+  for (const value of [billTo.name, billTo.company]) {
+    if (value && (typeof value !== 'string' || value.length > 120)) {
+      return 'Invoice name and company must be at most 120 characters';
+    }
+  }
+  if (billTo.vatNumber && (typeof billTo.vatNumber !== 'string' || !/^[A-Za-z0-9 \-/]{1,40}$/.test(billTo.vatNumber))) {
+    return 'Invalid VAT number';
+  }
+  return null;
+}
+
+/**
+ * Issue the invoice for a fiscal receipt, or return the one already issued
+ * The receipt is snapshotted on first issue so later downloads show the same invoice;
+ * bill-to details can be added to an invoice that has none yet
+ */
+export async function issueInvoice(receipt: ReceiptEmailData, billTo: InvoiceBillTo = {}): Promise<Invoice> {
+  const validationError = validateInvoiceBillTo(billTo);
+  if (validationError) {
+    throw new AppError(validationError, 'INVALID_INVOICE_DETAILS', 'low');
+  }
+
+  const restaurantId = await getRestaurantIdForSession(receipt.sessionId);
+  const billToJson = {
+    name: billTo.name?.trim() || '',
+    company: billTo.company?.trim() || '',
+    vat_number: billTo.vatNumber?.trim() || ''
+  };
+
+  const { data, error } = await supabaseServer.rpc('issue_invoice', {
+    p_restaurant_id: restaurantId,
+    p_session_id: receipt.sessionId,
+    p_fiscal_receipt_id: receipt.receiptId,
+    p_data: receipt,
+    p_bill_to: billToJson
+  });
+
+  if (error || !data) {
+    throw new AppError(`Failed to issue invoice: ${error?.message || 'no invoice returned'}`, 'INVOICE_ISSUE_FAILED', 'high');
+  }
+
+  const invoice = (Array.isArray(data) ? data[0] : data) as Invoice;
+  const hasBillTo = invoice.bill_to_name || invoice.bill_to_company || invoice.bill_to_vat_number;
+
+  if (!hasBillTo && (billToJson.name || billToJson.company || billToJson.vat_number)) {
+    const { data: updated, error: updateError } = await supabaseServer
+      .from('invoices')
+      .update({
+        bill_to_name: billToJson.name || null,
+        bill_to_company: billToJson.company || null,
+        bill_to_vat_number: billToJson.vat_number || null
+      })
+      .eq('id', invoice.id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      console.error('⚠️ Failed to add bill-to details to invoice:', updateError);
+    } else {
+      return updated as Invoice;
+    }
+  }
+
+  return invoice;
+}
+
+/**
+ * Everything printed on an invoice: the invoice row plus the restaurant's current invoice details
+ */
+export async function getInvoiceDocument(invoice: Invoice): Promise<InvoiceDocument> {
+  const settings = await getRestaurantSettings(invoice.restaurant_id);
+  const { data: restaurant } = await supabaseServer
+    .from('restaurants')
+    .select('name')
+    .eq('id', invoice.restaurant_id)
+    .maybeSingle();
+
+  return {
+    invoiceNumber: formatInvoiceNumber(invoice.invoice_number),
+    issuedAt: invoice.issued_at,
+    restaurant: {
+      name: restaurant?.name || DEFAULT_RESTAURANT_NAME,
+      address: settings.business_address,
+      vatRegistrationNumber: settings.vat_registration_number
+    },
+    billTo: {
+      name: invoice.bill_to_name,
+      company: invoice.bill_to_company,
+      vatNumber: invoice.bill_to_vat_number
+    },
+    receipt: invoice.data
+  };
+}
+
+/**
+ * Issue (or fetch) a receipt's invoice and render it as a PDF
+ */
+export async function generateInvoicePdf(
+  receipt: ReceiptEmailData,
+  billTo: InvoiceBillTo = {}
+): Promise<{ invoice: Invoice; filename: string; pdf: Uint8Array }> {
+  const invoice = await issueInvoice(receipt, billTo);
+  const document = await getInvoiceDocument(invoice);
+
+  return {
+    invoice,
+    filename: `${document.invoiceNumber}.pdf`,
+    pdf: renderInvoicePdf(document)
+  };
+}
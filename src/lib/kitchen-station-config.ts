@@ -0,0 +1,85 @@
+// Kitchen station configuration
+// Loads and saves a restaurant's prep stations; falls back to the built-in stations
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { DEFAULT_KITCHEN_STATIONS, KitchenStation, validateKitchenStation } from './kitchen-stations';
+
+const STATION_COLUMNS = 'id, code, name, categories, sort_order';
+
+const normalizeStationRow = (row: Record<string, unknown>): KitchenStation => ({
+  id: row.id as string,
+  code: row.code as string,
+  name: (row.name as string) || (row.code as string),
+  categories: (row.categories as string[]) || [],
+  sort_order: Number(row.sort_order) || 0
+});
+
+/**
+ * Get a restaurant's kitchen stations in display order
+ * Returns the built-in stations when none are configured or on error
+ */
+export async function getKitchenStations(restaurantId: string): Promise<KitchenStation[]> {
+  const { data, error } = await supabaseServer
+    .from('kitchen_stations')
+    .select(STATION_COLUMNS)
+    .eq('restaurant_id', restaurantId)
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.warn(`⚠️ Could not load kitchen stations for restaurant ${restaurantId}, using built-in stations:`, error.message);
+    return DEFAULT_KITCHEN_STATIONS;
+  }
+
+  if (!data || data.length === 0) {
+    return DEFAULT_KITCHEN_STATIONS;
+  }
+
+  return (data as Record<string, unknown>[]).map(normalizeStationRow);
+}
+
+/**
+ * Create or update a kitchen station (matched on restaurant and code)
+ * Throws if the station is invalid or the write fails
+ */
+export async function saveKitchenStation(restaurantId: string, station: Partial<KitchenStation>): Promise<KitchenStation> {
+  const validationError = validateKitchenStation(station);
+  if (validationError) {
+    throw new AppError(validationError, 'INVALID_KITCHEN_STATION', 'low');
+  }
+
+  const { data, error } = await supabaseServer
+    .from('kitchen_stations')
+    .upsert({
+      restaurant_id: restaurantId,
+      code: station.code,
+      name: station.name!.trim(),
+      categories: (station.categories || []).map(category => category.trim()).filter(Boolean),
+      sort_order: station.sort_order || 0
+    }, { onConflict: 'restaurant_id,code' })
+    .select(STATION_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new AppError(`Failed to save kitchen station: ${error.message}`, 'KITCHEN_STATION_SAVE_FAILED', 'medium');
+  }
+
+  return normalizeStationRow(data as Record<string, unknown>);
+}
+
+/**
+ * Delete a kitchen station
+ * Items routed to it fall back to their category mapping or the default station
+ */
+export async function deleteKitchenStation(restaurantId: string, code: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('kitchen_stations')
+    .delete()
+    .eq('restaurant_id', restaurantId)
+    .eq('code', code);
+
+  if (error) {
+    throw new AppError(`Failed to delete kitchen station: ${error.message}`, 'KITCHEN_STATION_DELETE_FAILED', 'medium');
+  }
+}
@@ -0,0 +1,138 @@
+// Kitchen stations
+// Routes order items to prep stations (grill, bar, cold, pastry) by item override or menu category
+// and rolls per-station progress up to the table; used by /api/orders/kitchen and the kitchen display
+
+export interface KitchenStation {
+  id?: string;
+  code: string; // 'grill', 'bar', ...
+  name: string;
+  categories: string[]; // menu categories routed to this station
+  sort_order: number;
+}
+
+export interface StationRoutedItem {
+  station?: string | null;
+  category?: string | null;
+}
+
+export type KitchenItemStatus = 'waiting' | 'preparing' | 'ready' | 'served';
+
+/**
+ * Station that receives items with no override and no mapped category
+ */
+export const DEFAULT_STATION_CODE = 'grill';
+
+/**
+ * Built-in stations used when a restaurant has not configured its own
+ */
+export const DEFAULT_KITCHEN_STATIONS: KitchenStation[] = [
+  {
+    code: 'grill',
+    name: 'Grill',
+    categories: ['Mains', 'Main Courses', 'Pizza', 'Pasta', 'Seafood', 'Sandwiches', 'Soups', 'Specials'],
+    sort_order: 0
+  },
+  {
+    code: 'bar',
+    name: 'Bar',
+    categories: ['Cold_drinks', 'Hot Beverages', 'Beverages'],
+    sort_order: 1
+  },
+  {
+    code: 'cold',
+    name: 'Cold',
+    categories: ['Starters', 'Appetizers', 'Salads', 'Snacks', 'Vegetarian'],
+    sort_order: 2
+  },
+  {
+    code: 'pastry',
+    name: 'Pastry',
+    categories: ['Desserts'],
+    sort_order: 3
+  }
+];
+
+const normalizeCategory = (category: string) => category.trim().toLowerCase();
+
+/**
+ * Station an item is prepared at
+ * Resolution: menu_items.station (if it names a known station), then the station mapped to
+ * the item's category, then the default station (or the first station when there is no grill)
+ */
+export function resolveItemStation(item: StationRoutedItem, stations: KitchenStation[]): string {
+  if (item.station && stations.some(station => station.code === item.station)) {
+    return item.station;
+  }
+
+  if (item.category) {
+    const category = normalizeCategory(item.category);
+    const mapped = stations.find(station =>
+      station.categories.some(stationCategory => normalizeCategory(stationCategory) === category)
+    );
+    if (mapped) {
+      return mapped.code;
+    }
+  }
+
+  if (stations.some(station => station.code === DEFAULT_STATION_CODE) || stations.length === 0) {
+    return DEFAULT_STATION_CODE;
+  }
+  return [...stations].sort((a, b) => a.sort_order - b.sort_order)[0].code;
+}
+
+const STATUS_ORDER: KitchenItemStatus[] = ['waiting', 'preparing', 'ready', 'served'];
+
+/**
+ * Roll item statuses up to a single status: a station (or table) is only as far along
+ * as its least advanced item, e.g. one item still preparing keeps the station "preparing"
+ */
+export function rollUpStatus(statuses: string[]): KitchenItemStatus | null {
+  const known = statuses.filter((status): status is KitchenItemStatus =>
+    STATUS_ORDER.includes(status as KitchenItemStatus)
+  );
+  if (known.length === 0) {
+    return null;
+  }
+  return known.reduce((least, status) =>
+    STATUS_ORDER.indexOf(status) < STATUS_ORDER.indexOf(least) ? status : least
+  );
+}
+
+/**
+ * Per-station roll-up for one table's items, keyed by station code
+ */
+export function getStationStatuses(items: { station: string; status: string }[]): Record<string, KitchenItemStatus> {
+  const statusesByStation: Record<string, string[]> = {};
+  for (const item of items) {
+    statusesByStation[item.station] = [...(statusesByStation[item.station] || []), item.status];
+  }
+
+  const result: Record<string, KitchenItemStatus> = {};
+  for (const [station, statuses] of Object.entries(statusesByStation)) {
+    const status = rollUpStatus(statuses);
+    if (status) {
+      result[station] = status;
+    }
+  }
+  return result;
+}
+
+const CODE_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+/**
+ * Validate a station before it is saved
+ * Returns the first validation error, or null when the station is valid
+ */
+export function validateKitchenStation(station: Partial<KitchenStation>): string | null {
+  if (!station.code || !CODE_PATTERN.test(station.code)) {
+    return 'Station code must be 1-32 lowercase letters, digits or underscores';
+  }
+  if (!station.name || !station.name.trim()) {
+    return 'Station name is required';
+  }
+  if (station.categories !== undefined &&
+      (!Array.isArray(station.categories) || station.categories.some(category => typeof category !== 'string'))) {
+    return 'Station categories must be a list of menu categories';
+  }
+  return null;
+}
@@ -0,0 +1,195 @@
+// Mail transport
+// Pluggable outgoing mail: builds a multipart/alternative (plain text + HTML) message and hands it to the
+// configured transport; server-only
+// MAIL_TRANSPORT picks the transport: 'smtp' (default when SMTP_HOST is set) or 'console' for local development
+// Run scripts/fake-smtp.js to receive mail locally without a mail server
+
+import crypto from 'crypto';
+import { AppError } from './error-handling';
+import { sendSmtpMail, SmtpOptions } from './smtp-transport';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailAttachment {
+  filename: string; // plain ASCII; used as-is in the MIME headers
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailDeliveryResult {
+  messageId: string;
+  transport: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<MailDeliveryResult>;
+}
+
+/**
+ * Failures worth retrying (connection problems, timeouts, 4xx replies) use MAIL_TRANSIENT_FAILURE;
+ * MAIL_REJECTED and MAIL_NOT_CONFIGURED will fail the same way every time
+ */
+export const isTransientMailError = (error: unknown): boolean =>
+  error instanceof AppError && error.code === 'MAIL_TRANSIENT_FAILURE';
+
+export const DEFAULT_MAIL_FROM = 'PulaNodus <noreply@pulanodus.com>';
+
+/**
+ * Bare address from 'Name <address>' or 'address'
+ */
+export function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+export function isValidEmailAddress(address: string): boolean {
+  return /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/.test(address);
+}
+
+// Non-ASCII header values use RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Bodies are base64 in 76 character lines so any content survives 7-bit relays
+const encodeBytes = (value: Uint8Array) =>
+  (Buffer.from(value).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+const encodeBody = (value: string) => encodeBytes(Buffer.from(value.replace(/\r?\n/g, '\r\n'), 'utf8'));
+
+const createBoundary = (kind: string) => `=_${kind}_${crypto.randomBytes(12).toString('hex')}`;
+
+/**
+ * Render a message as RFC 5322 text with CRLF line endings
+ * With HTML it is multipart/alternative with the plain-text part first, as clients pick the last part they support;
+ * attachments wrap that in multipart/mixed
+ */
+export function buildMimeMessage(message: MailMessage, messageId: string, date: Date = new Date()): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text)
+  ];
+
+  let body = textPart;
+  if (message.html) {
+    const boundary = createBoundary('alt');
+    body = [
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...textPart,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.html),
+      `--${boundary}--`
+    ];
+  }
+
+  if (message.attachments && message.attachments.length > 0) {
+    const boundary = createBoundary('mixed');
+    body = [
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...body,
+      ...message.attachments.flatMap(attachment => [
+        `--${boundary}`,
+        `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        '',
+        encodeBytes(attachment.content)
+      ]),
+      `--${boundary}--`
+    ];
+  }
+
+  return [...headers, ...body, ''].join('\r\n');
+}
+
+export function createMessageId(from: string): string {
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+  return `${Date.now()}.${crypto.randomBytes(8).toString('hex')}@${domain}`;
+}
+
+/**
+ * Transport that delivers through an SMTP server
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      await sendSmtpMail(options, {
+        from: getAddress(message.from),
+        to: [getAddress(message.to)]
+      }, buildMimeMessage(message, messageId));
+      return { messageId, transport: 'smtp' };
+    }
+  };
+}
+
+/**
+ * Transport that logs mail instead of sending it
+ */
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      console.log(`📧 [console mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+      return { messageId, transport: 'console' };
+    }
+  };
+}
+
+/**
+ * The transport configured through the environment
+ * Throws MAIL_NOT_CONFIGURED when no transport is set up
+ */
+export function getMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : '');
+
+  if (transport === 'console') {
+    return createConsoleTransport();
+  }
+
+  if (transport === 'smtp' && process.env.SMTP_HOST) {
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || undefined,
+      secure: process.env.SMTP_SECURE === 'true',
+      requireTls: process.env.SMTP_REQUIRE_TLS === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS
+    });
+  }
+
+  throw new AppError('No mail transport is configured (set SMTP_HOST or MAIL_TRANSPORT)', 'MAIL_NOT_CONFIGURED', 'high');
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+}
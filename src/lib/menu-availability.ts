@@ -0,0 +1,284 @@
+// Menu availability service
+// Loads menu schedules and the restaurant timezone, checks whether items can be ordered now
+// and handles items the kitchen has 86'd
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantSettings } from './restaurant-settings';
+import { getLocalTime, isMenuItemAvailable, MenuSchedule, ScheduledMenuItem, validateMenuSchedule } from './menu-schedule';
+
+export interface MenuAvailability {
+  timezone: string;
+  schedules: MenuSchedule[];
+}
+
+const SCHEDULE_COLUMNS = 'id, name, days_of_week, start_time, end_time, start_date, end_date, is_active';
+
+const normalizeScheduleRow = (row: Record<string, unknown>): MenuSchedule => ({
+  id: row.id as string,
+  name: (row.name as string) || '',
+  days_of_week: ((row.days_of_week as unknown[]) || []).map(Number),
+  start_time: (row.start_time as string) || null,
+  end_time: (row.end_time as string) || null,
+  start_date: (row.start_date as string) || null,
+  end_date: (row.end_date as string) || null,
+  is_active: row.is_active !== false
+});
+
+/**
+ * Get all menu schedules for a restaurant
+ * Returns an empty list on error so the menu falls back to manual availability
+ */
+export async function getMenuSchedules(restaurantId: string): Promise<MenuSchedule[]> {
+  const { data, error } = await supabaseServer
+    .from('menu_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .eq('restaurant_id', restaurantId)
+    .order('name');
+
+  if (error) {
+    console.warn(`⚠️ Could not load menu schedules for restaurant ${restaurantId}:`, error.message);
+    return [];
+  }
+
+  return ((data || []) as Record<string, unknown>[]).map(normalizeScheduleRow);
+}
+
+/**
+ * Get the schedules and timezone the diner menu is evaluated against
+ */
+export async function getMenuAvailability(restaurantId: string): Promise<MenuAvailability> {
+  const [settings, schedules] = await Promise.all([
+    getRestaurantSettings(restaurantId),
+    getMenuSchedules(restaurantId)
+  ]);
+
+  return { timezone: settings.timezone, schedules };
+}
+
+/**
+ * Check whether a menu item can be ordered at a restaurant right now
+ */
+export async function isMenuItemAvailableNow(
+  menuItem: ScheduledMenuItem,
+  restaurantId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (menuItem.is_available === false) {
+    return false;
+  }
+
+  if (!menuItem.schedule_ids || menuItem.schedule_ids.length === 0) {
+    return true;
+  }
+
+  const { timezone, schedules } = await getMenuAvailability(restaurantId);
+  return isMenuItemAvailable(menuItem, schedules, getLocalTime(now, timezone));
+}
+
+/**
+ * Create or update a menu schedule
+ * Throws if the schedule is invalid or the write fails
+ */
+export async function saveMenuSchedule(
+  restaurantId: string,
+  schedule: Partial<MenuSchedule> & { name: string }
+): Promise<MenuSchedule> {
+  const validationError = validateMenuSchedule(schedule);
+  if (validationError) {
+    throw new AppError(validationError, 'INVALID_MENU_SCHEDULE', 'low');
+  }
+
+  const row = {
+    restaurant_id: restaurantId,
+    name: schedule.name.trim(),
+    days_of_week: schedule.days_of_week || [],
+    start_time: schedule.start_time || null,
+    end_time: schedule.end_time || null,
+    start_date: schedule.start_date || null,
+    end_date: schedule.end_date || null,
+    is_active: schedule.is_active !== false
+  };
+
+  const query = schedule.id
+    ? supabaseServer.from('menu_schedules').update(row).eq('id', schedule.id).eq('restaurant_id', restaurantId)
+    : supabaseServer.from('menu_schedules').insert(row);
+
+  const { data, error } = await query.select(SCHEDULE_COLUMNS).single();
+
+  if (error) {
+    throw new AppError(`Failed to save menu schedule: ${error.message}`, 'MENU_SCHEDULE_SAVE_FAILED', 'medium');
+  }
+
+  return normalizeScheduleRow(data as Record<string, unknown>);
+}
+
+/**
+ * Delete a menu schedule
+ * Items that referenced it fall back to their remaining schedules (or become unscheduled)
+ */
+export async function deleteMenuSchedule(restaurantId: string, scheduleId: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('menu_schedules')
+    .delete()
+    .eq('id', scheduleId)
+    .eq('restaurant_id', restaurantId);
+
+  if (error) {
+    throw new AppError(`Failed to delete menu schedule: ${error.message}`, 'MENU_SCHEDULE_DELETE_FAILED', 'medium');
+  }
+}
+
+export interface EightySixResult {
+  menuItem: { id: string; name: string };
+  flaggedCartItems: number;
+  notifiedSessions: number;
+}
+
+/**
+ * 86 a menu item: take it off the menu, flag it in diners' open carts
+ * and notify the waiter assigned to each affected table
+ */
+export async function eightySixMenuItem(menuItemId: string, performedBy?: string | null): Promise<EightySixResult> {
+  const now = new Date().toISOString();
+
+  const { data: menuItem, error: menuItemError } = await supabaseServer
+    .from('menu_items')
+    .update({ is_available: false, eighty_sixed_at: now })
+    .eq('id', menuItemId)
+    .select('id, name')
+    .single();
+
+  if (menuItemError || !menuItem) {
+    throw new AppError(`Failed to 86 menu item: ${menuItemError?.message || 'not found'}`, 'MENU_ITEM_86_FAILED', 'medium');
+  }
+
+  const { data: flaggedOrders, error: flagError } = await supabaseServer
+    .from('orders')
+    .update({ unavailable_at: now })
+    .eq('menu_item_id', menuItemId)
+    .eq('status', 'cart')
+    .is('unavailable_at', null)
+    .select('id, session_id, diner_name, quantity');
+
+  if (flagError) {
+    // The item is already off the menu and cannot be confirmed; carts just won't show the flag
+    console.error('⚠️ Failed to flag 86\'d item in open carts:', flagError);
+    return { menuItem, flaggedCartItems: 0, notifiedSessions: 0 };
+  }
+
+  const dinersBySession = new Map<string, string[]>();
+  (flaggedOrders || []).forEach(order => {
+    const diners = dinersBySession.get(order.session_id) || [];
+    diners.push(order.diner_name || 'A diner');
+    dinersBySession.set(order.session_id, diners);
+  });
+
+  let notifiedSessions = 0;
+
+  if (dinersBySession.size > 0) {
+    const { data: sessions, error: sessionsError } = await supabaseServer
+      .from('sessions')
+      .select(`
+        id,
+        served_by,
+        started_by_name,
+        tables!sessions_table_id_fkey(
+          table_number
+        )
+      `)
+      .in('id', Array.from(dinersBySession.keys()));
+
+    if (sessionsError) {
+      console.error('⚠️ Failed to load sessions for 86 notifications:', sessionsError);
+    }
+
+    const staffIds = Array.from(new Set((sessions || []).map(session => session.served_by).filter(Boolean)));
+    const { data: staff } = staffIds.length > 0
+      ? await supabaseServer.from('staff').select('id, name').in('id', staffIds)
+      : { data: [] as { id: string; name: string }[] };
+
+    for (const session of sessions || []) {
+      const tableNumber = Array.isArray(session.tables)
+        ? session.tables[0]?.table_number
+        : (session.tables as any)?.table_number;
+      const waiter = (staff || []).find(member => member.id === session.served_by)?.name || session.started_by_name;
+      const diners = Array.from(new Set(dinersBySession.get(session.id) || []));
+
+      const { error: notificationError } = await supabaseServer
+        .from('notifications')
+        .insert({
+          session_id: session.id,
+          type: 'item_unavailable',
+          title: 'Item 86\'d',
+          message: `Table ${tableNumber} - ${menuItem.name} is no longer available and is in the cart of ${diners.join(', ')}`,
+          priority: 'high',
+          status: 'pending',
+          metadata: {
+            menu_item_id: menuItem.id,
+            menu_item_name: menuItem.name,
+            diners,
+            assigned_staff_id: session.served_by || null,
+            assigned_waitstaff: waiter || null,
+            eighty_sixed_by: performedBy || null
+          }
+        });
+
+      if (notificationError) {
+        console.error('⚠️ Failed to create 86 notification:', notificationError);
+      } else {
+        notifiedSessions++;
+      }
+    }
+  }
+
+  return { menuItem, flaggedCartItems: flaggedOrders?.length || 0, notifiedSessions };
+}
+
+/**
+ * Put an 86'd menu item back on the menu and clear the flag from open carts
+ */
+export async function restoreMenuItem(menuItemId: string): Promise<{ id: string; name: string }> {
+  const { data: menuItem, error } = await supabaseServer
+    .from('menu_items')
+    .update({ is_available: true, eighty_sixed_at: null })
+    .eq('id', menuItemId)
+    .select('id, name')
+    .single();
+
+  if (error || !menuItem) {
+    throw new AppError(`Failed to restore menu item: ${error?.message || 'not found'}`, 'MENU_ITEM_RESTORE_FAILED', 'medium');
+  }
+
+  const { error: clearError } = await supabaseServer
+    .from('orders')
+    .update({ unavailable_at: null })
+    .eq('menu_item_id', menuItemId)
+    .eq('status', 'cart')
+    .not('unavailable_at', 'is', null);
+
+  if (clearError) {
+    console.error('⚠️ Failed to clear 86 flag from open carts:', clearError);
+  }
+
+  return menuItem;
+}
+
+/**
+ * Menu items the kitchen has 86'd and not yet restored
+ */
+export async function getEightySixedItems(): Promise<{ id: string; name: string; eighty_sixed_at: string }[]> {
+  const { data, error } = await supabaseServer
+    .from('menu_items')
+    .select('id, name, eighty_sixed_at')
+    .eq('is_available', false)
+    .not('eighty_sixed_at', 'is', null)
+    .order('eighty_sixed_at', { ascending: false });
+
+  if (error) {
+    console.warn('⚠️ Could not load 86\'d menu items:', error.message);
+    return [];
+  }
+
+  return data || [];
+}
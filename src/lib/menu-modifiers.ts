@@ -0,0 +1,220 @@
+// Menu item modifiers
+// Modifier groups (e.g. "Doneness", "Extras") are defined on menu_items.modifier_groups;
+// the options a diner picks are stored on the order's customizations array
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price_delta: number; // added to the item price per unit (may be 0)
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number; // 0 = optional
+  max_select: number;
+  options: ModifierOption[];
+}
+
+/**
+ * A chosen option as stored in orders.customizations
+ */
+export interface SelectedModifier {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  option_name: string;
+  price_delta: number;
+}
+
+/**
+ * What a client sends when picking options
+ */
+export interface ModifierSelection {
+  group_id: string;
+  option_id: string;
+}
+
+export interface ModifierResolution {
+  customizations: SelectedModifier[];
+  errors: string[];
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Read modifier groups from a menu_items row, dropping anything malformed
+ */
+export function normalizeModifierGroups(value: unknown): ModifierGroup[] {
+  let groups = value;
+  if (typeof groups === 'string') {
+    try {
+      groups = JSON.parse(groups);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(groups)) {
+    return [];
+  }
+
+  return groups
+    .filter((group: any) => group && typeof group.id === 'string' && typeof group.name === 'string')
+    .map((group: any) => {
+      const options: ModifierOption[] = (Array.isArray(group.options) ? group.options : [])
+        .filter((option: any) => option && typeof option.id === 'string' && typeof option.name === 'string')
+        .map((option: any) => ({
+          id: option.id,
+          name: option.name,
+          price_delta: toNumber(option.price_delta)
+        }));
+
+      const minSelect = Math.max(0, Math.floor(toNumber(group.min_select)));
+      const maxSelect = Math.floor(toNumber(group.max_select)) || options.length;
+
+      return {
+        id: group.id,
+        name: group.name,
+        min_select: minSelect,
+        max_select: Math.max(minSelect, maxSelect),
+        options
+      };
+    });
+}
+
+/**
+ * Check modifier groups before saving them on a menu item
+ */
+export function validateModifierGroups(groups: ModifierGroup[]): string[] {
+  const errors: string[] = [];
+
+  groups.forEach((group, index) => {
+    const label = group.name.trim() || `Group ${index + 1}`;
+
+    if (!group.name.trim()) {
+      errors.push(`${label} needs a name`);
+    }
+    if (group.options.length === 0) {
+      errors.push(`${label} needs at least one option`);
+    }
+    if (group.options.some(option => !option.name.trim())) {
+      errors.push(`${label} has an option without a name`);
+    }
+    if (group.min_select < 0 || group.max_select < 1) {
+      errors.push(`${label} must allow at least one selection`);
+    }
+    if (group.min_select > group.max_select) {
+      errors.push(`${label} minimum cannot be more than its maximum`);
+    }
+    if (group.min_select > group.options.length) {
+      errors.push(`${label} requires more selections than it has options`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Match a diner's selections against the item's modifier groups
+ * Enforces each group's min/max rules and returns the selections in menu order,
+ * so identical choices always serialize the same way (cart de-duplication relies on this)
+ */
+export function resolveModifierSelections(groups: ModifierGroup[], selections: unknown): ModifierResolution {
+  const errors: string[] = [];
+  const picked = new Map<string, Set<string>>();
+
+  for (const selection of Array.isArray(selections) ? selections : []) {
+    const groupId = (selection as ModifierSelection)?.group_id;
+    const optionId = (selection as ModifierSelection)?.option_id;
+    if (typeof groupId !== 'string' || typeof optionId !== 'string') {
+      errors.push('Invalid modifier selection');
+      continue;
+    }
+
+    const group = groups.find(candidate => candidate.id === groupId);
+    if (!group) {
+      errors.push('Selected modifier group is not available for this item');
+      continue;
+    }
+    if (!group.options.some(option => option.id === optionId)) {
+      errors.push(`Selected option is not available for ${group.name}`);
+      continue;
+    }
+
+    if (!picked.has(groupId)) {
+      picked.set(groupId, new Set());
+    }
+    picked.get(groupId)!.add(optionId);
+  }
+
+  const customizations: SelectedModifier[] = [];
+  for (const group of groups) {
+    const chosen = picked.get(group.id) || new Set<string>();
+
+    if (chosen.size < group.min_select) {
+      errors.push(group.min_select === 1
+        ? `Please choose an option for ${group.name}`
+        : `Please choose at least ${group.min_select} options for ${group.name}`);
+    }
+    if (chosen.size > group.max_select) {
+      errors.push(`Choose no more than ${group.max_select} options for ${group.name}`);
+    }
+
+    for (const option of group.options) {
+      if (chosen.has(option.id)) {
+        customizations.push({
+          group_id: group.id,
+          group_name: group.name,
+          option_id: option.id,
+          option_name: option.name,
+          price_delta: option.price_delta
+        });
+      }
+    }
+  }
+
+  return { customizations, errors };
+}
+
+/**
+ * Per-unit price change from an order's stored customizations
+ */
+export function getModifierTotal(customizations: unknown): number {
+  if (!Array.isArray(customizations)) {
+    return 0;
+  }
+  return customizations.reduce((sum: number, customization: any) => sum + toNumber(customization?.price_delta), 0);
+}
+
+/**
+ * Whether the diner has to pick options before the item can go in the cart
+ */
+export function hasRequiredModifiers(groups: ModifierGroup[]): boolean {
+  return groups.some(group => group.min_select > 0);
+}
+
+/**
+ * Stored customizations grouped for display, e.g. ["Doneness: Rare", "Extras: Cheese, Bacon"]
+ */
+export function summarizeModifiers(customizations: unknown): string[] {
+  if (!Array.isArray(customizations)) {
+    return [];
+  }
+
+  const byGroup = new Map<string, string[]>();
+  for (const customization of customizations as SelectedModifier[]) {
+    if (!customization?.group_name || !customization?.option_name) {
+      continue;
+    }
+    if (!byGroup.has(customization.group_name)) {
+      byGroup.set(customization.group_name, []);
+    }
+    byGroup.get(customization.group_name)!.push(customization.option_name);
+  }
+
+  return Array.from(byGroup.entries()).map(([groupName, optionNames]) => `${groupName}: ${optionNames.join(', ')}`);
+}
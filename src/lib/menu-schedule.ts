@@ -0,0 +1,194 @@
+// Menu schedules
+// Evaluates time-based availability (breakfast/lunch/dinner menus, weekday-only items, seasonal ranges)
+// against the restaurant's local time; used by the diner menu and /api/cart/add
+
+export interface MenuSchedule {
+  id: string;
+  name: string;
+  days_of_week: number[]; // 0 = Sunday ... 6 = Saturday; empty = every day
+  start_time: string | null; // 'HH:MM' or 'HH:MM:SS'; null = all day
+  end_time: string | null; // before start_time for windows that run past midnight
+  start_date: string | null; // 'YYYY-MM-DD', inclusive
+  end_date: string | null; // 'YYYY-MM-DD', inclusive
+  is_active: boolean;
+}
+
+export interface ScheduledMenuItem {
+  is_available?: boolean | null;
+  schedule_ids?: string[] | null;
+}
+
+/**
+ * A moment expressed in the restaurant's timezone
+ */
+export interface LocalTime {
+  date: string; // 'YYYY-MM-DD'
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number; // minutes since local midnight
+}
+
+/**
+ * Timezone used when a restaurant has not set one
+ */
+export const DEFAULT_TIMEZONE = 'Africa/Gaborone';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whether the runtime recognises an IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert an instant to the restaurant's local date, weekday and time of day
+ */
+export function getLocalTime(now: Date, timeZone: string): LocalTime {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short'
+  }).formatToParts(now);
+
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    dayOfWeek: WEEKDAY_LABELS.indexOf(part('weekday')),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute'))
+  };
+}
+
+const parseTime = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const [hours, minutes] = value.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+const runsOnDay = (schedule: MenuSchedule, dayOfWeek: number): boolean =>
+  !schedule.days_of_week || schedule.days_of_week.length === 0 || schedule.days_of_week.includes(dayOfWeek);
+
+/**
+ * Whether a schedule's window is open at the given local time
+ * Windows that cross midnight belong to the day they start on
+ */
+export function isScheduleActive(schedule: MenuSchedule, local: LocalTime): boolean {
+  if (!schedule.is_active) {
+    return false;
+  }
+
+  if (schedule.start_date && local.date < schedule.start_date) {
+    return false;
+  }
+  if (schedule.end_date && local.date > schedule.end_date) {
+    return false;
+  }
+
+  const start = parseTime(schedule.start_time);
+  const end = parseTime(schedule.end_time);
+
+  if (start === null || end === null || start === end) {
+    return runsOnDay(schedule, local.dayOfWeek);
+  }
+
+  if (start < end) {
+    return runsOnDay(schedule, local.dayOfWeek) && local.minutes >= start && local.minutes < end;
+  }
+
+  // Overnight window, e.g. 22:00-02:00
+  if (local.minutes >= start) {
+    return runsOnDay(schedule, local.dayOfWeek);
+  }
+  if (local.minutes < end) {
+    return runsOnDay(schedule, (local.dayOfWeek + 6) % 7);
+  }
+  return false;
+}
+
+/**
+ * Whether a menu item can be ordered right now
+ * Items must be switched on; scheduled items also need one of their schedules to be open.
+ * Schedules that no longer exist are ignored, so deleting a schedule never hides an item for good
+ */
+export function isMenuItemAvailable(item: ScheduledMenuItem, schedules: MenuSchedule[], local: LocalTime): boolean {
+  if (item.is_available === false) {
+    return false;
+  }
+
+  const itemSchedules = schedules.filter(schedule => (item.schedule_ids || []).includes(schedule.id));
+  if (itemSchedules.length === 0) {
+    return true;
+  }
+
+  return itemSchedules.some(schedule => isScheduleActive(schedule, local));
+}
+
+/**
+ * Short description of a schedule window, e.g. "Mon, Tue, Wed 06:00-11:00"
+ */
+export function describeSchedule(schedule: MenuSchedule): string {
+  const days = !schedule.days_of_week || schedule.days_of_week.length === 0 || schedule.days_of_week.length === 7
+    ? 'Every day'
+    : [...schedule.days_of_week].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+  const times = schedule.start_time && schedule.end_time
+    ? ` ${schedule.start_time.slice(0, 5)}-${schedule.end_time.slice(0, 5)}`
+    : '';
+  const dates = schedule.start_date || schedule.end_date
+    ? ` (${schedule.start_date || '…'} to ${schedule.end_date || '…'})`
+    : '';
+  return `${days}${times}${dates}`;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a schedule before it is saved
+ * Returns the first validation error, or null when the schedule is valid
+ */
+export function validateMenuSchedule(schedule: Partial<MenuSchedule>): string | null {
+  if (!schedule.name || !schedule.name.trim()) {
+    return 'Schedule name is required';
+  }
+
+  if (schedule.days_of_week !== undefined &&
+      (!Array.isArray(schedule.days_of_week) ||
+       schedule.days_of_week.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    return 'Days of week must be between 0 (Sunday) and 6 (Saturday)';
+  }
+
+  if (!schedule.start_time !== !schedule.end_time) {
+    return 'Start and end time must both be set, or both left empty';
+  }
+  if ((schedule.start_time && !TIME_PATTERN.test(schedule.start_time)) ||
+      (schedule.end_time && !TIME_PATTERN.test(schedule.end_time))) {
+    return 'Times must be in HH:MM format';
+  }
+
+  if ((schedule.start_date && !DATE_PATTERN.test(schedule.start_date)) ||
+      (schedule.end_date && !DATE_PATTERN.test(schedule.end_date))) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+  if (schedule.start_date && schedule.end_date && schedule.start_date > schedule.end_date) {
+    return 'Start date must be on or before the end date';
+  }
+
+  return null;
+}
@@ -0,0 +1,100 @@
+// Menu allergen and dietary tags
+// Structured attributes stored on menu_items.allergens / menu_items.dietary_tags and the diner-side filters over them
+
+export interface MenuTag {
+  value: string;
+  label: string;
+}
+
+/**
+ * Allergens a menu item can be marked as containing
+ */
+export const ALLERGENS: MenuTag[] = [
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'nuts', label: 'Tree Nuts' },
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'sesame', label: 'Sesame' },
+  { value: 'mustard', label: 'Mustard' },
+  { value: 'celery', label: 'Celery' },
+  { value: 'sulphites', label: 'Sulphites' }
+];
+
+/**
+ * Dietary suitability a menu item can be marked with
+ */
+export const DIETARY_TAGS: MenuTag[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'halal', label: 'Halal' }
+];
+
+// Tags that also satisfy a requested tag (anything vegan is vegetarian)
+const IMPLIED_DIETARY_TAGS: Record<string, string[]> = {
+  vegetarian: ['vegan']
+};
+
+export interface TaggedMenuItem {
+  allergens?: string[] | null;
+  dietary_tags?: string[] | null;
+}
+
+export interface MenuTagFilters {
+  excludeAllergens: string[];
+  dietaryTags: string[];
+}
+
+export const EMPTY_MENU_TAG_FILTERS: MenuTagFilters = {
+  excludeAllergens: [],
+  dietaryTags: []
+};
+
+/**
+ * Keep only known tag values, lower-cased and without duplicates
+ */
+export function normalizeTags(value: unknown, allowed: MenuTag[]): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const known = new Set(allowed.map(tag => tag.value));
+  return Array.from(new Set(
+    value
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => known.has(tag))
+  ));
+}
+
+/**
+ * Display label for a tag value
+ */
+export function getTagLabel(value: string, tags: MenuTag[]): string {
+  return tags.find(tag => tag.value === value)?.label || value;
+}
+
+/**
+ * Whether an item passes the diner's filters
+ * Items containing any excluded allergen are hidden; every requested dietary tag must be met
+ */
+export function matchesMenuTagFilters(item: TaggedMenuItem, filters: MenuTagFilters): boolean {
+  const allergens = item.allergens || [];
+  if (filters.excludeAllergens.some(allergen => allergens.includes(allergen))) {
+    return false;
+  }
+
+  const dietaryTags = item.dietary_tags || [];
+  return filters.dietaryTags.every(tag =>
+    dietaryTags.includes(tag) || (IMPLIED_DIETARY_TAGS[tag] || []).some(implied => dietaryTags.includes(implied))
+  );
+}
+
+/**
+ * Whether any filter is switched on
+ */
+export function hasActiveMenuTagFilters(filters: MenuTagFilters): boolean {
+  return filters.excludeAllergens.length > 0 || filters.dietaryTags.length > 0;
+}
@@ -0,0 +1,129 @@
+// Notification escalation service
+// Escalates staff notifications nobody has acknowledged: first to all floor staff, then to the manager
+// Run every minute by the notification_escalation scheduled job; rules live in src/lib/escalation-rules.ts
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { DEFAULT_RESTAURANT_ID, getRestaurantSettingsMap } from './restaurant-settings';
+import {
+  ESCALATING_NOTIFICATION_TYPES,
+  EscalationEntry,
+  FLOOR_STAFF_ROLES,
+  getDueEscalation,
+  getEscalationRules,
+  MANAGER_ROLES,
+  MAX_ESCALATION_LEVEL
+} from './escalation-rules';
+
+export interface EscalationRunSummary {
+  checked: number;
+  escalated: number;
+  toFloor: number;
+  toManager: number;
+  errors: string[];
+}
+
+// Thresholds are whole minutes, so nothing younger than a minute can be due
+const MIN_PENDING_MS = 60 * 1000;
+
+/**
+ * Escalate every overdue pending notification one or more steps
+ * A notification acknowledged while this runs is left alone
+ */
+export async function escalateOverdueNotifications(now: Date = new Date()): Promise<EscalationRunSummary> {
+  const summary: EscalationRunSummary = { checked: 0, escalated: 0, toFloor: 0, toManager: 0, errors: [] };
+
+  const { data: notifications, error } = await supabaseServer
+    .from('notifications')
+    .select('id, type, status, priority, created_at, restaurant_id, metadata, escalation_level, escalation_history')
+    .eq('status', 'pending')
+    .in('type', ESCALATING_NOTIFICATION_TYPES)
+    .lt('escalation_level', MAX_ESCALATION_LEVEL)
+    .lte('created_at', new Date(now.getTime() - MIN_PENDING_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw new AppError(`Failed to load notifications for escalation: ${error.message}`, 'ESCALATION_FETCH_FAILED', 'medium');
+  }
+
+  if (!notifications || notifications.length === 0) {
+    return summary;
+  }
+
+  const restaurantIds = [...new Set(notifications.map(notification => notification.restaurant_id || DEFAULT_RESTAURANT_ID))];
+  const settingsMap = await getRestaurantSettingsMap(restaurantIds);
+
+  // Each notification only reaches its own restaurant's staff
+  const { data: staff, error: staffError } = await supabaseServer
+    .from('staff')
+    .select('id, name, role, restaurant_id')
+    .eq('is_active', true)
+    .in('restaurant_id', restaurantIds)
+    .in('role', [...FLOOR_STAFF_ROLES, ...MANAGER_ROLES]);
+
+  if (staffError) {
+    console.warn('⚠️ Could not load staff for escalation, recording escalations without recipients:', staffError.message);
+  }
+
+  const staffByRestaurant = (staff || []).reduce((acc: Record<string, { name: string; role: string }[]>, member) => {
+    (acc[member.restaurant_id] = acc[member.restaurant_id] || []).push(member);
+    return acc;
+  }, {});
+
+  const namesFor = (restaurantId: string, roles: string[]) =>
+    (staffByRestaurant[restaurantId] || []).filter(member => roles.includes(member.role)).map(member => member.name);
+
+  for (const notification of notifications) {
+    summary.checked++;
+
+    const restaurantId = notification.restaurant_id || DEFAULT_RESTAURANT_ID;
+    const settings = settingsMap[restaurantId];
+    if (!settings?.enable_notifications) {
+      continue;
+    }
+
+    const rule = getDueEscalation(notification, getEscalationRules(settings), now);
+    if (!rule) {
+      continue;
+    }
+
+    const entry: EscalationEntry = {
+      level: rule.level,
+      target: rule.target,
+      escalated_at: now.toISOString(),
+      pending_seconds: Math.round((now.getTime() - new Date(notification.created_at).getTime()) / 1000),
+      notified: namesFor(restaurantId, rule.target === 'manager' ? MANAGER_ROLES : FLOOR_STAFF_ROLES)
+    };
+
+    const { data: updated, error: updateError } = await supabaseServer
+      .from('notifications')
+      .update({
+        escalation_level: rule.level,
+        escalated_at: entry.escalated_at,
+        escalation_history: [...(notification.escalation_history || []), entry],
+        priority: 'high',
+        metadata: { ...(notification.metadata || {}), escalated_to: rule.target }
+      })
+      .eq('id', notification.id)
+      .eq('status', 'pending')
+      .eq('escalation_level', notification.escalation_level || 0)
+      .select('id');
+
+    if (updateError) {
+      summary.errors.push(`${notification.id}: ${updateError.message}`);
+      continue;
+    }
+
+    if (updated && updated.length > 0) {
+      summary.escalated++;
+      if (rule.target === 'manager') {
+        summary.toManager++;
+      } else {
+        summary.toFloor++;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,12 @@
+// Order statuses
+// Status groups shared by the bill, payments and reporting; no server imports, so client pages can use them
+
+/**
+ * Orders that count towards the bill (voided, cart and paid orders are excluded)
+ */
+export const BILLABLE_ORDER_STATUSES = ['placed', 'waiting', 'preparing', 'ready', 'served'];
+
+/**
+ * Orders that represent a sale: everything billable, plus orders kept as paid once the table's payment completes
+ */
+export const SOLD_ORDER_STATUSES = [...BILLABLE_ORDER_STATUSES, 'paid'];
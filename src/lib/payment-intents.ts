@@ -0,0 +1,375 @@
+// Payment intents
+// Diner self-payments at self-serve restaurants: an intent is created with the payment provider for the amount
+// due, confirmed and captured with the diner's payment details, and then completed through /api/payment/complete,
+// which records it in the payments ledger under the intent's reference
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantIdForSession, getSettingsForSession } from './restaurant-settings';
+import { calculateSessionBill } from './session-bill';
+import { getSessionBalance, getSessionPayments } from './payments';
+import {
+  getPaymentCurrency,
+  getPaymentProvider,
+  PaymentConfirmationDetails,
+  ProviderIntentStatus,
+  ProviderWebhookEvent
+} from './payment-provider';
+
+export interface PaymentIntent {
+  id: string;
+  restaurant_id: string;
+  session_id: string | null;
+  payment_type: 'table' | 'individual';
+  diner_name: string | null;
+  amount: number; // excluding tip
+  tip_amount: number;
+  currency: string;
+  payment_method: string;
+  provider: string;
+  provider_intent_id: string;
+  reference: string;
+  status: ProviderIntentStatus;
+  failure_reason: string | null;
+  payment_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewPaymentIntent {
+  paymentType: 'table' | 'individual';
+  dinerName?: string | null;
+  paymentMethod: string;
+  tipAmount?: number;
+}
+
+// Postgres unique_violation - the session already has an open table intent
+const UNIQUE_VIOLATION = '23505';
+
+const TABLE_PAYMENT_IN_PROGRESS = 'A payment for the whole table is already in progress';
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const normalizeIntentRow = (row: any): PaymentIntent => ({
+  ...row,
+  amount: Number(row.amount) || 0,
+  tip_amount: Number(row.tip_amount) || 0
+});
+
+// Reference the payment is recorded under, e.g. PAY-20261019-1A2B3C4D
+const createIntentReference = () =>
+  `PAY-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+/**
+ * Amount a diner charges on an intent, tip included
+ */
+export function getIntentTotal(intent: PaymentIntent): number {
+  return roundMoney(intent.amount + intent.tip_amount);
+}
+
+/**
+ * What the diner's browser is told about an intent
+ */
+export function toPublicIntent(intent: PaymentIntent) {
+  return {
+    intent_id: intent.id,
+    session_id: intent.session_id,
+    payment_type: intent.payment_type,
+    diner_name: intent.diner_name,
+    amount: intent.amount,
+    tip_amount: intent.tip_amount,
+    total: getIntentTotal(intent),
+    currency: intent.currency,
+    payment_method: intent.payment_method,
+    reference: intent.reference,
+    status: intent.status,
+    failure_reason: intent.failure_reason,
+    completed: intent.payment_id !== null
+  };
+}
+
+export async function getPaymentIntent(intentId: string): Promise<PaymentIntent | null> {
+  const { data, error } = await supabaseServer
+    .from('payment_intents')
+    .select('*')
+    .eq('id', intentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load payment intent: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizeIntentRow(data) : null;
+}
+
+async function updateIntent(intentId: string, changes: Partial<PaymentIntent>, expectedStatus?: ProviderIntentStatus): Promise<PaymentIntent | null> {
+  let query = supabaseServer
+    .from('payment_intents')
+    .update(changes)
+    .eq('id', intentId);
+
+  if (expectedStatus) {
+    query = query.eq('status', expectedStatus);
+  }
+
+  const { data, error } = await query.select('*').maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update payment intent: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizeIntentRow(data) : null;
+}
+
+/**
+ * Start a self-payment for what a diner (or the whole table) owes
+ * Only self-serve restaurants take payments this way; attendant-verified ones have staff complete every payment
+ */
+export async function createPaymentIntent(sessionId: string, request: NewPaymentIntent): Promise<PaymentIntent> {
+  const settings = await getSettingsForSession(sessionId);
+  if (settings.payment_finalization_method !== 'self_serve') {
+    throw new AppError('This restaurant does not take self-serve payments', 'SELF_SERVE_DISABLED', 'low');
+  }
+
+  const provider = getPaymentProvider();
+  if (!provider.methods.includes(request.paymentMethod)) {
+    throw new AppError('Payment method is not available for self-serve payments', 'INVALID_PAYMENT_INTENT', 'low');
+  }
+  if (request.paymentType === 'individual' && !request.dinerName) {
+    throw new AppError('Diner name is required for individual payments', 'INVALID_PAYMENT_INTENT', 'low');
+  }
+
+  const tipAmount = roundMoney(Number(request.tipAmount) || 0);
+  if (tipAmount < 0) {
+    throw new AppError('Tip cannot be negative', 'INVALID_PAYMENT_INTENT', 'low');
+  }
+
+  const { data: session, error: sessionError } = await supabaseServer
+    .from('sessions')
+    .select('id, payment_status')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError) {
+    throw new AppError(`Failed to load session: ${sessionError.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (!session) {
+    throw new AppError('Session not found', 'SESSION_NOT_FOUND', 'low');
+  }
+  if (session.payment_status !== 'pending') {
+    throw new AppError(
+      session.payment_status === 'completed' ? 'This bill has already been paid' : 'Request the bill before paying',
+      'INVALID_PAYMENT_INTENT',
+      'low'
+    );
+  }
+
+  // A diner pays their own orders; the table pays whatever is left after earlier payments
+  let amount: number;
+  if (request.paymentType === 'individual') {
+    const alreadyPaid = (await getSessionPayments(sessionId))
+      .some(payment => payment.payment_type === 'individual' && payment.diner_name === request.dinerName);
+    if (alreadyPaid) {
+      throw new AppError('You have already paid your share', 'INVALID_PAYMENT_INTENT', 'low');
+    }
+    amount = (await calculateSessionBill(sessionId, { paymentType: 'individual', dinerName: request.dinerName as string })).total;
+  } else {
+    await replaceOpenTableIntent(sessionId);
+    amount = (await getSessionBalance(sessionId)).balance;
+  }
+  if (!(amount > 0)) {
+    throw new AppError('There is nothing left to pay', 'INVALID_PAYMENT_INTENT', 'low');
+  }
+
+  const reference = createIntentReference();
+  const currency = getPaymentCurrency();
+  const providerIntent = await provider.createIntent({
+    amount: roundMoney(amount + tipAmount),
+    currency,
+    paymentMethod: request.paymentMethod,
+    reference,
+    description: `Table bill ${reference}`
+  });
+
+  const { data, error } = await supabaseServer
+    .from('payment_intents')
+    .insert({
+      restaurant_id: await getRestaurantIdForSession(sessionId),
+      session_id: sessionId,
+      payment_type: request.paymentType,
+      diner_name: request.paymentType === 'individual' ? request.dinerName : null,
+      amount: roundMoney(amount),
+      tip_amount: tipAmount,
+      currency,
+      payment_method: request.paymentMethod,
+      provider: provider.name,
+      provider_intent_id: providerIntent.providerIntentId,
+      reference,
+      status: providerIntent.status,
+      failure_reason: providerIntent.failureReason || null
+    })
+    .select('*')
+    .single();
+
+  // Another table payment was started at the same moment
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new AppError(TABLE_PAYMENT_IN_PROGRESS, 'INVALID_PAYMENT_INTENT', 'low');
+  }
+  if (error || !data) {
+    throw new AppError(`Failed to save payment intent: ${error?.message || 'no intent returned'}`, 'PAYMENT_INTENT_FAILED', 'high');
+  }
+
+  return normalizeIntentRow(data);
+}
+
+/**
+ * Cancel a table intent the diners never confirmed, so a new one can be priced from the current balance
+ * One that is already being paid blocks a second table payment until it completes or fails
+ */
+async function replaceOpenTableIntent(sessionId: string): Promise<void> {
+  const { error: cancelError } = await supabaseServer
+    .from('payment_intents')
+    .update({ status: 'cancelled', failure_reason: 'Replaced by a newer table payment' })
+    .eq('session_id', sessionId)
+    .eq('payment_type', 'table')
+    .eq('status', 'requires_confirmation')
+    .is('payment_id', null);
+
+  if (cancelError) {
+    throw new AppError(`Failed to cancel payment intent: ${cancelError.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  const { data, error } = await supabaseServer
+    .from('payment_intents')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('payment_type', 'table')
+    .in('status', ['processing', 'requires_capture', 'succeeded'])
+    .is('payment_id', null)
+    .limit(1);
+
+  if (error) {
+    throw new AppError(`Failed to load payment intents: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if ((data || []).length > 0) {
+    throw new AppError(TABLE_PAYMENT_IN_PROGRESS, 'INVALID_PAYMENT_INTENT', 'low');
+  }
+}
+
+/**
+ * Confirm an intent with the diner's payment details and capture it
+ * Resolves with the intent as it stands afterwards: succeeded, failed, or processing while the provider decides
+ */
+export async function confirmPaymentIntent(intentId: string, details: PaymentConfirmationDetails): Promise<PaymentIntent> {
+  const intent = await getPaymentIntent(intentId);
+  if (!intent) {
+    throw new AppError('Payment not found', 'PAYMENT_INTENT_NOT_FOUND', 'low');
+  }
+  if (intent.status !== 'requires_confirmation') {
+    return intent;
+  }
+  if (intent.payment_method === 'card' && !details.cardNumber) {
+    throw new AppError('Card number is required', 'INVALID_PAYMENT_INTENT', 'low');
+  }
+
+  // Claim the intent so a double-submitted confirmation cannot charge twice
+  const claimed = await updateIntent(intentId, { status: 'processing' }, 'requires_confirmation');
+  if (!claimed) {
+    return (await getPaymentIntent(intentId)) as PaymentIntent;
+  }
+
+  const provider = getPaymentProvider();
+  try {
+    let providerIntent = await provider.confirm(intent.provider_intent_id, details);
+    if (providerIntent.status === 'requires_capture') {
+      providerIntent = await provider.capture(intent.provider_intent_id, getIntentTotal(intent));
+    }
+
+    return (await updateIntent(intentId, {
+      status: providerIntent.status,
+      failure_reason: providerIntent.failureReason || null
+    })) as PaymentIntent;
+  } catch (providerError) {
+    console.error('❌ Payment provider failed to confirm intent:', providerError);
+    return (await updateIntent(intentId, {
+      status: 'failed',
+      failure_reason: providerError instanceof Error ? providerError.message : 'Payment provider error'
+    })) as PaymentIntent;
+  }
+}
+
+/**
+ * Link a completed intent to the ledger payment recorded for it
+ */
+export async function linkIntentPayment(intentId: string, paymentId: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('payment_intents')
+    .update({ payment_id: paymentId })
+    .eq('id', intentId);
+
+  if (error) {
+    console.error('⚠️ Failed to link payment intent to its payment:', error);
+  }
+}
+
+/**
+ * Refund a captured intent that can no longer be recorded against its bill, and cancel it
+ * Throws when the provider does not refund it, leaving the intent succeeded so the refund can be tried again
+ */
+export async function refundUnappliedIntent(intent: PaymentIntent, reason: string): Promise<PaymentIntent> {
+  const claimed = await updateIntent(intent.id, { status: 'cancelled', failure_reason: reason }, 'succeeded');
+  if (!claimed) {
+    throw new AppError('This payment is already being handled', 'PAYMENT_INTENT_CONFLICT', 'medium');
+  }
+
+  const provider = getPaymentProvider();
+  try {
+    if (provider.name !== intent.provider) {
+      throw new Error(`This payment was taken through ${intent.provider}, which is no longer configured`);
+    }
+    const refund = await provider.refund(intent.provider_intent_id, getIntentTotal(intent), `${intent.reference}-R`);
+    if (refund.status === 'failed') {
+      throw new Error(refund.failureReason || 'The payment provider refused the refund');
+    }
+  } catch (refundError) {
+    await updateIntent(intent.id, { status: 'succeeded', failure_reason: null }, 'cancelled');
+    throw new AppError(
+      `Failed to refund payment ${intent.reference}: ${refundError instanceof Error ? refundError.message : 'Payment provider error'}`,
+      'PAYMENT_INTENT_REFUND_FAILED',
+      'high'
+    );
+  }
+
+  return claimed;
+}
+
+/**
+ * Apply a verified provider webhook to the intent it concerns
+ * Payments settle asynchronously with some providers; the diner's page completes the payment once it succeeds
+ */
+export async function applyPaymentWebhook(event: ProviderWebhookEvent): Promise<PaymentIntent | null> {
+  const { data, error } = await supabaseServer
+    .from('payment_intents')
+    .select('*')
+    .eq('provider', getPaymentProvider().name)
+    .eq('provider_intent_id', event.providerIntentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load payment intent: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (!data) {
+    return null;
+  }
+
+  const intent = normalizeIntentRow(data);
+  // Refund events need no change here; the refund is already in the ledger
+  if (event.type === 'payment.succeeded' && intent.status !== 'succeeded') {
+    return updateIntent(intent.id, { status: 'succeeded', failure_reason: null });
+  }
+  if (event.type === 'payment.failed' && intent.status !== 'succeeded' && intent.status !== 'failed') {
+    return updateIntent(intent.id, { status: 'failed', failure_reason: event.failureReason || 'Payment failed' });
+  }
+
+  return intent;
+}
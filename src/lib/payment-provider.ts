@@ -0,0 +1,180 @@
+// Payment provider
+// Pluggable payment processing for payments diners make themselves: create an intent for the amount due,
+// confirm it with the diner's payment details, capture it, refund it, and verify the provider's webhooks;
+// server-only
+// PAYMENT_PROVIDER picks the provider: 'mock' (the default outside production) settles everything locally
+// and deterministically, so self-serve payments can be tried without a processor account
+
+import crypto from 'crypto';
+import { AppError } from './error-handling';
+
+export type ProviderIntentStatus =
+  | 'requires_confirmation'
+  | 'processing'
+  | 'requires_capture'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface ProviderIntentRequest {
+  amount: number; // amount to charge, tip included
+  currency: string;
+  paymentMethod: string;
+  reference: string;
+  description?: string;
+}
+
+export interface ProviderIntent {
+  providerIntentId: string;
+  status: ProviderIntentStatus;
+  clientSecret: string | null; // handed to the browser for providers that confirm client-side
+  failureReason?: string | null;
+}
+
+/**
+ * Payment details collected from the diner; a real provider tokenises these in the browser
+ */
+export interface PaymentConfirmationDetails {
+  cardNumber?: string;
+}
+
+export interface ProviderRefund {
+  providerRefundId: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  failureReason?: string | null;
+}
+
+export type ProviderWebhookEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+
+export interface ProviderWebhookEvent {
+  id: string;
+  type: ProviderWebhookEventType;
+  providerIntentId: string;
+  failureReason?: string | null;
+}
+
+export interface PaymentProvider {
+  name: string;
+  methods: string[]; // payment methods diners can use with this provider
+  createIntent(request: ProviderIntentRequest): Promise<ProviderIntent>;
+  confirm(providerIntentId: string, details: PaymentConfirmationDetails): Promise<ProviderIntent>;
+  capture(providerIntentId: string, amount: number): Promise<ProviderIntent>;
+  refund(providerIntentId: string, amount: number, reference: string): Promise<ProviderRefund>;
+  /**
+   * Check a webhook's signature and parse it; throws PAYMENT_WEBHOOK_INVALID when it does not verify
+   */
+  verifyWebhook(rawBody: string, headers: Headers): ProviderWebhookEvent;
+}
+
+export const DEFAULT_PAYMENT_CURRENCY = 'BWP';
+
+// Card numbers the mock provider declines; any other card number is approved
+export const MOCK_DECLINED_CARDS: Record<string, string> = {
+  '4000000000000002': 'Card declined',
+  '4000000000009995': 'Insufficient funds'
+};
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+const DEFAULT_MOCK_WEBHOOK_SECRET = 'mock_webhook_secret';
+
+const getMockWebhookSecret = () => process.env.PAYMENT_WEBHOOK_SECRET || DEFAULT_MOCK_WEBHOOK_SECRET;
+
+/**
+ * Signature the mock provider expects on a webhook body (hex HMAC-SHA256), for sending test events
+ */
+export function signMockWebhook(rawBody: string, secret: string = getMockWebhookSecret()): string {
+  return crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+}
+
+/**
+ * Provider that settles payments locally
+ * Intent IDs derive from the payment reference and outcomes depend only on the card number, so the same
+ * request always gets the same answer
+ */
+function createMockPaymentProvider(): PaymentProvider {
+  const intentId = (reference: string) => `mock_pi_${reference}`;
+
+  return {
+    name: 'mock',
+    methods: ['card', 'qr_code', 'digital'],
+
+    async createIntent(request) {
+      return {
+        providerIntentId: intentId(request.reference),
+        status: 'requires_confirmation',
+        clientSecret: `${intentId(request.reference)}_secret`
+      };
+    },
+
+    async confirm(providerIntentId, details) {
+      const cardNumber = (details.cardNumber || '').replace(/\D/g, '');
+      const failureReason = details.cardNumber !== undefined && cardNumber.length < 12
+        ? 'Invalid card number'
+        : MOCK_DECLINED_CARDS[cardNumber] || null;
+
+      return {
+        providerIntentId,
+        status: failureReason ? 'failed' : 'requires_capture',
+        clientSecret: null,
+        failureReason
+      };
+    },
+
+    async capture(providerIntentId) {
+      return { providerIntentId, status: 'succeeded', clientSecret: null };
+    },
+
+    async refund(providerIntentId, amount, reference) {
+      return { providerRefundId: `mock_re_${reference}`, status: 'succeeded' };
+    },
+
+    verifyWebhook(rawBody, headers) {
+      const signature = headers.get(MOCK_SIGNATURE_HEADER) || '';
+      const expected = signMockWebhook(rawBody);
+      if (signature.length !== expected.length ||
+          !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        throw new AppError('Webhook signature does not match', 'PAYMENT_WEBHOOK_INVALID', 'medium');
+      }
+
+      let event: any;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        throw new AppError('Webhook body is not JSON', 'PAYMENT_WEBHOOK_INVALID', 'medium');
+      }
+      if (!event?.id || !event?.type || !event?.providerIntentId) {
+        throw new AppError('Webhook event is missing id, type or providerIntentId', 'PAYMENT_WEBHOOK_INVALID', 'medium');
+      }
+
+      return {
+        id: String(event.id),
+        type: event.type,
+        providerIntentId: String(event.providerIntentId),
+        failureReason: event.failureReason || null
+      };
+    }
+  };
+}
+
+/**
+ * The provider configured through the environment
+ * Throws PAYMENT_PROVIDER_NOT_CONFIGURED when none is set up
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'mock');
+
+  if (provider === 'mock') {
+    return createMockPaymentProvider();
+  }
+
+  throw new AppError(
+    provider ? `Unknown payment provider: ${provider}` : 'No payment provider is configured (set PAYMENT_PROVIDER)',
+    'PAYMENT_PROVIDER_NOT_CONFIGURED',
+    'high'
+  );
+}
+
+export function getPaymentCurrency(): string {
+  return process.env.PAYMENT_CURRENCY || DEFAULT_PAYMENT_CURRENCY;
+}
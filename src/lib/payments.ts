@@ -0,0 +1,423 @@
+// Payments ledger
+// Records every payment taken against a session (the whole table, one diner paying individually, or one
+// tender of a split bill) and answers payment questions from the ledger: who has paid, how much, how,
+// and what is left to pay
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantIdForSession } from './restaurant-settings';
+import { FiscalPayment, FiscalReceipt, normalizeReceiptRow } from './fiscal-receipts';
+import { BILL_TOTAL_TOLERANCE, BillPaymentType, calculateSessionBill } from './session-bill';
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+export type LedgerPaymentType = BillPaymentType | 'split';
+export type LedgerEntryType = 'payment' | 'refund';
+
+export const PAYMENT_METHODS = ['cash', 'card', 'qr_code', 'digital'];
+export const MAX_SPLIT_WAYS = 20;
+
+export interface Tender {
+  paymentMethod: string;
+  amount: number;
+  tipAmount?: number;
+}
+
+export interface SessionBalance {
+  billTotal: number; // unsettled orders, excluding tips
+  paid: number; // paid towards the bill so far, excluding tips
+  balance: number;
+  payments: Payment[];
+}
+
+export interface RefundedItem {
+  line: number; // index of the line on the original receipt
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Payment {
+  id: string;
+  restaurant_id: string;
+  entry_type: LedgerEntryType;
+  session_id: string | null;
+  table_id: string | null;
+  payment_type: LedgerPaymentType;
+  diner_name: string | null;
+  amount: number; // excluding tip
+  subtotal: number | null;
+  tax_amount: number | null;
+  service_charge: number | null;
+  tip_amount: number;
+  payment_method: string;
+  reference: string;
+  status: PaymentStatus;
+  staff_id: string | null;
+  completed_by: string | null;
+  fiscal_receipt_id: string | null;
+  payment_intent_id: string | null; // set when the diner paid through the payment provider
+  cash_drawer_session_id: string | null; // cash payments and refunds: the drawer the cash went into or came out of
+  completed_at: string | null;
+  settled_at: string | null; // when the orders this payment went towards were marked paid
+  original_payment_id: string | null; // refunds: the payment being refunded
+  credit_note_id: string | null;
+  refund_reason: string | null;
+  refunded_items: RefundedItem[] | null;
+  created_at: string;
+}
+
+export interface NewPayment {
+  sessionId: string;
+  tableId?: string | null;
+  paymentType: LedgerPaymentType;
+  dinerName?: string | null;
+  amount: number;
+  subtotal?: number | null;
+  taxAmount?: number | null;
+  serviceCharge?: number | null;
+  tipAmount?: number;
+  paymentMethod: string;
+  reference: string;
+  staffId?: string | null;
+  completedBy?: string | null;
+  completedAt: string;
+  paymentIntentId?: string | null;
+}
+
+export interface IndividualPaymentStatus {
+  total_diners: number;
+  paid_diners: number;
+  remaining_diners: number;
+  all_paid: boolean;
+  individual_payments: {
+    diner_name: string;
+    payment_amount: number;
+    payment_method: string;
+    payment_status: PaymentStatus;
+    completed_at: string | null;
+    completed_by: string | null;
+    reference: string;
+  }[];
+}
+
+// Postgres serialization_failure - raised by record_payments_with_receipt() when another completion won the race
+const SERIALIZATION_FAILURE = '40001';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const toNullableNumber = (value: unknown) => value === null || value === undefined ? null : Number(value);
+
+export const normalizePaymentRow = (row: any): Payment => ({
+  ...row,
+  entry_type: row.entry_type || 'payment',
+  amount: Number(row.amount) || 0,
+  subtotal: toNullableNumber(row.subtotal),
+  tax_amount: toNullableNumber(row.tax_amount),
+  service_charge: toNullableNumber(row.service_charge),
+  tip_amount: Number(row.tip_amount) || 0
+});
+
+/**
+ * Amount a payment took including tip
+ */
+export function getPaymentTotal(payment: Payment): number {
+  return roundMoney(payment.amount + payment.tip_amount);
+}
+
+/**
+ * Split an amount into N shares that add up to it exactly; the first shares take the odd cents
+ */
+export function splitEvenly(amount: number, ways: number): number[] {
+  const count = Math.max(1, Math.min(MAX_SPLIT_WAYS, Math.floor(ways)));
+  const cents = Math.round(amount * 100);
+  const base = Math.floor(cents / count);
+  const remainder = cents - base * count;
+
+  return Array.from({ length: count }, (_, index) => (base + (index < remainder ? 1 : 0)) / 100);
+}
+
+/**
+ * Check tenders against the balance due; a last tender without an amount pays the rest
+ * Returns an error message, or the tenders with every amount filled in
+ */
+export function resolveTenders(tenders: Partial<Tender>[], balance: number): string | Tender[] {
+  if (!Array.isArray(tenders) || tenders.length === 0) {
+    return 'At least one tender is required';
+  }
+
+  const resolved: Tender[] = [];
+  let remaining = roundMoney(balance);
+
+  for (const [index, tender] of tenders.entries()) {
+    if (!tender || !PAYMENT_METHODS.includes(tender.paymentMethod as string)) {
+      return `Invalid payment method for tender ${index + 1}`;
+    }
+
+    const isRest = (tender.amount === undefined || tender.amount === null) && index === tenders.length - 1;
+    const amount = isRest ? remaining : roundMoney(Number(tender.amount));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return `Tender ${index + 1} must be a positive amount`;
+    }
+    if (amount > remaining + BILL_TOTAL_TOLERANCE) {
+      return `Tenders exceed the balance due of P${roundMoney(balance).toFixed(2)}`;
+    }
+
+    const tipAmount = Number(tender.tipAmount) || 0;
+    if (tipAmount < 0) {
+      return `Tender ${index + 1} has a negative tip`;
+    }
+
+    resolved.push({ paymentMethod: tender.paymentMethod as string, amount, tipAmount: roundMoney(tipAmount) });
+    remaining = roundMoney(remaining - amount);
+  }
+
+  return resolved;
+}
+
+/**
+ * What is left to pay on a session: the unsettled bill less what the ledger has taken towards it
+ */
+export async function getSessionBalance(sessionId: string): Promise<SessionBalance> {
+  const [bill, payments] = await Promise.all([
+    calculateSessionBill(sessionId, { paymentType: 'table' }),
+    getSessionPayments(sessionId)
+  ]);
+
+  // Settled orders drop out of the bill, so only payments that are still open count against it
+  const openPayments = payments.filter(payment => !payment.settled_at);
+  const paid = roundMoney(openPayments.reduce((sum, payment) => sum + payment.amount, 0));
+
+  return {
+    billTotal: bill.total,
+    paid,
+    balance: Math.max(0, roundMoney(bill.total - paid)),
+    payments
+  };
+}
+
+/**
+ * Mark a session's open payments as settled once its orders have been paid off
+ */
+export async function settleSessionPayments(sessionId: string, settledAt: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('payments')
+    .update({ settled_at: settledAt })
+    .eq('session_id', sessionId)
+    .is('settled_at', null);
+
+  if (error) {
+    console.error('⚠️ Failed to mark session payments as settled:', error);
+  }
+}
+
+export interface PaymentReceipt extends FiscalPayment {
+  linkReferences: string[]; // every payment the receipt covers, including split tenders recorded earlier
+}
+
+/**
+ * Write completed payments to the ledger and issue their receipt in the same transaction, so a payment is
+ * never recorded without its receipt number
+ * The session is locked while they are written: expectedPaymentCount is how many other payments the balance was
+ * worked out from, and PAYMENT_CONFLICT is thrown when another completion got there first.
+ * Recording the same reference twice returns the payment already recorded
+ */
+export async function recordPayments(
+  payments: NewPayment[],
+  receipt: PaymentReceipt | null,
+  expectedPaymentCount: number
+): Promise<{ payments: Payment[]; receipt: FiscalReceipt | null }> {
+  if (payments.length === 0) {
+    throw new AppError('No payments to record', 'PAYMENT_RECORD_FAILED', 'high');
+  }
+
+  const sessionId = payments[0].sessionId;
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+
+  const { data, error } = await supabaseServer.rpc('record_payments_with_receipt', {
+    p_session_id: sessionId,
+    p_expected_payment_count: expectedPaymentCount,
+    p_payments: payments.map(payment => ({
+      restaurant_id: restaurantId,
+      session_id: payment.sessionId,
+      table_id: payment.tableId || null,
+      payment_type: payment.paymentType,
+      diner_name: payment.dinerName || null,
+      amount: roundMoney(payment.amount),
+      subtotal: payment.subtotal ?? null,
+      tax_amount: payment.taxAmount ?? null,
+      service_charge: payment.serviceCharge ?? null,
+      tip_amount: roundMoney(payment.tipAmount || 0),
+      payment_method: payment.paymentMethod,
+      reference: payment.reference,
+      staff_id: payment.staffId && UUID_PATTERN.test(payment.staffId) ? payment.staffId : null,
+      completed_by: payment.completedBy || null,
+      completed_at: payment.completedAt,
+      payment_intent_id: payment.paymentIntentId || null
+    })),
+    p_receipt: receipt ? {
+      restaurant_id: restaurantId,
+      session_id: sessionId,
+      payment_reference: receipt.reference,
+      amount: roundMoney(receipt.amount),
+      payment_method: receipt.paymentMethod,
+      diner_name: receipt.dinerName || null,
+      issued_by: receipt.issuedBy || null,
+      data: receipt.data || null,
+      link_references: receipt.linkReferences
+    } : null
+  });
+
+  if (error?.code === SERIALIZATION_FAILURE) {
+    throw new AppError(error.message, 'PAYMENT_CONFLICT', 'medium');
+  }
+  const result = Array.isArray(data) ? data[0] : data;
+  if (error || !result || (result.payments || []).length !== payments.length) {
+    throw new AppError(`Failed to record payment: ${error?.message || 'no payment returned'}`, 'PAYMENT_RECORD_FAILED', 'high');
+  }
+
+  return {
+    payments: result.payments.map(normalizePaymentRow),
+    receipt: result.receipt ? normalizeReceiptRow(result.receipt) : null
+  };
+}
+
+export async function getPaymentByReference(reference: string): Promise<Payment | null> {
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('*')
+    .eq('reference', reference)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load payment: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizePaymentRow(data) : null;
+}
+
+export async function getPaymentById(paymentId: string): Promise<Payment | null> {
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load payment: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data ? normalizePaymentRow(data) : null;
+}
+
+/**
+ * Completed payments for a session, oldest first; refunds are left out
+ */
+export async function getSessionPayments(sessionId: string): Promise<Payment[]> {
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('status', 'completed')
+    .eq('entry_type', 'payment')
+    .order('completed_at', { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load session payments: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizePaymentRow);
+}
+
+/**
+ * A restaurant's completed payments and refunds, newest first
+ */
+export async function getPayments(
+  restaurantId: string,
+  options: { since?: string; limit?: number } = {}
+): Promise<Payment[]> {
+  let query = supabaseServer
+    .from('payments')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.since) {
+    query = query.gte('completed_at', options.since);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new AppError(`Failed to load payments: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizePaymentRow);
+}
+
+// Names of the diners who joined a session (the diners column may be stored as a JSON string)
+async function getSessionDinerNames(sessionId: string): Promise<string[]> {
+  const { data, error } = await supabaseServer
+    .from('sessions')
+    .select('diners')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load session diners: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (!data) {
+    throw new AppError('Session not found', 'SESSION_NOT_FOUND', 'low');
+  }
+
+  let diners = data.diners;
+  if (typeof diners === 'string') {
+    try {
+      diners = JSON.parse(diners);
+    } catch {
+      diners = [];
+    }
+  }
+
+  return Array.isArray(diners)
+    ? Array.from(new Set(diners.map((diner: any) => diner?.name).filter(Boolean)))
+    : [];
+}
+
+/**
+ * Which diners have paid their share of a session
+ * A table payment covers everyone
+ */
+export async function getIndividualPaymentStatus(sessionId: string): Promise<IndividualPaymentStatus> {
+  const [dinerNames, payments] = await Promise.all([
+    getSessionDinerNames(sessionId),
+    getSessionPayments(sessionId)
+  ]);
+
+  const individualPayments = payments
+    .filter(payment => payment.payment_type === 'individual' && payment.diner_name)
+    .map(payment => ({
+      diner_name: payment.diner_name as string,
+      payment_amount: getPaymentTotal(payment),
+      payment_method: payment.payment_method,
+      payment_status: payment.status,
+      completed_at: payment.completed_at,
+      completed_by: payment.completed_by,
+      reference: payment.reference
+    }));
+
+  const tablePaid = payments.some(payment => payment.payment_type === 'table');
+  const paidNames = new Set(individualPayments.map(payment => payment.diner_name));
+  const paidDiners = tablePaid ? dinerNames.length : dinerNames.filter(name => paidNames.has(name)).length;
+
+  return {
+    total_diners: dinerNames.length,
+    paid_diners: paidDiners,
+    remaining_diners: dinerNames.length - paidDiners,
+    all_paid: tablePaid || (dinerNames.length > 0 && paidDiners === dinerNames.length),
+    individual_payments: individualPayments
+  };
+}
@@ -0,0 +1,224 @@
+// PDF writer
+// Builds small text-and-rule PDF documents (invoices, reports) with the standard Helvetica fonts,
+// so no font files or PDF library are needed
+// Coordinates are in points from the top-left corner of the page
+
+export type PdfAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: PdfAlign;
+  color?: [number, number, number]; // RGB, 0-1
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that have a close WinAnsi equivalent
+const REPLACEMENTS: Record<string, string> = {
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+  '\u2022': '*',
+  '\u2026': '...'
+};
+
+/**
+ * Map text to WinAnsi-compatible characters: Latin-1 is kept, accents elsewhere are stripped, the rest becomes '?'
+ */
+export function toPdfText(value: string): string {
+  return Array.from(value.replace(/[\r\n\t]+/g, ' '))
+    .map(char => {
+      if (REPLACEMENTS[char]) {
+        return REPLACEMENTS[char];
+      }
+      const code = char.charCodeAt(0);
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+        return char;
+      }
+      const stripped = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return stripped.length === 1 && stripped.charCodeAt(0) < 0x7f ? stripped : '?';
+    })
+    .join('');
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measurePdfText(value: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(toPdfText(value)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, on spaces where possible
+ */
+export function wrapPdfText(value: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of toPdfText(value).split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measurePdfText(candidate, size, bold) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    // A single word longer than the line is split by character
+    current = '';
+    for (const char of word) {
+      if (measurePdfText(current + char, size, bold) > maxWidth && current) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+
+  if (current || lines.length === 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+// PDF literal strings escape \ ( ) and write bytes above 127 as octal so the file stays ASCII
+const encodePdfString = (value: string) =>
+  Array.from(toPdfText(value))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (char === '\\' || char === '(' || char === ')') {
+        return `\\${char}`;
+      }
+      return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : char;
+    })
+    .join('');
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Start a PDF document; pages are added with addPage() and drawn on in order
+ */
+export function createPdfDocument(options: { width?: number; height?: number; title?: string } = {}) {
+  const width = options.width || A4_WIDTH;
+  const height = options.height || A4_HEIGHT;
+  const pages: string[][] = [];
+
+  const current = () => {
+    if (pages.length === 0) {
+      pages.push([]);
+    }
+    return pages[pages.length - 1];
+  };
+
+  const pdf = {
+    width,
+    height,
+
+    addPage() {
+      pages.push([]);
+      return pdf;
+    },
+
+    pageCount: () => pages.length,
+
+    text(x: number, y: number, value: string, textOptions: PdfTextOptions = {}) {
+      const size = textOptions.size || 10;
+      const textWidth = measurePdfText(value, size, textOptions.bold);
+      const left = textOptions.align === 'right' ? x - textWidth : textOptions.align === 'center' ? x - textWidth / 2 : x;
+      const [r, g, b] = textOptions.color || [0, 0, 0];
+      current().push(
+        `BT ${num(r)} ${num(g)} ${num(b)} rg /${textOptions.bold ? 'F2' : 'F1'} ${num(size)} Tf ` +
+        `${num(left)} ${num(height - y)} Td (${encodePdfString(value)}) Tj ET`
+      );
+      return pdf;
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5, gray = 0) {
+      current().push(`${num(gray)} G ${num(lineWidth)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`);
+      return pdf;
+    },
+
+    rect(x: number, y: number, rectWidth: number, rectHeight: number, gray = 0.93) {
+      current().push(`${num(gray)} g ${num(x)} ${num(height - y - rectHeight)} ${num(rectWidth)} ${num(rectHeight)} re f`);
+      return pdf;
+    },
+
+    /**
+     * Serialise to PDF 1.4 bytes
+     */
+    toBytes(): Uint8Array {
+      if (pages.length === 0) {
+        pages.push([]);
+      }
+
+      const objects: string[] = [];
+      const pageIds = pages.map((_, index) => 5 + index * 2);
+
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+      objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+      objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+      pages.forEach((commands, index) => {
+        const pageId = pageIds[index];
+        const content = commands.join('\n');
+        objects[pageId] =
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      });
+
+      const infoId = objects.length;
+      objects[infoId] = `<< /Title (${encodePdfString(options.title || 'Document')}) /Producer (PulaNodus) >>`;
+
+      let output = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = output.length;
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return new Uint8Array(Buffer.from(output, 'latin1'));
+    }
+  };
+
+  return pdf;
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
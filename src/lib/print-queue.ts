@@ -0,0 +1,494 @@
+// Print queue
+// Renders kitchen chits and customer receipts to ESC/POS, queues them in print_jobs and sends them
+// to the restaurant's network printers; failed sends are retried by the print_queue_retry scheduled job
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { DEFAULT_LINE_WIDTH, KitchenTicketItem, renderCreditNote, renderKitchenTicket, renderReceipt, renderTestPage } from './escpos';
+import { DEFAULT_PRINTER_PORT, sendToNetworkPrinter } from './printer-transport';
+import { getKitchenStations } from './kitchen-station-config';
+import { resolveItemStation } from './kitchen-stations';
+import { getRestaurantIdForSession } from './restaurant-settings';
+import { getTaxConfigForSession } from './tax-config';
+import { getTaxLabel } from './tax-engine';
+import { SessionBill } from './session-bill';
+import { formatFiscalNumber, FiscalReceipt } from './fiscal-receipts';
+
+export type PrinterKind = 'kitchen' | 'receipt';
+export type PrintJobKind = 'kitchen_ticket' | 'receipt' | 'test';
+export type PrintJobStatus = 'pending' | 'printing' | 'printed' | 'failed';
+
+export interface Printer {
+  id?: string;
+  name: string;
+  host: string;
+  port: number;
+  kind: PrinterKind;
+  station: string | null; // kitchen printers only; null prints every station
+  width: number;
+  is_active: boolean;
+}
+
+export interface PrintJob {
+  id: string;
+  restaurant_id: string;
+  printer_id: string;
+  session_id: string | null;
+  kind: PrintJobKind;
+  content: string; // base64 ESC/POS
+  status: PrintJobStatus;
+  attempts: number;
+  last_error: string | null;
+  printed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PrintQueueSummary {
+  processed: number;
+  printed: number;
+  failed: number;
+}
+
+/**
+ * Sends tried before a job is marked failed
+ */
+export const MAX_PRINT_ATTEMPTS = 5;
+
+// A job stuck in 'printing' this long was abandoned mid-send (e.g. the server restarted)
+const STALE_PRINTING_MS = 2 * 60 * 1000;
+
+const PRINTER_COLUMNS = 'id, name, host, port, kind, station, width, is_active';
+
+const normalizePrinterRow = (row: Record<string, unknown>): Printer => ({
+  id: row.id as string,
+  name: row.name as string,
+  host: row.host as string,
+  port: Number(row.port) || DEFAULT_PRINTER_PORT,
+  kind: row.kind === 'receipt' ? 'receipt' : 'kitchen',
+  station: (row.station as string) || null,
+  width: Number(row.width) || DEFAULT_LINE_WIDTH,
+  is_active: row.is_active !== false
+});
+
+/**
+ * Check a printer definition, returning an error message or null when valid
+ */
+export function validatePrinter(printer: Partial<Printer>): string | null {
+  if (!printer.name || !printer.name.trim()) {
+    return 'Printer name is required';
+  }
+  if (!printer.host || !/^[a-zA-Z0-9.\-:]+$/.test(printer.host.trim())) {
+    return 'Printer host must be a hostname or IP address';
+  }
+  if (printer.port !== undefined && (!Number.isInteger(printer.port) || printer.port < 1 || printer.port > 65535)) {
+    return 'Printer port must be between 1 and 65535';
+  }
+  if (printer.kind !== 'kitchen' && printer.kind !== 'receipt') {
+    return 'Printer kind must be kitchen or receipt';
+  }
+  if (printer.width !== undefined && (!Number.isInteger(printer.width) || printer.width < 24 || printer.width > 64)) {
+    return 'Line width must be between 24 and 64 characters';
+  }
+  return null;
+}
+
+/**
+ * Get a restaurant's printers, optionally only active printers of one kind
+ * Returns an empty list on error so printing never blocks service
+ */
+export async function getPrinters(restaurantId: string, kind?: PrinterKind, activeOnly: boolean = false): Promise<Printer[]> {
+  let query = supabaseServer
+    .from('printers')
+    .select(PRINTER_COLUMNS)
+    .eq('restaurant_id', restaurantId);
+
+  if (kind) {
+    query = query.eq('kind', kind);
+  }
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query.order('name');
+
+  if (error) {
+    console.warn(`⚠️ Could not load printers for restaurant ${restaurantId}:`, error.message);
+    return [];
+  }
+
+  return ((data || []) as Record<string, unknown>[]).map(normalizePrinterRow);
+}
+
+/**
+ * Create or update a printer
+ * Throws if the printer is invalid or the write fails
+ */
+export async function savePrinter(restaurantId: string, printer: Partial<Printer>): Promise<Printer> {
+  const validationError = validatePrinter(printer);
+  if (validationError) {
+    throw new AppError(validationError, 'INVALID_PRINTER', 'low');
+  }
+
+  const row = {
+    restaurant_id: restaurantId,
+    name: printer.name!.trim(),
+    host: printer.host!.trim(),
+    port: printer.port || DEFAULT_PRINTER_PORT,
+    kind: printer.kind,
+    station: printer.kind === 'kitchen' ? printer.station || null : null,
+    width: printer.width || DEFAULT_LINE_WIDTH,
+    is_active: printer.is_active !== false
+  };
+
+  const query = printer.id
+    ? supabaseServer.from('printers').update(row).eq('id', printer.id).eq('restaurant_id', restaurantId)
+    : supabaseServer.from('printers').insert(row);
+
+  const { data, error } = await query.select(PRINTER_COLUMNS).single();
+
+  if (error) {
+    throw new AppError(`Failed to save printer: ${error.message}`, 'PRINTER_SAVE_FAILED', 'medium');
+  }
+
+  return normalizePrinterRow(data as Record<string, unknown>);
+}
+
+/**
+ * Delete a printer and its queued jobs
+ */
+export async function deletePrinter(restaurantId: string, printerId: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('printers')
+    .delete()
+    .eq('restaurant_id', restaurantId)
+    .eq('id', printerId);
+
+  if (error) {
+    throw new AppError(`Failed to delete printer: ${error.message}`, 'PRINTER_DELETE_FAILED', 'medium');
+  }
+}
+
+/**
+ * Send one queued job and record the outcome
+ * Failed sends go back to pending until MAX_PRINT_ATTEMPTS is reached. Returns null without sending when
+ * the job was claimed elsewhere first (the send from enqueuePrintJob and the retry job can race)
+ */
+async function sendPrintJob(job: Pick<PrintJob, 'id' | 'content' | 'attempts' | 'status'>, printer: Printer): Promise<boolean | null> {
+  const attempts = job.attempts + 1;
+
+  // Claimed only if nobody has touched the job since it was read
+  const { data: claimed, error: claimError } = await supabaseServer
+    .from('print_jobs')
+    .update({ status: 'printing', attempts })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (claimError) {
+    throw new AppError(`Failed to claim print job: ${claimError.message}`, 'PRINT_JOB_CLAIM_FAILED', 'medium');
+  }
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  try {
+    await sendToNetworkPrinter(printer.host, printer.port, Buffer.from(job.content, 'base64'));
+
+    await supabaseServer
+      .from('print_jobs')
+      .update({ status: 'printed', printed_at: new Date().toISOString(), last_error: null })
+      .eq('id', job.id);
+
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown printer error';
+    console.warn(`⚠️ Print job ${job.id} to ${printer.name} failed (attempt ${attempts}):`, message);
+
+    await supabaseServer
+      .from('print_jobs')
+      .update({ status: attempts >= MAX_PRINT_ATTEMPTS ? 'failed' : 'pending', last_error: message })
+      .eq('id', job.id);
+
+    return false;
+  }
+}
+
+/**
+ * Queue a document for a printer and try to send it straight away
+ * The send is not awaited; anything that doesn't print is picked up by processPrintQueue
+ */
+export async function enqueuePrintJob(
+  restaurantId: string,
+  printer: Printer,
+  kind: PrintJobKind,
+  document: Uint8Array,
+  sessionId: string | null = null
+): Promise<string> {
+  const content = Buffer.from(document).toString('base64');
+
+  const { data, error } = await supabaseServer
+    .from('print_jobs')
+    .insert({
+      restaurant_id: restaurantId,
+      printer_id: printer.id,
+      session_id: sessionId,
+      kind,
+      content,
+      status: 'pending'
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new AppError(`Failed to queue print job: ${error.message}`, 'PRINT_JOB_QUEUE_FAILED', 'medium');
+  }
+
+  sendPrintJob({ id: data.id, content, attempts: 0, status: 'pending' }, printer).catch(sendError => {
+    console.error('❌ Print job dispatch error:', sendError);
+  });
+
+  return data.id;
+}
+
+/**
+ * Retry every unprinted job, oldest first
+ */
+export async function processPrintQueue(): Promise<PrintQueueSummary> {
+  const { data, error } = await supabaseServer
+    .from('print_jobs')
+    .select(`id, content, attempts, status, updated_at, printers (${PRINTER_COLUMNS})`)
+    .in('status', ['pending', 'printing'])
+    .order('created_at', { ascending: true })
+    .limit(100);
+
+  if (error) {
+    throw new AppError(`Failed to load print queue: ${error.message}`, 'PRINT_QUEUE_FETCH_FAILED', 'medium');
+  }
+
+  const summary: PrintQueueSummary = { processed: 0, printed: 0, failed: 0 };
+  const staleBefore = Date.now() - STALE_PRINTING_MS;
+
+  for (const row of (data || []) as Record<string, any>[]) {
+    // Jobs being sent right now are left alone
+    if (row.status === 'printing' && new Date(row.updated_at).getTime() > staleBefore) {
+      continue;
+    }
+
+    const printerRow = Array.isArray(row.printers) ? row.printers[0] : row.printers;
+    if (!printerRow) {
+      continue;
+    }
+
+    const printed = await sendPrintJob(row as PrintJob, normalizePrinterRow(printerRow));
+    if (printed === null) {
+      continue;
+    }
+    summary.processed++;
+    if (printed) {
+      summary.printed++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+// Table number and server for the chit and receipt headers
+async function getSessionHeader(sessionId: string): Promise<{ tableNumber: string; serverName: string | null }> {
+  const { data } = await supabaseServer
+    .from('sessions')
+    .select('started_by_name, tables!sessions_table_id_fkey(table_number)')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  const tables = data?.tables as { table_number?: string } | { table_number?: string }[] | null | undefined;
+  const table = Array.isArray(tables) ? tables[0] : tables;
+  return {
+    tableNumber: table?.table_number || '?',
+    serverName: data?.started_by_name || null
+  };
+}
+
+/**
+ * Print kitchen chits for a batch of order items
+ * Each kitchen printer gets the items routed to its station (or every item when it has no station)
+ * Returns the number of chits queued; restaurants without kitchen printers queue nothing
+ */
+export async function queueKitchenTickets(
+  sessionId: string,
+  orderIds: string[],
+  heading: string = 'NEW ORDER'
+): Promise<number> {
+  if (orderIds.length === 0) {
+    return 0;
+  }
+
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+  const printers = await getPrinters(restaurantId, 'kitchen', true);
+  if (printers.length === 0) {
+    return 0;
+  }
+
+  const { data: orders, error } = await supabaseServer
+    .from('orders')
+    .select(`
+      id,
+      quantity,
+      notes,
+      is_takeaway,
+      diner_name,
+      customizations,
+      held,
+      menu_items (
+        name,
+        category,
+        station
+      )
+    `)
+    .in('id', orderIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load orders for kitchen tickets: ${error.message}`, 'KITCHEN_TICKET_FETCH_FAILED', 'medium');
+  }
+
+  const stations = await getKitchenStations(restaurantId);
+  const header = await getSessionHeader(sessionId);
+  const routedItems = ((orders || []) as Record<string, any>[]).map(order => {
+    const menuItem = Array.isArray(order.menu_items) ? order.menu_items[0] : order.menu_items;
+    const item: KitchenTicketItem = {
+      name: menuItem?.name || 'Unknown Item',
+      quantity: order.quantity,
+      notes: order.notes,
+      customizations: order.customizations,
+      dinerName: order.diner_name,
+      isTakeaway: order.is_takeaway,
+      held: order.held
+    };
+    return { item, station: resolveItemStation({ station: menuItem?.station, category: menuItem?.category }, stations) };
+  });
+
+  let queued = 0;
+  for (const printer of printers) {
+    const items = routedItems
+      .filter(routed => !printer.station || routed.station === printer.station)
+      .map(routed => routed.item);
+
+    if (items.length === 0) {
+      continue;
+    }
+
+    const document = renderKitchenTicket({
+      heading,
+      tableNumber: header.tableNumber,
+      serverName: header.serverName,
+      stationName: stations.find(station => station.code === printer.station)?.name || null,
+      items,
+      createdAt: new Date().toISOString()
+    }, printer.width);
+
+    await enqueuePrintJob(restaurantId, printer, 'kitchen_ticket', document, sessionId);
+    queued++;
+  }
+
+  return queued;
+}
+
+/**
+ * Print a customer receipt for a completed payment on every active receipt printer
+ * The bill must be calculated before the session's orders are marked paid
+ */
+export async function queueReceipt(
+  sessionId: string,
+  bill: SessionBill,
+  payment: { reference: string; receiptNumber?: string | null; paymentMethod: string; completedAt: string; completedBy?: string | null }
+): Promise<number> {
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+  const printers = await getPrinters(restaurantId, 'receipt', true);
+  if (printers.length === 0) {
+    return 0;
+  }
+
+  const { data: restaurant } = await supabaseServer
+    .from('restaurants')
+    .select('name')
+    .eq('id', restaurantId)
+    .maybeSingle();
+
+  const header = await getSessionHeader(sessionId);
+  const taxConfig = await getTaxConfigForSession(sessionId);
+
+  for (const printer of printers) {
+    const document = renderReceipt({
+      restaurantName: restaurant?.name || 'Receipt',
+      receiptNumber: payment.receiptNumber,
+      tableNumber: header.tableNumber,
+      reference: payment.reference,
+      paymentMethod: payment.paymentMethod,
+      completedAt: payment.completedAt,
+      completedBy: payment.completedBy,
+      items: bill.items.map(item => ({
+        name: item.isSplit ? `${item.name} (split)` : item.name,
+        quantity: item.quantity,
+        amount: item.amount,
+        customizations: item.customizations
+      })),
+      subtotal: bill.subtotal,
+      discount: bill.discount,
+      tax: bill.tax,
+      taxLabel: getTaxLabel(taxConfig),
+      pricesIncludeTax: bill.pricesIncludeTax,
+      serviceCharge: bill.serviceCharge,
+      total: bill.total
+    }, printer.width);
+
+    await enqueuePrintJob(restaurantId, printer, 'receipt', document, sessionId);
+  }
+
+  return printers.length;
+}
+
+/**
+ * Print a credit note on the restaurant's receipt printers
+ */
+export async function queueCreditNote(creditNote: FiscalReceipt, original: FiscalReceipt): Promise<number> {
+  const printers = await getPrinters(creditNote.restaurant_id, 'receipt', true);
+  if (printers.length === 0) {
+    return 0;
+  }
+
+  const { data: restaurant } = await supabaseServer
+    .from('restaurants')
+    .select('name')
+    .eq('id', creditNote.restaurant_id)
+    .maybeSingle();
+
+  const header = creditNote.session_id ? await getSessionHeader(creditNote.session_id) : null;
+
+  for (const printer of printers) {
+    const document = renderCreditNote({
+      restaurantName: restaurant?.name || 'Credit Note',
+      creditNoteNumber: formatFiscalNumber('credit_note', creditNote.receipt_number),
+      originalReceiptNumber: formatFiscalNumber('receipt', original.receipt_number),
+      tableNumber: header?.tableNumber,
+      amount: creditNote.amount,
+      reason: creditNote.reason || '',
+      issuedAt: creditNote.issued_at,
+      issuedBy: creditNote.issued_by
+    }, printer.width);
+
+    await enqueuePrintJob(creditNote.restaurant_id, printer, 'receipt', document, creditNote.session_id);
+  }
+
+  return printers.length;
+}
+
+/**
+ * Queue a test page for one printer
+ */
+export async function queueTestPage(restaurantId: string, printer: Printer): Promise<string> {
+  return enqueuePrintJob(restaurantId, printer, 'test', renderTestPage(printer.name, printer.width));
+}
@@ -0,0 +1,50 @@
+// Network printer transport
+// Sends raw ESC/POS bytes to a thermal printer over TCP (JetDirect / port 9100); server-only
+// Run scripts/fake-printer.js to receive jobs locally without a printer
+
+import net from 'net';
+
+export const DEFAULT_PRINTER_PORT = 9100;
+
+/**
+ * Milliseconds to wait for a printer to accept a job before giving up
+ */
+export const PRINTER_TIMEOUT_MS = 5000;
+
+/**
+ * Write a document to a network printer and resolve once the bytes are flushed and the socket is closed
+ * Rejects on connection errors, refused connections and timeouts
+ */
+export function sendToNetworkPrinter(
+  host: string,
+  port: number = DEFAULT_PRINTER_PORT,
+  data: Uint8Array,
+  timeoutMs: number = PRINTER_TIMEOUT_MS
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const socket = net.createConnection({ host, port });
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error(`Printer ${host}:${port} timed out after ${timeoutMs}ms`)));
+    socket.on('error', error => finish(new Error(`Printer ${host}:${port} error: ${error.message}`)));
+    socket.on('close', () => finish());
+
+    socket.on('connect', () => {
+      // Raw port printers don't acknowledge; a flushed write followed by a clean close is success
+      socket.end(Buffer.from(data));
+    });
+  });
+}
@@ -0,0 +1,107 @@
+// Realtime events
+// Event shapes pushed to staff screens over /api/events (server-sent events) and helpers to
+// build them from database changes; shared by src/lib/realtime-hub.ts and the useRealtimeEvents hook
+
+export type RealtimeEventType = 'notification' | 'order_status' | 'payment';
+
+/**
+ * Sent instead of a backfill when events were missed that the server no longer holds;
+ * clients reload their data from the API
+ */
+export const RESYNC_EVENT = 'resync';
+
+export const REALTIME_EVENT_TYPES: RealtimeEventType[] = ['notification', 'order_status', 'payment'];
+
+export interface RealtimeEvent {
+  id: string; // opaque, used as the SSE id for Last-Event-ID backfill
+  type: RealtimeEventType;
+  sessionId: string | null;
+  restaurantId: string | null;
+  action: 'INSERT' | 'UPDATE';
+  record: Record<string, unknown>;
+  at: string;
+}
+
+// Columns pushed per table; anything else stays server-side
+const EVENT_COLUMNS: Record<string, { type: RealtimeEventType; columns: string[] }> = {
+  notifications: {
+    type: 'notification',
+    columns: ['id', 'session_id', 'type', 'title', 'message', 'priority', 'status', 'metadata', 'escalation_level', 'created_at', 'completed_at']
+  },
+  orders: {
+    type: 'order_status',
+    columns: ['id', 'session_id', 'menu_item_id', 'status', 'quantity', 'diner_name', 'held', 'course', 'unavailable_at']
+  },
+  sessions: {
+    type: 'payment',
+    columns: ['id', 'table_id', 'status', 'payment_status', 'payment_completed_at', 'final_total']
+  },
+  // Ledger entries: tenders, diner payments and refunds move the balance before the session is settled
+  payments: {
+    type: 'payment',
+    columns: ['id', 'session_id', 'entry_type', 'payment_type', 'diner_name', 'amount', 'tip_amount', 'payment_method', 'status', 'completed_at', 'settled_at']
+  }
+};
+
+export function isRealtimeEventType(value: unknown): value is RealtimeEventType {
+  return REALTIME_EVENT_TYPES.includes(value as RealtimeEventType);
+}
+
+/**
+ * Build an event from a database change, or null for tables that aren't pushed
+ */
+export function toRealtimeEvent(
+  id: string,
+  table: string,
+  action: 'INSERT' | 'UPDATE',
+  row: Record<string, unknown>
+): RealtimeEvent | null {
+  const config = EVENT_COLUMNS[table];
+  if (!config) {
+    return null;
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const column of config.columns) {
+    if (column in row) {
+      record[column] = row[column];
+    }
+  }
+
+  return {
+    id,
+    type: config.type,
+    sessionId: ((table === 'sessions' ? row.id : row.session_id) as string) || null,
+    restaurantId: (row.restaurant_id as string) || null,
+    action,
+    record,
+    at: new Date().toISOString()
+  };
+}
+
+/**
+ * Whether a subscriber asked for this event
+ */
+export function matchesSubscription(
+  event: RealtimeEvent,
+  subscription: { types?: RealtimeEventType[]; sessionId?: string | null; restaurantId?: string | null }
+): boolean {
+  if (subscription.types && subscription.types.length > 0 && !subscription.types.includes(event.type)) {
+    return false;
+  }
+  if (subscription.sessionId && event.sessionId !== subscription.sessionId) {
+    return false;
+  }
+  // Rows without a restaurant (older data) go to everyone
+  if (subscription.restaurantId && event.restaurantId && event.restaurantId !== subscription.restaurantId) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Encode one server-sent event frame
+ */
+export function formatSseMessage(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
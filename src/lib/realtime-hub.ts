@@ -0,0 +1,137 @@
+// Realtime hub
+// One server-side Supabase Realtime subscription to notifications, orders, sessions and payments, fanned out
+// to every open /api/events stream; keeps recent events so reconnecting clients can backfill
+
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabaseServer } from './supabaseServer';
+import { RealtimeEvent, toRealtimeEvent } from './realtime-events';
+
+type Listener = (event: RealtimeEvent | 'resync') => void;
+
+/**
+ * Recent events kept for Last-Event-ID backfill
+ */
+export const REALTIME_BUFFER_SIZE = 500;
+
+const WATCHED_TABLES = ['notifications', 'orders', 'sessions', 'payments'];
+
+interface HubState {
+  bootId: string; // changes on restart, so ids from before a restart force a resync
+  sequence: number;
+  buffer: RealtimeEvent[];
+  listeners: Set<Listener>;
+  channel: RealtimeChannel | null;
+  wasDisconnected: boolean;
+}
+
+// Kept on globalThis so dev-mode module reloads don't open a second subscription
+const globalHub = globalThis as unknown as { __realtimeHub?: HubState };
+
+const getHub = (): HubState => {
+  if (!globalHub.__realtimeHub) {
+    globalHub.__realtimeHub = {
+      bootId: Date.now().toString(36),
+      sequence: 0,
+      buffer: [],
+      listeners: new Set(),
+      channel: null,
+      wasDisconnected: false
+    };
+  }
+  return globalHub.__realtimeHub;
+};
+
+const broadcast = (hub: HubState, event: RealtimeEvent | 'resync') => {
+  for (const listener of hub.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('❌ Realtime listener error:', error);
+    }
+  }
+};
+
+const connect = (hub: HubState) => {
+  let channel = supabaseServer.channel('realtime-hub');
+
+  for (const table of WATCHED_TABLES) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          return;
+        }
+
+        hub.sequence++;
+        const event = toRealtimeEvent(
+          `${hub.bootId}.${hub.sequence}`,
+          table,
+          payload.eventType,
+          payload.new as Record<string, unknown>
+        );
+        if (!event) {
+          return;
+        }
+
+        hub.buffer.push(event);
+        if (hub.buffer.length > REALTIME_BUFFER_SIZE) {
+          hub.buffer.shift();
+        }
+        broadcast(hub, event);
+      }
+    );
+  }
+
+  hub.channel = channel.subscribe((status, error) => {
+    if (status === 'SUBSCRIBED') {
+      // Changes made while the channel was down were never received
+      if (hub.wasDisconnected) {
+        hub.wasDisconnected = false;
+        broadcast(hub, 'resync');
+      }
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      hub.wasDisconnected = true;
+      console.warn(`⚠️ Realtime hub channel ${status.toLowerCase()}:`, error?.message || 'reconnecting');
+    }
+  });
+};
+
+/**
+ * Listen for events; starts the database subscription on first use
+ * Returns an unsubscribe function
+ */
+export function subscribeToRealtimeEvents(listener: Listener): () => void {
+  const hub = getHub();
+  hub.listeners.add(listener);
+
+  if (!hub.channel) {
+    connect(hub);
+  }
+
+  return () => {
+    hub.listeners.delete(listener);
+  };
+}
+
+/**
+ * Events after the given id, or null when they can't be replayed (unknown id, restart or
+ * too old) and the client should reload instead
+ */
+export function getEventsSince(lastEventId: string): RealtimeEvent[] | null {
+  const hub = getHub();
+  const [bootId, sequenceText] = lastEventId.split('.');
+  const sequence = Number(sequenceText);
+
+  if (bootId !== hub.bootId || !Number.isFinite(sequence)) {
+    return null;
+  }
+
+  const oldest = hub.buffer[0];
+  const oldestSequence = oldest ? Number(oldest.id.split('.')[1]) : hub.sequence + 1;
+  if (sequence < oldestSequence - 1) {
+    return null;
+  }
+
+  return hub.buffer.filter(event => Number(event.id.split('.')[1]) > sequence);
+}
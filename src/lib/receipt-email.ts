@@ -0,0 +1,335 @@
+// Receipt email
+// Renders the digital receipt as HTML with a plain-text alternative and delivers it through the mail transport,
+// retrying transient failures and recording delivery status on the session
+// Receipts are built from the fiscal receipt issued at payment and the payments it covers, never from the client
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getMailFrom, getMailTransport, isTransientMailError, MailAttachment, MailDeliveryResult, MailTransport } from './mail-transport';
+import { formatFiscalNumber, getFiscalReceiptForSession } from './fiscal-receipts';
+import { getSessionPayments } from './payments';
+import { getTaxConfigForSession } from './tax-config';
+import { getTaxLabel } from './tax-engine';
+
+export interface ReceiptEmailItem {
+  name: string;
+  quantity: number;
+  price: number;
+  total: number;
+  isSplit?: boolean;
+  splitCount?: number;
+  originalPrice?: number;
+}
+
+export interface ReceiptEmailData {
+  orderItems: ReceiptEmailItem[];
+  subtotal: number;
+  vat: number;
+  serviceCharge: number;
+  taxLabel: string;
+  tipAmount: number;
+  finalTotal: number;
+  tableNumber?: string;
+  paymentMethod?: string;
+  paymentCompletedAt?: string;
+  receiptNumber?: string | null; // fiscal receipt number
+  receiptId: string; // fiscal receipt the data was built from
+  sessionId: string;
+}
+
+export type ReceiptEmailStatus = 'sending' | 'retrying' | 'sent' | 'failed';
+
+export const RECEIPT_EMAIL_MAX_ATTEMPTS = 3;
+
+/**
+ * Milliseconds to wait before each retry
+ */
+export const RECEIPT_EMAIL_RETRY_DELAYS_MS = [1000, 4000];
+
+// Bill lines and totals as payment/complete keeps them with the fiscal receipt
+interface ReceiptSnapshot {
+  items?: { name: string; quantity: number; amount: number }[];
+  subtotal?: number;
+  tax?: number;
+  serviceCharge?: number;
+}
+
+/**
+ * The receipt for a session's payment, or a diner's own payment when they paid individually
+ * Throws RECEIPT_NOT_AVAILABLE until the payment has been completed and its receipt issued
+ */
+export async function getReceiptEmailData(sessionId: string, dinerName?: string | null): Promise<ReceiptEmailData> {
+  const fiscalReceipt = await getFiscalReceiptForSession(sessionId, dinerName);
+  const snapshot = (fiscalReceipt?.data || null) as ReceiptSnapshot | null;
+  const items = snapshot?.items;
+  if (!fiscalReceipt || !snapshot || !Array.isArray(items)) {
+    throw new AppError('A receipt is only available once the bill has been paid', 'RECEIPT_NOT_AVAILABLE', 'low');
+  }
+
+  const [taxConfig, sessionPayments, { data: session }] = await Promise.all([
+    getTaxConfigForSession(sessionId),
+    getSessionPayments(sessionId),
+    supabaseServer
+      .from('sessions')
+      .select('tables!sessions_table_id_fkey(table_number)')
+      .eq('id', sessionId)
+      .maybeSingle()
+  ]);
+
+  // Split bills have one payment per tender on the same receipt
+  const payments = sessionPayments.filter(payment => payment.fiscal_receipt_id === fiscalReceipt.id);
+  const tables = session?.tables as { table_number?: string } | { table_number?: string }[] | null | undefined;
+  const table = Array.isArray(tables) ? tables[0] : tables;
+
+  return {
+    orderItems: items.map(item => {
+      const quantity = Math.max(1, Number(item.quantity) || 1);
+      const amount = Number(item.amount) || 0;
+      return { name: item.name, quantity, price: amount / quantity, total: amount };
+    }),
+    subtotal: Number(snapshot.subtotal) || 0,
+    vat: Number(snapshot.tax) || 0,
+    serviceCharge: Number(snapshot.serviceCharge) || 0,
+    taxLabel: getTaxLabel(taxConfig),
+    tipAmount: payments.reduce((sum, payment) => sum + payment.tip_amount, 0),
+    finalTotal: fiscalReceipt.amount,
+    tableNumber: table?.table_number,
+    paymentMethod: payments.length > 0
+      ? [...new Set(payments.map(payment => payment.payment_method))].join(', ')
+      : fiscalReceipt.payment_method || undefined,
+    paymentCompletedAt: payments[payments.length - 1]?.completed_at || fiscalReceipt.issued_at,
+    receiptNumber: formatFiscalNumber('receipt', fiscalReceipt.receipt_number),
+    receiptId: fiscalReceipt.id,
+    sessionId
+  };
+}
+
+const formatCurrency = (amount: number) => `P${(Number(amount) || 0).toFixed(2)}`;
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return new Date().toLocaleString();
+  return new Date(dateString).toLocaleString();
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const describeItem = (item: ReceiptEmailItem) =>
+  item.isSplit
+    ? `${formatCurrency(item.originalPrice || 0)} total - Split ${item.splitCount} ways`
+    : `Qty: ${item.quantity} × ${formatCurrency(item.price)}`;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function generateReceiptHtml(receipt: ReceiptEmailData): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>PulaNodus Receipt</title>
+      <style>
+        body { font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { text-align: center; border-bottom: 2px solid #00d9ff; padding-bottom: 20px; margin-bottom: 20px; }
+        .restaurant-name { font-size: 24px; font-weight: bold; color: #00d9ff; margin-bottom: 10px; }
+        .table-info { color: #666; font-size: 14px; }
+        .order-items { margin: 20px 0; }
+        .order-item { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+        .item-name { font-weight: bold; }
+        .item-details { font-size: 12px; color: #666; }
+        .totals { margin: 20px 0; }
+        .total-line { display: flex; justify-content: space-between; padding: 4px 0; }
+        .final-total { font-size: 18px; font-weight: bold; color: #00d9ff; border-top: 2px solid #00d9ff; padding-top: 10px; }
+        .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="restaurant-name">PulaNodus Restaurant</div>
+        <div class="table-info">
+          ${receipt.receiptNumber ? `<strong>Receipt No ${escapeHtml(receipt.receiptNumber)}</strong><br>` : ''}
+          ${receipt.tableNumber ? `Table ${escapeHtml(receipt.tableNumber)}` : ''}
+          <br>
+          Receipt Date: ${formatDate(receipt.paymentCompletedAt)}
+          <br>
+          Session: ${escapeHtml(receipt.sessionId.slice(-8))}
+        </div>
+      </div>
+
+      <div class="order-items">
+        <h3>Order Details</h3>
+        ${receipt.orderItems.map(item => `
+          <div class="order-item">
+            <div>
+              <div class="item-name">${escapeHtml(item.name)}</div>
+              <div class="item-details">
+                ${describeItem(item)}
+              </div>
+            </div>
+            <div>${formatCurrency(item.total)}</div>
+          </div>
+        `).join('')}
+      </div>
+
+      <div class="totals">
+        <div class="total-line">
+          <span>Subtotal:</span>
+          <span>${formatCurrency(receipt.subtotal)}</span>
+        </div>
+        <div class="total-line">
+          <span>${escapeHtml(receipt.taxLabel)}:</span>
+          <span>${formatCurrency(receipt.vat)}</span>
+        </div>
+        ${receipt.serviceCharge > 0 ? `
+          <div class="total-line">
+            <span>Service Charge:</span>
+            <span>${formatCurrency(receipt.serviceCharge)}</span>
+          </div>
+        ` : ''}
+        <div class="total-line">
+          <span>Tip:</span>
+          <span>${formatCurrency(receipt.tipAmount)}</span>
+        </div>
+        <div class="total-line final-total">
+          <span>Total:</span>
+          <span>${formatCurrency(receipt.finalTotal)}</span>
+        </div>
+      </div>
+
+      ${receipt.paymentMethod ? `
+        <div style="margin: 20px 0; padding: 10px; background: #f5f5f5; border-radius: 5px;">
+          <strong>Payment Method:</strong> ${escapeHtml(capitalize(receipt.paymentMethod))}
+        </div>
+      ` : ''}
+
+      <div class="footer">
+        <p>Thank you for dining with us!</p>
+        <p>PulaNodus Restaurant</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Plain-text alternative for mail clients that don't show HTML
+ */
+export function generateReceiptText(receipt: ReceiptEmailData): string {
+  const line = (label: string, amount: number) => `${label}: ${formatCurrency(amount)}`;
+
+  return [
+    'PulaNodus Restaurant',
+    ...(receipt.receiptNumber ? [`Receipt No ${receipt.receiptNumber}`] : []),
+    ...(receipt.tableNumber ? [`Table ${receipt.tableNumber}`] : []),
+    `Receipt Date: ${formatDate(receipt.paymentCompletedAt)}`,
+    `Session: ${receipt.sessionId.slice(-8)}`,
+    '',
+    'Order Details',
+    ...receipt.orderItems.flatMap(item => [
+      `${item.name} - ${formatCurrency(item.total)}`,
+      `  ${describeItem(item)}`
+    ]),
+    '',
+    line('Subtotal', receipt.subtotal),
+    line(receipt.taxLabel, receipt.vat),
+    ...(receipt.serviceCharge > 0 ? [line('Service Charge', receipt.serviceCharge)] : []),
+    line('Tip', receipt.tipAmount),
+    line('Total', receipt.finalTotal),
+    ...(receipt.paymentMethod ? ['', `Payment Method: ${capitalize(receipt.paymentMethod)}`] : []),
+    '',
+    'Thank you for dining with us!'
+  ].join('\n');
+}
+
+async function recordDeliveryStatus(sessionId: string, update: Record<string, unknown>) {
+  const { error } = await supabaseServer
+    .from('sessions')
+    .update(update)
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('⚠️ Failed to record receipt email status:', error);
+  }
+}
+
+/**
+ * Email a receipt, retrying transient failures, and record the outcome on the session
+ * Throws the last error when the receipt could not be delivered
+ */
+export async function sendReceiptEmail(
+  sessionId: string,
+  email: string,
+  receipt: ReceiptEmailData,
+  attachments: MailAttachment[] = []
+): Promise<MailDeliveryResult> {
+  const message = {
+    from: getMailFrom(),
+    to: email,
+    subject: `Your PulaNodus Receipt${receipt.tableNumber ? ` - Table ${receipt.tableNumber}` : ''}`,
+    text: generateReceiptText(receipt),
+    html: generateReceiptHtml(receipt),
+    attachments
+  };
+
+  await recordDeliveryStatus(sessionId, {
+    receipt_email: email,
+    receipt_email_status: 'sending',
+    receipt_email_attempts: 0,
+    receipt_email_last_error: null,
+    receipt_email_message_id: null
+  });
+
+  let transport: MailTransport;
+  try {
+    transport = getMailTransport();
+  } catch (error) {
+    await recordDeliveryStatus(sessionId, {
+      receipt_email_status: 'failed',
+      receipt_email_last_error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= RECEIPT_EMAIL_MAX_ATTEMPTS; attempt++) {
+    try {
+      const result = await transport.send(message);
+
+      await recordDeliveryStatus(sessionId, {
+        receipt_email_status: 'sent',
+        receipt_email_attempts: attempt,
+        receipt_email_last_error: null,
+        receipt_email_message_id: result.messageId,
+        receipt_sent_at: new Date().toISOString()
+      });
+
+      return result;
+    } catch (error) {
+      lastError = error;
+      const willRetry = isTransientMailError(error) && attempt < RECEIPT_EMAIL_MAX_ATTEMPTS;
+      console.warn(`⚠️ Receipt email attempt ${attempt} for session ${sessionId} failed:`, error instanceof Error ? error.message : error);
+
+      await recordDeliveryStatus(sessionId, {
+        receipt_email_status: willRetry ? 'retrying' : 'failed',
+        receipt_email_attempts: attempt,
+        receipt_email_last_error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (!willRetry) {
+        break;
+      }
+      await wait(RECEIPT_EMAIL_RETRY_DELAYS_MS[attempt - 1] ?? RECEIPT_EMAIL_RETRY_DELAYS_MS[RECEIPT_EMAIL_RETRY_DELAYS_MS.length - 1]);
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new AppError('Failed to send receipt email', 'MAIL_TRANSIENT_FAILURE', 'medium');
+}
@@ -0,0 +1,375 @@
+// Refunds
+// Refunds a completed payment in full, in part, or item by item from its receipt. Each refund is a negative
+// 'refund' entry in the payments ledger linked to the payment it reverses, with a credit note issued against
+// that payment's receipt so the receipt and credit note series stay in step with the money returned
+// Payments diners made through the payment provider are refunded through it when refunded the same way
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { FiscalReceipt, getFiscalReceipt, issueCreditNote, MAX_CREDIT_REASON_LENGTH } from './fiscal-receipts';
+import { getPaymentById, getPaymentTotal, normalizePaymentRow, Payment, PAYMENT_METHODS, RefundedItem } from './payments';
+import { getPaymentIntent } from './payment-intents';
+import { getPaymentProvider } from './payment-provider';
+
+export interface RefundableLine {
+  line: number;
+  name: string;
+  quantity: number;
+  refundedQuantity: number;
+  unitAmount: number; // share of the receipt total per unit, tax and service charge included
+}
+
+export interface RefundSummary {
+  payment: Payment;
+  receipt: FiscalReceipt | null;
+  refunds: Payment[];
+  refunded: number;
+  refundable: number;
+  lines: RefundableLine[]; // empty when the receipt has no item breakdown
+}
+
+export interface RefundRequest {
+  amount?: number | null; // partial refund; leave out (with no items) to refund everything left
+  items?: { line: number; quantity: number }[];
+  reason: string;
+  refundMethod?: string; // defaults to how the payment was taken
+  authorizedBy: string;
+}
+
+export interface RefundResult {
+  refund: Payment;
+  original: Payment;
+  creditNote: FiscalReceipt | null;
+  receipt: FiscalReceipt | null;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Postgres error codes raised by reserve_refund()
+const NO_DATA_FOUND = 'P0002';
+const CHECK_VIOLATION = '23514';
+
+// Refund reference, e.g. REF-20261019-1A2B3C4D
+const generateRefundReference = () =>
+  `REF-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+/**
+ * Refunds recorded against payments, oldest first
+ * Pending refunds are ones still in progress; they already hold their amount against the payment
+ */
+export async function getRefundsForPayments(paymentIds: string[], includePending = false): Promise<Payment[]> {
+  const uniqueIds = [...new Set(paymentIds.filter(Boolean))];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('*')
+    .eq('entry_type', 'refund')
+    .in('status', includePending ? ['pending', 'completed'] : ['completed'])
+    .in('original_payment_id', uniqueIds)
+    .order('completed_at', { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load refunds: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizePaymentRow);
+}
+
+// Refunds against every payment sharing a receipt (the tenders of a split bill share one)
+async function getRefundsForReceipt(receiptId: string, includePending = false): Promise<Payment[]> {
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('id')
+    .eq('fiscal_receipt_id', receiptId)
+    .eq('entry_type', 'payment');
+
+  if (error) {
+    throw new AppError(`Failed to load receipt payments: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return getRefundsForPayments((data || []).map(row => row.id), includePending);
+}
+
+// Receipt lines with each unit's share of the receipt total, so item refunds carry their tax and service charge
+function getReceiptLines(receipt: FiscalReceipt | null, receiptRefunds: Payment[]): RefundableLine[] {
+  const data = (receipt?.data || {}) as { items?: { name?: string; quantity?: number; amount?: number }[]; total?: number };
+  const items = Array.isArray(data.items) ? data.items : [];
+  const itemsTotal = items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  const total = Number(data.total);
+  if (items.length === 0 || itemsTotal <= 0 || !Number.isFinite(total)) {
+    return [];
+  }
+
+  const refundedQuantities = new Map<number, number>();
+  for (const refund of receiptRefunds) {
+    for (const item of refund.refunded_items || []) {
+      refundedQuantities.set(item.line, (refundedQuantities.get(item.line) || 0) + item.quantity);
+    }
+  }
+
+  return items.map((item, line) => {
+    const quantity = Math.max(1, Number(item.quantity) || 1);
+    return {
+      line,
+      name: item.name || `Item ${line + 1}`,
+      quantity,
+      refundedQuantity: refundedQuantities.get(line) || 0,
+      unitAmount: ((Number(item.amount) || 0) / quantity) * (total / itemsTotal)
+    };
+  });
+}
+
+/**
+ * What has been refunded on a payment and what is left to refund, counting refunds still in progress
+ */
+export async function getRefundSummary(paymentId: string): Promise<RefundSummary> {
+  const payment = await getPaymentById(paymentId);
+  if (!payment || payment.entry_type !== 'payment' || payment.status !== 'completed') {
+    throw new AppError('Payment not found', 'PAYMENT_NOT_FOUND', 'low');
+  }
+
+  const receipt = payment.fiscal_receipt_id ? await getFiscalReceipt(payment.fiscal_receipt_id) : null;
+  const receiptRefunds = receipt ? await getRefundsForReceipt(receipt.id, true) : await getRefundsForPayments([payment.id], true);
+  const refunds = receiptRefunds.filter(refund => refund.original_payment_id === payment.id);
+  const refunded = roundMoney(-refunds.reduce((sum, refund) => sum + getPaymentTotal(refund), 0));
+
+  return {
+    payment,
+    receipt,
+    refunds,
+    refunded,
+    refundable: Math.max(0, roundMoney(getPaymentTotal(payment) - refunded)),
+    lines: getReceiptLines(receipt, receiptRefunds)
+  };
+}
+
+// Price the requested receipt lines, refusing quantities that were already refunded
+function resolveRefundItems(lines: RefundableLine[], items: { line: number; quantity: number }[]): RefundedItem[] {
+  if (lines.length === 0) {
+    throw new AppError('This payment has no item breakdown to refund from', 'INVALID_REFUND', 'low');
+  }
+
+  const requested = new Map<number, number>();
+  for (const item of items) {
+    const quantity = Math.floor(Number(item?.quantity));
+    if (!Number.isInteger(item?.line) || !lines[item.line] || !Number.isFinite(quantity) || quantity <= 0) {
+      throw new AppError('Each refunded item needs a receipt line and a positive quantity', 'INVALID_REFUND', 'low');
+    }
+    requested.set(item.line, (requested.get(item.line) || 0) + quantity);
+  }
+
+  return [...requested.entries()].map(([lineIndex, quantity]) => {
+    const line = lines[lineIndex];
+    const available = line.quantity - line.refundedQuantity;
+    if (quantity > available) {
+      throw new AppError(
+        available > 0 ? `Only ${available} × ${line.name} left to refund` : `${line.name} has already been refunded`,
+        'INVALID_REFUND',
+        'low'
+      );
+    }
+    return { line: lineIndex, name: line.name, quantity, amount: roundMoney(line.unitAmount * quantity) };
+  });
+}
+
+/**
+ * Refund a completed payment
+ * Items are priced from the payment's receipt; otherwise the amount given, or everything left, is refunded.
+ * The bill amount is refunded before the tip
+ */
+export async function refundPayment(paymentId: string, request: RefundRequest): Promise<RefundResult> {
+  const reason = typeof request.reason === 'string' ? request.reason.trim() : '';
+  if (!reason || reason.length > MAX_CREDIT_REASON_LENGTH) {
+    throw new AppError(`A reason of at most ${MAX_CREDIT_REASON_LENGTH} characters is required`, 'INVALID_REFUND', 'low');
+  }
+
+  const summary = await getRefundSummary(paymentId);
+  const { payment, receipt, refunds } = summary;
+
+  const refundMethod = request.refundMethod || payment.payment_method;
+  if (request.refundMethod && !PAYMENT_METHODS.includes(request.refundMethod)) {
+    throw new AppError('Invalid refund method', 'INVALID_REFUND', 'low');
+  }
+
+  const items = Array.isArray(request.items) && request.items.length > 0
+    ? resolveRefundItems(summary.lines, request.items)
+    : null;
+  const amount = items
+    ? roundMoney(items.reduce((sum, item) => sum + item.amount, 0))
+    : request.amount === undefined || request.amount === null ? summary.refundable : roundMoney(Number(request.amount));
+
+  if (summary.refundable <= 0) {
+    throw new AppError('This payment has already been fully refunded', 'INVALID_REFUND', 'low');
+  }
+  if (!Number.isFinite(amount) || amount <= 0 || amount > summary.refundable) {
+    throw new AppError(`Refund must be between 0.01 and ${summary.refundable.toFixed(2)}`, 'INVALID_REFUND', 'low');
+  }
+
+  const billRefunded = -refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  const billPart = roundMoney(Math.min(amount, Math.max(0, payment.amount - billRefunded)));
+  const tipPart = roundMoney(amount - billPart);
+  const reference = generateRefundReference();
+
+  // The refund is reserved in the ledger first: reserve_refund() locks the payment and its receipt, so two
+  // refunds racing on the same payment cannot both pass, and money never goes back without a ledger entry
+  const { data: reserved, error: reserveError } = await supabaseServer.rpc('reserve_refund', {
+    p_original_payment_id: payment.id,
+    p_refund: {
+      amount: -billPart,
+      tip_amount: -tipPart,
+      payment_method: refundMethod,
+      reference,
+      completed_by: request.authorizedBy,
+      refund_reason: reason,
+      refunded_items: items
+    }
+  });
+
+  if (reserveError?.code === NO_DATA_FOUND) {
+    throw new AppError('Payment not found', 'PAYMENT_NOT_FOUND', 'low');
+  }
+  // Another refund landed between the checks above and the reservation
+  if (reserveError?.code === CHECK_VIOLATION) {
+    throw new AppError(reserveError.message, 'INVALID_REFUND', 'low');
+  }
+  if (reserveError || !reserved) {
+    throw new AppError(`Failed to record refund: ${reserveError?.message || 'no refund returned'}`, 'REFUND_RECORD_FAILED', 'high');
+  }
+  const reservation = normalizePaymentRow(Array.isArray(reserved) ? reserved[0] : reserved);
+
+  // Nothing has gone back yet, so the reservation is released
+  const releaseReservation = async () => {
+    const { error } = await supabaseServer
+      .from('payments')
+      .update({ status: 'failed' })
+      .eq('id', reservation.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('⚠️ Failed to release refund reservation', reservation.reference, error);
+    }
+  };
+
+  // Money taken through the payment provider goes back through it before the credit note is issued
+  let providerRefundId: string | null = null;
+  const intent = payment.payment_intent_id && refundMethod === payment.payment_method
+    ? await getPaymentIntent(payment.payment_intent_id)
+    : null;
+  if (intent) {
+    const provider = getPaymentProvider();
+    if (provider.name !== intent.provider) {
+      await releaseReservation();
+      throw new AppError(`This payment was taken through ${intent.provider}, which is no longer configured`, 'REFUND_PROVIDER_FAILED', 'high');
+    }
+    const providerRefund = await provider.refund(intent.provider_intent_id, amount, reference).catch(async (error) => {
+      await releaseReservation();
+      throw error;
+    });
+    if (providerRefund.status === 'failed') {
+      await releaseReservation();
+      throw new AppError(`The payment provider refused the refund: ${providerRefund.failureReason || 'no reason given'}`, 'REFUND_PROVIDER_FAILED', 'high');
+    }
+    providerRefundId = providerRefund.providerRefundId;
+  }
+
+  let creditNote: FiscalReceipt | null = null;
+  if (receipt) {
+    try {
+      ({ creditNote } = await issueCreditNote(receipt.id, amount, reason, request.authorizedBy, {
+        refund_reference: reference,
+        payment_reference: payment.reference,
+        refund_method: refundMethod,
+        ...(providerRefundId ? { provider_refund_id: providerRefundId } : {}),
+        ...(items ? { items } : {})
+      }));
+    } catch (error) {
+      // Once the provider has paid out, the pending entry stays as the record of the money returned
+      if (providerRefundId) {
+        console.error('❌ Credit note failed after provider refund', reference, providerRefundId, error);
+      } else {
+        await releaseReservation();
+      }
+      throw error;
+    }
+  }
+
+  const refundedAt = new Date().toISOString();
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .update({
+      status: 'completed',
+      credit_note_id: creditNote?.id || null,
+      completed_at: refundedAt
+    })
+    .eq('id', reservation.id)
+    .eq('status', 'pending')
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('❌ Refund left pending after credit note', reference, creditNote?.id, providerRefundId, error);
+    throw new AppError(`Failed to record refund: ${error?.message || 'no refund returned'}`, 'REFUND_RECORD_FAILED', 'high');
+  }
+
+  return {
+    refund: normalizePaymentRow(data),
+    original: payment,
+    creditNote,
+    receipt
+  };
+}
+
+/**
+ * Void a receipt (no amount) or credit part of it by refunding the payments it covers, oldest first
+ * Each payment refunded gets its own ledger entry, credit note and provider refund, as refundPayment() does
+ */
+export async function refundReceipt(
+  receiptId: string,
+  request: { amount?: number | null; reason: string; authorizedBy: string }
+): Promise<RefundResult[]> {
+  const { data, error } = await supabaseServer
+    .from('payments')
+    .select('id')
+    .eq('fiscal_receipt_id', receiptId)
+    .eq('entry_type', 'payment')
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load receipt payments: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (!data || data.length === 0) {
+    throw new AppError('No payments were recorded against this receipt', 'FISCAL_RECEIPT_NOT_FOUND', 'low');
+  }
+
+  const summaries = await Promise.all(data.map(row => getRefundSummary(row.id)));
+  const refundable = roundMoney(summaries.reduce((sum, summary) => sum + summary.refundable, 0));
+  const amount = request.amount === undefined || request.amount === null ? refundable : roundMoney(Number(request.amount));
+
+  if (refundable <= 0) {
+    throw new AppError('This receipt has already been fully credited', 'INVALID_REFUND', 'low');
+  }
+  if (!Number.isFinite(amount) || amount <= 0 || amount > refundable) {
+    throw new AppError(`Credit must be between 0.01 and ${refundable.toFixed(2)}`, 'INVALID_REFUND', 'low');
+  }
+
+  const results: RefundResult[] = [];
+  let remaining = amount;
+  for (const summary of summaries) {
+    const share = roundMoney(Math.min(remaining, summary.refundable));
+    if (share <= 0) {
+      continue;
+    }
+    results.push(await refundPayment(summary.payment.id, {
+      amount: share,
+      reason: request.reason,
+      authorizedBy: request.authorizedBy
+    }));
+    remaining = roundMoney(remaining - share);
+  }
+
+  return results;
+}
@@ -0,0 +1,306 @@
+// Restaurant settings service
+// Reads and writes the per-restaurant restaurant_settings table with validation and defaults
+
+import { supabaseServer } from './supabaseServer';
+import { RestaurantSettings } from '@/types/database';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from './menu-schedule';
+
+export type { RestaurantSettings };
+
+export type PaymentFinalizationMethod = RestaurantSettings['payment_finalization_method'];
+
+/**
+ * Restaurant used for records created before multi-tenancy
+ */
+export const DEFAULT_RESTAURANT_ID = '00000000-0000-0000-0000-000000000001';
+
+/**
+ * Settings used when a restaurant has no stored row
+ * These match what bills were charged before settings were persisted (14% VAT, no service charge)
+ */
+export const DEFAULT_RESTAURANT_SETTINGS: RestaurantSettings = {
+  payment_finalization_method: 'attendant_verified',
+  auto_close_sessions: false,
+  session_timeout_minutes: 120,
+  require_table_pins: true,
+  enable_notifications: true,
+  low_stock_threshold: 10,
+  tax_rate: 0.14,
+  service_charge_rate: 0,
+  prices_include_tax: false,
+  tax_rounding_mode: 'per_bill',
+  tax_rounding_method: 'half_up',
+  timezone: DEFAULT_TIMEZONE,
+  escalation_floor_minutes: 2,
+  escalation_manager_minutes: 5,
+  low_rating_threshold: 2,
+  business_address: '',
+  vat_registration_number: ''
+};
+
+export const RESTAURANT_SETTING_KEYS = Object.keys(DEFAULT_RESTAURANT_SETTINGS) as (keyof RestaurantSettings)[];
+
+const SETTINGS_COLUMNS = RESTAURANT_SETTING_KEYS.join(', ');
+
+/**
+ * Validate a (partial) settings object
+ * Returns the first validation error, or null when the settings are valid
+ */
+export function validateRestaurantSettings(settings: Partial<Record<keyof RestaurantSettings, unknown>>): string | null {
+  const validPaymentMethods: PaymentFinalizationMethod[] = ['attendant_verified', 'self_serve'];
+  if (settings.payment_finalization_method !== undefined &&
+      !validPaymentMethods.includes(settings.payment_finalization_method as PaymentFinalizationMethod)) {
+    return 'Invalid payment finalization method';
+  }
+
+  for (const key of ['auto_close_sessions', 'require_table_pins', 'enable_notifications', 'prices_include_tax'] as const) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'boolean') {
+      return `${key} must be true or false`;
+    }
+  }
+
+  if (settings.tax_rounding_mode !== undefined && !['per_line', 'per_bill'].includes(settings.tax_rounding_mode as string)) {
+    return 'Invalid tax rounding mode';
+  }
+
+  if (settings.tax_rounding_method !== undefined && !['half_up', 'half_even'].includes(settings.tax_rounding_method as string)) {
+    return 'Invalid tax rounding method';
+  }
+
+  if (settings.timezone !== undefined &&
+      (typeof settings.timezone !== 'string' || !isValidTimeZone(settings.timezone))) {
+    return 'Invalid timezone';
+  }
+
+  if (settings.tax_rate !== undefined && !isNumberInRange(settings.tax_rate, 0, 1)) {
+    return 'Tax rate must be between 0 and 1';
+  }
+
+  if (settings.service_charge_rate !== undefined && !isNumberInRange(settings.service_charge_rate, 0, 1)) {
+    return 'Service charge rate must be between 0 and 1';
+  }
+
+  if (settings.session_timeout_minutes !== undefined &&
+      (!Number.isInteger(settings.session_timeout_minutes) || !isNumberInRange(settings.session_timeout_minutes, 30, 480))) {
+    return 'Session timeout must be between 30 and 480 minutes';
+  }
+
+  if (settings.low_stock_threshold !== undefined &&
+      (!Number.isInteger(settings.low_stock_threshold) || !isNumberInRange(settings.low_stock_threshold, 0, Number.MAX_SAFE_INTEGER))) {
+    return 'Low stock threshold must be a whole number of 0 or more';
+  }
+
+  for (const key of ['escalation_floor_minutes', 'escalation_manager_minutes'] as const) {
+    if (settings[key] !== undefined &&
+        (!Number.isInteger(settings[key]) || !isNumberInRange(settings[key], 0, 120))) {
+      return 'Escalation times must be whole minutes between 0 and 120';
+    }
+  }
+
+  // The manager step comes after the floor step when both are on
+  const floorMinutes = settings.escalation_floor_minutes as number | undefined;
+  const managerMinutes = settings.escalation_manager_minutes as number | undefined;
+  if (floorMinutes && managerMinutes && managerMinutes <= floorMinutes) {
+    return 'Manager escalation must come after floor escalation';
+  }
+
+  if (settings.low_rating_threshold !== undefined &&
+      (!Number.isInteger(settings.low_rating_threshold) || !isNumberInRange(settings.low_rating_threshold, 0, 4))) {
+    return 'Low rating threshold must be a whole number of stars between 0 and 4';
+  }
+
+  if (settings.business_address !== undefined &&
+      (typeof settings.business_address !== 'string' || settings.business_address.length > 300)) {
+    return 'Business address must be text of at most 300 characters';
+  }
+
+  if (settings.vat_registration_number !== undefined &&
+      (typeof settings.vat_registration_number !== 'string' || !/^[A-Za-z0-9 \-\/]{0,40}$/.test(settings.vat_registration_number))) {
+    return 'VAT registration number may only contain letters, digits, spaces, dashes and slashes';
+  }
+
+  return null;
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Keep only known setting keys so callers can't write arbitrary columns
+ */
+export function pickRestaurantSettings(input: Record<string, unknown>): Partial<RestaurantSettings> {
+  const picked: Record<string, unknown> = {};
+  for (const key of RESTAURANT_SETTING_KEYS) {
+    if (key in input) {
+      picked[key] = input[key];
+    }
+  }
+  return picked as Partial<RestaurantSettings>;
+}
+
+function normalizeSettingsRow(row: Record<string, unknown> | null): RestaurantSettings {
+  if (!row) {
+    return { ...DEFAULT_RESTAURANT_SETTINGS };
+  }
+
+  // numeric columns can come back from PostgREST as strings
+  return {
+    ...DEFAULT_RESTAURANT_SETTINGS,
+    ...pickRestaurantSettings(row),
+    session_timeout_minutes: Number(row.session_timeout_minutes ?? DEFAULT_RESTAURANT_SETTINGS.session_timeout_minutes),
+    low_stock_threshold: Number(row.low_stock_threshold ?? DEFAULT_RESTAURANT_SETTINGS.low_stock_threshold),
+    tax_rate: Number(row.tax_rate ?? DEFAULT_RESTAURANT_SETTINGS.tax_rate),
+    service_charge_rate: Number(row.service_charge_rate ?? DEFAULT_RESTAURANT_SETTINGS.service_charge_rate),
+    escalation_floor_minutes: Number(row.escalation_floor_minutes ?? DEFAULT_RESTAURANT_SETTINGS.escalation_floor_minutes),
+    escalation_manager_minutes: Number(row.escalation_manager_minutes ?? DEFAULT_RESTAURANT_SETTINGS.escalation_manager_minutes),
+    low_rating_threshold: Number(row.low_rating_threshold ?? DEFAULT_RESTAURANT_SETTINGS.low_rating_threshold)
+  };
+}
+
+/**
+ * Get settings for a restaurant, falling back to defaults when none are stored
+ */
+export async function getRestaurantSettings(restaurantId: string): Promise<RestaurantSettings> {
+  try {
+    const { data, error } = await supabaseServer
+      .from('restaurant_settings')
+      .select(SETTINGS_COLUMNS)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️ Could not load settings for restaurant ${restaurantId}, using defaults:`, error.message);
+      return { ...DEFAULT_RESTAURANT_SETTINGS };
+    }
+
+    return normalizeSettingsRow(data as Record<string, unknown> | null);
+
+  } catch (error) {
+    console.error(`❌ Failed to get settings for restaurant ${restaurantId}:`, error);
+    return { ...DEFAULT_RESTAURANT_SETTINGS };
+  }
+}
+
+/**
+ * Get settings for several restaurants at once, keyed by restaurant ID
+ */
+export async function getRestaurantSettingsMap(restaurantIds: string[]): Promise<Record<string, RestaurantSettings>> {
+  const uniqueIds = [...new Set(restaurantIds.filter(Boolean))];
+  const settingsMap: Record<string, RestaurantSettings> = {};
+
+  for (const restaurantId of uniqueIds) {
+    settingsMap[restaurantId] = { ...DEFAULT_RESTAURANT_SETTINGS };
+  }
+
+  if (uniqueIds.length === 0) {
+    return settingsMap;
+  }
+
+  const { data, error } = await supabaseServer
+    .from('restaurant_settings')
+    .select(`restaurant_id, ${SETTINGS_COLUMNS}`)
+    .in('restaurant_id', uniqueIds);
+
+  if (error) {
+    console.warn('⚠️ Could not load restaurant settings, using defaults:', error.message);
+    return settingsMap;
+  }
+
+  for (const row of (data || []) as unknown as Record<string, unknown>[]) {
+    settingsMap[row.restaurant_id as string] = normalizeSettingsRow(row);
+  }
+
+  return settingsMap;
+}
+
+/**
+ * Resolve the restaurant a session belongs to
+ * Uses sessions.restaurant_id, then the session's table, then the default restaurant
+ */
+export async function getRestaurantIdForSession(sessionId: string): Promise<string> {
+  const { data: session } = await supabaseServer
+    .from('sessions')
+    .select('restaurant_id, table_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (session?.restaurant_id) {
+    return session.restaurant_id;
+  }
+
+  if (session?.table_id) {
+    const { data: table } = await supabaseServer
+      .from('tables')
+      .select('restaurant_id')
+      .eq('id', session.table_id)
+      .maybeSingle();
+
+    if (table?.restaurant_id) {
+      return table.restaurant_id;
+    }
+  }
+
+  return DEFAULT_RESTAURANT_ID;
+}
+
+/**
+ * Get the settings that apply to a dining session
+ */
+export async function getSettingsForSession(sessionId: string): Promise<RestaurantSettings> {
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+  return getRestaurantSettings(restaurantId);
+}
+
+/**
+ * Merge and persist setting changes for a restaurant
+ * Throws if the resulting settings are invalid or the write fails
+ */
+export async function updateRestaurantSettings(
+  restaurantId: string,
+  changes: Partial<RestaurantSettings>,
+  updatedBy?: string
+): Promise<RestaurantSettings> {
+  const current = await getRestaurantSettings(restaurantId);
+  const next: RestaurantSettings = { ...current, ...pickRestaurantSettings(changes as Record<string, unknown>) };
+
+  const validationError = validateRestaurantSettings(next);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { data, error } = await supabaseServer
+    .from('restaurant_settings')
+    .upsert({
+      restaurant_id: restaurantId,
+      ...next,
+      updated_by: updatedBy || null
+    }, { onConflict: 'restaurant_id' })
+    .select(SETTINGS_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save settings: ${error.message}`);
+  }
+
+  return normalizeSettingsRow(data as unknown as Record<string, unknown>);
+}
+
+/**
+ * Reset a restaurant's settings to the defaults
+ */
+export async function resetRestaurantSettings(restaurantId: string, updatedBy?: string): Promise<RestaurantSettings> {
+  const { error } = await supabaseServer
+    .from('restaurant_settings')
+    .upsert({
+      restaurant_id: restaurantId,
+      ...DEFAULT_RESTAURANT_SETTINGS,
+      updated_by: updatedBy || null
+    }, { onConflict: 'restaurant_id' });
+
+  if (error) {
+    throw new Error(`Failed to reset settings: ${error.message}`);
+  }
+
+  return { ...DEFAULT_RESTAURANT_SETTINGS };
+}
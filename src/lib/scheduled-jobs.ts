@@ -3,6 +3,9 @@
 
 import { runStorageMonitoringJob } from './storage-monitoring';
 import { runGlobalDataLifecycle } from './data-lifecycle';
+import { processPrintQueue } from './print-queue';
+import { escalateOverdueNotifications } from './notification-escalation';
+import { purgeExpiredIdempotencyKeys } from './idempotency';
 
 export interface JobResult {
   jobName: string;
@@ -79,6 +82,7 @@ export async function runWeeklyDataCleanup(): Promise<JobResult> {
   try {
     
     const results = await runGlobalDataLifecycle();
+    const expiredIdempotencyKeys = await purgeExpiredIdempotencyKeys();
     
     const endTime = new Date();
     const duration = endTime.getTime() - startTime.getTime();
@@ -88,7 +92,8 @@ export async function runWeeklyDataCleanup(): Promise<JobResult> {
       totalProcessed: results.reduce((sum, r) => sum + r.totalProcessed, 0),
       totalArchived: results.reduce((sum, r) => sum + r.totalArchived, 0),
       totalDeleted: results.reduce((sum, r) => sum + r.totalDeleted, 0),
-      totalErrors: results.reduce((sum, r) => sum + r.errors.length, 0)
+      totalErrors: results.reduce((sum, r) => sum + r.errors.length, 0),
+      expiredIdempotencyKeys
     };
     
     return {
@@ -174,6 +179,100 @@ export async function runMonthlyStorageOptimization(): Promise<JobResult> {
   }
 }
 
+/**
+ * Print queue retry job
+ * Runs every minute to resend kitchen chits and receipts that didn't reach their printer
+ */
+export async function runPrintQueueRetry(): Promise<JobResult> {
+  const startTime = new Date();
+  const errors: string[] = [];
+  
+  try {
+    
+    const results = await processPrintQueue();
+    
+    const endTime = new Date();
+    const duration = endTime.getTime() - startTime.getTime();
+    
+    return {
+      jobName: 'print_queue_retry',
+      success: true,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration,
+      results,
+      errors
+    };
+    
+  } catch (error) {
+    const endTime = new Date();
+    const duration = endTime.getTime() - startTime.getTime();
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    
+    console.error('❌ Print queue retry job failed:', error);
+    errors.push(errorMessage);
+    
+    return {
+      jobName: 'print_queue_retry',
+      success: false,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration,
+      errors
+    };
+  }
+}
+
+/**
+ * Notification escalation job
+ * Runs every minute to escalate unacknowledged requests to all floor staff, then the manager
+ */
+export async function runNotificationEscalation(): Promise<JobResult> {
+  const startTime = new Date();
+  const errors: string[] = [];
+  
+  try {
+    
+    const results = await escalateOverdueNotifications(startTime);
+    errors.push(...results.errors);
+    
+    const endTime = new Date();
+    const duration = endTime.getTime() - startTime.getTime();
+    
+    return {
+      jobName: 'notification_escalation',
+      success: true,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration,
+      results: {
+        checked: results.checked,
+        escalated: results.escalated,
+        toFloor: results.toFloor,
+        toManager: results.toManager
+      },
+      errors
+    };
+    
+  } catch (error) {
+    const endTime = new Date();
+    const duration = endTime.getTime() - startTime.getTime();
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    
+    console.error('❌ Notification escalation job failed:', error);
+    errors.push(errorMessage);
+    
+    return {
+      jobName: 'notification_escalation',
+      success: false,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration,
+      errors
+    };
+  }
+}
+
 /**
  * Get list of available scheduled jobs
  */
@@ -196,6 +295,18 @@ export function getScheduledJobs(): ScheduledJob[] {
       description: 'Optimize storage and generate reports',
       schedule: '0 4 1 * *', // 1st of every month at 4 AM
       enabled: true
+    },
+    {
+      name: 'print_queue_retry',
+      description: 'Resend print jobs that did not reach their printer',
+      schedule: '* * * * *', // Every minute
+      enabled: true
+    },
+    {
+      name: 'notification_escalation',
+      description: 'Escalate unacknowledged staff notifications to floor staff and the manager',
+      schedule: '* * * * *', // Every minute
+      enabled: true
     }
   ];
 }
@@ -211,6 +322,10 @@ export async function runJob(jobName: string): Promise<JobResult> {
       return await runWeeklyDataCleanup();
     case 'monthly_storage_optimization':
       return await runMonthlyStorageOptimization();
+    case 'print_queue_retry':
+      return await runPrintQueueRetry();
+    case 'notification_escalation':
+      return await runNotificationEscalation();
     default:
       throw new Error(`Unknown job: ${jobName}`);
   }
@@ -0,0 +1,196 @@
+// Session bill calculation
+// Recomputes what a session (or one diner in it) owes from the orders table, split bills and discounts
+// Payment requests are priced from this, never from totals sent by the client
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getTaxConfigForSession } from './tax-config';
+import { BillTotals, calculateBillTotals, roundMoney, TaxSummaryEntry } from './tax-engine';
+import { getModifierTotal, SelectedModifier } from './menu-modifiers';
+import { BILLABLE_ORDER_STATUSES } from './order-statuses';
+
+export type BillPaymentType = 'table' | 'individual';
+
+export { BILLABLE_ORDER_STATUSES };
+
+/**
+ * Largest difference between a client total and the server total treated as rounding
+ */
+export const BILL_TOTAL_TOLERANCE = 0.01;
+
+export interface SessionBillItem {
+  orderId: string;
+  menuItemId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number; // menu price plus modifier deltas
+  customizations: SelectedModifier[];
+  amount: number; // what this bill is charged for the line (split share for shared items)
+  isSplit: boolean;
+  splitCount?: number;
+  dinerName?: string | null;
+  taxClass: string;
+  taxAmount: number;
+}
+
+export interface SessionBill {
+  sessionId: string;
+  paymentType: BillPaymentType;
+  dinerName: string | null;
+  items: SessionBillItem[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  serviceCharge: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  taxSummary: TaxSummaryEntry[];
+}
+
+interface BillOrderRow {
+  id: string;
+  menu_item_id: string | null;
+  quantity: number;
+  diner_name: string | null;
+  customizations: SelectedModifier[] | null;
+  menu_items: { id: string; name: string; price: number } | { id: string; name: string; price: number }[] | null;
+  split_bills: { split_price: number; split_count: number; participants: string[] | null } | { split_price: number; split_count: number; participants: string[] | null }[] | null;
+}
+
+const firstOf = <T>(value: T | T[] | null): T | null => (Array.isArray(value) ? value[0] || null : value);
+
+/**
+ * Calculate the bill for a session
+ * Table bills cover every billable order; individual bills cover the diner's own orders plus their split shares
+ */
+export async function calculateSessionBill(
+  sessionId: string,
+  options: { paymentType?: BillPaymentType; dinerName?: string | null } = {}
+): Promise<SessionBill> {
+  const paymentType = options.paymentType || 'table';
+  const dinerName = options.dinerName || null;
+
+  if (paymentType === 'individual' && !dinerName) {
+    throw new AppError('Diner name is required for individual payments', 'DINER_NAME_REQUIRED', 'low');
+  }
+
+  const { data: orders, error: ordersError } = await supabaseServer
+    .from('orders')
+    .select(`
+      id,
+      menu_item_id,
+      quantity,
+      diner_name,
+      customizations,
+      menu_items (
+        id,
+        name,
+        price
+      ),
+      split_bills (
+        split_price,
+        split_count,
+        participants
+      )
+    `)
+    .eq('session_id', sessionId)
+    .in('status', BILLABLE_ORDER_STATUSES)
+    .order('created_at', { ascending: true });
+
+  if (ordersError) {
+    throw new AppError(`Failed to fetch orders: ${ordersError.message}`, 'BILL_ORDERS_FETCH_FAILED', 'high');
+  }
+
+  const { data: discounts, error: discountsError } = await supabaseServer
+    .from('discounts')
+    .select('type, amount')
+    .eq('session_id', sessionId);
+
+  if (discountsError) {
+    throw new AppError(`Failed to fetch discounts: ${discountsError.message}`, 'BILL_DISCOUNTS_FETCH_FAILED', 'high');
+  }
+
+  const tableItems: SessionBillItem[] = [];
+  const dinerItems: SessionBillItem[] = [];
+
+  for (const order of (orders || []) as unknown as BillOrderRow[]) {
+    const menuItem = firstOf(order.menu_items);
+    const splitBill = firstOf(order.split_bills);
+    const unitPrice = (Number(menuItem?.price) || 0) + getModifierTotal(order.customizations);
+    const lineTotal = unitPrice * order.quantity;
+    const participants = splitBill?.participants || [];
+    const isSplit = participants.length > 0;
+
+    const item: SessionBillItem = {
+      orderId: order.id,
+      menuItemId: order.menu_item_id || menuItem?.id || null,
+      name: menuItem?.name || 'Unknown Item',
+      quantity: order.quantity,
+      unitPrice,
+      customizations: order.customizations || [],
+      amount: lineTotal,
+      isSplit,
+      dinerName: order.diner_name,
+      taxClass: '',
+      taxAmount: 0,
+      ...(isSplit && { splitCount: splitBill?.split_count || participants.length })
+    };
+    tableItems.push(item);
+
+    if (paymentType === 'individual') {
+      if (isSplit && participants.includes(dinerName as string)) {
+        dinerItems.push({ ...item, amount: Number(splitBill?.split_price) || 0 });
+      } else if (!isSplit && order.diner_name === dinerName) {
+        dinerItems.push(item);
+      }
+    }
+  }
+
+  const items = paymentType === 'table' ? tableItems : dinerItems;
+  const tableSubtotal = tableItems.reduce((sum, item) => sum + item.amount, 0);
+  const billSubtotal = items.reduce((sum, item) => sum + item.amount, 0);
+
+  // Percentage discounts apply to every share; fixed discounts are shared in proportion to each diner's subtotal
+  let discount = 0;
+  for (const row of discounts || []) {
+    const amount = Number(row.amount) || 0;
+    if (row.type === 'percentage') {
+      discount += billSubtotal * Math.min(amount, 100) / 100;
+    } else if (tableSubtotal > 0) {
+      discount += amount * (billSubtotal / tableSubtotal);
+    }
+  }
+
+  const taxConfig = await getTaxConfigForSession(sessionId);
+  const totals: BillTotals = calculateBillTotals(
+    items.map(item => ({ menuItemId: item.menuItemId, amount: item.amount })),
+    taxConfig,
+    discount
+  );
+
+  return {
+    sessionId,
+    paymentType,
+    dinerName,
+    items: items.map((item, index) => ({
+      ...item,
+      amount: roundMoney(item.amount, taxConfig.roundingMethod),
+      taxClass: totals.lines[index]?.taxClass || taxConfig.defaultTaxClass,
+      taxAmount: totals.lines[index]?.taxAmount || 0
+    })),
+    subtotal: totals.subtotal,
+    discount: totals.discount,
+    tax: totals.tax,
+    serviceCharge: totals.serviceCharge,
+    total: totals.total,
+    pricesIncludeTax: totals.pricesIncludeTax,
+    taxSummary: totals.taxSummary
+  };
+}
+
+/**
+ * Check a client-submitted amount against the server bill
+ */
+export function amountsMatch(clientAmount: number, serverAmount: number): boolean {
+  return Math.abs(clientAmount - serverAmount) <= BILL_TOTAL_TOLERANCE;
+}
@@ -0,0 +1,43 @@
+// Signed tokens
+// HMAC-signed, expiring claims handed to staff and manager screens at login; each token names its purpose,
+// so one issued for the event stream cannot be passed off as another; server-only
+
+import crypto from 'crypto';
+import { getSupabaseServiceKey } from './secure-env';
+
+const getTokenSecret = () => process.env.SIGNED_TOKEN_SECRET || getSupabaseServiceKey();
+
+const sign = (payload: string) => crypto.createHmac('sha256', getTokenSecret()).update(payload, 'utf8').digest('base64url');
+
+export function createSignedToken(purpose: string, claims: Record<string, unknown>, ttlHours: number): string {
+  const payload = Buffer.from(JSON.stringify({
+    ...claims,
+    purpose,
+    expiresAt: Date.now() + ttlHours * 60 * 60 * 1000
+  })).toString('base64url');
+
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The claims of a token issued for this purpose, or null when it is malformed, tampered with or expired
+ */
+export function readSignedToken(purpose: string, token: string | null): Record<string, unknown> | null {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = sign(payload);
+  if (signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims?.purpose === purpose && Number(claims.expiresAt) > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,202 @@
+// SMTP transport
+// Minimal SMTP client over net/tls: EHLO, optional STARTTLS, AUTH PLAIN, one message per connection; server-only
+// Replies in the 4xx range and network failures are transient (MAIL_TRANSIENT_FAILURE), 5xx are permanent (MAIL_REJECTED)
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { AppError } from './error-handling';
+
+export interface SmtpOptions {
+  host: string;
+  port?: number; // defaults to 465 with `secure`, otherwise 587
+  secure?: boolean; // TLS from the first byte (SMTPS)
+  requireTls?: boolean; // fail rather than send in the clear when STARTTLS isn't offered
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Milliseconds to wait for each server reply
+ */
+export const SMTP_TIMEOUT_MS = 10000;
+
+const smtpError = (message: string, code?: number) =>
+  new AppError(message, code && code >= 500 ? 'MAIL_REJECTED' : 'MAIL_TRANSIENT_FAILURE', 'medium');
+
+/**
+ * Line-oriented reader that collects multi-line replies ("250-..." until "250 ...")
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => this.fail(smtpError(`SMTP server timed out after ${this.timeoutMs}ms`)));
+    socket.on('data', chunk => this.receive(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(smtpError(`SMTP connection error: ${error.message}`)));
+    socket.on('close', () => this.fail(smtpError('SMTP server closed the connection')));
+  }
+
+  detach() {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  private receive(text: string) {
+    this.buffer += text;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map(entry => entry.slice(4)) };
+        this.lines = [];
+        const waiter = this.waiting;
+        this.waiting = null;
+        waiter?.resolve(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (!this.failure) {
+      this.failure = error;
+    }
+    const waiter = this.waiting;
+    this.waiting = null;
+    waiter?.reject(this.failure);
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async command(line: string | null, expected: number[], label: string): Promise<SmtpReply> {
+    const reply = this.read();
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const result = await reply;
+    if (!expected.includes(result.code)) {
+      throw smtpError(`SMTP ${label} failed: ${result.code} ${result.lines.join(' ')}`, result.code);
+    }
+    return result;
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+const connect = (options: SmtpOptions, port: number): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port, servername: options.host })
+      : net.createConnection({ host: options.host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(smtpError(`SMTP ${options.host}:${port} timed out connecting`));
+    }, options.timeoutMs || SMTP_TIMEOUT_MS);
+
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(smtpError(`SMTP ${options.host}:${port} error: ${error.message}`));
+    });
+  });
+
+const upgradeToTls = (socket: net.Socket, host: string): Promise<tls.TLSSocket> =>
+  new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', error => reject(smtpError(`SMTP STARTTLS failed: ${error.message}`)));
+  });
+
+// Lines starting with a dot get an extra one so they aren't read as the end of DATA
+const dotStuff = (data: string) =>
+  data.replace(/\r?\n/g, '\r\n').split('\r\n').map(line => (line.startsWith('.') ? `.${line}` : line)).join('\r\n');
+
+/**
+ * Deliver one message and close the connection
+ */
+export async function sendSmtpMail(options: SmtpOptions, envelope: SmtpEnvelope, data: string): Promise<void> {
+  const port = options.port || (options.secure ? 465 : 587);
+  const timeoutMs = options.timeoutMs || SMTP_TIMEOUT_MS;
+  const clientName = os.hostname() || 'localhost';
+  const connection = new SmtpConnection(await connect(options, port), timeoutMs);
+
+  try {
+    await connection.command(null, [220], 'greeting');
+    let ehlo = await connection.command(`EHLO ${clientName}`, [250], 'EHLO');
+
+    const supports = (keyword: string) => ehlo.lines.some(line => line.toUpperCase().startsWith(keyword));
+
+    if (!options.secure && supports('STARTTLS')) {
+      await connection.command('STARTTLS', [220], 'STARTTLS');
+      connection.attach(await upgradeToTls(connection.detach(), options.host));
+      ehlo = await connection.command(`EHLO ${clientName}`, [250], 'EHLO');
+    } else if (!options.secure && options.requireTls) {
+      throw new AppError(`SMTP ${options.host} does not offer STARTTLS`, 'MAIL_REJECTED', 'high');
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass || ''}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250], 'MAIL FROM');
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await connection.command('DATA', [354], 'DATA');
+
+    const reply = connection.read();
+    connection.write(`${dotStuff(data)}\r\n.\r\n`);
+    const accepted = await reply;
+    if (accepted.code !== 250) {
+      throw smtpError(`SMTP message rejected: ${accepted.code} ${accepted.lines.join(' ')}`, accepted.code);
+    }
+
+    // The message is accepted at this point; a failed QUIT doesn't matter
+    await connection.command('QUIT', [221], 'QUIT').catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
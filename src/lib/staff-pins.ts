@@ -0,0 +1,83 @@
+// Staff PINs
+// Staff log in with their staff ID and a PIN checked here against a bcrypt hash; a run of wrong PINs locks the
+// login for a while so short PINs cannot be guessed; server-only
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import bcrypt from 'bcryptjs';
+import { verifyPassword } from './auth/password-utils';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+const PIN_SALT_ROUNDS = 12;
+
+const PIN_PATTERN = new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`);
+
+export interface StaffPinRecord {
+  id: string;
+  pin_hash: string | null;
+  failed_pin_attempts: number | null;
+  pin_locked_until: string | null;
+}
+
+/**
+ * Check a staff member's PIN, counting wrong ones towards the lock
+ * Throws STAFF_PIN_LOCKED while locked and STAFF_PIN_NOT_SET when no PIN has been set; resolves false for a wrong PIN
+ */
+export async function verifyStaffPin(staff: StaffPinRecord, pin: unknown): Promise<boolean> {
+  if (staff.pin_locked_until && new Date(staff.pin_locked_until) > new Date()) {
+    throw new AppError(`Too many wrong PINs. Try again after ${LOCK_MINUTES} minutes.`, 'STAFF_PIN_LOCKED', 'medium');
+  }
+  if (!staff.pin_hash) {
+    throw new AppError('No PIN has been set for this staff member; ask a manager to set one', 'STAFF_PIN_NOT_SET', 'low');
+  }
+
+  const valid = typeof pin === 'string' && PIN_PATTERN.test(pin) && await verifyPassword(pin, staff.pin_hash);
+  const failedAttempts = valid ? 0 : (staff.failed_pin_attempts || 0) + 1;
+
+  const { error } = await supabaseServer
+    .from('staff')
+    .update({
+      failed_pin_attempts: failedAttempts,
+      pin_locked_until: failedAttempts >= MAX_FAILED_ATTEMPTS
+        ? new Date(Date.now() + LOCK_MINUTES * 60 * 1000).toISOString()
+        : null
+    })
+    .eq('id', staff.id);
+
+  if (error) {
+    console.error('⚠️ Failed to record PIN attempt:', error);
+  }
+
+  return valid;
+}
+
+/**
+ * Set (or reset) a staff member's PIN and clear any lock
+ */
+export async function setStaffPin(staffId: string, pin: unknown): Promise<void> {
+  if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) {
+    throw new AppError(`PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits`, 'INVALID_STAFF_PIN', 'low');
+  }
+
+  const { data, error } = await supabaseServer
+    .from('staff')
+    .update({
+      pin_hash: await bcrypt.hash(pin, PIN_SALT_ROUNDS),
+      failed_pin_attempts: 0,
+      pin_locked_until: null
+    })
+    .eq('id', staffId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to set PIN: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+  if (!data) {
+    throw new AppError('Staff member not found', 'STAFF_NOT_FOUND', 'low');
+  }
+}
@@ -0,0 +1,37 @@
+// Staff tokens
+// Signed, expiring tokens naming the staff member signed in on a device. Staff login hands one out and staff
+// screens send it in the X-Staff-Token header, so routes can tell a staff action from a diner's; server-only
+
+import { NextRequest } from 'next/server';
+import { createSignedToken, readSignedToken } from './signed-tokens';
+
+export const STAFF_TOKEN_HEADER = 'x-staff-token';
+
+/**
+ * Long enough for a shift; logging in again issues a fresh token
+ */
+export const STAFF_TOKEN_TTL_HOURS = 16;
+
+const TOKEN_PURPOSE = 'staff';
+
+export interface StaffIdentity {
+  id: string; // staff table id
+  name: string;
+  restaurantId: string;
+}
+
+export function createStaffToken(staff: StaffIdentity): string {
+  return createSignedToken(TOKEN_PURPOSE, { ...staff }, STAFF_TOKEN_TTL_HOURS);
+}
+
+/**
+ * The staff member whose token came with the request, or null for anyone else
+ */
+export function getStaffFromRequest(request: NextRequest): StaffIdentity | null {
+  const claims = readSignedToken(TOKEN_PURPOSE, request.headers.get(STAFF_TOKEN_HEADER));
+  if (typeof claims?.id !== 'string' || typeof claims.name !== 'string' || typeof claims.restaurantId !== 'string') {
+    return null;
+  }
+
+  return { id: claims.id, name: claims.name, restaurantId: claims.restaurantId };
+}
@@ -0,0 +1,97 @@
+// Tax configuration loader
+// Builds the TaxConfig used by the tax engine from restaurant settings, tax classes and menu item assignments
+
+import { supabaseServer } from './supabaseServer';
+import { getRestaurantIdForSession, getRestaurantSettings, RestaurantSettings } from './restaurant-settings';
+import { DEFAULT_TAX_CONFIG, STANDARD_TAX_CLASS, TaxClass, TaxConfig } from './tax-engine';
+
+interface TaxClassRow {
+  code: string;
+  name: string;
+  rate: number | string | null;
+  categories: string[] | null;
+}
+
+/**
+ * Build a tax config from settings alone (built-in classes, no item assignments)
+ */
+export function buildTaxConfigFromSettings(settings: RestaurantSettings): TaxConfig {
+  return {
+    ...DEFAULT_TAX_CONFIG,
+    pricesIncludeTax: settings.prices_include_tax,
+    roundingMode: settings.tax_rounding_mode,
+    roundingMethod: settings.tax_rounding_method,
+    serviceChargeRate: settings.service_charge_rate,
+    taxClasses: {
+      ...DEFAULT_TAX_CONFIG.taxClasses,
+      [STANDARD_TAX_CLASS]: { ...DEFAULT_TAX_CONFIG.taxClasses[STANDARD_TAX_CLASS], rate: settings.tax_rate }
+    },
+    itemTaxClasses: {}
+  };
+}
+
+/**
+ * Get the full tax config for a restaurant
+ * Item class resolution: menu_items.tax_class, then the class mapped to the item's category, then 'standard'
+ */
+export async function getTaxConfig(restaurantId: string): Promise<TaxConfig> {
+  const settings = await getRestaurantSettings(restaurantId);
+  const config = buildTaxConfigFromSettings(settings);
+
+  try {
+    const { data: classRows, error: classError } = await supabaseServer
+      .from('tax_classes')
+      .select('code, name, rate, categories')
+      .eq('restaurant_id', restaurantId);
+
+    if (classError) {
+      console.warn(`⚠️ Could not load tax classes for restaurant ${restaurantId}, using built-in classes:`, classError.message);
+      return config;
+    }
+
+    const categoryClasses: Record<string, string> = {};
+    for (const row of (classRows || []) as TaxClassRow[]) {
+      const taxClass: TaxClass = {
+        code: row.code,
+        name: row.name,
+        rate: row.rate === null ? settings.tax_rate : Number(row.rate)
+      };
+      config.taxClasses[row.code] = taxClass;
+
+      for (const category of row.categories || []) {
+        categoryClasses[category] = row.code;
+      }
+    }
+
+    const { data: items, error: itemsError } = await supabaseServer
+      .from('menu_items')
+      .select('id, category, tax_class')
+      .eq('restaurant_id', restaurantId);
+
+    if (itemsError) {
+      console.warn('⚠️ Could not load menu item tax classes, using the standard class:', itemsError.message);
+      return config;
+    }
+
+    for (const item of items || []) {
+      const code = item.tax_class || categoryClasses[item.category];
+      if (code && code !== config.defaultTaxClass) {
+        config.itemTaxClasses[item.id] = code;
+      }
+    }
+
+    return config;
+
+  } catch (error) {
+    console.error(`❌ Failed to load tax config for restaurant ${restaurantId}:`, error);
+    return config;
+  }
+}
+
+/**
+ * Get the tax config that applies to a dining session
+ */
+export async function getTaxConfigForSession(sessionId: string): Promise<TaxConfig> {
+  const restaurantId = await getRestaurantIdForSession(sessionId);
+  return getTaxConfig(restaurantId);
+}
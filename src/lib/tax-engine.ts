@@ -0,0 +1,215 @@
+// Tax engine
+// Single source of truth for VAT, service charge and rounding on bills, receipts and payment requests.
+// Pure functions only: the server loads the restaurant's TaxConfig (see tax-config.ts) and the same
+// calculation runs wherever a total is shown, so every screen agrees with what staff are asked to collect.
+
+export type TaxRoundingMode = 'per_line' | 'per_bill';
+export type TaxRoundingMethod = 'half_up' | 'half_even';
+
+export interface TaxClass {
+  code: string;
+  name: string;
+  rate: number; // fraction, 0.14 = 14%
+}
+
+export interface TaxConfig {
+  pricesIncludeTax: boolean;
+  roundingMode: TaxRoundingMode;
+  roundingMethod: TaxRoundingMethod;
+  serviceChargeRate: number;
+  defaultTaxClass: string;
+  taxClasses: Record<string, TaxClass>;
+  itemTaxClasses: Record<string, string>; // menu_item_id -> tax class code
+}
+
+export interface TaxableLine {
+  menuItemId?: string | null;
+  amount: number; // price charged for the line as listed on the menu (quantity and splits applied)
+  taxClass?: string | null; // explicit class, skips the item lookup
+}
+
+export interface TaxedLine extends TaxableLine {
+  taxClass: string;
+  taxRate: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+}
+
+export interface TaxSummaryEntry {
+  taxClass: string;
+  name: string;
+  rate: number;
+  netAmount: number;
+  taxAmount: number;
+}
+
+export interface BillTotals {
+  subtotal: number; // sum of listed prices
+  discount: number; // bill-level discount, applied before tax
+  netAmount: number; // discounted subtotal excluding tax
+  tax: number;
+  serviceCharge: number;
+  total: number; // amount payable before tip
+  pricesIncludeTax: boolean;
+  lines: TaxedLine[];
+  taxSummary: TaxSummaryEntry[];
+}
+
+export const STANDARD_TAX_CLASS = 'standard';
+
+/**
+ * Config used until a restaurant's own config has loaded (14% VAT added on top)
+ */
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  pricesIncludeTax: false,
+  roundingMode: 'per_bill',
+  roundingMethod: 'half_up',
+  serviceChargeRate: 0,
+  defaultTaxClass: STANDARD_TAX_CLASS,
+  taxClasses: {
+    standard: { code: STANDARD_TAX_CLASS, name: 'Standard rate', rate: 0.14 },
+    zero_rated: { code: 'zero_rated', name: 'Zero-rated', rate: 0 },
+    exempt: { code: 'exempt', name: 'Exempt', rate: 0 }
+  },
+  itemTaxClasses: {}
+};
+
+/**
+ * Round an amount to the cent
+ * Works in scaled integers so values like 1.005 round the way a cashier expects
+ */
+export function roundMoney(amount: number, method: TaxRoundingMethod = 'half_up'): number {
+  const scaled = Number((amount * 100).toFixed(6));
+  const floor = Math.floor(scaled);
+  const fraction = Number((scaled - floor).toFixed(6));
+
+  let cents: number;
+  if (fraction > 0.5) {
+    cents = floor + 1;
+  } else if (fraction < 0.5) {
+    cents = floor;
+  } else if (method === 'half_even') {
+    cents = floor % 2 === 0 ? floor : floor + 1;
+  } else {
+    cents = floor + 1;
+  }
+
+  return cents / 100;
+}
+
+/**
+ * Resolve the tax class that applies to a line
+ */
+export function resolveTaxClass(line: TaxableLine, config: TaxConfig): TaxClass {
+  const code = line.taxClass
+    || (line.menuItemId ? config.itemTaxClasses[line.menuItemId] : undefined)
+    || config.defaultTaxClass;
+
+  return config.taxClasses[code] || config.taxClasses[config.defaultTaxClass] || DEFAULT_TAX_CONFIG.taxClasses.standard;
+}
+
+function splitTax(amount: number, rate: number, pricesIncludeTax: boolean): { net: number; tax: number } {
+  if (pricesIncludeTax) {
+    const net = amount / (1 + rate);
+    return { net, tax: amount - net };
+  }
+  return { net: amount, tax: amount * rate };
+}
+
+/**
+ * Calculate subtotal, tax, service charge and total for a set of bill lines
+ * A discount is spread across the lines in proportion to their amounts so each tax class is reduced fairly
+ */
+export function calculateBillTotals(lines: TaxableLine[], config: TaxConfig = DEFAULT_TAX_CONFIG, discount = 0): BillTotals {
+  const round = (amount: number) => roundMoney(amount, config.roundingMethod);
+  const summary = new Map<string, { taxClass: TaxClass; amount: number; net: number; tax: number }>();
+
+  const subtotal = round(lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0));
+  const appliedDiscount = round(Math.min(Math.max(Number(discount) || 0, 0), subtotal));
+  const discountFactor = subtotal > 0 ? (subtotal - appliedDiscount) / subtotal : 1;
+
+  const taxedLines: TaxedLine[] = lines.map(line => {
+    const taxClass = resolveTaxClass(line, config);
+    const amount = (Number(line.amount) || 0) * discountFactor;
+    const { net, tax } = splitTax(amount, taxClass.rate, config.pricesIncludeTax);
+    const taxAmount = config.roundingMode === 'per_line' ? round(tax) : tax;
+    const netAmount = config.pricesIncludeTax ? amount - taxAmount : net;
+
+    const entry = summary.get(taxClass.code) || { taxClass, amount: 0, net: 0, tax: 0 };
+    entry.amount += amount;
+    entry.net += netAmount;
+    entry.tax += taxAmount;
+    summary.set(taxClass.code, entry);
+
+    return {
+      ...line,
+      taxClass: taxClass.code,
+      taxRate: taxClass.rate,
+      netAmount: round(netAmount),
+      taxAmount: round(taxAmount),
+      grossAmount: round(config.pricesIncludeTax ? amount : amount + taxAmount)
+    };
+  });
+
+  const taxSummary: TaxSummaryEntry[] = Array.from(summary.values()).map(entry => {
+    // per_bill: compute tax once on each class total; per_line: lines are already rounded
+    const tax = config.roundingMode === 'per_bill'
+      ? round(splitTax(entry.amount, entry.taxClass.rate, config.pricesIncludeTax).tax)
+      : round(entry.tax);
+    const net = config.pricesIncludeTax ? round(entry.amount - tax) : round(entry.amount);
+
+    return {
+      taxClass: entry.taxClass.code,
+      name: entry.taxClass.name,
+      rate: entry.taxClass.rate,
+      netAmount: net,
+      taxAmount: tax
+    };
+  });
+
+  const tax = round(taxSummary.reduce((sum, entry) => sum + entry.taxAmount, 0));
+  const netAmount = round(taxSummary.reduce((sum, entry) => sum + entry.netAmount, 0));
+  const serviceCharge = round(netAmount * config.serviceChargeRate);
+  const discountedSubtotal = subtotal - appliedDiscount;
+  const total = round(config.pricesIncludeTax ? discountedSubtotal + serviceCharge : discountedSubtotal + tax + serviceCharge);
+
+  return {
+    subtotal,
+    discount: appliedDiscount,
+    netAmount,
+    tax,
+    serviceCharge,
+    total,
+    pricesIncludeTax: config.pricesIncludeTax,
+    lines: taxedLines,
+    taxSummary
+  };
+}
+
+/**
+ * Convenience for screens that only know a subtotal (no item breakdown); uses the default class
+ */
+export function calculateTotalsForAmount(amount: number, config: TaxConfig = DEFAULT_TAX_CONFIG): BillTotals {
+  return calculateBillTotals([{ amount }], config);
+}
+
+/**
+ * Work back from an amount payable (before tip) to its breakdown, for records that only stored the total
+ * Uses the default class; net = total / (1 + rate + service charge rate) for both pricing modes
+ */
+export function calculateTotalsFromTotal(total: number, config: TaxConfig = DEFAULT_TAX_CONFIG): BillTotals {
+  const rate = (config.taxClasses[config.defaultTaxClass] || DEFAULT_TAX_CONFIG.taxClasses.standard).rate;
+  const net = total / (1 + rate + config.serviceChargeRate);
+  const subtotal = roundMoney(config.pricesIncludeTax ? net * (1 + rate) : net, config.roundingMethod);
+  return calculateTotalsForAmount(subtotal, config);
+}
+
+/**
+ * Label for the tax line on bills and receipts, e.g. "VAT (14%)" or "VAT incl. (14%)"
+ */
+export function getTaxLabel(config: TaxConfig = DEFAULT_TAX_CONFIG): string {
+  const standard = config.taxClasses[config.defaultTaxClass] || DEFAULT_TAX_CONFIG.taxClasses.standard;
+  const percentage = Number((standard.rate * 100).toFixed(2));
+  return `VAT${config.pricesIncludeTax ? ' incl.' : ''} (${percentage}%)`;
+}
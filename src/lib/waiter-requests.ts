@@ -0,0 +1,263 @@
+// Waiter requests
+// Stores diner bill/help requests against the session and table, notifies the assigned staff member
+// and records how long staff took to acknowledge and complete them
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+
+export type WaiterRequestType = 'bill' | 'help';
+export type WaiterRequestStatus = 'pending' | 'acknowledged' | 'completed';
+
+export interface WaiterRequest {
+  id: string;
+  session_id: string;
+  table_id: string | null;
+  table_number: string | null;
+  request_type: WaiterRequestType;
+  customer_name: string | null;
+  status: WaiterRequestStatus;
+  notes: string | null;
+  assigned_staff_id: string | null;
+  assigned_staff_name: string | null;
+  notification_id: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  response_seconds: number | null;
+  resolution_seconds: number | null;
+  created_at: string;
+}
+
+export const WAITER_REQUEST_TYPES: WaiterRequestType[] = ['bill', 'help'];
+export const WAITER_REQUEST_STATUSES: WaiterRequestStatus[] = ['pending', 'acknowledged', 'completed'];
+
+// Notification status that mirrors each request status
+const NOTIFICATION_STATUS: Record<WaiterRequestStatus, string> = {
+  pending: 'pending',
+  acknowledged: 'acknowledged',
+  completed: 'resolved'
+};
+
+const secondsSince = (start: string, end: string) =>
+  Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000));
+
+// Postgres unique_violation - the session already has an open request of this type
+const UNIQUE_VIOLATION = '23505';
+
+async function getOpenRequest(sessionId: string, requestType: WaiterRequestType): Promise<WaiterRequest | null> {
+  const { data, error } = await supabaseServer
+    .from('waiter_requests')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('request_type', requestType)
+    .in('status', ['pending', 'acknowledged'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load waiter requests: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return data as WaiterRequest | null;
+}
+
+/**
+ * Raise a bill or help request for a session
+ * A repeat press while the same kind of request is still open returns the open request
+ */
+export async function createWaiterRequest(
+  sessionId: string,
+  requestType: WaiterRequestType,
+  customerName?: string | null,
+  notes?: string | null
+): Promise<{ request: WaiterRequest; duplicate: boolean }> {
+  const { data: session, error: sessionError } = await supabaseServer
+    .from('sessions')
+    .select(`
+      id,
+      status,
+      table_id,
+      restaurant_id,
+      served_by,
+      started_by_name,
+      tables!sessions_table_id_fkey(
+        table_number
+      )
+    `)
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (sessionError || !session) {
+    throw new AppError('Session not found', 'WAITER_REQUEST_SESSION_NOT_FOUND', 'low');
+  }
+
+  if (session.status !== 'active') {
+    throw new AppError('This table session has ended', 'WAITER_REQUEST_SESSION_CLOSED', 'low');
+  }
+
+  const openRequest = await getOpenRequest(sessionId, requestType);
+  if (openRequest) {
+    return { request: openRequest, duplicate: true };
+  }
+
+  const tableNumber = Array.isArray(session.tables)
+    ? session.tables[0]?.table_number
+    : (session.tables as any)?.table_number;
+
+  const { data: staff } = session.served_by
+    ? await supabaseServer.from('staff').select('id, name').eq('id', session.served_by).maybeSingle()
+    : { data: null };
+  const waiter = staff?.name || session.started_by_name || null;
+
+  const { data: request, error: insertError } = await supabaseServer
+    .from('waiter_requests')
+    .insert({
+      restaurant_id: session.restaurant_id || null,
+      session_id: sessionId,
+      table_id: session.table_id,
+      table_number: tableNumber || null,
+      request_type: requestType,
+      customer_name: customerName || null,
+      notes: notes || null,
+      assigned_staff_id: staff?.id || null,
+      assigned_staff_name: waiter,
+      status: 'pending'
+    })
+    .select('*')
+    .single();
+
+  // The same button pressed twice at once: the unique index lets one insert through
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    const existing = await getOpenRequest(sessionId, requestType);
+    if (existing) {
+      return { request: existing, duplicate: true };
+    }
+  }
+  if (insertError) {
+    throw new AppError(`Failed to create waiter request: ${insertError.message}`, 'WAITER_REQUEST_CREATE_FAILED', 'medium');
+  }
+
+  // Staff screens pick requests up through the notification feed
+  const { data: notification, error: notificationError } = await supabaseServer
+    .from('notifications')
+    .insert({
+      session_id: sessionId,
+      type: 'waiter_request',
+      title: requestType === 'bill' ? 'Bill Requested' : 'Assistance Requested',
+      message: `Table ${tableNumber || 'Unknown'} - ${customerName || 'A diner'} ${requestType === 'bill' ? 'asked for the bill' : 'needs help'}${waiter ? ` - Assigned to: ${waiter}` : ''}`,
+      priority: requestType === 'bill' ? 'high' : 'medium',
+      status: 'pending',
+      metadata: {
+        waiter_request_id: request.id,
+        request_type: requestType,
+        customer_name: customerName || null,
+        table_number: tableNumber || null,
+        assigned_staff_id: staff?.id || null,
+        assigned_waitstaff: waiter
+      }
+    })
+    .select('id')
+    .single();
+
+  if (notificationError) {
+    console.error('⚠️ Failed to create waiter request notification:', notificationError);
+    return { request: request as WaiterRequest, duplicate: false };
+  }
+
+  await supabaseServer
+    .from('waiter_requests')
+    .update({ notification_id: notification.id })
+    .eq('id', request.id);
+
+  return { request: { ...(request as WaiterRequest), notification_id: notification.id }, duplicate: false };
+}
+
+/**
+ * Acknowledge or complete a request (or reopen it) and record response times
+ * Completing an unacknowledged request counts as acknowledging it at the same time
+ */
+export async function updateWaiterRequestStatus(
+  requestId: string,
+  status: WaiterRequestStatus,
+  staffName?: string | null,
+  notes?: string | null,
+  options: { syncNotification?: boolean } = {}
+): Promise<WaiterRequest> {
+  const { data: current, error: fetchError } = await supabaseServer
+    .from('waiter_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (fetchError || !current) {
+    throw new AppError('Waiter request not found', 'WAITER_REQUEST_NOT_FOUND', 'low');
+  }
+
+  const now = new Date().toISOString();
+  const updateData: Record<string, unknown> = { status };
+
+  if (status === 'pending') {
+    Object.assign(updateData, {
+      acknowledged_at: null,
+      acknowledged_by: null,
+      completed_at: null,
+      completed_by: null,
+      response_seconds: null,
+      resolution_seconds: null
+    });
+  }
+
+  if ((status === 'acknowledged' || status === 'completed') && !current.acknowledged_at) {
+    updateData.acknowledged_at = now;
+    updateData.acknowledged_by = staffName || null;
+    updateData.response_seconds = secondsSince(current.created_at, now);
+  }
+
+  if (status === 'completed' && !current.completed_at) {
+    updateData.completed_at = now;
+    updateData.completed_by = staffName || null;
+    updateData.resolution_seconds = secondsSince(current.created_at, now);
+  }
+
+  if (notes) {
+    updateData.notes = notes;
+  }
+
+  const { data: updated, error: updateError } = await supabaseServer
+    .from('waiter_requests')
+    .update(updateData)
+    .eq('id', requestId)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    throw new AppError(`Failed to update waiter request: ${updateError.message}`, 'WAITER_REQUEST_UPDATE_FAILED', 'medium');
+  }
+
+  if (options.syncNotification !== false && updated.notification_id) {
+    const notificationUpdate: Record<string, unknown> = {
+      status: NOTIFICATION_STATUS[status],
+      updated_at: now
+    };
+    if (status === 'acknowledged') {
+      notificationUpdate.acknowledged_at = now;
+      notificationUpdate.acknowledged_by = staffName || 'Staff';
+    } else if (status === 'completed') {
+      notificationUpdate.resolved_at = now;
+      notificationUpdate.resolved_by = staffName || 'Staff';
+    }
+
+    const { error: notificationError } = await supabaseServer
+      .from('notifications')
+      .update(notificationUpdate)
+      .eq('id', updated.notification_id);
+
+    if (notificationError) {
+      console.error('⚠️ Failed to sync waiter request notification:', notificationError);
+    }
+  }
+
+  return updated as WaiterRequest;
+}
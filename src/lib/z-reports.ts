@@ -0,0 +1,395 @@
+// Z-reports
+// End-of-day reports issued by the daily reset before it closes sessions and frees tables. Each report totals a
+// restaurant's payments ledger since its previous report - sales, VAT, tips, discounts, voids, refunds, payment
+// methods, covers and sales per staff member - and is stored under the next Z number; issued reports never change
+
+import { supabaseServer } from './supabaseServer';
+import { AppError } from './error-handling';
+import { getRestaurantSettings } from './restaurant-settings';
+import { buildTaxConfigFromSettings } from './tax-config';
+import { calculateTotalsFromTotal } from './tax-engine';
+import { getModifierTotal } from './menu-modifiers';
+import { formatFiscalNumber } from './fiscal-receipts';
+import { normalizePaymentRow, Payment } from './payments';
+
+export type ZReportSource = 'manual' | 'scheduled';
+
+export interface ZReportMethodLine {
+  method: string;
+  count: number;
+  sales: number; // excluding tips
+  tips: number;
+  refunds: number; // handed back, tips included
+  net: number; // money taken less money handed back
+}
+
+export interface ZReportStaffLine {
+  staff_id: string | null;
+  name: string;
+  count: number;
+  sales: number;
+  tips: number;
+}
+
+export interface ZReportData {
+  payment_methods: ZReportMethodLine[];
+  staff: ZReportStaffLine[];
+  voided_items: { name: string; quantity: number; amount: number; reason: string | null }[];
+  refund_count: number;
+  discount_count: number;
+  receipts: { count: number; first: string | null; last: string | null; credit_notes: number };
+  sessions: { paid: number; open_at_reset: number };
+  cash_drawers: { closed: number; open: number; expected: number; counted: number; variance: number };
+}
+
+export interface ZReport {
+  id: string;
+  restaurant_id: string;
+  z_number: number;
+  period_start: string;
+  period_end: string;
+  source: ZReportSource;
+  generated_by: string | null;
+  gross_sales: number; // payments excluding tips, tax and service charge included
+  vat: number;
+  service_charge: number;
+  tips: number;
+  discounts: number;
+  voids: number;
+  refunds: number;
+  net_sales: number; // gross sales less the bill part of refunds
+  payment_count: number;
+  covers: number;
+  data: ZReportData;
+  created_at: string;
+}
+
+// Totals as issue_z_report() expects them
+type ZReportTotals = Omit<ZReport, 'id' | 'restaurant_id' | 'z_number' | 'period_start' | 'period_end' | 'source' | 'generated_by' | 'created_at'>;
+
+// The first report for a restaurant covers the day before it
+const FIRST_REPORT_HOURS = 24;
+
+// Rows are read a page at a time so busy days are not cut off at the API row limit
+const PAGE_SIZE = 1000;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const normalizeZReportRow = (row: any): ZReport => ({
+  ...row,
+  gross_sales: Number(row.gross_sales) || 0,
+  vat: Number(row.vat) || 0,
+  service_charge: Number(row.service_charge) || 0,
+  tips: Number(row.tips) || 0,
+  discounts: Number(row.discounts) || 0,
+  voids: Number(row.voids) || 0,
+  refunds: Number(row.refunds) || 0,
+  net_sales: Number(row.net_sales) || 0
+});
+
+/**
+ * Z numbers are shown zero-padded like receipt numbers, e.g. Z-000042
+ */
+export function formatZNumber(zNumber: number): string {
+  return `Z-${String(zNumber).padStart(6, '0')}`;
+}
+
+async function fetchAllRows(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: { message: string } | null }>
+): Promise<any[]> {
+  const rows: any[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new AppError(`Failed to load ${label}: ${error.message}`, 'DATABASE_ERROR', 'medium');
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+// Diners on a session (the diners column may be stored as a JSON string)
+const countDiners = (diners: unknown): number => {
+  let parsed = diners;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return 0;
+    }
+  }
+  return Array.isArray(parsed) ? parsed.length : 0;
+};
+
+/**
+ * Total a restaurant's takings between two times
+ */
+export async function buildZReport(restaurantId: string, periodStart: string, periodEnd: string): Promise<ZReportTotals> {
+  const taxConfig = buildTaxConfigFromSettings(await getRestaurantSettings(restaurantId));
+
+  const [paymentRows, receiptRows, voidRows, paidSessions, openSessions, drawerRows] = await Promise.all([
+    fetchAllRows('payments', (from, to) => supabaseServer
+      .from('payments')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .eq('status', 'completed')
+      .gte('completed_at', periodStart)
+      .lt('completed_at', periodEnd)
+      .order('completed_at', { ascending: true })
+      .range(from, to)),
+    fetchAllRows('receipts', (from, to) => supabaseServer
+      .from('fiscal_receipts')
+      .select('document_type, receipt_number, data')
+      .eq('restaurant_id', restaurantId)
+      .gte('issued_at', periodStart)
+      .lt('issued_at', periodEnd)
+      .order('receipt_number', { ascending: true })
+      .range(from, to)),
+    fetchAllRows('voided orders', (from, to) => supabaseServer
+      .from('orders')
+      .select('quantity, customizations, void_reason, menu_items (name, price)')
+      .eq('restaurant_id', restaurantId)
+      .eq('status', 'voided')
+      .gte('voided_at', periodStart)
+      .lt('voided_at', periodEnd)
+      .range(from, to)),
+    fetchAllRows('sessions', (from, to) => supabaseServer
+      .from('sessions')
+      .select('id, diners')
+      .eq('restaurant_id', restaurantId)
+      .gte('payment_completed_at', periodStart)
+      .lt('payment_completed_at', periodEnd)
+      .range(from, to)),
+    fetchAllRows('open sessions', (from, to) => supabaseServer
+      .from('sessions')
+      .select('id')
+      .eq('restaurant_id', restaurantId)
+      .eq('status', 'active')
+      .range(from, to)),
+    fetchAllRows('cash drawers', (from, to) => supabaseServer
+      .from('cash_drawer_sessions')
+      .select('status, expected_cash, counted_cash, variance, closed_at')
+      .eq('restaurant_id', restaurantId)
+      .or(`status.eq.open,and(closed_at.gte.${periodStart},closed_at.lt.${periodEnd})`)
+      .range(from, to))
+  ]);
+
+  const ledger: Payment[] = paymentRows.map(normalizePaymentRow);
+  const payments = ledger.filter(payment => payment.entry_type === 'payment');
+  const refunds = ledger.filter(payment => payment.entry_type === 'refund');
+
+  // Payments backfilled without a breakdown, and all refunds, have their tax worked back from the amount
+  const breakdownOf = (payment: Payment) => {
+    const derived = calculateTotalsFromTotal(Math.abs(payment.amount), taxConfig);
+    const sign = payment.amount < 0 ? -1 : 1;
+    return {
+      vat: payment.tax_amount ?? sign * derived.tax,
+      serviceCharge: payment.service_charge ?? sign * derived.serviceCharge
+    };
+  };
+
+  const methods = new Map<string, ZReportMethodLine>();
+  const staff = new Map<string, ZReportStaffLine>();
+  let vat = 0;
+  let serviceCharge = 0;
+
+  for (const entry of ledger) {
+    const breakdown = breakdownOf(entry);
+    vat += breakdown.vat;
+    serviceCharge += breakdown.serviceCharge;
+
+    const method = methods.get(entry.payment_method)
+      || { method: entry.payment_method, count: 0, sales: 0, tips: 0, refunds: 0, net: 0 };
+    if (entry.entry_type === 'payment') {
+      method.count += 1;
+      method.sales += entry.amount;
+      method.tips += entry.tip_amount;
+    } else {
+      method.refunds -= entry.amount + entry.tip_amount;
+    }
+    method.net += entry.amount + entry.tip_amount;
+    methods.set(entry.payment_method, method);
+  }
+
+  for (const payment of payments) {
+    const key = payment.staff_id || payment.completed_by || 'unknown';
+    const line = staff.get(key)
+      || { staff_id: payment.staff_id, name: payment.completed_by || 'Unknown', count: 0, sales: 0, tips: 0 };
+    line.count += 1;
+    line.sales += payment.amount;
+    line.tips += payment.tip_amount;
+    staff.set(key, line);
+  }
+
+  // Staff recorded by ID are shown by name
+  const staffIds = [...staff.values()].map(line => line.staff_id).filter(Boolean) as string[];
+  if (staffIds.length > 0) {
+    const { data: staffRows, error: staffError } = await supabaseServer
+      .from('staff')
+      .select('id, name')
+      .in('id', staffIds);
+
+    if (staffError) {
+      console.error('⚠️ Failed to load staff names for Z-report:', staffError);
+    }
+    for (const row of staffRows || []) {
+      const line = staff.get(row.id);
+      if (line && row.name) {
+        line.name = row.name;
+      }
+    }
+  }
+
+  const receipts = receiptRows.filter(row => row.document_type === 'receipt');
+  const receiptDiscounts = receipts.map(row => Number(row.data?.discount) || 0).filter(discount => discount > 0);
+
+  const voidedItems = voidRows.map(row => {
+    const menuItem = Array.isArray(row.menu_items) ? row.menu_items[0] : row.menu_items;
+    const quantity = Number(row.quantity) || 0;
+    return {
+      name: menuItem?.name || 'Unknown Item',
+      quantity,
+      amount: roundMoney(((Number(menuItem?.price) || 0) + getModifierTotal(row.customizations)) * quantity),
+      reason: row.void_reason || null
+    };
+  });
+
+  const closedDrawers = drawerRows.filter(row => row.status === 'closed');
+  const sumDrawers = (column: string) => roundMoney(closedDrawers.reduce((sum, row) => sum + (Number(row[column]) || 0), 0));
+
+  const grossSales = roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  const refundedBill = roundMoney(-refunds.reduce((sum, refund) => sum + refund.amount, 0));
+
+  return {
+    gross_sales: grossSales,
+    vat: roundMoney(vat),
+    service_charge: roundMoney(serviceCharge),
+    tips: roundMoney(ledger.reduce((sum, entry) => sum + entry.tip_amount, 0)),
+    discounts: roundMoney(receiptDiscounts.reduce((sum, discount) => sum + discount, 0)),
+    voids: roundMoney(voidedItems.reduce((sum, item) => sum + item.amount, 0)),
+    refunds: roundMoney(-refunds.reduce((sum, refund) => sum + refund.amount + refund.tip_amount, 0)),
+    net_sales: roundMoney(grossSales - refundedBill),
+    payment_count: payments.length,
+    covers: paidSessions.reduce((sum, session) => sum + countDiners(session.diners), 0),
+    data: {
+      payment_methods: [...methods.values()].map(line => ({
+        ...line,
+        sales: roundMoney(line.sales),
+        tips: roundMoney(line.tips),
+        refunds: roundMoney(line.refunds),
+        net: roundMoney(line.net)
+      })),
+      staff: [...staff.values()]
+        .map(line => ({ ...line, sales: roundMoney(line.sales), tips: roundMoney(line.tips) }))
+        .sort((a, b) => b.sales - a.sales),
+      voided_items: voidedItems,
+      refund_count: refunds.length,
+      discount_count: receiptDiscounts.length,
+      receipts: {
+        count: receipts.length,
+        first: receipts.length > 0 ? formatFiscalNumber('receipt', receipts[0].receipt_number) : null,
+        last: receipts.length > 0 ? formatFiscalNumber('receipt', receipts[receipts.length - 1].receipt_number) : null,
+        credit_notes: receiptRows.length - receipts.length
+      },
+      sessions: {
+        paid: paidSessions.length,
+        open_at_reset: openSessions.length
+      },
+      cash_drawers: {
+        closed: closedDrawers.length,
+        open: drawerRows.length - closedDrawers.length,
+        expected: sumDrawers('expected_cash'),
+        counted: sumDrawers('counted_cash'),
+        variance: sumDrawers('variance')
+      }
+    }
+  };
+}
+
+export async function getZReports(restaurantId: string, limit: number = 60): Promise<ZReport[]> {
+  const { data, error } = await supabaseServer
+    .from('z_reports')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('z_number', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new AppError(`Failed to load Z-reports: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  return (data || []).map(normalizeZReportRow);
+}
+
+/**
+ * Issue the Z-report covering everything since the restaurant's previous one
+ */
+export async function generateZReport(
+  restaurantId: string,
+  options: { source: ZReportSource; generatedBy?: string | null }
+): Promise<ZReport> {
+  const [previous] = await getZReports(restaurantId, 1);
+  const periodEnd = new Date().toISOString();
+  const periodStart = previous
+    ? new Date(previous.period_end).toISOString()
+    : new Date(Date.now() - FIRST_REPORT_HOURS * 60 * 60 * 1000).toISOString();
+
+  if (periodStart >= periodEnd) {
+    return previous;
+  }
+
+  const totals = await buildZReport(restaurantId, periodStart, periodEnd);
+
+  const { data, error } = await supabaseServer.rpc('issue_z_report', {
+    p_restaurant_id: restaurantId,
+    p_period_start: periodStart,
+    p_period_end: periodEnd,
+    p_source: options.source,
+    p_generated_by: options.generatedBy || null,
+    p_report: totals
+  });
+
+  if (error || !data) {
+    throw new AppError(`Failed to issue Z-report: ${error?.message || 'no report returned'}`, 'Z_REPORT_FAILED', 'high');
+  }
+
+  return normalizeZReportRow(data);
+}
+
+/**
+ * Issue a Z-report for every restaurant; a restaurant that fails is reported and the rest carry on
+ * Nothing is lost when one fails: the restaurant's next report starts where its last successful one ended
+ */
+export async function generateZReportsForAllRestaurants(
+  options: { source: ZReportSource; generatedBy?: string | null }
+): Promise<{ reports: ZReport[]; errors: { restaurantId: string; error: string }[] }> {
+  const { data: restaurants, error } = await supabaseServer
+    .from('restaurants')
+    .select('id');
+
+  if (error) {
+    throw new AppError(`Failed to load restaurants: ${error.message}`, 'DATABASE_ERROR', 'medium');
+  }
+
+  const reports: ZReport[] = [];
+  const errors: { restaurantId: string; error: string }[] = [];
+
+  // One restaurant at a time keeps the reset's load on the database low
+  for (const restaurant of restaurants || []) {
+    try {
+      reports.push(await generateZReport(restaurant.id, options));
+    } catch (reportError) {
+      console.error(`❌ Failed to issue Z-report for restaurant ${restaurant.id}:`, reportError);
+      errors.push({
+        restaurantId: restaurant.id,
+        error: reportError instanceof Error ? reportError.message : 'Unknown error'
+      });
+    }
+  }
+
+  return { reports, errors };
+}
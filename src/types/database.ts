@@ -1,6 +1,8 @@
 // types/database.ts
 // Centralized database type definitions for the application
 
+import type { ModifierGroup, SelectedModifier } from '@/lib/menu-modifiers'
+
 // ============================================================================
 // TABLE INTERFACES
 // ============================================================================
@@ -50,6 +52,13 @@ export interface MenuItem {
   description?: string | null // text
   price: number // numeric
   category?: string | null // text
+  tax_class?: string | null // text, tax class code overriding the category mapping
+  station?: string | null // text, kitchen station code overriding the category mapping
+  modifier_groups?: ModifierGroup[] // jsonb (see lib/menu-modifiers)
+  allergens?: string[] // text[] (see lib/menu-tags)
+  dietary_tags?: string[] // text[] (vegetarian, vegan, halal)
+  schedule_ids?: string[] // uuid[] (menu_schedules the item is offered in; empty = always)
+  eighty_sixed_at?: string | null // timestamptz (when the kitchen marked it out of stock)
   is_available: boolean // boolean
   created_at?: string // timestamptz
   updated_at?: string // timestamptz
@@ -64,11 +73,35 @@ export interface Order {
   restaurant_id: string // uuid (multi-tenant)
   menu_item_id: string // uuid
   quantity: number // integer
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'cancelled' // text
+  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'paid' | 'voided' | 'cancelled' // text
   created_at?: string // timestamptz
   updated_at?: string // timestamptz
   archived_at?: string | null // timestamptz (data lifecycle)
   archive_reason?: string | null // text (data lifecycle)
+  voided_at?: string | null // timestamptz (manager void)
+  void_reason?: string | null // text (manager void)
+  paid_at?: string | null // timestamptz (settled by a payment)
+  payment_reference?: string | null // text (settled by a payment)
+  customizations?: SelectedModifier[] // jsonb (selected modifier options)
+  unit_price?: number | null // numeric (menu price plus modifier deltas)
+  unavailable_at?: string | null // timestamptz (cart item 86'd by the kitchen)
+  course?: 'starter' | 'main' | 'dessert' | null // text (see lib/courses)
+  held?: boolean // boolean (course waiting to be fired)
+  fired_at?: string | null // timestamptz (held course fired)
+  fired_by?: string | null // text (staff who fired the course)
+}
+
+/**
+ * Discount interface (bill-level discount on a session)
+ */
+export interface Discount {
+  id: string // uuid
+  session_id: string // uuid
+  type: 'fixed' | 'percentage' // text
+  amount: number // numeric (currency, or 0-100 for percentage)
+  applied_by?: string | null // text
+  reason?: string | null // text
+  created_at?: string // timestamptz
 }
 
 // ============================================================================
@@ -87,6 +120,29 @@ export interface Restaurant {
   updated_at?: string // timestamptz
 }
 
+/**
+ * Restaurant settings interface (restaurant_settings table)
+ */
+export interface RestaurantSettings {
+  payment_finalization_method: 'attendant_verified' | 'self_serve' // text
+  auto_close_sessions: boolean // boolean
+  session_timeout_minutes: number // integer
+  require_table_pins: boolean // boolean
+  enable_notifications: boolean // boolean
+  low_stock_threshold: number // integer
+  tax_rate: number // numeric (fraction, 0.14 = 14%)
+  service_charge_rate: number // numeric (fraction)
+  prices_include_tax: boolean // boolean
+  tax_rounding_mode: 'per_line' | 'per_bill' // text
+  tax_rounding_method: 'half_up' | 'half_even' // text
+  timezone: string // text (IANA name, used for menu schedules)
+  escalation_floor_minutes: number // integer (0 = never escalate to all floor staff)
+  escalation_manager_minutes: number // integer (0 = never escalate to the manager)
+  low_rating_threshold: number // integer (ratings at or below alert the manager, 0 = never)
+  business_address: string // text (printed on tax invoices)
+  vat_registration_number: string // text (printed on tax invoices, '' = not registered)
+}
+
 /**
  * Storage usage interface
  */
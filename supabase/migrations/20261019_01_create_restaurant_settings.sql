@@ -0,0 +1,65 @@
+-- Restaurant Settings Migration
+-- This migration creates a per-restaurant settings store
+-- Replaces the hard-coded defaults in /api/admin/settings and the admin page's localStorage copy
+
+-- Create restaurant_settings table (one row per restaurant)
+CREATE TABLE IF NOT EXISTS restaurant_settings (
+  restaurant_id UUID PRIMARY KEY REFERENCES restaurants(id) ON DELETE CASCADE,
+  payment_finalization_method TEXT NOT NULL DEFAULT 'attendant_verified'
+    CHECK (payment_finalization_method IN ('attendant_verified', 'self_serve')),
+  auto_close_sessions BOOLEAN NOT NULL DEFAULT FALSE,
+  session_timeout_minutes INTEGER NOT NULL DEFAULT 120
+    CHECK (session_timeout_minutes BETWEEN 30 AND 480),
+  require_table_pins BOOLEAN NOT NULL DEFAULT TRUE,
+  enable_notifications BOOLEAN NOT NULL DEFAULT TRUE,
+  low_stock_threshold INTEGER NOT NULL DEFAULT 10
+    CHECK (low_stock_threshold >= 0),
+  tax_rate DECIMAL(5,4) NOT NULL DEFAULT 0.14
+    CHECK (tax_rate >= 0 AND tax_rate <= 1),
+  service_charge_rate DECIMAL(5,4) NOT NULL DEFAULT 0
+    CHECK (service_charge_rate >= 0 AND service_charge_rate <= 1),
+  updated_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_restaurant_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_restaurant_settings_updated_at ON restaurant_settings;
+CREATE TRIGGER trigger_update_restaurant_settings_updated_at
+  BEFORE UPDATE ON restaurant_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_restaurant_settings_updated_at();
+
+-- Enable RLS
+ALTER TABLE restaurant_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view restaurant settings" ON restaurant_settings;
+DROP POLICY IF EXISTS "Service role can manage restaurant settings" ON restaurant_settings;
+
+-- Diners need tax/service rates to render bills, so settings are readable
+CREATE POLICY "Users can view restaurant settings" ON restaurant_settings
+  FOR SELECT USING (true);
+
+-- Writes only go through the admin API (service role)
+CREATE POLICY "Service role can manage restaurant settings" ON restaurant_settings
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Seed settings for existing restaurants so every restaurant has a row
+INSERT INTO restaurant_settings (restaurant_id)
+SELECT id FROM restaurants
+ON CONFLICT (restaurant_id) DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE restaurant_settings IS 'Per-restaurant operational settings managed from the admin settings page';
+COMMENT ON COLUMN restaurant_settings.payment_finalization_method IS 'attendant_verified: staff must complete payments; self_serve: diners may complete their own';
+COMMENT ON COLUMN restaurant_settings.session_timeout_minutes IS 'Minutes of inactivity after which a diner is treated as stale';
+COMMENT ON COLUMN restaurant_settings.tax_rate IS 'VAT rate applied to bills, as a fraction (0.14 = 14%)';
+COMMENT ON COLUMN restaurant_settings.service_charge_rate IS 'Service charge applied to bills, as a fraction';
@@ -0,0 +1,102 @@
+-- Tax Classes Migration
+-- This migration adds configurable tax handling used by the tax engine (src/lib/tax-engine.ts)
+-- Replaces the hard-coded 14% VAT that was computed separately in each bill/receipt component
+
+-- Pricing and rounding rules live with the rest of the restaurant settings
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS tax_rounding_mode TEXT NOT NULL DEFAULT 'per_bill';
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS tax_rounding_method TEXT NOT NULL DEFAULT 'half_up';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'restaurant_settings_tax_rounding_mode_check'
+    ) THEN
+        ALTER TABLE restaurant_settings
+        ADD CONSTRAINT restaurant_settings_tax_rounding_mode_check
+        CHECK (tax_rounding_mode IN ('per_line', 'per_bill'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'restaurant_settings_tax_rounding_method_check'
+    ) THEN
+        ALTER TABLE restaurant_settings
+        ADD CONSTRAINT restaurant_settings_tax_rounding_method_check
+        CHECK (tax_rounding_method IN ('half_up', 'half_even'));
+    END IF;
+END $$;
+
+-- Create tax_classes table (per restaurant)
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  code TEXT NOT NULL, -- 'standard', 'zero_rated', 'exempt', ...
+  name TEXT NOT NULL,
+  rate DECIMAL(5,4) CHECK (rate IS NULL OR (rate >= 0 AND rate <= 1)), -- NULL = restaurant tax_rate
+  categories TEXT[] NOT NULL DEFAULT '{}', -- menu categories that default to this class
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (restaurant_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_classes_restaurant_id ON tax_classes(restaurant_id);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_tax_classes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_tax_classes_updated_at ON tax_classes;
+CREATE TRIGGER trigger_update_tax_classes_updated_at
+  BEFORE UPDATE ON tax_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_tax_classes_updated_at();
+
+-- Enable RLS
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tax classes" ON tax_classes;
+DROP POLICY IF EXISTS "Service role can manage tax classes" ON tax_classes;
+
+CREATE POLICY "Users can view tax classes" ON tax_classes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage tax classes" ON tax_classes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Per-item override of the tax class (NULL = category mapping, then 'standard')
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS tax_class TEXT;
+
+-- Seed the built-in classes for existing restaurants
+INSERT INTO tax_classes (restaurant_id, code, name, rate)
+SELECT id, 'standard', 'Standard rate', NULL FROM restaurants
+ON CONFLICT (restaurant_id, code) DO NOTHING;
+
+INSERT INTO tax_classes (restaurant_id, code, name, rate)
+SELECT id, 'zero_rated', 'Zero-rated', 0 FROM restaurants
+ON CONFLICT (restaurant_id, code) DO NOTHING;
+
+INSERT INTO tax_classes (restaurant_id, code, name, rate)
+SELECT id, 'exempt', 'Exempt', 0 FROM restaurants
+ON CONFLICT (restaurant_id, code) DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE tax_classes IS 'Tax classes (standard, zero-rated, exempt, ...) applied to menu items by item or category';
+COMMENT ON COLUMN tax_classes.rate IS 'Tax rate as a fraction; NULL means use restaurant_settings.tax_rate';
+COMMENT ON COLUMN tax_classes.categories IS 'Menu categories whose items use this class unless the item overrides it';
+COMMENT ON COLUMN menu_items.tax_class IS 'Tax class code overriding the category mapping';
+COMMENT ON COLUMN restaurant_settings.prices_include_tax IS 'TRUE when menu prices already include tax (tax-inclusive pricing)';
+COMMENT ON COLUMN restaurant_settings.tax_rounding_mode IS 'per_line rounds tax on each line; per_bill rounds once per tax class';
+COMMENT ON COLUMN restaurant_settings.tax_rounding_method IS 'half_up or half_even (banker''s) rounding to the cent';
@@ -0,0 +1,40 @@
+-- Bill Adjustments Migration
+-- This migration backs the manager voids/discounts written by /api/manager/adjust-bill
+-- The server-side bill calculation (src/lib/session-bill.ts) excludes voided orders and applies discounts
+
+-- Void tracking on orders (status = 'voided')
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+-- Create discounts table (bill-level discounts per session)
+CREATE TABLE IF NOT EXISTS discounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('fixed', 'percentage')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  applied_by TEXT,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discounts_session_id ON discounts(session_id);
+
+-- Enable RLS
+ALTER TABLE discounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view discounts" ON discounts;
+DROP POLICY IF EXISTS "Service role can manage discounts" ON discounts;
+
+CREATE POLICY "Users can view discounts" ON discounts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage discounts" ON discounts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE discounts IS 'Bill-level discounts applied to a dining session by a manager';
+COMMENT ON COLUMN discounts.type IS 'fixed (amount in currency) or percentage (amount is 0-100)';
+COMMENT ON COLUMN orders.voided_at IS 'When a manager voided the order; voided orders are excluded from the bill';
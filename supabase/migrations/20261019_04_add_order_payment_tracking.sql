@@ -0,0 +1,16 @@
+-- Order Payment Tracking Migration
+-- Table payments used to delete the session's orders, losing the data sales reports and analytics aggregate
+-- Orders are now kept and marked as paid (status = 'paid') with the payment reference and time
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS payment_reference TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_paid_at ON orders(paid_at);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_reference ON orders(payment_reference);
+
+-- Add comments for documentation
+COMMENT ON COLUMN orders.paid_at IS 'When the order was settled by a completed payment';
+COMMENT ON COLUMN orders.payment_reference IS 'Reference of the payment that settled the order';
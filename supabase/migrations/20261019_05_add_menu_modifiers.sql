@@ -0,0 +1,33 @@
+-- Menu Modifiers Migration
+-- This migration lets menu items define modifier groups (e.g. "Doneness: rare/medium/well", "Extras: +cheese P5")
+-- Selections are validated by the cart routes (src/lib/menu-modifiers.ts) and stored in orders.customizations
+
+-- Modifier groups live on the menu item as a JSONB array:
+-- [{ "id", "name", "min_select", "max_select", "options": [{ "id", "name", "price_delta" }] }]
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS modifier_groups JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Cart/order rows already carry customizations; make sure older databases have the column
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS customizations JSONB DEFAULT '[]'::jsonb;
+
+-- Price charged per unit at the time the item was added (menu price plus modifier deltas)
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS unit_price DECIMAL(10,2);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'menu_items_modifier_groups_check'
+    ) THEN
+        ALTER TABLE menu_items
+        ADD CONSTRAINT menu_items_modifier_groups_check
+        CHECK (jsonb_typeof(modifier_groups) = 'array');
+    END IF;
+END $$;
+
+-- Add comments for documentation
+COMMENT ON COLUMN menu_items.modifier_groups IS 'Modifier groups with min/max selection rules and per-option price deltas';
+COMMENT ON COLUMN orders.customizations IS 'Selected modifier options: group_id, group_name, option_id, option_name, price_delta';
+COMMENT ON COLUMN orders.unit_price IS 'Per-unit price including modifier price deltas';
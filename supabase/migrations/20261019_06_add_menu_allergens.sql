@@ -0,0 +1,37 @@
+-- Menu Allergens Migration
+-- This migration adds structured allergen and dietary attributes to menu items
+-- Diners filter on these in the menu (src/lib/menu-tags.ts lists the allowed values)
+
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS dietary_tags TEXT[] NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'menu_items_allergens_check'
+    ) THEN
+        ALTER TABLE menu_items
+        ADD CONSTRAINT menu_items_allergens_check
+        CHECK (allergens <@ ARRAY['gluten', 'dairy', 'eggs', 'nuts', 'peanuts', 'shellfish', 'fish', 'soy', 'sesame', 'mustard', 'celery', 'sulphites']::TEXT[]);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'menu_items_dietary_tags_check'
+    ) THEN
+        ALTER TABLE menu_items
+        ADD CONSTRAINT menu_items_dietary_tags_check
+        CHECK (dietary_tags <@ ARRAY['vegetarian', 'vegan', 'halal']::TEXT[]);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_menu_items_allergens ON menu_items USING GIN (allergens);
+CREATE INDEX IF NOT EXISTS idx_menu_items_dietary_tags ON menu_items USING GIN (dietary_tags);
+
+-- Add comments for documentation
+COMMENT ON COLUMN menu_items.allergens IS 'Allergens the item contains (gluten, dairy, nuts, shellfish, ...)';
+COMMENT ON COLUMN menu_items.dietary_tags IS 'Dietary suitability (vegetarian, vegan, halal)';
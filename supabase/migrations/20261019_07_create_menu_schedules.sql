@@ -0,0 +1,78 @@
+-- Menu Schedules Migration
+-- This migration adds time-based menu availability (breakfast/lunch/dinner, weekday-only, seasonal)
+-- Schedules are evaluated in the restaurant's timezone by src/lib/menu-schedule.ts
+
+-- Restaurant timezone (IANA name) used to evaluate schedules
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Africa/Gaborone';
+
+-- Create menu_schedules table (per restaurant)
+CREATE TABLE IF NOT EXISTS menu_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{}', -- 0 = Sunday ... 6 = Saturday; empty = every day
+  start_time TIME, -- NULL = all day
+  end_time TIME, -- earlier than start_time for windows past midnight
+  start_date DATE, -- seasonal range, inclusive
+  end_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  CHECK ((start_time IS NULL) = (end_time IS NULL)),
+  CHECK (start_date IS NULL OR end_date IS NULL OR start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_schedules_restaurant_id ON menu_schedules(restaurant_id);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_menu_schedules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_menu_schedules_updated_at ON menu_schedules;
+CREATE TRIGGER trigger_update_menu_schedules_updated_at
+  BEFORE UPDATE ON menu_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_menu_schedules_updated_at();
+
+-- Enable RLS
+ALTER TABLE menu_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view menu schedules" ON menu_schedules;
+DROP POLICY IF EXISTS "Service role can manage menu schedules" ON menu_schedules;
+
+-- The diner menu needs schedules to hide items outside their window
+CREATE POLICY "Users can view menu schedules" ON menu_schedules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage menu schedules" ON menu_schedules
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Schedules an item is offered in (any open schedule makes it available; empty = always)
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS schedule_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Seed the common meal periods for existing restaurants (no items use them until assigned)
+INSERT INTO menu_schedules (restaurant_id, name, start_time, end_time)
+SELECT r.id, meal.name, meal.start_time, meal.end_time
+FROM restaurants r
+CROSS JOIN (VALUES
+  ('Breakfast', TIME '06:00', TIME '11:00'),
+  ('Lunch', TIME '11:00', TIME '16:00'),
+  ('Dinner', TIME '17:00', TIME '22:00')
+) AS meal(name, start_time, end_time)
+WHERE NOT EXISTS (
+  SELECT 1 FROM menu_schedules ms WHERE ms.restaurant_id = r.id AND ms.name = meal.name
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE menu_schedules IS 'Named availability windows (meal periods, weekday-only, seasonal) for menu items';
+COMMENT ON COLUMN menu_schedules.days_of_week IS 'Days the schedule runs (0 = Sunday); empty means every day';
+COMMENT ON COLUMN menu_items.schedule_ids IS 'Menu schedules the item is offered in; empty means always (subject to is_available)';
+COMMENT ON COLUMN restaurant_settings.timezone IS 'IANA timezone used to evaluate menu schedules';
@@ -0,0 +1,18 @@
+-- 86'd Menu Items Migration
+-- This migration lets the kitchen mark an item as run out ("86") during service
+-- The kitchen display flips availability and flags the item in diners' open carts
+
+-- When the kitchen 86'd the item (cleared when it is back in stock)
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS eighty_sixed_at TIMESTAMPTZ;
+
+-- Cart rows (status 'cart') whose item was 86'd after it was added
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS unavailable_at TIMESTAMPTZ;
+
+-- Flagging open carts looks up cart rows by menu item
+CREATE INDEX IF NOT EXISTS idx_orders_cart_menu_item_id ON orders(menu_item_id) WHERE status = 'cart';
+
+-- Add comments for documentation
+COMMENT ON COLUMN menu_items.eighty_sixed_at IS 'When the kitchen marked the item as run out; NULL when in stock';
+COMMENT ON COLUMN orders.unavailable_at IS 'When the cart item became unavailable (86''d); such items cannot be confirmed';
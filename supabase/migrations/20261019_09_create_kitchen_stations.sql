@@ -0,0 +1,67 @@
+-- Kitchen Stations Migration
+-- This migration adds prep stations (grill, bar, cold, pastry) and routes order items to them
+-- Routing is resolved by src/lib/kitchen-stations.ts: item override, then category mapping, then grill
+
+-- Create kitchen_stations table (per restaurant)
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  code TEXT NOT NULL, -- 'grill', 'bar', 'cold', 'pastry', ...
+  name TEXT NOT NULL,
+  categories TEXT[] NOT NULL DEFAULT '{}', -- menu categories routed to this station
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (restaurant_id, code),
+  CHECK (code ~ '^[a-z0-9_]{1,32}$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_stations_restaurant_id ON kitchen_stations(restaurant_id);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_kitchen_stations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_kitchen_stations_updated_at ON kitchen_stations;
+CREATE TRIGGER trigger_update_kitchen_stations_updated_at
+  BEFORE UPDATE ON kitchen_stations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_kitchen_stations_updated_at();
+
+-- Enable RLS
+ALTER TABLE kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view kitchen stations" ON kitchen_stations;
+DROP POLICY IF EXISTS "Service role can manage kitchen stations" ON kitchen_stations;
+
+CREATE POLICY "Users can view kitchen stations" ON kitchen_stations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage kitchen stations" ON kitchen_stations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Per-item override of the station (NULL = category mapping, then grill)
+ALTER TABLE menu_items
+ADD COLUMN IF NOT EXISTS station TEXT;
+
+-- Seed the built-in stations for existing restaurants
+INSERT INTO kitchen_stations (restaurant_id, code, name, categories, sort_order)
+SELECT r.id, station.code, station.name, station.categories, station.sort_order
+FROM restaurants r
+CROSS JOIN (VALUES
+  ('grill', 'Grill', ARRAY['Mains', 'Main Courses', 'Pizza', 'Pasta', 'Seafood', 'Sandwiches', 'Soups', 'Specials'], 0),
+  ('bar', 'Bar', ARRAY['Cold_drinks', 'Hot Beverages', 'Beverages'], 1),
+  ('cold', 'Cold', ARRAY['Starters', 'Appetizers', 'Salads', 'Snacks', 'Vegetarian'], 2),
+  ('pastry', 'Pastry', ARRAY['Desserts'], 3)
+) AS station(code, name, categories, sort_order)
+ON CONFLICT (restaurant_id, code) DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE kitchen_stations IS 'Prep stations that kitchen display screens filter on';
+COMMENT ON COLUMN kitchen_stations.categories IS 'Menu categories whose items go to this station unless the item overrides it';
+COMMENT ON COLUMN menu_items.station IS 'Kitchen station code overriding the category mapping';
@@ -0,0 +1,36 @@
+-- Order Courses Migration
+-- This migration adds course sequencing: items are tagged starter/main/dessert and later
+-- courses are held until the waiter fires them (see src/lib/courses.ts)
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS course TEXT; -- NULL = no course (e.g. drinks), never held
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS held BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS fired_at TIMESTAMPTZ;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS fired_by TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'orders_course_check'
+    ) THEN
+        ALTER TABLE orders
+        ADD CONSTRAINT orders_course_check
+        CHECK (course IS NULL OR course IN ('starter', 'main', 'dessert'));
+    END IF;
+END $$;
+
+-- Firing a course looks up a session's held items
+CREATE INDEX IF NOT EXISTS idx_orders_session_held ON orders(session_id) WHERE held = TRUE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN orders.course IS 'Course the item is served in: starter, main or dessert';
+COMMENT ON COLUMN orders.held IS 'TRUE while the kitchen must wait for the waiter to fire this course';
+COMMENT ON COLUMN orders.fired_at IS 'When the waiter fired the held course';
+COMMENT ON COLUMN orders.fired_by IS 'Staff member who fired the held course';
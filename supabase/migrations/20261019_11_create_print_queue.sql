@@ -0,0 +1,101 @@
+-- Print Queue Migration
+-- This migration adds network thermal printers and a queue of ESC/POS print jobs
+-- Kitchen chits and customer receipts are rendered by src/lib/escpos.ts and sent by src/lib/print-queue.ts
+
+-- Create printers table (per restaurant)
+CREATE TABLE IF NOT EXISTS printers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  host TEXT NOT NULL,
+  port INTEGER NOT NULL DEFAULT 9100,
+  kind TEXT NOT NULL DEFAULT 'kitchen', -- 'kitchen' prints chits, 'receipt' prints customer receipts
+  station TEXT, -- kitchen station code; NULL = chits for every station
+  width INTEGER NOT NULL DEFAULT 42, -- characters per line (42 for 80mm paper, 32 for 58mm)
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (kind IN ('kitchen', 'receipt')),
+  CHECK (port BETWEEN 1 AND 65535),
+  CHECK (width BETWEEN 24 AND 64)
+);
+
+CREATE INDEX IF NOT EXISTS idx_printers_restaurant_id ON printers(restaurant_id);
+
+-- Create print_jobs table
+CREATE TABLE IF NOT EXISTS print_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  printer_id UUID NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL, -- 'kitchen_ticket', 'receipt' or 'test'
+  content TEXT NOT NULL, -- base64 ESC/POS bytes
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  printed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (kind IN ('kitchen_ticket', 'receipt', 'test')),
+  CHECK (status IN ('pending', 'printing', 'printed', 'failed'))
+);
+
+-- The retry job picks up unprinted jobs oldest first
+CREATE INDEX IF NOT EXISTS idx_print_jobs_pending ON print_jobs(created_at) WHERE status IN ('pending', 'printing');
+CREATE INDEX IF NOT EXISTS idx_print_jobs_session_id ON print_jobs(session_id);
+
+-- Create updated_at triggers
+CREATE OR REPLACE FUNCTION update_printers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_printers_updated_at ON printers;
+CREATE TRIGGER trigger_update_printers_updated_at
+  BEFORE UPDATE ON printers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_printers_updated_at();
+
+CREATE OR REPLACE FUNCTION update_print_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_print_jobs_updated_at ON print_jobs;
+CREATE TRIGGER trigger_update_print_jobs_updated_at
+  BEFORE UPDATE ON print_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_print_jobs_updated_at();
+
+-- Enable RLS
+ALTER TABLE printers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE print_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view printers" ON printers;
+DROP POLICY IF EXISTS "Service role can manage printers" ON printers;
+DROP POLICY IF EXISTS "Users can view print jobs" ON print_jobs;
+DROP POLICY IF EXISTS "Service role can manage print jobs" ON print_jobs;
+
+CREATE POLICY "Users can view printers" ON printers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage printers" ON printers
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view print jobs" ON print_jobs
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage print jobs" ON print_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE printers IS 'Network (raw TCP, usually port 9100) ESC/POS thermal printers';
+COMMENT ON COLUMN printers.station IS 'Kitchen station whose chits this printer receives; NULL = all stations';
+COMMENT ON TABLE print_jobs IS 'Queued ESC/POS documents; failed sends are retried by the print_queue_retry job';
+COMMENT ON COLUMN print_jobs.content IS 'Base64 encoded ESC/POS bytes exactly as sent to the printer';
@@ -0,0 +1,26 @@
+-- Realtime Events Migration
+-- This migration publishes the tables behind the staff push channel (/api/events) to Supabase Realtime
+-- Changes to notifications, orders and sessions are fanned out by src/lib/realtime-hub.ts
+
+DO $$
+DECLARE
+    published_table TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+
+    FOREACH published_table IN ARRAY ARRAY['notifications', 'orders', 'sessions'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+              AND schemaname = 'public'
+              AND tablename = published_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', published_table);
+        END IF;
+    END LOOP;
+END $$;
+
+-- Staff screens filter pushed events by session; index the lookups used to reload after a resync
+CREATE INDEX IF NOT EXISTS idx_notifications_status_created_at ON notifications(status, created_at DESC);
@@ -0,0 +1,70 @@
+-- Waiter Requests Migration
+-- This migration stores diner bill/help requests against the session and table, routed to the
+-- session's assigned staff member, with acknowledge/resolve timestamps and response times
+
+CREATE TABLE IF NOT EXISTS waiter_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  table_id UUID REFERENCES tables(id) ON DELETE SET NULL,
+  table_number TEXT,
+  request_type TEXT NOT NULL, -- 'bill' or 'help'
+  customer_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  notes TEXT,
+  assigned_staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  assigned_staff_name TEXT,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by TEXT,
+  completed_at TIMESTAMPTZ,
+  completed_by TEXT,
+  response_seconds INTEGER, -- request to acknowledgement
+  resolution_seconds INTEGER, -- request to completion
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (request_type IN ('bill', 'help')),
+  CHECK (status IN ('pending', 'acknowledged', 'completed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_waiter_requests_status_created_at ON waiter_requests(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_waiter_requests_session_id ON waiter_requests(session_id);
+CREATE INDEX IF NOT EXISTS idx_waiter_requests_assigned_staff_id ON waiter_requests(assigned_staff_id);
+
+-- One open request of each type per table session, so a double tap cannot raise (and escalate) two
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waiter_requests_open_per_session
+ON waiter_requests(session_id, request_type)
+WHERE status IN ('pending', 'acknowledged');
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_waiter_requests_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_waiter_requests_updated_at ON waiter_requests;
+CREATE TRIGGER trigger_update_waiter_requests_updated_at
+  BEFORE UPDATE ON waiter_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_waiter_requests_updated_at();
+
+-- Enable RLS
+ALTER TABLE waiter_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view waiter requests" ON waiter_requests;
+DROP POLICY IF EXISTS "Service role can manage waiter requests" ON waiter_requests;
+
+CREATE POLICY "Users can view waiter requests" ON waiter_requests
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage waiter requests" ON waiter_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE waiter_requests IS 'Diner bill and help requests; each raises a waiter_request notification';
+COMMENT ON COLUMN waiter_requests.assigned_staff_id IS 'Staff member serving the session when the request was made';
+COMMENT ON COLUMN waiter_requests.response_seconds IS 'Seconds from the request until staff acknowledged it';
+COMMENT ON COLUMN waiter_requests.resolution_seconds IS 'Seconds from the request until staff completed it';
@@ -0,0 +1,43 @@
+-- Notification Escalation Migration
+-- This migration adds escalation of unacknowledged staff notifications: after the floor threshold
+-- a notification goes to all floor staff, after the manager threshold to the manager
+-- Escalation is run every minute by the notification_escalation job (src/lib/scheduled-jobs.ts)
+
+-- Per-restaurant thresholds in minutes; 0 turns a level off
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS escalation_floor_minutes INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS escalation_manager_minutes INTEGER NOT NULL DEFAULT 5;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'restaurant_settings_escalation_minutes_check'
+    ) THEN
+        ALTER TABLE restaurant_settings
+        ADD CONSTRAINT restaurant_settings_escalation_minutes_check
+        CHECK (escalation_floor_minutes BETWEEN 0 AND 120 AND escalation_manager_minutes BETWEEN 0 AND 120);
+    END IF;
+END $$;
+
+-- Escalation state and history on each notification
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0; -- 0 = assigned waiter, 1 = floor, 2 = manager
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS escalation_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- The escalation job scans pending notifications that can still escalate
+CREATE INDEX IF NOT EXISTS idx_notifications_escalation ON notifications(created_at)
+  WHERE status = 'pending' AND escalation_level < 2;
+
+-- Add comments for documentation
+COMMENT ON COLUMN restaurant_settings.escalation_floor_minutes IS 'Minutes a notification can stay pending before it goes to all floor staff (0 = never)';
+COMMENT ON COLUMN restaurant_settings.escalation_manager_minutes IS 'Minutes a notification can stay pending before it goes to the manager (0 = never)';
+COMMENT ON COLUMN notifications.escalation_level IS '0 = assigned waiter only, 1 = all floor staff, 2 = manager';
+COMMENT ON COLUMN notifications.escalation_history IS 'Escalation steps: level, target, escalated_at, pending_seconds and staff notified';
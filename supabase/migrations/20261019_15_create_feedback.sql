@@ -0,0 +1,81 @@
+-- Diner Feedback Migration
+-- This migration stores the star rating and comment diners leave after paying, linked to the session,
+-- table and the staff member who served it, with a snapshot of what was ordered for per-item ratings
+-- Ratings at or below restaurant_settings.low_rating_threshold raise a low_rating notification for the manager
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS low_rating_threshold INTEGER NOT NULL DEFAULT 2;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'restaurant_settings_low_rating_threshold_check'
+    ) THEN
+        ALTER TABLE restaurant_settings
+        ADD CONSTRAINT restaurant_settings_low_rating_threshold_check
+        CHECK (low_rating_threshold BETWEEN 0 AND 4);
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  table_id UUID REFERENCES tables(id) ON DELETE SET NULL,
+  table_number TEXT,
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  staff_name TEXT,
+  customer_name TEXT,
+  rating INTEGER NOT NULL,
+  comment TEXT,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ menu_item_id, name, quantity }] ordered in the session
+  is_low_rating BOOLEAN NOT NULL DEFAULT false,
+  alert_notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (rating BETWEEN 1 AND 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_restaurant_created_at ON feedback(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_feedback_session_id ON feedback(session_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_staff_id ON feedback(staff_id);
+
+-- One rating per diner per visit (diners who give no name share one)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_one_per_diner ON feedback(session_id, COALESCE(customer_name, ''));
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_feedback_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_feedback_updated_at ON feedback;
+CREATE TRIGGER trigger_update_feedback_updated_at
+  BEFORE UPDATE ON feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_feedback_updated_at();
+
+-- Enable RLS
+ALTER TABLE feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view feedback" ON feedback;
+DROP POLICY IF EXISTS "Service role can manage feedback" ON feedback;
+
+CREATE POLICY "Users can view feedback" ON feedback
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage feedback" ON feedback
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE feedback IS 'Diner ratings (1-5 stars) and comments left after paying';
+COMMENT ON COLUMN feedback.staff_id IS 'Staff member serving the session when the feedback was left';
+COMMENT ON COLUMN feedback.items IS 'Items ordered in the session, used for per-item ratings';
+COMMENT ON COLUMN feedback.is_low_rating IS 'Rating was at or below the restaurant low_rating_threshold and alerted the manager';
+COMMENT ON COLUMN restaurant_settings.low_rating_threshold IS 'Ratings at or below this many stars alert the manager (0 = never)';
@@ -0,0 +1,40 @@
+-- Receipt Email Delivery Migration
+-- This migration records delivery of digital receipts on the session: the address, delivery status,
+-- attempts made, the last error and the message id the mail server accepted
+-- Receipts are sent by POST /api/receipt/send through the transport in src/lib/mail-transport.ts
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_email TEXT;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_sent_at TIMESTAMPTZ;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_email_status TEXT; -- NULL until a receipt is requested
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_email_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_email_last_error TEXT;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS receipt_email_message_id TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'sessions_receipt_email_status_check'
+    ) THEN
+        ALTER TABLE sessions
+        ADD CONSTRAINT sessions_receipt_email_status_check
+        CHECK (receipt_email_status IS NULL OR receipt_email_status IN ('sending', 'retrying', 'sent', 'failed'));
+    END IF;
+END $$;
+
+-- Add comments for documentation
+COMMENT ON COLUMN sessions.receipt_email IS 'Address the digital receipt was last sent to';
+COMMENT ON COLUMN sessions.receipt_sent_at IS 'When the mail server accepted the digital receipt';
+COMMENT ON COLUMN sessions.receipt_email_status IS 'sending, retrying (after a transient failure), sent or failed';
+COMMENT ON COLUMN sessions.receipt_email_attempts IS 'Delivery attempts made for the latest receipt request';
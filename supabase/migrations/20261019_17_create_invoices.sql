@@ -0,0 +1,113 @@
+-- Tax Invoices Migration
+-- This migration adds PDF tax invoices: restaurant invoice details in restaurant_settings, a per-restaurant
+-- invoice counter and an invoices table holding the number and a snapshot of the invoiced receipt
+-- Numbers are issued by issue_invoice(), which allocates and inserts in one transaction so no number is skipped
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS business_address TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE restaurant_settings
+ADD COLUMN IF NOT EXISTS vat_registration_number TEXT NOT NULL DEFAULT '';
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  restaurant_id UUID PRIMARY KEY REFERENCES restaurants(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  invoice_number INTEGER NOT NULL,
+  bill_to_name TEXT,
+  bill_to_company TEXT,
+  bill_to_vat_number TEXT,
+  data JSONB NOT NULL, -- receipt lines and totals as invoiced
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (session_id),
+  UNIQUE (restaurant_id, invoice_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_restaurant_issued_at ON invoices(restaurant_id, issued_at DESC);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_invoices_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_invoices_updated_at ON invoices;
+CREATE TRIGGER trigger_update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_invoices_updated_at();
+
+-- Issue the invoice for a session, or return the one already issued
+-- The counter row lock serialises issuing per restaurant; a failed insert rolls the counter back with it
+CREATE OR REPLACE FUNCTION issue_invoice(
+  p_restaurant_id UUID,
+  p_session_id UUID,
+  p_data JSONB,
+  p_bill_to JSONB DEFAULT '{}'::jsonb
+)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE session_id = p_session_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  INSERT INTO invoice_sequences (restaurant_id, last_number)
+  VALUES (p_restaurant_id, 1)
+  ON CONFLICT (restaurant_id)
+  DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO invoices (restaurant_id, session_id, invoice_number, bill_to_name, bill_to_company, bill_to_vat_number, data)
+  VALUES (
+    p_restaurant_id,
+    p_session_id,
+    v_number,
+    NULLIF(p_bill_to->>'name', ''),
+    NULLIF(p_bill_to->>'company', ''),
+    NULLIF(p_bill_to->>'vat_number', ''),
+    p_data
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage invoice sequences" ON invoice_sequences;
+DROP POLICY IF EXISTS "Users can view invoices" ON invoices;
+DROP POLICY IF EXISTS "Service role can manage invoices" ON invoices;
+
+CREATE POLICY "Service role can manage invoice sequences" ON invoice_sequences
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view invoices" ON invoices
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage invoices" ON invoices
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE invoices IS 'Tax invoices issued for sessions, numbered sequentially per restaurant';
+COMMENT ON COLUMN invoices.invoice_number IS 'Sequential per restaurant with no gaps; shown as INV-000001';
+COMMENT ON COLUMN invoices.data IS 'Receipt lines and totals as they were invoiced';
+COMMENT ON COLUMN restaurant_settings.business_address IS 'Address printed on tax invoices';
+COMMENT ON COLUMN restaurant_settings.vat_registration_number IS 'VAT registration number printed on tax invoices';
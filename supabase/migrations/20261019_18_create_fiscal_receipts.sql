@@ -0,0 +1,195 @@
+-- Fiscal Receipts Migration
+-- This migration adds sequential fiscal numbering: every completed payment gets a receipt number and every
+-- void or refund gets a credit note number referencing the receipt it reverses
+-- Each document type has its own series per restaurant; numbers are allocated by issue_fiscal_receipt() and
+-- issue_credit_note(), which take the counter row lock and insert in one transaction so no number is skipped
+
+CREATE TABLE IF NOT EXISTS fiscal_sequences (
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (restaurant_id, document_type)
+);
+
+CREATE TABLE IF NOT EXISTS fiscal_receipts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL DEFAULT 'receipt',
+  receipt_number INTEGER NOT NULL,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  payment_reference TEXT, -- orders.payment_reference of the settled payment
+  diner_name TEXT, -- set for individual payments
+  payment_method TEXT,
+  amount DECIMAL(10,2) NOT NULL, -- credit notes are stored as positive amounts
+  original_receipt_id UUID REFERENCES fiscal_receipts(id) ON DELETE RESTRICT,
+  reason TEXT,
+  issued_by TEXT,
+  data JSONB, -- receipt lines and totals as issued
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (restaurant_id, document_type, receipt_number)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'fiscal_receipts_document_type_check'
+    ) THEN
+        ALTER TABLE fiscal_receipts
+        ADD CONSTRAINT fiscal_receipts_document_type_check
+        CHECK (document_type IN ('receipt', 'credit_note'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'fiscal_receipts_credit_note_check'
+    ) THEN
+        ALTER TABLE fiscal_receipts
+        ADD CONSTRAINT fiscal_receipts_credit_note_check
+        CHECK ((document_type = 'credit_note') = (original_receipt_id IS NOT NULL));
+    END IF;
+END $$;
+
+-- One receipt per payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fiscal_receipts_payment_reference
+  ON fiscal_receipts(payment_reference) WHERE document_type = 'receipt';
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_session ON fiscal_receipts(session_id);
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_original ON fiscal_receipts(original_receipt_id);
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_restaurant_issued_at ON fiscal_receipts(restaurant_id, issued_at DESC);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_fiscal_receipts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_fiscal_receipts_updated_at ON fiscal_receipts;
+CREATE TRIGGER trigger_update_fiscal_receipts_updated_at
+  BEFORE UPDATE ON fiscal_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fiscal_receipts_updated_at();
+
+-- Next number in a restaurant's series; the row lock is held until the calling transaction ends
+CREATE OR REPLACE FUNCTION next_fiscal_number(p_restaurant_id UUID, p_document_type TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_number INTEGER;
+BEGIN
+  INSERT INTO fiscal_sequences (restaurant_id, document_type, last_number)
+  VALUES (p_restaurant_id, p_document_type, 1)
+  ON CONFLICT (restaurant_id, document_type)
+  DO UPDATE SET last_number = fiscal_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Issue the receipt for a payment, or return the one already issued for that payment reference
+CREATE OR REPLACE FUNCTION issue_fiscal_receipt(
+  p_restaurant_id UUID,
+  p_session_id UUID,
+  p_payment_reference TEXT,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT NULL,
+  p_diner_name TEXT DEFAULT NULL,
+  p_issued_by TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT NULL
+)
+RETURNS fiscal_receipts AS $$
+DECLARE
+  v_receipt fiscal_receipts;
+BEGIN
+  SELECT * INTO v_receipt FROM fiscal_receipts
+  WHERE payment_reference = p_payment_reference AND document_type = 'receipt';
+  IF FOUND THEN
+    RETURN v_receipt;
+  END IF;
+
+  INSERT INTO fiscal_receipts (
+    restaurant_id, document_type, receipt_number, session_id, payment_reference,
+    diner_name, payment_method, amount, issued_by, data
+  )
+  VALUES (
+    p_restaurant_id, 'receipt', next_fiscal_number(p_restaurant_id, 'receipt'), p_session_id, p_payment_reference,
+    p_diner_name, p_payment_method, p_amount, p_issued_by, p_data
+  )
+  RETURNING * INTO v_receipt;
+
+  RETURN v_receipt;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Issue a credit note against a receipt; credits can never exceed the receipt amount
+-- The receipt row is locked so concurrent credit notes are checked one at a time
+CREATE OR REPLACE FUNCTION issue_credit_note(
+  p_original_receipt_id UUID,
+  p_amount DECIMAL,
+  p_reason TEXT,
+  p_issued_by TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT NULL
+)
+RETURNS fiscal_receipts AS $$
+DECLARE
+  v_original fiscal_receipts;
+  v_credited DECIMAL;
+  v_credit_note fiscal_receipts;
+BEGIN
+  SELECT * INTO v_original FROM fiscal_receipts
+  WHERE id = p_original_receipt_id AND document_type = 'receipt'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt % not found', p_original_receipt_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_credited FROM fiscal_receipts
+  WHERE original_receipt_id = p_original_receipt_id;
+
+  IF p_amount <= 0 OR p_amount > v_original.amount - v_credited THEN
+    RAISE EXCEPTION 'Credit of % exceeds the % left on receipt %', p_amount, v_original.amount - v_credited, v_original.receipt_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO fiscal_receipts (
+    restaurant_id, document_type, receipt_number, session_id, payment_reference,
+    diner_name, payment_method, amount, original_receipt_id, reason, issued_by, data
+  )
+  VALUES (
+    v_original.restaurant_id, 'credit_note', next_fiscal_number(v_original.restaurant_id, 'credit_note'),
+    v_original.session_id, v_original.payment_reference, v_original.diner_name, v_original.payment_method,
+    p_amount, v_original.id, p_reason, p_issued_by, p_data
+  )
+  RETURNING * INTO v_credit_note;
+
+  RETURN v_credit_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE fiscal_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fiscal_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage fiscal sequences" ON fiscal_sequences;
+DROP POLICY IF EXISTS "Users can view fiscal receipts" ON fiscal_receipts;
+DROP POLICY IF EXISTS "Service role can manage fiscal receipts" ON fiscal_receipts;
+
+CREATE POLICY "Service role can manage fiscal sequences" ON fiscal_sequences
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view fiscal receipts" ON fiscal_receipts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage fiscal receipts" ON fiscal_receipts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE fiscal_receipts IS 'Fiscal receipts for completed payments and credit notes for voids and refunds';
+COMMENT ON COLUMN fiscal_receipts.receipt_number IS 'Sequential per restaurant and document type with no gaps; shown as R-000001 or CN-000001';
+COMMENT ON COLUMN fiscal_receipts.original_receipt_id IS 'The receipt a credit note reverses';
+COMMENT ON COLUMN fiscal_receipts.amount IS 'Amount paid, or amount credited for a credit note';
@@ -0,0 +1,105 @@
+-- Payments Ledger Migration
+-- This migration adds a payments ledger: one row per payment taken at a table (the whole table, or one diner
+-- when paying individually) with the amount, method, tip, diner, staff member and payment reference
+-- sessions.payment_status / final_total / payment_completed_at stay as the session summary; the ledger is
+-- what payment reports and individual payment status are read from
+
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  table_id UUID REFERENCES tables(id) ON DELETE SET NULL,
+  payment_type TEXT NOT NULL DEFAULT 'table',
+  diner_name TEXT, -- set for individual payments
+  amount DECIMAL(10,2) NOT NULL, -- bill amount paid, excluding tip
+  subtotal DECIMAL(10,2),
+  tax_amount DECIMAL(10,2),
+  service_charge DECIMAL(10,2),
+  tip_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  payment_method TEXT NOT NULL,
+  reference TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'completed',
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  completed_by TEXT,
+  fiscal_receipt_id UUID REFERENCES fiscal_receipts(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payments_payment_type_check'
+    ) THEN
+        ALTER TABLE payments
+        ADD CONSTRAINT payments_payment_type_check
+        CHECK (payment_type IN ('table', 'individual'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payments_status_check'
+    ) THEN
+        ALTER TABLE payments
+        ADD CONSTRAINT payments_status_check
+        CHECK (status IN ('pending', 'completed', 'failed', 'cancelled'));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payments_session ON payments(session_id);
+CREATE INDEX IF NOT EXISTS idx_payments_restaurant_completed_at ON payments(restaurant_id, completed_at DESC);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_payments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_payments_updated_at ON payments;
+CREATE TRIGGER trigger_update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payments_updated_at();
+
+-- Backfill one table payment per session already paid, using the reference stored on its settled orders
+INSERT INTO payments (restaurant_id, session_id, table_id, payment_type, amount, payment_method, reference, status, completed_at)
+SELECT
+  COALESCE(s.restaurant_id, '00000000-0000-0000-0000-000000000001'),
+  s.id,
+  s.table_id,
+  'table',
+  COALESCE(s.final_total, 0),
+  'unknown',
+  COALESCE(
+    (SELECT o.payment_reference FROM orders o WHERE o.session_id = s.id AND o.payment_reference IS NOT NULL LIMIT 1),
+    'LEGACY-' || s.id
+  ),
+  'completed',
+  COALESCE(s.payment_completed_at, s.updated_at)
+FROM sessions s
+WHERE s.payment_status = 'completed'
+  AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.session_id = s.id)
+ON CONFLICT (reference) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view payments" ON payments;
+DROP POLICY IF EXISTS "Service role can manage payments" ON payments;
+
+CREATE POLICY "Users can view payments" ON payments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage payments" ON payments
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE payments IS 'Ledger of payments taken per session; a table can have several (one per diner)';
+COMMENT ON COLUMN payments.amount IS 'Bill amount paid, excluding tip';
+COMMENT ON COLUMN payments.reference IS 'Payment reference, also stored on the orders the payment settled';
+COMMENT ON COLUMN payments.subtotal IS 'Bill breakdown when known; NULL for payments backfilled from sessions, whose amount includes any tip';
@@ -0,0 +1,23 @@
+-- Split Payments Migration
+-- This migration lets one bill be paid in several tenders ("P200 on card, rest in cash", or split evenly by N):
+-- each tender is a 'split' row in the payments ledger, and the session closes once the tenders cover the bill
+-- settled_at marks payments whose orders have been paid off, so they no longer count against the running balance
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS settled_at TIMESTAMPTZ;
+
+-- Payments on sessions already paid off are settled
+UPDATE payments p SET settled_at = COALESCE(p.completed_at, NOW())
+FROM sessions s
+WHERE p.session_id = s.id AND s.payment_status = 'completed' AND p.settled_at IS NULL;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_type_check;
+ALTER TABLE payments
+ADD CONSTRAINT payments_payment_type_check
+CHECK (payment_type IN ('table', 'individual', 'split'));
+
+CREATE INDEX IF NOT EXISTS idx_payments_session_open ON payments(session_id) WHERE settled_at IS NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN payments.payment_type IS 'table (whole bill), individual (one diner''s share) or split (one tender of a split bill)';
+COMMENT ON COLUMN payments.settled_at IS 'When the orders this payment went towards were marked paid; open payments count against the balance';
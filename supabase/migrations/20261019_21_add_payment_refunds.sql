@@ -0,0 +1,121 @@
+-- Payment Refunds Migration
+-- This migration lets a manager refund a completed payment in full, in part or item by item
+-- A refund is a negative 'refund' entry in the payments ledger linked to the payment it reverses and to the
+-- credit note issued against that payment's fiscal receipt
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS entry_type TEXT NOT NULL DEFAULT 'payment';
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS original_payment_id UUID REFERENCES payments(id) ON DELETE RESTRICT;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS credit_note_id UUID REFERENCES fiscal_receipts(id) ON DELETE SET NULL;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS refund_reason TEXT;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS refunded_items JSONB; -- receipt lines refunded: [{ line, name, quantity, amount }]
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payments_entry_type_check'
+    ) THEN
+        ALTER TABLE payments
+        ADD CONSTRAINT payments_entry_type_check
+        CHECK (entry_type IN ('payment', 'refund'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payments_refund_check'
+    ) THEN
+        ALTER TABLE payments
+        ADD CONSTRAINT payments_refund_check
+        CHECK (
+          (entry_type = 'payment' AND amount >= 0 AND original_payment_id IS NULL)
+          OR (entry_type = 'refund' AND amount <= 0 AND tip_amount <= 0 AND amount + tip_amount < 0 AND original_payment_id IS NOT NULL)
+        );
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payments_original_payment ON payments(original_payment_id);
+
+-- Reserve a refund as a 'pending' refund entry before any money goes back; pending refunds count against
+-- what is left to refund until they complete or fail
+-- The payment row, and its receipt when it has one, are locked so two refunds racing on the same payment or on
+-- the same receipt lines are checked one at a time
+CREATE OR REPLACE FUNCTION reserve_refund(
+  p_original_payment_id UUID,
+  p_refund JSONB
+)
+RETURNS payments AS $$
+DECLARE
+  v_original payments;
+  v_receipt fiscal_receipts;
+  v_refunded DECIMAL;
+  v_refund payments;
+BEGIN
+  SELECT * INTO v_original FROM payments
+  WHERE id = p_original_payment_id AND entry_type = 'payment' AND status = 'completed'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_original_payment_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(-SUM(amount + tip_amount), 0) INTO v_refunded FROM payments
+  WHERE original_payment_id = p_original_payment_id
+    AND entry_type = 'refund'
+    AND status IN ('pending', 'completed');
+
+  IF -((p_refund->>'amount')::DECIMAL + (p_refund->>'tip_amount')::DECIMAL) > v_original.amount + v_original.tip_amount - v_refunded THEN
+    RAISE EXCEPTION 'Refund exceeds the % left on payment %', v_original.amount + v_original.tip_amount - v_refunded, v_original.reference
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Item refunds are checked against the receipt lines, which every tender of a split bill shares
+  IF v_original.fiscal_receipt_id IS NOT NULL AND jsonb_typeof(p_refund->'refunded_items') = 'array' THEN
+    SELECT * INTO v_receipt FROM fiscal_receipts
+    WHERE id = v_original.fiscal_receipt_id
+    FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_refund->'refunded_items') AS requested
+      WHERE (requested->>'quantity')::INTEGER + COALESCE((
+        SELECT SUM((refunded->>'quantity')::INTEGER)
+        FROM payments r, jsonb_array_elements(COALESCE(r.refunded_items, '[]'::jsonb)) AS refunded
+        WHERE r.fiscal_receipt_id = v_original.fiscal_receipt_id
+          AND r.entry_type = 'refund'
+          AND r.status IN ('pending', 'completed')
+          AND refunded->>'line' = requested->>'line'
+      ), 0) > GREATEST(1, COALESCE((v_receipt.data->'items'->((requested->>'line')::INTEGER)->>'quantity')::INTEGER, 1))
+    ) THEN
+      RAISE EXCEPTION 'Refunded items exceed what is left on receipt %', v_receipt.receipt_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO payments (
+    restaurant_id, entry_type, session_id, table_id, payment_type, diner_name, amount, tip_amount,
+    payment_method, reference, status, completed_by, fiscal_receipt_id, original_payment_id,
+    refund_reason, refunded_items, settled_at
+  )
+  SELECT
+    v_original.restaurant_id, 'refund', v_original.session_id, v_original.table_id, v_original.payment_type,
+    v_original.diner_name, r.amount, r.tip_amount, r.payment_method, r.reference, 'pending', r.completed_by,
+    v_original.fiscal_receipt_id, v_original.id, r.refund_reason, r.refunded_items, NOW()
+  FROM jsonb_populate_record(NULL::payments, p_refund) AS r
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN payments.entry_type IS 'payment, or refund (negative amount and tip reversing original_payment_id; pending while the refund is in progress)';
+COMMENT ON COLUMN payments.original_payment_id IS 'The payment a refund reverses';
+COMMENT ON COLUMN payments.credit_note_id IS 'Credit note issued for a refund against the original payment''s receipt';
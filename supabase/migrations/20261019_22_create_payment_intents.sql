@@ -0,0 +1,94 @@
+-- Payment Intents Migration
+-- This migration adds payment intents: a diner paying for themselves at a self-serve restaurant creates an
+-- intent with the payment provider for the amount due, confirms it with their payment details, and the
+-- captured intent is then recorded in the payments ledger under the intent's reference
+-- payments.payment_intent_id links ledger rows to the intent so refunds can be sent back through the provider
+
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  payment_type TEXT NOT NULL DEFAULT 'table',
+  diner_name TEXT, -- set for individual payments
+  amount DECIMAL(10,2) NOT NULL, -- bill amount, excluding tip
+  tip_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'BWP',
+  payment_method TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_intent_id TEXT NOT NULL,
+  reference TEXT NOT NULL UNIQUE, -- payment reference the ledger row is recorded under
+  status TEXT NOT NULL DEFAULT 'requires_confirmation',
+  failure_reason TEXT,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider, provider_intent_id)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payment_intents_payment_type_check'
+    ) THEN
+        ALTER TABLE payment_intents
+        ADD CONSTRAINT payment_intents_payment_type_check
+        CHECK (payment_type IN ('table', 'individual'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payment_intents_status_check'
+    ) THEN
+        ALTER TABLE payment_intents
+        ADD CONSTRAINT payment_intents_status_check
+        CHECK (status IN ('requires_confirmation', 'processing', 'requires_capture', 'succeeded', 'failed', 'cancelled'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'payment_intents_amount_check'
+    ) THEN
+        ALTER TABLE payment_intents
+        ADD CONSTRAINT payment_intents_amount_check
+        CHECK (amount > 0 AND tip_amount >= 0);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_session ON payment_intents(session_id);
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS payment_intent_id UUID REFERENCES payment_intents(id) ON DELETE SET NULL;
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_payment_intents_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_payment_intents_updated_at ON payment_intents;
+CREATE TRIGGER trigger_update_payment_intents_updated_at
+  BEFORE UPDATE ON payment_intents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payment_intents_updated_at();
+
+-- Enable RLS
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view payment intents" ON payment_intents;
+DROP POLICY IF EXISTS "Service role can manage payment intents" ON payment_intents;
+
+CREATE POLICY "Users can view payment intents" ON payment_intents
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage payment intents" ON payment_intents
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE payment_intents IS 'Diner self-payments taken through the payment provider, from creation to capture';
+COMMENT ON COLUMN payment_intents.provider IS 'Payment provider that holds the intent, e.g. mock';
+COMMENT ON COLUMN payment_intents.reference IS 'Payment reference the captured payment is recorded under in the payments ledger';
+COMMENT ON COLUMN payments.payment_intent_id IS 'Provider payment intent, for payments diners made themselves';
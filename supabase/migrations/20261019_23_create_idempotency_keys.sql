@@ -0,0 +1,44 @@
+-- Idempotency Keys Migration
+-- This migration stores the Idempotency-Key sent with payment and order confirmation requests, a fingerprint of
+-- the request, and the response it got, so a request resubmitted over a flaky connection replays the original
+-- result instead of charging a table or firing orders to the kitchen twice
+-- Keys expire after 24 hours and are purged by the weekly data cleanup job
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  scope TEXT NOT NULL, -- endpoint the key was used on, e.g. payment.complete
+  key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL, -- SHA-256 of the request body
+  status TEXT NOT NULL DEFAULT 'processing',
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (scope, key)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'idempotency_keys_status_check'
+    ) THEN
+        ALTER TABLE idempotency_keys
+        ADD CONSTRAINT idempotency_keys_status_check
+        CHECK (status IN ('processing', 'completed'));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Enable RLS
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage idempotency keys" ON idempotency_keys;
+
+CREATE POLICY "Service role can manage idempotency keys" ON idempotency_keys
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key headers seen on payment and order confirmation requests, with the response to replay';
+COMMENT ON COLUMN idempotency_keys.status IS 'processing while the first request runs; completed once its response is stored';
@@ -0,0 +1,133 @@
+-- Cash Drawers Migration
+-- This migration adds cash-up sessions: a drawer is opened on a terminal for a staff member with an opening
+-- float, cash payments and cash refunds taken while it is open are linked to it, paid-outs are recorded
+-- against it, and at the end of the shift the counted cash is compared with what the drawer should hold
+
+CREATE TABLE IF NOT EXISTS cash_drawer_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  terminal TEXT NOT NULL,
+  staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  staff_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  opening_float DECIMAL(10,2) NOT NULL DEFAULT 0,
+  opened_by TEXT NOT NULL,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Filled in at cash-up
+  denominations JSONB, -- count per denomination, e.g. {"200": 2, "0.5": 4}
+  counted_cash DECIMAL(10,2),
+  expected_cash DECIMAL(10,2),
+  variance DECIMAL(10,2), -- counted less expected: negative is a shortage
+  closed_by TEXT,
+  closed_at TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'cash_drawer_sessions_status_check'
+    ) THEN
+        ALTER TABLE cash_drawer_sessions
+        ADD CONSTRAINT cash_drawer_sessions_status_check
+        CHECK (status IN ('open', 'closed'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'cash_drawer_sessions_float_check'
+    ) THEN
+        ALTER TABLE cash_drawer_sessions
+        ADD CONSTRAINT cash_drawer_sessions_float_check
+        CHECK (opening_float >= 0);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'cash_drawer_sessions_closed_check'
+    ) THEN
+        ALTER TABLE cash_drawer_sessions
+        ADD CONSTRAINT cash_drawer_sessions_closed_check
+        CHECK (status = 'open' OR (counted_cash IS NOT NULL AND expected_cash IS NOT NULL AND closed_at IS NOT NULL));
+    END IF;
+END $$;
+
+-- One open drawer per terminal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_sessions_open_terminal
+  ON cash_drawer_sessions(restaurant_id, terminal) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_sessions_opened ON cash_drawer_sessions(restaurant_id, opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS cash_paid_outs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  drawer_session_id UUID NOT NULL REFERENCES cash_drawer_sessions(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL,
+  reason TEXT NOT NULL,
+  recorded_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'cash_paid_outs_amount_check'
+    ) THEN
+        ALTER TABLE cash_paid_outs
+        ADD CONSTRAINT cash_paid_outs_amount_check
+        CHECK (amount > 0);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_cash_paid_outs_drawer ON cash_paid_outs(drawer_session_id);
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS cash_drawer_session_id UUID REFERENCES cash_drawer_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_cash_drawer ON payments(cash_drawer_session_id)
+  WHERE cash_drawer_session_id IS NOT NULL;
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_cash_drawer_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_cash_drawer_sessions_updated_at ON cash_drawer_sessions;
+CREATE TRIGGER trigger_update_cash_drawer_sessions_updated_at
+  BEFORE UPDATE ON cash_drawer_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_cash_drawer_sessions_updated_at();
+
+-- Enable RLS
+ALTER TABLE cash_drawer_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_paid_outs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view cash drawer sessions" ON cash_drawer_sessions;
+DROP POLICY IF EXISTS "Service role can manage cash drawer sessions" ON cash_drawer_sessions;
+DROP POLICY IF EXISTS "Users can view cash paid-outs" ON cash_paid_outs;
+DROP POLICY IF EXISTS "Service role can manage cash paid-outs" ON cash_paid_outs;
+
+CREATE POLICY "Users can view cash drawer sessions" ON cash_drawer_sessions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage cash drawer sessions" ON cash_drawer_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view cash paid-outs" ON cash_paid_outs
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage cash paid-outs" ON cash_paid_outs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE cash_drawer_sessions IS 'Cash-up sessions: one cash drawer on one terminal from opening float to end-of-shift count';
+COMMENT ON COLUMN cash_drawer_sessions.expected_cash IS 'Opening float plus cash taken less cash refunds and paid-outs, fixed at cash-up';
+COMMENT ON COLUMN cash_drawer_sessions.variance IS 'Counted cash less expected cash; negative means the drawer is short';
+COMMENT ON TABLE cash_paid_outs IS 'Cash taken out of a drawer for expenses, e.g. deliveries paid in cash';
+COMMENT ON COLUMN payments.cash_drawer_session_id IS 'Cash drawer a cash payment or cash refund went into or came out of';
@@ -0,0 +1,130 @@
+-- Z-Reports Migration
+-- This migration adds end-of-day Z-reports: before the daily reset closes sessions and frees tables, the day's
+-- takings for each restaurant are totalled and stored under a sequential Z number
+-- Each report runs from where the restaurant's previous one ended; reports are immutable once issued
+
+CREATE TABLE IF NOT EXISTS z_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE RESTRICT,
+  z_number INTEGER NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  generated_by TEXT,
+  gross_sales DECIMAL(12,2) NOT NULL DEFAULT 0, -- payments excluding tips, tax and service charge included
+  vat DECIMAL(12,2) NOT NULL DEFAULT 0,
+  service_charge DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tips DECIMAL(12,2) NOT NULL DEFAULT 0,
+  discounts DECIMAL(12,2) NOT NULL DEFAULT 0,
+  voids DECIMAL(12,2) NOT NULL DEFAULT 0,
+  refunds DECIMAL(12,2) NOT NULL DEFAULT 0, -- positive amount handed back, tips included
+  net_sales DECIMAL(12,2) NOT NULL DEFAULT 0, -- gross sales less the bill part of refunds
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  covers INTEGER NOT NULL DEFAULT 0,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb, -- payment methods, staff, voids, receipts and cash drawers
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (restaurant_id, z_number),
+  UNIQUE (restaurant_id, period_start)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'z_reports_source_check'
+    ) THEN
+        ALTER TABLE z_reports
+        ADD CONSTRAINT z_reports_source_check
+        CHECK (source IN ('manual', 'scheduled'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.check_constraints
+        WHERE constraint_name = 'z_reports_period_check'
+    ) THEN
+        ALTER TABLE z_reports
+        ADD CONSTRAINT z_reports_period_check
+        CHECK (period_end > period_start);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_z_reports_restaurant_period ON z_reports(restaurant_id, period_end DESC);
+
+-- Z-reports are fiscal records: once issued they can be neither changed nor deleted
+CREATE OR REPLACE FUNCTION prevent_z_report_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Z-report % cannot be changed once issued', OLD.z_number USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_z_report_changes ON z_reports;
+CREATE TRIGGER trigger_prevent_z_report_changes
+  BEFORE UPDATE OR DELETE ON z_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_z_report_changes();
+
+-- Issue a Z-report under the restaurant's next Z number, or return the one already issued for that period
+-- Reports for one restaurant are issued one at a time so the series stays gap-free
+CREATE OR REPLACE FUNCTION issue_z_report(
+  p_restaurant_id UUID,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_source TEXT,
+  p_generated_by TEXT,
+  p_report JSONB
+)
+RETURNS z_reports AS $$
+DECLARE
+  v_report z_reports;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('z_report:' || p_restaurant_id::TEXT));
+
+  SELECT * INTO v_report FROM z_reports
+  WHERE restaurant_id = p_restaurant_id AND period_start = p_period_start;
+  IF FOUND THEN
+    RETURN v_report;
+  END IF;
+
+  INSERT INTO z_reports (
+    restaurant_id, z_number, period_start, period_end, source, generated_by,
+    gross_sales, vat, service_charge, tips, discounts, voids, refunds, net_sales,
+    payment_count, covers, data
+  )
+  VALUES (
+    p_restaurant_id, next_fiscal_number(p_restaurant_id, 'z_report'), p_period_start, p_period_end, p_source, p_generated_by,
+    COALESCE((p_report->>'gross_sales')::DECIMAL, 0),
+    COALESCE((p_report->>'vat')::DECIMAL, 0),
+    COALESCE((p_report->>'service_charge')::DECIMAL, 0),
+    COALESCE((p_report->>'tips')::DECIMAL, 0),
+    COALESCE((p_report->>'discounts')::DECIMAL, 0),
+    COALESCE((p_report->>'voids')::DECIMAL, 0),
+    COALESCE((p_report->>'refunds')::DECIMAL, 0),
+    COALESCE((p_report->>'net_sales')::DECIMAL, 0),
+    COALESCE((p_report->>'payment_count')::INTEGER, 0),
+    COALESCE((p_report->>'covers')::INTEGER, 0),
+    COALESCE(p_report->'data', '{}'::jsonb)
+  )
+  RETURNING * INTO v_report;
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE z_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view z reports" ON z_reports;
+DROP POLICY IF EXISTS "Service role can manage z reports" ON z_reports;
+
+CREATE POLICY "Users can view z reports" ON z_reports
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage z reports" ON z_reports
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Add comments for documentation
+COMMENT ON TABLE z_reports IS 'End-of-day Z-reports issued by the daily reset, one per restaurant per reset';
+COMMENT ON COLUMN z_reports.z_number IS 'Sequential per restaurant, allocated from fiscal_sequences (document type z_report)';
+COMMENT ON COLUMN z_reports.period_start IS 'End of the previous Z-report, so consecutive reports cover every payment once';
+COMMENT ON COLUMN z_reports.data IS 'Breakdowns by payment method and staff member, voided items, receipt range and cash drawers';
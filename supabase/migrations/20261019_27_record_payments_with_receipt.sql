@@ -0,0 +1,81 @@
+-- Payment Receipt Transaction Migration
+-- This migration writes a payment's ledger entries and allocates its fiscal receipt number in one transaction,
+-- so a completed payment never goes without a receipt number and a failed receipt leaves nothing recorded
+
+-- Record ledger entries and, when p_receipt is given, issue their receipt and link every payment it covers
+-- p_session_id / p_expected_payment_count: the session is locked and must still be pending with the payments the
+-- caller priced the balance from, so two completions racing on one bill cannot both record against it
+-- p_payments: payments rows as JSON; an entry whose reference is already recorded keeps the existing payment
+-- p_receipt: restaurant_id, session_id, payment_reference, amount, payment_method, diner_name, issued_by, data,
+-- and link_references (the tenders of a split bill recorded earlier share the receipt)
+DROP FUNCTION IF EXISTS record_payments_with_receipt(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION record_payments_with_receipt(
+  p_session_id UUID,
+  p_expected_payment_count INTEGER,
+  p_payments JSONB,
+  p_receipt JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_receipt fiscal_receipts;
+  v_payment_status TEXT;
+  v_payment_count INTEGER;
+BEGIN
+  SELECT payment_status INTO v_payment_status FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_payment_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'The bill is no longer awaiting payment' USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  SELECT COUNT(*) INTO v_payment_count
+  FROM payments
+  WHERE session_id = p_session_id
+    AND entry_type = 'payment'
+    AND status = 'completed'
+    AND reference NOT IN (SELECT entry->>'reference' FROM jsonb_array_elements(p_payments) AS e(entry));
+  IF v_payment_count <> p_expected_payment_count THEN
+    RAISE EXCEPTION 'Another payment was recorded against this bill' USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO payments (
+    restaurant_id, session_id, table_id, payment_type, diner_name, amount, subtotal, tax_amount,
+    service_charge, tip_amount, payment_method, reference, status, staff_id, completed_by, completed_at,
+    payment_intent_id
+  )
+  SELECT
+    restaurant_id, session_id, table_id, payment_type, diner_name, amount, subtotal, tax_amount,
+    service_charge, tip_amount, payment_method, reference, 'completed', staff_id, completed_by, completed_at,
+    payment_intent_id
+  FROM jsonb_populate_recordset(NULL::payments, p_payments)
+  ON CONFLICT (reference) DO NOTHING;
+
+  IF p_receipt IS NOT NULL THEN
+    v_receipt := issue_fiscal_receipt(
+      (p_receipt->>'restaurant_id')::UUID,
+      (p_receipt->>'session_id')::UUID,
+      p_receipt->>'payment_reference',
+      (p_receipt->>'amount')::DECIMAL,
+      p_receipt->>'payment_method',
+      p_receipt->>'diner_name',
+      p_receipt->>'issued_by',
+      NULLIF(p_receipt->'data', 'null'::jsonb)
+    );
+
+    UPDATE payments
+    SET fiscal_receipt_id = v_receipt.id
+    WHERE reference IN (SELECT jsonb_array_elements_text(p_receipt->'link_references'));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payments', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(p) ORDER BY e.position), '[]'::jsonb)
+      FROM jsonb_array_elements(p_payments) WITH ORDINALITY AS e(entry, position)
+      JOIN payments p ON p.reference = e.entry->>'reference'
+    ),
+    'receipt', CASE WHEN p_receipt IS NULL THEN NULL ELSE to_jsonb(v_receipt) END
+  );
+END;
+$$ LANGUAGE plpgsql;
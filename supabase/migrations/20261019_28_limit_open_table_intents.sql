@@ -0,0 +1,27 @@
+-- Open Table Intents Migration
+-- This migration allows one open table self-payment per session: a table intent fixes the balance when it is
+-- created, so a second one captured alongside it would charge the table twice
+-- An intent stays open until it is linked to its ledger payment, fails or is cancelled
+
+-- Cancel all but the newest open table intent that has not been paid yet
+UPDATE payment_intents
+SET status = 'cancelled', failure_reason = 'Replaced by a newer table payment'
+WHERE payment_type = 'table'
+  AND payment_id IS NULL
+  AND status = 'requires_confirmation'
+  AND id NOT IN (
+    SELECT DISTINCT ON (session_id) id
+    FROM payment_intents
+    WHERE payment_type = 'table'
+      AND payment_id IS NULL
+      AND status IN ('requires_confirmation', 'processing', 'requires_capture', 'succeeded')
+    ORDER BY session_id, created_at DESC
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_intents_open_table
+ON payment_intents(session_id)
+WHERE payment_type = 'table'
+  AND payment_id IS NULL
+  AND status IN ('requires_confirmation', 'processing', 'requires_capture', 'succeeded');
+
+COMMENT ON INDEX idx_payment_intents_open_table IS 'One open table self-payment per session';
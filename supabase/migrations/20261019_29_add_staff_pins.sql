@@ -0,0 +1,20 @@
+-- Staff PIN Migration
+-- This migration adds a PIN to each staff member: staff login checks it on the server before handing out the
+-- signed staff token that payment completion trusts, and locks the login after repeated wrong PINs
+
+ALTER TABLE IF EXISTS staff
+ADD COLUMN IF NOT EXISTS pin_hash TEXT,
+ADD COLUMN IF NOT EXISTS failed_pin_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMPTZ;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'staff'
+    ) THEN
+        COMMENT ON COLUMN staff.pin_hash IS 'bcrypt hash of the staff member''s login PIN; staff without one cannot log in';
+        COMMENT ON COLUMN staff.failed_pin_attempts IS 'Wrong PINs entered since the last successful login';
+        COMMENT ON COLUMN staff.pin_locked_until IS 'Login is refused until this time after too many wrong PINs';
+    END IF;
+END $$;
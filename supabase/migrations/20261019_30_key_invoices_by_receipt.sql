@@ -0,0 +1,69 @@
+-- Invoices Per Receipt Migration
+-- This migration issues one tax invoice per fiscal receipt instead of one per session: diners who pay
+-- individually each get their own receipt, so each gets their own invoice with their own items and bill-to
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS fiscal_receipt_id UUID REFERENCES fiscal_receipts(id) ON DELETE RESTRICT;
+
+-- Existing invoices belong to the receipt whose number they show
+UPDATE invoices i
+SET fiscal_receipt_id = r.id
+FROM fiscal_receipts r
+WHERE i.fiscal_receipt_id IS NULL
+  AND r.session_id = i.session_id
+  AND r.document_type = 'receipt'
+  AND i.data->>'receiptNumber' = 'R-' || lpad(r.receipt_number::text, 6, '0');
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_session_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_fiscal_receipt ON invoices(fiscal_receipt_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_session ON invoices(session_id);
+
+DROP FUNCTION IF EXISTS issue_invoice(UUID, UUID, JSONB, JSONB);
+
+-- Issue the invoice for a fiscal receipt, or return the one already issued
+-- The counter row lock serialises issuing per restaurant; a failed insert rolls the counter back with it
+CREATE OR REPLACE FUNCTION issue_invoice(
+  p_restaurant_id UUID,
+  p_session_id UUID,
+  p_fiscal_receipt_id UUID,
+  p_data JSONB,
+  p_bill_to JSONB DEFAULT '{}'::jsonb
+)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE fiscal_receipt_id = p_fiscal_receipt_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  INSERT INTO invoice_sequences (restaurant_id, last_number)
+  VALUES (p_restaurant_id, 1)
+  ON CONFLICT (restaurant_id)
+  DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO invoices (
+    restaurant_id, session_id, fiscal_receipt_id, invoice_number, bill_to_name, bill_to_company, bill_to_vat_number, data
+  )
+  VALUES (
+    p_restaurant_id,
+    p_session_id,
+    p_fiscal_receipt_id,
+    v_number,
+    NULLIF(p_bill_to->>'name', ''),
+    NULLIF(p_bill_to->>'company', ''),
+    NULLIF(p_bill_to->>'vat_number', ''),
+    p_data
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE invoices IS 'Tax invoices issued for fiscal receipts, numbered sequentially per restaurant';
+COMMENT ON COLUMN invoices.fiscal_receipt_id IS 'Receipt the invoice was issued for; each receipt has at most one invoice';
@@ -0,0 +1,24 @@
+-- Staff Restaurant Migration
+-- This migration records which restaurant each staff member works at, so escalations and other staff lookups
+-- only reach the restaurant's own staff
+-- Staff recorded before this belong to the default restaurant, as staff login already assumed
+
+ALTER TABLE IF EXISTS staff
+ADD COLUMN IF NOT EXISTS restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'staff'
+    ) THEN
+        UPDATE staff SET restaurant_id = '00000000-0000-0000-0000-000000000001' WHERE restaurant_id IS NULL;
+
+        ALTER TABLE staff ALTER COLUMN restaurant_id SET DEFAULT '00000000-0000-0000-0000-000000000001';
+        ALTER TABLE staff ALTER COLUMN restaurant_id SET NOT NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_staff_restaurant_role ON staff(restaurant_id, role);
+
+        COMMENT ON COLUMN staff.restaurant_id IS 'Restaurant the staff member works at';
+    END IF;
+END $$;
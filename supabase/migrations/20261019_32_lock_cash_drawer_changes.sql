@@ -0,0 +1,112 @@
+-- Cash Drawer Locking Migration
+-- This migration moves the writes that depend on a drawer being open into functions that lock the drawer row,
+-- so cash cannot be put in a drawer, or taken out of it, while it is being cashed up, and expected cash is
+-- worked out in the same transaction that closes the drawer
+
+-- Link cash ledger entries to a drawer if it is still open; returns the drawer, or NULL when it is not open
+-- The share lock waits for a cash-up in progress, which then counts these entries or has already closed the drawer
+CREATE OR REPLACE FUNCTION assign_cash_to_drawer(
+  p_drawer_id UUID,
+  p_payment_ids UUID[]
+)
+RETURNS cash_drawer_sessions AS $$
+DECLARE
+  v_drawer cash_drawer_sessions;
+BEGIN
+  SELECT * INTO v_drawer
+  FROM cash_drawer_sessions
+  WHERE id = p_drawer_id AND status = 'open'
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE payments
+  SET cash_drawer_session_id = p_drawer_id
+  WHERE id = ANY(p_payment_ids)
+    AND payment_method = 'cash'
+    AND cash_drawer_session_id IS NULL;
+
+  RETURN v_drawer;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a paid-out against a drawer that is still open
+CREATE OR REPLACE FUNCTION record_cash_paid_out(
+  p_drawer_id UUID,
+  p_amount DECIMAL,
+  p_reason TEXT,
+  p_recorded_by TEXT
+)
+RETURNS cash_paid_outs AS $$
+DECLARE
+  v_status TEXT;
+  v_paid_out cash_paid_outs;
+BEGIN
+  SELECT status INTO v_status FROM cash_drawer_sessions WHERE id = p_drawer_id FOR SHARE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cash drawer % not found', p_drawer_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'This drawer has already been cashed up' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  INSERT INTO cash_paid_outs (drawer_session_id, amount, reason, recorded_by)
+  VALUES (p_drawer_id, p_amount, p_reason, p_recorded_by)
+  RETURNING * INTO v_paid_out;
+
+  RETURN v_paid_out;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cash up a drawer: lock it, fix expected cash from the cash linked to it and the paid-outs taken from it,
+-- and close it with the counted cash and the variance
+CREATE OR REPLACE FUNCTION close_cash_drawer(
+  p_drawer_id UUID,
+  p_denominations JSONB,
+  p_counted_cash DECIMAL,
+  p_closed_by TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_drawer_sessions AS $$
+DECLARE
+  v_drawer cash_drawer_sessions;
+  v_cash_movements DECIMAL;
+  v_paid_out DECIMAL;
+  v_expected_cash DECIMAL;
+BEGIN
+  SELECT * INTO v_drawer FROM cash_drawer_sessions WHERE id = p_drawer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cash drawer % not found', p_drawer_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_drawer.status <> 'open' THEN
+    RAISE EXCEPTION 'This drawer has already been cashed up' USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  -- Refund entries carry negative amounts, so one sum nets cash taken against cash refunded
+  SELECT COALESCE(SUM(amount + tip_amount), 0) INTO v_cash_movements
+  FROM payments
+  WHERE cash_drawer_session_id = p_drawer_id AND status = 'completed';
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid_out
+  FROM cash_paid_outs
+  WHERE drawer_session_id = p_drawer_id;
+
+  v_expected_cash := ROUND(v_drawer.opening_float + v_cash_movements - v_paid_out, 2);
+
+  UPDATE cash_drawer_sessions
+  SET status = 'closed',
+      denominations = p_denominations,
+      counted_cash = p_counted_cash,
+      expected_cash = v_expected_cash,
+      variance = ROUND(p_counted_cash - v_expected_cash, 2),
+      closed_by = p_closed_by,
+      closed_at = NOW(),
+      notes = p_notes
+  WHERE id = p_drawer_id
+  RETURNING * INTO v_drawer;
+
+  RETURN v_drawer;
+END;
+$$ LANGUAGE plpgsql;